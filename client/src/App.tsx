@@ -1,47 +1,86 @@
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
+import { ThemeProvider } from "next-themes";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Sidebar } from "@/components/sidebar";
+import { SettingsEffects } from "@/components/settings-effects";
 import Dashboard from "@/pages/dashboard";
 import Servers from "@/pages/servers";
 import Metrics from "@/pages/metrics";
 import Alerts from "@/pages/alerts";
+import Reports from "@/pages/reports";
+import Maintenance from "@/pages/maintenance";
+import OnCall from "@/pages/on-call";
 import { LogsPage } from "@/pages/logs";
+import LogSearch from "@/pages/log-search";
 import SshManager from "@/pages/ssh-manager";
 import Settings from "@/pages/settings";
 import Orchestration from "@/pages/orchestration";
+import Users from "@/pages/users";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
+import { useAuth } from "@/hooks/use-auth";
 
 function Router() {
+  const { hasRole } = useAuth();
+
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/servers" component={Servers} />
       <Route path="/metrics" component={Metrics} />
       <Route path="/alerts" component={Alerts} />
+      <Route path="/reports" component={Reports} />
+      <Route path="/maintenance" component={Maintenance} />
+      <Route path="/on-call" component={OnCall} />
       <Route path="/logs" component={LogsPage} />
+      <Route path="/log-search" component={LogSearch} />
       <Route path="/ssh" component={SshManager} />
       <Route path="/operations" component={Orchestration} />
       <Route path="/settings" component={Settings} />
+      {hasRole("admin") && <Route path="/users" component={Users} />}
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+function AuthenticatedApp() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
+  return (
+    <div className="min-h-screen flex bg-background">
+      <SettingsEffects />
+      <Sidebar />
+      <main className="flex-1 overflow-auto">
+        <Router />
+      </main>
+    </div>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <div className="min-h-screen flex bg-background">
-          <Sidebar />
-          <main className="flex-1 overflow-auto">
-            <Toaster />
-            <Router />
-          </main>
-        </div>
-      </TooltipProvider>
+      <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
+        <TooltipProvider>
+          <Toaster />
+          <AuthenticatedApp />
+        </TooltipProvider>
+      </ThemeProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,501 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertAlertRuleSchema,
+  type AlertRule,
+  type InsertAlertRule,
+  type PublicServer,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Bell, Pencil, Plus, Trash2 } from "lucide-react";
+
+const METRIC_OPTIONS: Record<string, { label: string; unit: string }> = {
+  cpu: { label: "CPU", unit: "%" },
+  memory: { label: "Memória", unit: "%" },
+  disk: { label: "Disco", unit: "%" },
+  networkIn: { label: "Rede (entrada)", unit: " KB/s" },
+  networkOut: { label: "Rede (saída)", unit: " KB/s" },
+};
+
+const OPERATOR_OPTIONS: Record<string, string> = {
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+const SCOPE_OPTIONS: Record<string, string> = {
+  global: "Global",
+  environment: "Ambiente",
+  serverType: "Tipo de servidor",
+  tag: "Tag",
+  server: "Servidor",
+};
+
+const ENVIRONMENT_OPTIONS: Record<string, string> = {
+  production: "Produção",
+  staging: "Homologação",
+  development: "Desenvolvimento",
+};
+
+const SERVER_TYPE_OPTIONS: Record<string, string> = {
+  web: "Web",
+  database: "Database",
+  hybrid: "Híbrido",
+  mail: "Mail",
+  backup: "Backup",
+};
+
+const SEVERITY_OPTIONS: Record<string, string> = {
+  info: "Info",
+  warning: "Aviso",
+  critical: "Crítico",
+};
+
+function AlertRuleForm({ rule, onSuccess }: { rule?: AlertRule; onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const isEditing = !!rule;
+
+  const { data: servers } = useQuery<PublicServer[]>({
+    queryKey: ["/api/servers"],
+  });
+
+  const form = useForm<InsertAlertRule>({
+    resolver: zodResolver(insertAlertRuleSchema),
+    defaultValues: {
+      name: rule?.name || "",
+      metric: (rule?.metric as InsertAlertRule["metric"]) || "cpu",
+      operator: (rule?.operator as InsertAlertRule["operator"]) || "gt",
+      threshold: rule?.threshold || "80",
+      durationMinutes: rule?.durationMinutes ?? 0,
+      severity: (rule?.severity as InsertAlertRule["severity"]) || "warning",
+      hysteresis: rule?.hysteresis || "0",
+      scopeType: (rule?.scopeType as InsertAlertRule["scopeType"]) || "global",
+      scopeValue: rule?.scopeValue || "",
+      isEnabled: rule?.isEnabled ?? true,
+    },
+  });
+
+  const scopeType = form.watch("scopeType");
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: InsertAlertRule) => {
+      const payload = { ...data, scopeValue: data.scopeType === "global" ? null : data.scopeValue };
+      const url = isEditing ? `/api/alert-rules/${rule.id}` : "/api/alert-rules";
+      return apiRequest(isEditing ? "PUT" : "POST", url, payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      toast({
+        title: isEditing ? "Regra atualizada" : "Regra criada",
+        description: "A regra de alerta foi salva com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a regra de alerta. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const scopeValueOptions: Record<string, string> | undefined =
+    scopeType === "environment" ? ENVIRONMENT_OPTIONS :
+    scopeType === "serverType" ? SERVER_TYPE_OPTIONS :
+    scopeType === "server" ? Object.fromEntries((servers ?? []).map(server => [server.id, server.name])) :
+    undefined;
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(data => saveRuleMutation.mutate(data))}
+        className="space-y-4"
+        data-testid="alert-rule-form"
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input placeholder="CPU alta em produção" {...field} data-testid="input-rule-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="metric"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Métrica</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-rule-metric">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(METRIC_OPTIONS).map(([value, { label }]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="operator"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Condição</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-rule-operator">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(OPERATOR_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="threshold"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Limite</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" {...field} data-testid="input-rule-threshold" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="durationMinutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Por (minutos)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    {...field}
+                    onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)}
+                    data-testid="input-rule-duration"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="hysteresis"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Histerese</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" step="0.1" {...field} data-testid="input-rule-hysteresis" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="severity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Severidade</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-rule-severity">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(SEVERITY_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="scopeType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Escopo</FormLabel>
+                <Select
+                  onValueChange={value => {
+                    field.onChange(value);
+                    form.setValue("scopeValue", "");
+                  }}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="select-rule-scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(SCOPE_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {scopeType !== "global" && (
+            <FormField
+              control={form.control}
+              name="scopeValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{SCOPE_OPTIONS[scopeType]}</FormLabel>
+                  {scopeValueOptions ? (
+                    <Select onValueChange={field.onChange} value={field.value || ""}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-rule-scope-value">
+                          <SelectValue placeholder="Selecione..." />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(scopeValueOptions).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <FormControl>
+                      <Input placeholder="nginx" {...field} value={field.value || ""} data-testid="input-rule-scope-value" />
+                    </FormControl>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormDescription>
+          O alerta dispara quando a condição se mantém pelo tempo indicado e é resolvido automaticamente
+          quando o valor volta além do limite pela margem de histerese. Regras mais específicas substituem
+          as mais genéricas para a mesma métrica.
+        </FormDescription>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveRuleMutation.isPending} data-testid="button-submit-rule">
+            {saveRuleMutation.isPending ? "Salvando..." : isEditing ? "Atualizar Regra" : "Criar Regra"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function describeScope(rule: AlertRule, servers?: PublicServer[]): string {
+  if (rule.scopeType === "global") return "Global";
+  const value =
+    rule.scopeType === "environment" ? ENVIRONMENT_OPTIONS[rule.scopeValue ?? ""] :
+    rule.scopeType === "serverType" ? SERVER_TYPE_OPTIONS[rule.scopeValue ?? ""] :
+    rule.scopeType === "server" ? servers?.find(server => server.id === rule.scopeValue)?.name :
+    undefined;
+  return `${SCOPE_OPTIONS[rule.scopeType] ?? rule.scopeType}: ${value ?? rule.scopeValue}`;
+}
+
+export function AlertRulesCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canManage = hasRole("admin");
+  const [isAddRuleOpen, setIsAddRuleOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+
+  const { data: rules, isLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alert-rules"],
+  });
+
+  const { data: servers } = useQuery<PublicServer[]>({
+    queryKey: ["/api/servers"],
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) =>
+      apiRequest("PUT", `/api/alert-rules/${id}`, { isEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atualizar a regra.", variant: "destructive" });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/alert-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      toast({ title: "Regra removida", description: "A regra de alerta foi removida." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a regra.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Bell className="w-5 h-5" />
+            <span>Regras de Alerta</span>
+          </CardTitle>
+          {canManage && (
+            <Dialog open={isAddRuleOpen} onOpenChange={setIsAddRuleOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-rule">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova Regra
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Nova Regra de Alerta</DialogTitle>
+                </DialogHeader>
+                <AlertRuleForm onSuccess={() => setIsAddRuleOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando regras...</p>
+        ) : !rules?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma regra de alerta cadastrada.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="alert-rules-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Regra</th>
+                  <th className="text-left p-2">Condição</th>
+                  <th className="text-left p-2">Escopo</th>
+                  <th className="text-left p-2">Severidade</th>
+                  <th className="text-left p-2">Ativa</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => {
+                  const metric = METRIC_OPTIONS[rule.metric] ?? { label: rule.metric, unit: "" };
+                  return (
+                    <tr key={rule.id} className="border-b" data-testid={`alert-rule-${rule.id}`}>
+                      <td className="p-2 font-medium">{rule.name}</td>
+                      <td className="p-2">
+                        {metric.label} {OPERATOR_OPTIONS[rule.operator] ?? rule.operator} {parseFloat(rule.threshold)}{metric.unit}
+                        {rule.durationMinutes > 0 && (
+                          <span className="text-muted-foreground"> por {rule.durationMinutes} min</span>
+                        )}
+                      </td>
+                      <td className="p-2">{describeScope(rule, servers)}</td>
+                      <td className="p-2">
+                        <Badge variant={rule.severity === "critical" ? "destructive" : "secondary"}>
+                          {SEVERITY_OPTIONS[rule.severity] ?? rule.severity}
+                        </Badge>
+                      </td>
+                      <td className="p-2">
+                        <Switch
+                          checked={rule.isEnabled}
+                          disabled={!canManage}
+                          onCheckedChange={(isEnabled) => toggleRuleMutation.mutate({ id: rule.id, isEnabled })}
+                          data-testid={`switch-rule-${rule.id}`}
+                        />
+                      </td>
+                      {canManage && (
+                        <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setEditingRule(rule)}
+                            data-testid={`button-edit-rule-${rule.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => deleteRuleMutation.mutate(rule.id)}
+                            disabled={deleteRuleMutation.isPending}
+                            data-testid={`button-delete-rule-${rule.id}`}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Editar Regra de Alerta</DialogTitle>
+            </DialogHeader>
+            {editingRule && (
+              <AlertRuleForm rule={editingRule} onSuccess={() => setEditingRule(null)} />
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
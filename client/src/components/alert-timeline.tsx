@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertEvent } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, BellOff, CheckCircle, Eye, MessageSquare, PhoneCall, Repeat, RotateCcw } from "lucide-react";
+
+interface AlertTimelineProps {
+  alertId: string;
+}
+
+const EVENT_LABELS: Record<string, { label: string; icon: typeof Eye; className: string }> = {
+  created: { label: "Alerta aberto", icon: AlertTriangle, className: "text-red-500" },
+  acknowledged: { label: "Reconhecido", icon: Eye, className: "text-blue-500" },
+  snoozed: { label: "Adiado", icon: BellOff, className: "text-orange-500" },
+  resolved: { label: "Resolvido", icon: CheckCircle, className: "text-green-500" },
+  reopened: { label: "Reaberto", icon: RotateCcw, className: "text-red-500" },
+  repeated: { label: "Repetiu no incidente", icon: Repeat, className: "text-orange-500" },
+  comment: { label: "Comentário", icon: MessageSquare, className: "text-muted-foreground" },
+  escalated: { label: "Escalonado", icon: PhoneCall, className: "text-purple-500" },
+};
+
+export function AlertTimeline({ alertId }: AlertTimelineProps) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [comment, setComment] = useState("");
+
+  const { data: events, isLoading } = useQuery<AlertEvent[]>({
+    queryKey: ["/api/alerts", alertId, "events"],
+  });
+
+  const addCommentMutation = useMutation({
+    mutationFn: async (message: string) => {
+      return apiRequest("POST", `/api/alerts/${alertId}/comments`, { message });
+    },
+    onSuccess: () => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", alertId, "events"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao adicionar comentário. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4" data-testid={`alert-timeline-${alertId}`}>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando histórico...</p>
+      ) : (
+        <ol className="space-y-3 max-h-80 overflow-y-auto">
+          {events?.map((event) => {
+            const meta = EVENT_LABELS[event.eventType] ?? EVENT_LABELS.comment;
+            const Icon = meta.icon;
+            return (
+              <li key={event.id} className="flex items-start space-x-3" data-testid={`alert-event-${event.id}`}>
+                <Icon className={`w-4 h-4 mt-0.5 ${meta.className}`} />
+                <div className="flex-1">
+                  <p className="text-sm">
+                    <span className="font-medium">{meta.label}</span>
+                    <span className="text-muted-foreground"> • {event.actorName ?? "Sistema"}</span>
+                  </p>
+                  {event.message && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                      {/* Snooze events carry the snooze deadline as an ISO timestamp */}
+                      {event.eventType === "snoozed"
+                        ? `Até ${new Date(event.message).toLocaleString()}`
+                        : event.message}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(event.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasRole("operator") && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Adicionar comentário..."
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            data-testid={`textarea-alert-comment-${alertId}`}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => addCommentMutation.mutate(comment)}
+              disabled={!comment.trim() || addCommentMutation.isPending}
+              data-testid={`button-add-comment-${alertId}`}
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Comentar
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ForecastMetric, MetricForecast, ServerWithMetrics } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { TrendingUp } from "lucide-react";
+
+const METRIC_LABELS: Record<ForecastMetric, string> = {
+  disk: "Disco",
+  memory: "Memória",
+};
+
+// Same horizon the server uses for predictive alerts
+const WARNING_HOURS = 7 * 24;
+
+export function formatTimeToSaturation(hours: number): string {
+  if (hours < 1) return "< 1 hora";
+  if (hours < 48) return `${Math.round(hours)} hora(s)`;
+  return `${Math.round(hours / 24)} dia(s)`;
+}
+
+export function useCapacityForecasts() {
+  return useQuery<MetricForecast[]>({
+    queryKey: ["/api/forecasts"],
+    refetchInterval: 10 * 60_000,
+  });
+}
+
+function SaturationBadge({ forecast }: { forecast: MetricForecast }) {
+  if (forecast.trend === "insufficient_data") return <Badge variant="secondary">Dados insuficientes</Badge>;
+  if (forecast.hoursToSaturation === null) return <Badge variant="outline">Estável</Badge>;
+
+  const urgent = forecast.hoursToSaturation <= WARNING_HOURS;
+  return (
+    <Badge
+      className={urgent
+        ? "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+        : "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"}
+    >
+      100% em {formatTimeToSaturation(forecast.hoursToSaturation)}
+    </Badge>
+  );
+}
+
+export function CapacityForecastCard({ servers, serverId }: { servers: ServerWithMetrics[]; serverId?: string }) {
+  const { data: forecasts, isLoading } = useCapacityForecasts();
+  const serverNames = new Map(servers.map(server => [server.id, server.name]));
+
+  // Soonest saturation first; servers without a prediction go last
+  const rows = (forecasts ?? [])
+    .filter(forecast => !serverId || forecast.serverId === serverId)
+    .sort((a, b) => (a.hoursToSaturation ?? Infinity) - (b.hoursToSaturation ?? Infinity));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <TrendingUp className="w-5 h-5" />
+          <span>Previsão de Capacidade</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Calculando previsões...</p>
+        ) : !rows.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma previsão disponível.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="capacity-forecast-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Servidor</th>
+                  <th className="text-left p-2">Métrica</th>
+                  <th className="text-left p-2">Atual (tendência)</th>
+                  <th className="text-left p-2">Crescimento</th>
+                  <th className="text-left p-2" title="Coeficiente de determinação do ajuste linear">Confiança (R²)</th>
+                  <th className="text-left p-2">Saturação</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((forecast) => (
+                  <tr
+                    key={`${forecast.serverId}-${forecast.metric}`}
+                    className="border-b"
+                    data-testid={`forecast-${forecast.serverId}-${forecast.metric}`}
+                  >
+                    <td className="p-2 font-medium">{serverNames.get(forecast.serverId) ?? forecast.serverId}</td>
+                    <td className="p-2">{METRIC_LABELS[forecast.metric]}</td>
+                    <td className="p-2">{forecast.current !== null ? `${forecast.current.toFixed(1)}%` : "—"}</td>
+                    <td className="p-2">
+                      {forecast.slopePerDay !== null ? `${forecast.slopePerDay >= 0 ? "+" : ""}${forecast.slopePerDay.toFixed(2)} p.p./dia` : "—"}
+                    </td>
+                    <td className="p-2">{forecast.r2 !== null ? forecast.r2.toFixed(2) : "—"}</td>
+                    <td className="p-2 space-y-1">
+                      <SaturationBadge forecast={forecast} />
+                      {forecast.saturationAt && (
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(forecast.saturationAt).toLocaleDateString()}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
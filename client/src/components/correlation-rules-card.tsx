@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertCorrelationRuleSchema,
+  type CorrelationRule,
+  type InsertCorrelationRule,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Layers, Pencil, Plus, Trash2 } from "lucide-react";
+
+const GROUPING_OPTIONS: Record<string, string> = {
+  time_window: "Janela de tempo",
+  tag: "Tag em comum",
+  environment: "Mesmo ambiente",
+  dependency: "Dependência (host/hipervisor)",
+};
+
+function CorrelationRuleForm({ rule, onSuccess }: { rule?: CorrelationRule; onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const isEditing = !!rule;
+
+  const form = useForm<InsertCorrelationRule>({
+    resolver: zodResolver(insertCorrelationRuleSchema),
+    defaultValues: {
+      name: rule?.name || "",
+      groupBy: (rule?.groupBy as InsertCorrelationRule["groupBy"]) || "dependency",
+      windowMinutes: rule?.windowMinutes ?? 10,
+      minAlerts: rule?.minAlerts ?? 2,
+      isEnabled: rule?.isEnabled ?? true,
+    },
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: InsertCorrelationRule) => {
+      const url = isEditing ? `/api/correlation-rules/${rule.id}` : "/api/correlation-rules";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/correlation-rules"] });
+      toast({
+        title: isEditing ? "Regra atualizada" : "Regra criada",
+        description: "A regra de correlação foi salva com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a regra de correlação. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(data => saveRuleMutation.mutate(data))}
+        className="space-y-4"
+        data-testid="correlation-rule-form"
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input placeholder="Queda de hipervisor" {...field} data-testid="input-correlation-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="groupBy"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Agrupar por</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-correlation-group-by">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(GROUPING_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="windowMinutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Janela (minutos)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    {...field}
+                    onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)}
+                    data-testid="input-correlation-window"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="minAlerts"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Mínimo de alertas</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="2"
+                    {...field}
+                    onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)}
+                    data-testid="input-correlation-min-alerts"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormDescription>
+          Um incidente é aberto quando o mínimo de alertas relacionados dispara dentro da janela. Novos alertas
+          do mesmo grupo entram no incidente enquanto chegarem dentro da janela desde o último.
+        </FormDescription>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveRuleMutation.isPending} data-testid="button-submit-correlation-rule">
+            {saveRuleMutation.isPending ? "Salvando..." : isEditing ? "Atualizar Regra" : "Criar Regra"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export function CorrelationRulesCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canManage = hasRole("admin");
+  const [isAddRuleOpen, setIsAddRuleOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CorrelationRule | null>(null);
+
+  const { data: rules, isLoading } = useQuery<CorrelationRule[]>({
+    queryKey: ["/api/correlation-rules"],
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) =>
+      apiRequest("PUT", `/api/correlation-rules/${id}`, { isEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/correlation-rules"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atualizar a regra.", variant: "destructive" });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/correlation-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/correlation-rules"] });
+      toast({ title: "Regra removida", description: "A regra de correlação foi removida." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a regra.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Layers className="w-5 h-5" />
+            <span>Correlação de Alertas</span>
+          </CardTitle>
+          {canManage && (
+            <Dialog open={isAddRuleOpen} onOpenChange={setIsAddRuleOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-correlation-rule">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova Regra
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Nova Regra de Correlação</DialogTitle>
+                </DialogHeader>
+                <CorrelationRuleForm onSuccess={() => setIsAddRuleOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando regras...</p>
+        ) : !rules?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhuma regra de correlação cadastrada. Sem regras, cada alerta aparece separadamente.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="correlation-rules-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Regra</th>
+                  <th className="text-left p-2">Agrupamento</th>
+                  <th className="text-left p-2">Janela</th>
+                  <th className="text-left p-2">Mínimo</th>
+                  <th className="text-left p-2">Ativa</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => (
+                  <tr key={rule.id} className="border-b" data-testid={`correlation-rule-${rule.id}`}>
+                    <td className="p-2 font-medium">{rule.name}</td>
+                    <td className="p-2">{GROUPING_OPTIONS[rule.groupBy] ?? rule.groupBy}</td>
+                    <td className="p-2">{rule.windowMinutes} min</td>
+                    <td className="p-2">{rule.minAlerts} alertas</td>
+                    <td className="p-2">
+                      <Switch
+                        checked={rule.isEnabled}
+                        disabled={!canManage}
+                        onCheckedChange={(isEnabled) => toggleRuleMutation.mutate({ id: rule.id, isEnabled })}
+                        data-testid={`switch-correlation-rule-${rule.id}`}
+                      />
+                    </td>
+                    {canManage && (
+                      <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingRule(rule)}
+                          data-testid={`button-edit-correlation-rule-${rule.id}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteRuleMutation.mutate(rule.id)}
+                          disabled={deleteRuleMutation.isPending}
+                          data-testid={`button-delete-correlation-rule-${rule.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Editar Regra de Correlação</DialogTitle>
+            </DialogHeader>
+            {editingRule && (
+              <CorrelationRuleForm rule={editingRule} onSuccess={() => setEditingRule(null)} />
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { type CustomMetricSeries, type ServerCustomMetric } from "@shared/schema";
+import { METRIC_WINDOWS, useCustomMetricSeries, type MetricWindow } from "@/hooks/use-metric-series";
+import { formatTick } from "@/components/metric-history-chart";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Tags } from "lucide-react";
+
+const SERIES_COLORS = [
+  "hsl(217 91% 60%)",
+  "hsl(142 71% 45%)",
+  "hsl(25 95% 53%)",
+  "hsl(262 83% 58%)",
+  "hsl(173 80% 40%)",
+  "hsl(0 84% 60%)",
+  "hsl(47 95% 50%)",
+  "hsl(330 81% 60%)",
+];
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  return entries.length ? entries.map(([label, value]) => `${label}=${value}`).join(", ") : "sem rótulos";
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
+
+function CustomMetricChart({ series, rangeMs }: { series: CustomMetricSeries[]; rangeMs: number }) {
+  // Label values (mount points, interfaces) are not valid CSS variable names, so keys are positional
+  const config: ChartConfig = Object.fromEntries(
+    series.map(({ labels }, index) => [`series_${index}`, { label: formatLabels(labels), color: SERIES_COLORS[index % SERIES_COLORS.length] }]),
+  );
+
+  const data = (series[0]?.buckets ?? []).map((bucket, bucketIndex) => ({
+    timestamp: bucket.timestamp,
+    ...Object.fromEntries(series.map(({ buckets }, index) => [`series_${index}`, buckets[bucketIndex]?.avg ?? null])),
+  }));
+
+  return (
+    <ChartContainer config={config} className="h-64 w-full">
+      <LineChart data={data} margin={{ left: 0, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="timestamp"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+          tickFormatter={(value: string) => formatTick(value, rangeMs)}
+        />
+        <YAxis tickLine={false} axisLine={false} width={56} domain={[0, "auto"]} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => new Date(payload[0]?.payload.timestamp).toLocaleString()}
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{config[name as string]?.label}</span>
+                  <span className="font-mono font-medium">{formatValue(Number(value))}</span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {series.map((_, index) => (
+          <Line
+            key={`series_${index}`}
+            dataKey={`series_${index}`}
+            type="monotone"
+            stroke={`var(--color-series_${index})`}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+export function CustomMetricsCard({ serverId, metricWindow }: { serverId: string; metricWindow: MetricWindow }) {
+  const [selectedName, setSelectedName] = useState<string>();
+
+  const { data: latest, isLoading } = useQuery<ServerCustomMetric[]>({
+    queryKey: [`/api/servers/${serverId}/custom-metrics`],
+  });
+  const names = Array.from(new Set(latest?.map(metric => metric.name))).sort();
+  const name = selectedName && names.includes(selectedName) ? selectedName : names[0];
+  const { data: history, isLoading: isHistoryLoading } = useCustomMetricSeries(metricWindow, serverId, name);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <CardTitle className="flex items-center space-x-2">
+            <Tags className="w-5 h-5" />
+            <span>Métricas Personalizadas</span>
+          </CardTitle>
+          {names.length > 0 && (
+            <Select value={name} onValueChange={setSelectedName}>
+              <SelectTrigger className="w-full sm:w-64" data-testid="select-custom-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {names.map((metricName) => (
+                  <SelectItem key={metricName} value={metricName}>{metricName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando métricas...</p>
+        ) : !names.length ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhuma métrica personalizada recebida deste servidor.
+          </p>
+        ) : (
+          <>
+            <div data-testid="chart-custom-metric">
+              {isHistoryLoading || !history ? (
+                <div className="h-64 flex items-center justify-center text-muted-foreground">Carregando histórico...</div>
+              ) : (
+                <CustomMetricChart series={history.series} rangeMs={METRIC_WINDOWS[metricWindow].ms} />
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm" data-testid="custom-metrics-table">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Métrica</th>
+                    <th className="text-left p-2">Rótulos</th>
+                    <th className="text-left p-2">Último valor</th>
+                    <th className="text-left p-2">Recebido em</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {latest?.filter(metric => metric.name === name).map((metric) => (
+                    <tr key={metric.id} className="border-b" data-testid={`custom-metric-${metric.id}`}>
+                      <td className="p-2 font-mono text-xs">{metric.name}</td>
+                      <td className="p-2">
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(metric.labels).map(([label, value]) => (
+                            <Badge key={label} variant="secondary" className="font-mono text-xs">{label}={value}</Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="p-2 font-medium">{formatValue(metric.value)}</td>
+                      <td className="p-2 whitespace-nowrap">{new Date(metric.timestamp).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
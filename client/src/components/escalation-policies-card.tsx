@@ -0,0 +1,523 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useFieldArray, useForm, type Path } from "react-hook-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertEscalationPolicySchema,
+  type EscalationPolicy,
+  type EscalationScope,
+  type EscalationStep,
+  type EscalationTargetType,
+  type NotificationChannel,
+  type OnCallScheduleStatus,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ENVIRONMENT_LABELS } from "./slos-card";
+import { useOnCallUsers } from "./on-call-schedules-card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PhoneCall, Pencil, Plus, Trash2, X } from "lucide-react";
+
+const SCOPE_LABELS: Record<EscalationScope, string> = {
+  global: "Todos os alertas",
+  environment: "Ambiente",
+  serverType: "Tipo de servidor",
+  tag: "Tag",
+};
+
+const SERVER_TYPE_LABELS: Record<string, string> = {
+  web: "Web",
+  database: "Database",
+  hybrid: "Híbrido",
+  mail: "Mail",
+  backup: "Backup",
+};
+
+const TARGET_LABELS: Record<EscalationTargetType, string> = {
+  schedule: "Plantonista da escala",
+  user: "Usuário",
+  channel: "Canal de notificação",
+};
+
+const SEVERITY_OPTIONS: Record<string, string> = {
+  info: "Info",
+  warning: "Aviso",
+  critical: "Crítico",
+};
+
+interface PolicyFormValues {
+  name: string;
+  scopeType: EscalationScope;
+  scopeValue: string;
+  severities: string[];
+  isEnabled: boolean;
+  steps: { delayMinutes: string; targetType: EscalationTargetType; targetId: string }[];
+}
+
+function toPolicyPayload(values: PolicyFormValues) {
+  return {
+    name: values.name,
+    scopeType: values.scopeType,
+    scopeValue: values.scopeType === "global" ? null : values.scopeValue,
+    severities: values.severities,
+    isEnabled: values.isEnabled,
+    steps: values.steps.map(step => ({ ...step, delayMinutes: Number(step.delayMinutes) })),
+  };
+}
+
+/** Names of everything a step can target, for forms and the policy list. */
+function useEscalationTargets() {
+  const { hasRole } = useAuth();
+  const { data: users } = useOnCallUsers();
+  const { data: schedules } = useQuery<OnCallScheduleStatus[]>({
+    queryKey: ["/api/on-call/schedules"],
+  });
+  // Channel names are only readable by admins, who are also the only ones editing policies
+  const { data: channels } = useQuery<NotificationChannel[]>({
+    queryKey: ["/api/notification-channels"],
+    enabled: hasRole("admin"),
+  });
+
+  const options: Record<EscalationTargetType, { id: string; name: string }[]> = {
+    schedule: schedules ?? [],
+    user: users ?? [],
+    channel: channels ?? [],
+  };
+  const describe = (step: EscalationStep) =>
+    options[step.targetType]?.find(option => option.id === step.targetId)?.name ?? step.targetId.slice(0, 8);
+  return { options, describe };
+}
+
+function EscalationPolicyForm({ policy, onSuccess }: { policy?: EscalationPolicy; onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const isEditing = !!policy;
+  const { options } = useEscalationTargets();
+
+  const form = useForm<PolicyFormValues>({
+    defaultValues: {
+      name: policy?.name || "",
+      scopeType: (policy?.scopeType as EscalationScope) || "environment",
+      scopeValue: policy ? policy.scopeValue ?? "" : "production",
+      severities: (policy?.severities as string[]) || ["critical"],
+      isEnabled: policy?.isEnabled ?? true,
+      steps: ((policy?.steps as EscalationStep[]) || [
+        { delayMinutes: 0, targetType: "schedule", targetId: "" },
+        { delayMinutes: 10, targetType: "schedule", targetId: "" },
+        { delayMinutes: 30, targetType: "user", targetId: "" },
+      ]).map(step => ({ ...step, delayMinutes: step.delayMinutes.toString() })),
+    },
+  });
+  const steps = useFieldArray({ control: form.control, name: "steps" });
+
+  const scopeType = form.watch("scopeType");
+  const watchedSteps = form.watch("steps");
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof toPolicyPayload>) => {
+      const url = isEditing ? `/api/escalation-policies/${policy.id}` : "/api/escalation-policies";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalation-policies"] });
+      toast({
+        title: isEditing ? "Política atualizada" : "Política criada",
+        description: "A política de escalonamento foi salva com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a política de escalonamento. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: PolicyFormValues) => {
+    const payload = toPolicyPayload(values);
+    const result = insertEscalationPolicySchema.safeParse(payload);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        form.setError(issue.path.join(".") as Path<PolicyFormValues>, { message: issue.message });
+      }
+      return;
+    }
+    savePolicyMutation.mutate(payload);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="escalation-policy-form">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input placeholder="Produção crítica" {...field} data-testid="input-policy-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="scopeType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Aplicar a</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("scopeValue", "");
+                  }}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="select-policy-scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          {scopeType !== "global" && (
+            <FormField
+              control={form.control}
+              name="scopeValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{SCOPE_LABELS[scopeType]}</FormLabel>
+                  {scopeType === "tag" ? (
+                    <FormControl>
+                      <Input placeholder="database" {...field} data-testid="input-policy-scope-value" />
+                    </FormControl>
+                  ) : (
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-policy-scope-value">
+                          <SelectValue placeholder="Selecione" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(scopeType === "environment" ? ENVIRONMENT_LABELS : SERVER_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="severities"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Severidades</FormLabel>
+              <div className="flex items-center space-x-4">
+                {Object.entries(SEVERITY_OPTIONS).map(([value, label]) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`policy-severity-${value}`}
+                      checked={field.value.includes(value)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked ? [...field.value, value] : field.value.filter(v => v !== value))
+                      }
+                      data-testid={`checkbox-policy-severity-${value}`}
+                    />
+                    <Label htmlFor={`policy-severity-${value}`}>{label}</Label>
+                  </div>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <Label>Passos (minutos desde a abertura do alerta)</Label>
+          {steps.fields.map((step, index) => (
+            <div key={step.id} className="grid grid-cols-[6rem_1fr_1fr_auto] gap-2 items-start" data-testid={`policy-step-${index}`}>
+              <FormField
+                control={form.control}
+                name={`steps.${index}.delayMinutes`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} data-testid={`input-step-delay-${index}`} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`steps.${index}.targetType`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue(`steps.${index}.targetId`, "");
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid={`select-step-target-type-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(TARGET_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`steps.${index}.targetId`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid={`select-step-target-${index}`}>
+                          <SelectValue placeholder="Selecione" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {options[watchedSteps[index]?.targetType ?? "schedule"].map((option) => (
+                          <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={steps.fields.length === 1}
+                onClick={() => steps.remove(index)}
+                data-testid={`button-remove-step-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {form.formState.errors.steps?.message && (
+            <p className="text-sm font-medium text-destructive">{form.formState.errors.steps.message}</p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => steps.append({
+              delayMinutes: watchedSteps[watchedSteps.length - 1]?.delayMinutes ?? "0",
+              targetType: "user",
+              targetId: "",
+            })}
+            data-testid="button-add-step"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar passo
+          </Button>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isEnabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between space-y-0">
+              <FormLabel>Política ativa</FormLabel>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-policy-enabled" />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={savePolicyMutation.isPending} data-testid="button-submit-policy">
+            {savePolicyMutation.isPending ? "Salvando..." : isEditing ? "Atualizar política" : "Criar política"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export function EscalationPoliciesCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [isAddPolicyOpen, setIsAddPolicyOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<EscalationPolicy | null>(null);
+  const canManage = hasRole("admin");
+  const { describe } = useEscalationTargets();
+
+  const { data: policies, isLoading } = useQuery<EscalationPolicy[]>({
+    queryKey: ["/api/escalation-policies"],
+  });
+
+  const describeScope = (policy: EscalationPolicy) => {
+    const value = policy.scopeValue ?? "";
+    switch (policy.scopeType) {
+      case "global":
+        return "Todos os alertas";
+      case "environment":
+        return `Ambiente ${ENVIRONMENT_LABELS[value] ?? value}`;
+      case "serverType":
+        return `Servidores ${SERVER_TYPE_LABELS[value] ?? value}`;
+      default:
+        return `Tag ${policy.scopeValue}`;
+    }
+  };
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/escalation-policies/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalation-policies"] });
+      toast({ title: "Política removida", description: "A política de escalonamento foi removida." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a política de escalonamento.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <PhoneCall className="w-5 h-5" />
+            <span>Políticas de Escalonamento</span>
+          </CardTitle>
+          {canManage && (
+            <Dialog open={isAddPolicyOpen} onOpenChange={setIsAddPolicyOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-policy">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova política
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Nova política de escalonamento</DialogTitle>
+                </DialogHeader>
+                <EscalationPolicyForm onSuccess={() => setIsAddPolicyOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando políticas...</p>
+        ) : !policies?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma política de escalonamento cadastrada.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="escalation-policies-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Política</th>
+                  <th className="text-left p-2">Severidades</th>
+                  <th className="text-left p-2">Passos</th>
+                  <th className="text-left p-2">Status</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {policies.map((policy) => (
+                  <tr key={policy.id} className="border-b align-top" data-testid={`escalation-policy-${policy.id}`}>
+                    <td className="p-2">
+                      <div className="font-medium">{policy.name}</div>
+                      <div className="text-xs text-muted-foreground">{describeScope(policy)}</div>
+                    </td>
+                    <td className="p-2 space-x-1">
+                      {(policy.severities as string[]).map(severity => (
+                        <Badge key={severity} variant="outline">{SEVERITY_OPTIONS[severity] ?? severity}</Badge>
+                      ))}
+                    </td>
+                    <td className="p-2 text-xs">
+                      <ol className="space-y-0.5">
+                        {(policy.steps as EscalationStep[]).map((step, index) => (
+                          <li key={index}>
+                            <span className="font-mono">{step.delayMinutes} min</span> → {TARGET_LABELS[step.targetType]}: {describe(step)}
+                          </li>
+                        ))}
+                      </ol>
+                    </td>
+                    <td className="p-2">
+                      <Badge variant={policy.isEnabled ? "default" : "secondary"}>
+                        {policy.isEnabled ? "Ativa" : "Inativa"}
+                      </Badge>
+                    </td>
+                    {canManage && (
+                      <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingPolicy(policy)}
+                          data-testid={`button-edit-policy-${policy.id}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deletePolicyMutation.mutate(policy.id)}
+                          data-testid={`button-delete-policy-${policy.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingPolicy} onOpenChange={(open) => !open && setEditingPolicy(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Editar política de escalonamento</DialogTitle>
+          </DialogHeader>
+          {editingPolicy && <EscalationPolicyForm policy={editingPolicy} onSuccess={() => setEditingPolicy(null)} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
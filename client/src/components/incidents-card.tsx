@@ -0,0 +1,324 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Alert, IncidentEvent, IncidentWithAlerts, UpdateIncident } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useOnCallUsers } from "@/components/on-call-schedules-card";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertTriangle,
+  ClipboardList,
+  FileText,
+  Flame,
+  Layers,
+  MessageSquare,
+  Plus,
+  RefreshCw,
+  Repeat,
+  UserCheck,
+} from "lucide-react";
+
+// Select items cannot have an empty value
+const NO_COMMANDER = "none";
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Aberto",
+  investigating: "Investigando",
+  mitigated: "Mitigado",
+  resolved: "Resolvido",
+};
+
+const EVENT_LABELS: Record<string, { label: string; icon: typeof Flame; className: string }> = {
+  created: { label: "Incidente aberto", icon: Flame, className: "text-red-500" },
+  alert_attached: { label: "Alerta agrupado", icon: Plus, className: "text-orange-500" },
+  alert_repeated: { label: "Alerta repetido", icon: Repeat, className: "text-orange-500" },
+  status_changed: { label: "Status alterado", icon: RefreshCw, className: "text-blue-500" },
+  commander_changed: { label: "Comandante definido", icon: UserCheck, className: "text-purple-500" },
+  note: { label: "Nota", icon: MessageSquare, className: "text-muted-foreground" },
+  postmortem_updated: { label: "Postmortem atualizado", icon: FileText, className: "text-muted-foreground" },
+};
+
+function eventMessage(event: IncidentEvent): string | null {
+  if (event.eventType === "status_changed") return STATUS_LABELS[event.message ?? ""] ?? event.message;
+  if (event.eventType === "commander_changed") return event.message ?? "Sem comandante";
+  return event.message;
+}
+
+function IncidentTimeline({ incidentId }: { incidentId: string }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [note, setNote] = useState("");
+
+  const { data: events, isLoading } = useQuery<IncidentEvent[]>({
+    queryKey: ["/api/incidents", incidentId, "events"],
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: async (message: string) => {
+      return apiRequest("POST", `/api/incidents/${incidentId}/notes`, { message });
+    },
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents", incidentId, "events"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao adicionar nota. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4" data-testid={`incident-timeline-${incidentId}`}>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando linha do tempo...</p>
+      ) : (
+        <ol className="space-y-3 max-h-64 overflow-y-auto">
+          {events?.map((event) => {
+            const meta = EVENT_LABELS[event.eventType] ?? EVENT_LABELS.note;
+            const Icon = meta.icon;
+            const message = eventMessage(event);
+            return (
+              <li key={event.id} className="flex items-start space-x-3" data-testid={`incident-event-${event.id}`}>
+                <Icon className={`w-4 h-4 mt-0.5 ${meta.className}`} />
+                <div className="flex-1">
+                  <p className="text-sm">
+                    <span className="font-medium">{meta.label}</span>
+                    <span className="text-muted-foreground"> • {event.actorName ?? "Sistema"}</span>
+                  </p>
+                  {message && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{message}</p>}
+                  <p className="text-xs text-muted-foreground">{new Date(event.createdAt).toLocaleString()}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasRole("operator") && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Adicionar nota..."
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            data-testid={`textarea-incident-note-${incidentId}`}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => addNoteMutation.mutate(note)}
+              disabled={!note.trim() || addNoteMutation.isPending}
+              data-testid={`button-add-note-${incidentId}`}
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Anotar
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function IncidentDetail({ incident }: { incident: IncidentWithAlerts }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canOperate = hasRole("operator");
+  const { data: users } = useOnCallUsers();
+  const [postmortem, setPostmortem] = useState(incident.postmortem ?? "");
+
+  const updateIncidentMutation = useMutation({
+    mutationFn: async (changes: UpdateIncident) => {
+      return apiRequest("PUT", `/api/incidents/${incident.id}`, changes);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      toast({ title: "Incidente atualizado", description: "As alterações foram salvas." });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar o incidente. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6" data-testid={`incident-detail-${incident.id}`}>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={incident.status}
+            onValueChange={(status) => updateIncidentMutation.mutate({ status: status as UpdateIncident["status"] })}
+            disabled={!canOperate || updateIncidentMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-incident-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Comandante</Label>
+          <Select
+            value={incident.commanderId ?? NO_COMMANDER}
+            onValueChange={(value) => updateIncidentMutation.mutate({ commanderId: value === NO_COMMANDER ? null : value })}
+            disabled={!canOperate || updateIncidentMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-incident-commander">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COMMANDER}>Sem comandante</SelectItem>
+              {users?.map(user => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`postmortem-${incident.id}`}>Postmortem</Label>
+        <Textarea
+          id={`postmortem-${incident.id}`}
+          rows={5}
+          placeholder="Causa raiz, impacto, linha do tempo e ações de acompanhamento..."
+          value={postmortem}
+          onChange={(e) => setPostmortem(e.target.value)}
+          disabled={!canOperate}
+          data-testid="textarea-incident-postmortem"
+        />
+        {canOperate && (
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateIncidentMutation.mutate({ postmortem: postmortem.trim() ? postmortem : null })}
+              disabled={postmortem === (incident.postmortem ?? "") || updateIncidentMutation.isPending}
+              data-testid="button-save-postmortem"
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              Salvar postmortem
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Linha do tempo</Label>
+        <IncidentTimeline incidentId={incident.id} />
+      </div>
+    </div>
+  );
+}
+
+interface IncidentsCardProps {
+  incidents: IncidentWithAlerts[];
+  renderAlert: (alert: Alert) => ReactNode;
+}
+
+/** Open incidents with their active alerts; repeats are counted on the alert they repeat. */
+export function IncidentsCard({ incidents, renderAlert }: IncidentsCardProps) {
+  const { byId: usersById } = useOnCallUsers();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = incidents.find(incident => incident.id === selectedId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Layers className="w-5 h-5" />
+          <span>Incidentes</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {incidents.map((incident) => {
+          const active = incident.alerts.filter(alert => !alert.isResolved);
+          const repeats = incident.alerts.reduce((total, alert) => total + alert.occurrences - 1, 0);
+          const servers = new Set(incident.alerts.map(alert => alert.serverId).filter(Boolean)).size;
+          const commander = incident.commanderId ? usersById.get(incident.commanderId)?.name : undefined;
+
+          return (
+            <div
+              key={incident.id}
+              className="border border-border rounded-lg p-4 space-y-4"
+              data-testid={`incident-${incident.id}`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle
+                    className={`w-5 h-5 mt-0.5 ${incident.severity === "critical" ? "text-red-500" : "text-orange-500"}`}
+                  />
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h3 className="font-semibold">{incident.title}</h3>
+                      <Badge variant={incident.severity === "critical" ? "destructive" : "secondary"}>
+                        {incident.severity}
+                      </Badge>
+                      <Badge variant="outline" data-testid={`badge-incident-status-${incident.id}`}>
+                        {STATUS_LABELS[incident.status] ?? incident.status}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {incident.alerts.length} alertas • {active.length} ativos • {servers} servidores
+                      {repeats > 0 && ` • ${repeats} repetições`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Aberto em {new Date(incident.createdAt).toLocaleString()}
+                      {` • Comandante: ${commander ?? "não definido"}`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedId(incident.id)}
+                  data-testid={`button-incident-detail-${incident.id}`}
+                >
+                  <ClipboardList className="w-4 h-4 mr-2" />
+                  Detalhes
+                </Button>
+              </div>
+
+              {active.length > 0 ? (
+                <div className="space-y-3 pl-8">
+                  {active.map(renderAlert)}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground pl-8">
+                  Todos os alertas deste incidente foram resolvidos.
+                </p>
+              )}
+            </div>
+          );
+        })}
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelectedId(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{selected?.title}</DialogTitle>
+            </DialogHeader>
+            {selected && <IncidentDetail key={selected.id} incident={selected} />}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type InsertIngestToken, type PublicIngestToken, type PublicServer } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+
+// Select value for fleet tokens (Radix Select does not allow an empty value)
+const ANY_SERVER = "any";
+
+type CreatedIngestToken = PublicIngestToken & { token: string };
+
+function NewIngestTokenForm({ servers, onCreated }: { servers: PublicServer[]; onCreated: (token: CreatedIngestToken) => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [serverId, setServerId] = useState<string>(ANY_SERVER);
+
+  const createTokenMutation = useMutation({
+    mutationFn: async (data: InsertIngestToken) => {
+      const response = await apiRequest("POST", "/api/ingest-tokens", data);
+      return response.json() as Promise<CreatedIngestToken>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ingest-tokens"] });
+      onCreated(created);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao criar o token. Tente novamente.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        createTokenMutation.mutate({ name: name.trim(), serverId: serverId === ANY_SERVER ? null : serverId });
+      }}
+      data-testid="ingest-token-form"
+    >
+      <div className="space-y-2">
+        <Label htmlFor="ingest-token-name">Nome</Label>
+        <Input
+          id="ingest-token-name"
+          placeholder="Agente do escritório"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          data-testid="input-ingest-token-name"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Servidor</Label>
+        <Select value={serverId} onValueChange={setServerId}>
+          <SelectTrigger data-testid="select-ingest-token-server">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_SERVER}>Qualquer servidor</SelectItem>
+            {servers.map((server) => (
+              <SelectItem key={server.id} value={server.id}>{server.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          Tokens vinculados a um servidor só podem enviar métricas dele.
+        </p>
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" disabled={!name.trim() || createTokenMutation.isPending} data-testid="button-create-ingest-token">
+          {createTokenMutation.isPending ? "Criando..." : "Criar Token"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function IngestTokensCard() {
+  const { toast } = useToast();
+  const [isAddTokenOpen, setIsAddTokenOpen] = useState(false);
+  const [createdToken, setCreatedToken] = useState<CreatedIngestToken | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<PublicIngestToken[]>({
+    queryKey: ["/api/ingest-tokens"],
+  });
+  const { data: servers } = useQuery<PublicServer[]>({
+    queryKey: ["/api/servers"],
+  });
+  const serverNames = new Map(servers?.map(server => [server.id, server.name]));
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/ingest-tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ingest-tokens"] });
+      toast({ title: "Token revogado", description: "O agente não poderá mais enviar métricas com ele." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao revogar o token.", variant: "destructive" });
+    },
+  });
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast({ title: "Token copiado" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5" />
+            <span>Tokens de Envio de Métricas</span>
+          </CardTitle>
+          <Dialog
+            open={isAddTokenOpen}
+            onOpenChange={(open) => {
+              setIsAddTokenOpen(open);
+              if (!open) setCreatedToken(null);
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button size="sm" data-testid="button-add-ingest-token">
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Token
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Novo Token de Envio</DialogTitle>
+                <DialogDescription>
+                  Usado por agentes em <code>POST /api/ingest/metrics</code> com <code>Authorization: Bearer</code>.
+                </DialogDescription>
+              </DialogHeader>
+              {createdToken ? (
+                <div className="space-y-4">
+                  <p className="text-sm">
+                    Copie o token agora. Ele não será exibido novamente.
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <Input readOnly value={createdToken.token} className="font-mono text-xs" data-testid="input-created-ingest-token" />
+                    <Button variant="outline" size="sm" onClick={() => copyToken(createdToken.token)} data-testid="button-copy-ingest-token">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <NewIngestTokenForm servers={servers ?? []} onCreated={setCreatedToken} />
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando tokens...</p>
+        ) : !tokens?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhum token de envio criado.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="ingest-tokens-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Nome</th>
+                  <th className="text-left p-2">Token</th>
+                  <th className="text-left p-2">Servidor</th>
+                  <th className="text-left p-2">Último uso</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.map((token) => (
+                  <tr key={token.id} className="border-b" data-testid={`ingest-token-${token.id}`}>
+                    <td className="p-2 font-medium">{token.name}</td>
+                    <td className="p-2 font-mono text-xs">{token.tokenPrefix}…</td>
+                    <td className="p-2">
+                      {token.serverId ? serverNames.get(token.serverId) ?? token.serverId.slice(0, 8) : "Qualquer servidor"}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : "Nunca"}
+                    </td>
+                    <td className="p-2">
+                      {token.revokedAt ? (
+                        <Badge variant="secondary">Revogado</Badge>
+                      ) : (
+                        <Badge variant="default">Ativo</Badge>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">
+                      {!token.revokedAt && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeTokenMutation.mutate(token.id)}
+                          disabled={revokeTokenMutation.isPending}
+                          data-testid={`button-revoke-ingest-token-${token.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,397 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertLogMonitoringConfigSchema,
+  type InsertLogMonitoringConfig,
+  type LogMonitoringConfig,
+  type Server,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AlertCircle, FileText, Pencil, Plus, Trash2 } from "lucide-react";
+
+const LOG_TYPES: Record<string, string> = {
+  system: "Sistema (syslog)",
+  auth: "Autenticação",
+  nginx: "Nginx",
+  apache: "Apache",
+  mysql: "MySQL",
+  postgresql: "PostgreSQL",
+  application: "Aplicação",
+};
+
+// The shipper polls every 15s; refresh the status column at the same pace
+const STATUS_REFRESH_MS = 15_000;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function LogMonitoringForm({
+  config,
+  servers,
+  onSuccess,
+}: {
+  config?: LogMonitoringConfig;
+  servers: Server[];
+  onSuccess?: () => void;
+}) {
+  const { toast } = useToast();
+  const isEditing = !!config;
+
+  const form = useForm<InsertLogMonitoringConfig>({
+    resolver: zodResolver(insertLogMonitoringConfigSchema),
+    defaultValues: {
+      serverId: config?.serverId || "",
+      logPath: config?.logPath || "",
+      logType: config?.logType || "system",
+      filterPattern: config?.filterPattern || "",
+      alertOnError: config?.alertOnError ?? false,
+      isEnabled: config?.isEnabled ?? true,
+    },
+  });
+
+  const saveConfigMutation = useMutation({
+    mutationFn: async (data: InsertLogMonitoringConfig) => {
+      const payload = { ...data, filterPattern: data.filterPattern?.trim() || null };
+      const url = isEditing ? `/api/log-monitoring/${config.id}` : "/api/log-monitoring";
+      return apiRequest(isEditing ? "PUT" : "POST", url, payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/log-monitoring"] });
+      toast({
+        title: isEditing ? "Coleta atualizada" : "Coleta criada",
+        description: "A configuração de coleta de logs foi salva com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a configuração de coleta. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(data => saveConfigMutation.mutate(data))}
+        className="space-y-4"
+        data-testid="log-monitoring-form"
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="serverId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Servidor</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isEditing}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-log-monitoring-server">
+                      <SelectValue placeholder="Selecione um servidor" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {servers.map(server => (
+                      <SelectItem key={server.id} value={server.id}>{server.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="logType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tipo</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-log-monitoring-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(LOG_TYPES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="logPath"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Arquivo</FormLabel>
+              <FormControl>
+                <Input placeholder="/var/log/syslog" {...field} data-testid="input-log-monitoring-path" />
+              </FormControl>
+              <FormDescription>
+                A coleta começa no fim do arquivo e acompanha rotações (arquivo movido para {"<arquivo>.1"}).
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="filterPattern"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Filtro (expressão regular)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="sshd|nginx"
+                  {...field}
+                  value={field.value ?? ""}
+                  data-testid="input-log-monitoring-filter"
+                />
+              </FormControl>
+              <FormDescription>Somente linhas que casam com o filtro são armazenadas. Vazio coleta tudo.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="alertOnError"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                <FormLabel>Alertar em erros</FormLabel>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    data-testid="switch-log-monitoring-alert"
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="isEnabled"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                <FormLabel>Ativa</FormLabel>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    data-testid="switch-log-monitoring-enabled"
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveConfigMutation.isPending} data-testid="button-submit-log-monitoring">
+            {saveConfigMutation.isPending ? "Salvando..." : isEditing ? "Atualizar Coleta" : "Criar Coleta"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/** Files shipped from each server over SSH, with where the shipper is in each of them. */
+export function LogMonitoringCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canManage = hasRole("admin");
+  const [isAddConfigOpen, setIsAddConfigOpen] = useState(false);
+  const [editingConfig, setEditingConfig] = useState<LogMonitoringConfig | null>(null);
+
+  const { data: servers = [] } = useQuery<Server[]>({
+    queryKey: ["/api/servers"],
+  });
+
+  const { data: configs, isLoading } = useQuery<LogMonitoringConfig[]>({
+    queryKey: ["/api/log-monitoring"],
+    refetchInterval: STATUS_REFRESH_MS,
+  });
+
+  const toggleConfigMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) =>
+      apiRequest("PUT", `/api/log-monitoring/${id}`, { isEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/log-monitoring"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atualizar a coleta.", variant: "destructive" });
+    },
+  });
+
+  const deleteConfigMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/log-monitoring/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/log-monitoring"] });
+      toast({ title: "Coleta removida", description: "A configuração de coleta foi removida." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a coleta.", variant: "destructive" });
+    },
+  });
+
+  const serverName = (serverId: string) => servers.find(server => server.id === serverId)?.name ?? serverId;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <FileText className="w-5 h-5" />
+              <span>Coleta de Logs</span>
+            </CardTitle>
+            <CardDescription>Arquivos lidos via SSH a cada 15 segundos</CardDescription>
+          </div>
+          {canManage && (
+            <Dialog open={isAddConfigOpen} onOpenChange={setIsAddConfigOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-log-monitoring">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova Coleta
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Nova Coleta de Logs</DialogTitle>
+                </DialogHeader>
+                <LogMonitoringForm servers={servers} onSuccess={() => setIsAddConfigOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando coletas...</p>
+        ) : !configs?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum arquivo de log configurado. Adicione uma coleta para armazenar os logs de um servidor.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="log-monitoring-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Servidor</th>
+                  <th className="text-left p-2">Arquivo</th>
+                  <th className="text-left p-2">Filtro</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Ativa</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {configs.map((config) => (
+                  <tr key={config.id} className="border-b align-top" data-testid={`log-monitoring-${config.id}`}>
+                    <td className="p-2 font-medium">{serverName(config.serverId)}</td>
+                    <td className="p-2">
+                      <div className="font-mono">{config.logPath}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {LOG_TYPES[config.logType] ?? config.logType}
+                        {config.alertOnError && " • alerta em erros"}
+                      </div>
+                    </td>
+                    <td className="p-2 font-mono text-xs">{config.filterPattern || "—"}</td>
+                    <td className="p-2 text-xs" data-testid={`log-monitoring-status-${config.id}`}>
+                      {config.lastError ? (
+                        <div className="flex items-start space-x-1 text-red-500">
+                          <AlertCircle className="w-4 h-4 shrink-0" />
+                          <span>{config.lastError}</span>
+                        </div>
+                      ) : config.lastShippedAt ? (
+                        <div className="text-muted-foreground">
+                          <div>Última leitura: {new Date(config.lastShippedAt).toLocaleString()}</div>
+                          <div>Posição: {formatBytes(config.fileOffset)}</div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Aguardando primeira leitura</span>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <Switch
+                        checked={config.isEnabled}
+                        disabled={!canManage}
+                        onCheckedChange={(isEnabled) => toggleConfigMutation.mutate({ id: config.id, isEnabled })}
+                        data-testid={`switch-log-monitoring-${config.id}`}
+                      />
+                    </td>
+                    {canManage && (
+                      <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingConfig(config)}
+                          data-testid={`button-edit-log-monitoring-${config.id}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteConfigMutation.mutate(config.id)}
+                          disabled={deleteConfigMutation.isPending}
+                          data-testid={`button-delete-log-monitoring-${config.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={!!editingConfig} onOpenChange={(open) => !open && setEditingConfig(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Editar Coleta de Logs</DialogTitle>
+            </DialogHeader>
+            {editingConfig && (
+              <LogMonitoringForm
+                config={editingConfig}
+                servers={servers}
+                onSuccess={() => setEditingConfig(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
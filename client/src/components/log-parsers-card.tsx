@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getApiErrorMessage } from "@/lib/utils";
+import {
+  insertLogParserSchema,
+  type BuiltInLogParser,
+  type InsertLogParser,
+  type LogParser,
+  type ParsedLogFields,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Braces, FlaskConical, Pencil, Plus, Trash2 } from "lucide-react";
+
+type PreviewResult = { line: string; result: ParsedLogFields | null };
+
+const KIND_LABELS: Record<string, string> = {
+  regex: "Regex (grupos nomeados)",
+  grok: "Grok",
+};
+
+const PATTERN_PLACEHOLDERS: Record<string, string> = {
+  regex: "^(?<ts>\\S+) (?<level>\\w+) (?<msg>.*)$",
+  grok: "%{TIMESTAMP_ISO8601:ts} %{LOGLEVEL:level} %{GREEDYDATA:msg}",
+};
+
+function LogParserForm({ parser, onSuccess }: { parser?: LogParser; onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const isEditing = !!parser;
+  const [sample, setSample] = useState("");
+  const [preview, setPreview] = useState<PreviewResult[] | null>(null);
+
+  const form = useForm<InsertLogParser>({
+    resolver: zodResolver(insertLogParserSchema),
+    defaultValues: {
+      name: parser?.name || "",
+      logType: parser?.logType || "",
+      kind: (parser?.kind as InsertLogParser["kind"]) || "grok",
+      pattern: parser?.pattern || "",
+      levelField: parser?.levelField ?? null,
+      messageField: parser?.messageField ?? null,
+      isEnabled: parser?.isEnabled ?? true,
+    },
+  });
+  const kind = form.watch("kind") ?? "grok";
+
+  const saveParserMutation = useMutation({
+    mutationFn: async (data: InsertLogParser) => {
+      const url = isEditing ? `/api/log-parsers/${parser.id}` : "/api/log-parsers";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/log-parsers"] });
+      toast({
+        title: isEditing ? "Parser atualizado" : "Parser criado",
+        description: "Novas linhas deste tipo de log serão estruturadas com ele.",
+      });
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/log-parsers/preview", { ...form.getValues(), sample });
+      return response.json() as Promise<PreviewResult[]>;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({ title: "Padrão inválido", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(data => saveParserMutation.mutate(data))}
+        className="space-y-4"
+        data-testid="log-parser-form"
+      >
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input placeholder="API de pagamentos" {...field} data-testid="input-log-parser-name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="logType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tipo de log</FormLabel>
+                <FormControl>
+                  <Input placeholder="billing" {...field} data-testid="input-log-parser-type" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="kind"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Formato</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-log-parser-kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(KIND_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="pattern"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Padrão</FormLabel>
+              <FormControl>
+                <Textarea
+                  className="font-mono text-sm"
+                  rows={3}
+                  placeholder={PATTERN_PLACEHOLDERS[kind]}
+                  {...field}
+                  data-testid="textarea-log-parser-pattern"
+                />
+              </FormControl>
+              <FormDescription>
+                {kind === "grok"
+                  ? "Use %{PADRÃO:campo}, com :int ou :float para números (ex.: %{NUMBER:duracao:float})."
+                  : "Cada grupo nomeado (?<campo>...) vira um campo nos metadados do log."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="levelField"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Campo de nível</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="level"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={e => field.onChange(e.target.value || null)}
+                    data-testid="input-log-parser-level-field"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="messageField"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Campo de mensagem</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="msg"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={e => field.onChange(e.target.value || null)}
+                    data-testid="input-log-parser-message-field"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="isEnabled"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                <FormLabel>Ativo</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-log-parser-enabled" />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Testar com linhas de exemplo</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => previewMutation.mutate()}
+              disabled={!sample.trim() || previewMutation.isPending}
+              data-testid="button-preview-log-parser"
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              Testar
+            </Button>
+          </div>
+          <Textarea
+            className="font-mono text-xs"
+            rows={3}
+            placeholder="Cole algumas linhas do log"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            data-testid="textarea-log-parser-sample"
+          />
+          {preview && (
+            <div className="space-y-2" data-testid="log-parser-preview">
+              {preview.map(({ line, result }, index) => (
+                <div key={index} className="text-xs">
+                  <div className="font-mono truncate text-muted-foreground">{line}</div>
+                  {result ? (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {result.logLevel && <Badge variant="secondary">nível: {result.logLevel}</Badge>}
+                      {Object.entries(result.fields).map(([key, value]) => (
+                        <Badge key={key} variant="outline" className="font-mono">{key}={String(value)}</Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-red-500">Não reconhecida</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveParserMutation.isPending} data-testid="button-submit-log-parser">
+            {saveParserMutation.isPending ? "Salvando..." : isEditing ? "Atualizar Parser" : "Criar Parser"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/** Built-in parsers and the user-defined regex/grok parsers that structure log lines by logType. */
+export function LogParsersCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canManage = hasRole("admin");
+  const [isAddParserOpen, setIsAddParserOpen] = useState(false);
+  const [editingParser, setEditingParser] = useState<LogParser | null>(null);
+
+  const { data: builtIns } = useQuery<BuiltInLogParser[]>({
+    queryKey: ["/api/log-parsers/built-in"],
+  });
+
+  const { data: parsers, isLoading } = useQuery<LogParser[]>({
+    queryKey: ["/api/log-parsers"],
+  });
+
+  const toggleParserMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) =>
+      apiRequest("PUT", `/api/log-parsers/${id}`, { isEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/log-parsers"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atualizar o parser.", variant: "destructive" });
+    },
+  });
+
+  const deleteParserMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/log-parsers/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/log-parsers"] });
+      toast({ title: "Parser removido", description: "O parser de logs foi removido." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover o parser.", variant: "destructive" });
+    },
+  });
+
+  const overridden = new Set(parsers?.filter(parser => parser.isEnabled).map(parser => parser.logType));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Braces className="w-5 h-5" />
+              <span>Parsers de Logs</span>
+            </CardTitle>
+            <CardDescription>Extraem campos das linhas conforme o tipo de log da coleta</CardDescription>
+          </div>
+          {canManage && (
+            <Dialog open={isAddParserOpen} onOpenChange={setIsAddParserOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-log-parser">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Novo Parser
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                  <DialogTitle>Novo Parser de Logs</DialogTitle>
+                </DialogHeader>
+                <LogParserForm onSuccess={() => setIsAddParserOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {builtIns?.map((builtIn) => (
+            <div
+              key={builtIn.logType}
+              className="rounded-lg border p-3 space-y-1"
+              data-testid={`built-in-parser-${builtIn.logType}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{builtIn.name}</span>
+                <Badge variant={overridden.has(builtIn.logType) ? "outline" : "secondary"} className="font-mono">
+                  {builtIn.logType}
+                  {overridden.has(builtIn.logType) && " • substituído"}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">{builtIn.description}</p>
+              <p className="text-xs font-mono text-muted-foreground">{builtIn.fields.join(", ")}</p>
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando parsers...</p>
+        ) : !parsers?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum parser personalizado. Crie um com regex ou grok para tipos de log próprios.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="log-parsers-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Parser</th>
+                  <th className="text-left p-2">Tipo de log</th>
+                  <th className="text-left p-2">Padrão</th>
+                  <th className="text-left p-2">Ativo</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {parsers.map((parser) => (
+                  <tr key={parser.id} className="border-b" data-testid={`log-parser-${parser.id}`}>
+                    <td className="p-2 font-medium">{parser.name}</td>
+                    <td className="p-2 font-mono">{parser.logType}</td>
+                    <td className="p-2">
+                      <div className="text-xs text-muted-foreground">{KIND_LABELS[parser.kind] ?? parser.kind}</div>
+                      <div className="font-mono text-xs truncate max-w-sm">{parser.pattern}</div>
+                    </td>
+                    <td className="p-2">
+                      <Switch
+                        checked={parser.isEnabled}
+                        disabled={!canManage}
+                        onCheckedChange={(isEnabled) => toggleParserMutation.mutate({ id: parser.id, isEnabled })}
+                        data-testid={`switch-log-parser-${parser.id}`}
+                      />
+                    </td>
+                    {canManage && (
+                      <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingParser(parser)}
+                          data-testid={`button-edit-log-parser-${parser.id}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteParserMutation.mutate(parser.id)}
+                          disabled={deleteParserMutation.isPending}
+                          data-testid={`button-delete-log-parser-${parser.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={!!editingParser} onOpenChange={(open) => !open && setEditingParser(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Editar Parser de Logs</DialogTitle>
+            </DialogHeader>
+            {editingParser && (
+              <LogParserForm parser={editingParser} onSuccess={() => setEditingParser(null)} />
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,601 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertMaintenanceWindowSchema,
+  type ContainerStack,
+  type MaintenanceMode,
+  type MaintenanceScope,
+  type MaintenanceWindow,
+  type MaintenanceWindowAction,
+  type MaintenanceWindowEvent,
+  type MaintenanceWindowStatus,
+  type PublicServer,
+  type ServerMaintenance,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ENVIRONMENT_LABELS } from "./slos-card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { History, Pencil, Plus, Trash2, Wrench } from "lucide-react";
+
+const SCOPE_LABELS: Record<MaintenanceScope, string> = {
+  server: "Servidor",
+  tag: "Tag",
+  environment: "Ambiente",
+  stack: "Stack de contêineres",
+};
+
+const MODE_LABELS: Record<MaintenanceMode, string> = {
+  suppress: "Silenciar alertas",
+  mark: "Marcar como manutenção",
+};
+
+const ACTION_LABELS: Record<MaintenanceWindowAction, string> = {
+  created: "criou",
+  updated: "alterou",
+  deleted: "removeu",
+};
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toLocaleString([], { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(value: string | Date): string {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+/** Servers currently in maintenance, keyed by server id; shared by every server card. */
+export function useServerMaintenance() {
+  const query = useQuery<ServerMaintenance[]>({
+    queryKey: ["/api/maintenance-windows/servers"],
+    refetchInterval: 60_000,
+  });
+  return { ...query, byServer: new Map(query.data?.map(entry => [entry.serverId, entry])) };
+}
+
+export function MaintenanceBadge({ maintenance }: { maintenance: ServerMaintenance }) {
+  return (
+    <Badge
+      className="bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200"
+      title={`${maintenance.name} — até ${formatDateTime(maintenance.until)}`}
+      data-testid={`maintenance-badge-${maintenance.serverId}`}
+    >
+      <Wrench className="w-3 h-3 mr-1" />
+      Em manutenção
+    </Badge>
+  );
+}
+
+interface MaintenanceFormValues {
+  name: string;
+  reason: string;
+  scopeType: MaintenanceScope;
+  scopeValue: string;
+  mode: MaintenanceMode;
+  kind: "once" | "recurring";
+  startsAt: string;
+  endsAt: string;
+  recurrence: string;
+  durationMinutes: string;
+}
+
+function toMaintenancePayload(values: MaintenanceFormValues) {
+  const recurring = values.kind === "recurring";
+  return {
+    name: values.name,
+    reason: values.reason.trim() || null,
+    scopeType: values.scopeType,
+    scopeValue: values.scopeValue,
+    mode: values.mode,
+    startsAt: values.startsAt ? new Date(values.startsAt) : undefined,
+    endsAt: values.endsAt ? new Date(values.endsAt) : null,
+    recurrence: recurring ? values.recurrence : null,
+    durationMinutes: recurring && values.durationMinutes ? Number(values.durationMinutes) : null,
+  };
+}
+
+function MaintenanceWindowForm({
+  maintenanceWindow,
+  servers,
+  stacks,
+  onSuccess,
+}: {
+  maintenanceWindow?: MaintenanceWindow;
+  servers: PublicServer[];
+  stacks: ContainerStack[];
+  onSuccess?: () => void;
+}) {
+  const { toast } = useToast();
+  const isEditing = !!maintenanceWindow;
+  const now = new Date();
+
+  const form = useForm<MaintenanceFormValues>({
+    defaultValues: {
+      name: maintenanceWindow?.name || "",
+      reason: maintenanceWindow?.reason || "",
+      scopeType: (maintenanceWindow?.scopeType as MaintenanceScope) || "server",
+      scopeValue: maintenanceWindow?.scopeValue || "",
+      mode: (maintenanceWindow?.mode as MaintenanceMode) || "suppress",
+      kind: maintenanceWindow?.recurrence ? "recurring" : "once",
+      startsAt: toLocalInput(maintenanceWindow?.startsAt ?? now),
+      endsAt: maintenanceWindow?.endsAt ? toLocalInput(maintenanceWindow.endsAt) : maintenanceWindow ? "" : toLocalInput(new Date(now.getTime() + 2 * 60 * 60_000)),
+      recurrence: maintenanceWindow?.recurrence || "0 2 * * 0",
+      durationMinutes: maintenanceWindow?.durationMinutes?.toString() || "120",
+    },
+  });
+
+  const scopeType = form.watch("scopeType");
+  const kind = form.watch("kind");
+
+  const saveWindowMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof toMaintenancePayload>) => {
+      const url = isEditing ? `/api/maintenance-windows/${maintenanceWindow.id}` : "/api/maintenance-windows";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-windows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-windows/servers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-windows/events"] });
+      toast({
+        title: isEditing ? "Janela atualizada" : "Janela criada",
+        description: "A janela de manutenção foi salva com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a janela de manutenção. Verifique a expressão de recorrência.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: MaintenanceFormValues) => {
+    const payload = toMaintenancePayload(values);
+    const result = insertMaintenanceWindowSchema.safeParse(payload);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        form.setError(issue.path[0] as keyof MaintenanceFormValues, { message: issue.message });
+      }
+      return;
+    }
+    saveWindowMutation.mutate(payload);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="maintenance-form">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input placeholder="Atualização do PostgreSQL" {...field} data-testid="input-maintenance-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="scopeType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Escopo</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("scopeValue", "");
+                  }}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="select-maintenance-scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="scopeValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{SCOPE_LABELS[scopeType]}</FormLabel>
+                {scopeType === "tag" ? (
+                  <FormControl>
+                    <Input placeholder="database" {...field} data-testid="input-maintenance-scope-value" />
+                  </FormControl>
+                ) : (
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-maintenance-scope-value">
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {scopeType === "server" && servers.map((server) => (
+                        <SelectItem key={server.id} value={server.id}>{server.name}</SelectItem>
+                      ))}
+                      {scopeType === "environment" && Object.entries(ENVIRONMENT_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                      {scopeType === "stack" && stacks.map((stack) => (
+                        <SelectItem key={stack.id} value={stack.id}>{stack.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="mode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Durante a janela</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-maintenance-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Alertas marcados ficam registrados, mas não notificam.</FormDescription>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="kind"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tipo</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-maintenance-kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="once">Única</SelectItem>
+                    <SelectItem value="recurring">Recorrente</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {kind === "recurring" && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="recurrence"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Recorrência (cron, UTC)</FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" placeholder="0 2 * * 0" {...field} data-testid="input-maintenance-recurrence" />
+                  </FormControl>
+                  <FormDescription>minuto hora dia mês dia-da-semana</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="durationMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Duração (minutos)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} {...field} data-testid="input-maintenance-duration" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{kind === "recurring" ? "Válida a partir de" : "Início"}</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} data-testid="input-maintenance-starts-at" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="endsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{kind === "recurring" ? "Válida até (opcional)" : "Fim"}</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} data-testid="input-maintenance-ends-at" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="reason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Motivo</FormLabel>
+              <FormControl>
+                <Textarea rows={2} placeholder="Aplicação de patches de segurança" {...field} data-testid="input-maintenance-reason" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveWindowMutation.isPending} data-testid="button-submit-maintenance">
+            {saveWindowMutation.isPending ? "Salvando..." : isEditing ? "Atualizar janela" : "Criar janela"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function WindowStatusBadge({ maintenanceWindow }: { maintenanceWindow: MaintenanceWindowStatus }) {
+  if (maintenanceWindow.active) {
+    return (
+      <Badge className="bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200">
+        Ativa até {formatDateTime(maintenanceWindow.activeUntil!)}
+      </Badge>
+    );
+  }
+  if (maintenanceWindow.nextStartAt) return <Badge variant="outline">Próxima: {formatDateTime(maintenanceWindow.nextStartAt)}</Badge>;
+  return <Badge variant="secondary">Encerrada</Badge>;
+}
+
+export function MaintenanceWindowsCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [isAddWindowOpen, setIsAddWindowOpen] = useState(false);
+  const [editingWindow, setEditingWindow] = useState<MaintenanceWindow | null>(null);
+  const canManage = hasRole("operator");
+
+  const { data: windows, isLoading } = useQuery<MaintenanceWindowStatus[]>({
+    queryKey: ["/api/maintenance-windows"],
+    refetchInterval: 60_000,
+  });
+  const { data: servers } = useQuery<PublicServer[]>({
+    queryKey: ["/api/servers"],
+  });
+  const { data: stacks } = useQuery<ContainerStack[]>({
+    queryKey: ["/api/container-stacks"],
+  });
+
+  const serverNames = new Map(servers?.map(server => [server.id, server.name]));
+  const stackNames = new Map(stacks?.map(stack => [stack.id, stack.name]));
+  const describeScope = (maintenanceWindow: MaintenanceWindow) => {
+    switch (maintenanceWindow.scopeType) {
+      case "server":
+        return serverNames.get(maintenanceWindow.scopeValue) ?? maintenanceWindow.scopeValue;
+      case "environment":
+        return ENVIRONMENT_LABELS[maintenanceWindow.scopeValue] ?? maintenanceWindow.scopeValue;
+      case "stack":
+        return `Stack ${stackNames.get(maintenanceWindow.scopeValue) ?? maintenanceWindow.scopeValue}`;
+      default:
+        return `Tag ${maintenanceWindow.scopeValue}`;
+    }
+  };
+
+  const deleteWindowMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/maintenance-windows/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-windows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-windows/servers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-windows/events"] });
+      toast({ title: "Janela removida", description: "A janela de manutenção foi removida." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a janela de manutenção.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Wrench className="w-5 h-5" />
+            <span>Janelas de Manutenção</span>
+          </CardTitle>
+          {canManage && (
+            <Dialog open={isAddWindowOpen} onOpenChange={setIsAddWindowOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-maintenance">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova janela
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-xl">
+                <DialogHeader>
+                  <DialogTitle>Nova janela de manutenção</DialogTitle>
+                </DialogHeader>
+                <MaintenanceWindowForm
+                  servers={servers ?? []}
+                  stacks={stacks ?? []}
+                  onSuccess={() => setIsAddWindowOpen(false)}
+                />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando janelas...</p>
+        ) : !windows?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma janela de manutenção cadastrada.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="maintenance-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Janela</th>
+                  <th className="text-left p-2">Agenda</th>
+                  <th className="text-left p-2">Modo</th>
+                  <th className="text-left p-2">Situação</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {windows.map((maintenanceWindow) => (
+                  <tr key={maintenanceWindow.id} className="border-b" data-testid={`maintenance-${maintenanceWindow.id}`}>
+                    <td className="p-2">
+                      <div className="font-medium">{maintenanceWindow.name}</div>
+                      <div className="text-xs text-muted-foreground">{describeScope(maintenanceWindow)}</div>
+                      {maintenanceWindow.reason && <div className="text-xs text-muted-foreground">{maintenanceWindow.reason}</div>}
+                    </td>
+                    <td className="p-2 text-xs">
+                      {maintenanceWindow.recurrence ? (
+                        <>
+                          <div><span className="font-mono">{maintenanceWindow.recurrence}</span> (UTC) · {maintenanceWindow.durationMinutes} min</div>
+                          <div className="text-muted-foreground">
+                            desde {formatDateTime(maintenanceWindow.startsAt)}
+                            {maintenanceWindow.endsAt && ` até ${formatDateTime(maintenanceWindow.endsAt)}`}
+                          </div>
+                        </>
+                      ) : (
+                        <div>{formatDateTime(maintenanceWindow.startsAt)} → {maintenanceWindow.endsAt && formatDateTime(maintenanceWindow.endsAt)}</div>
+                      )}
+                    </td>
+                    <td className="p-2">{MODE_LABELS[maintenanceWindow.mode as MaintenanceMode] ?? maintenanceWindow.mode}</td>
+                    <td className="p-2"><WindowStatusBadge maintenanceWindow={maintenanceWindow} /></td>
+                    {canManage && (
+                      <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingWindow(maintenanceWindow)}
+                          data-testid={`button-edit-maintenance-${maintenanceWindow.id}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteWindowMutation.mutate(maintenanceWindow.id)}
+                          data-testid={`button-delete-maintenance-${maintenanceWindow.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingWindow} onOpenChange={(open) => !open && setEditingWindow(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Editar janela de manutenção</DialogTitle>
+          </DialogHeader>
+          {editingWindow && (
+            <MaintenanceWindowForm
+              maintenanceWindow={editingWindow}
+              servers={servers ?? []}
+              stacks={stacks ?? []}
+              onSuccess={() => setEditingWindow(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/** Who created, changed or removed each maintenanceWindow; kept after the maintenanceWindow is deleted. */
+export function MaintenanceHistoryCard() {
+  const { data: events, isLoading } = useQuery<MaintenanceWindowEvent[]>({
+    queryKey: ["/api/maintenance-windows/events"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>Histórico de Alterações</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando histórico...</p>
+        ) : !events?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma alteração registrada.</p>
+        ) : (
+          <ul className="space-y-2 text-sm" data-testid="maintenance-history">
+            {events.map((event) => (
+              <li key={event.id} className="flex justify-between gap-4 border-b pb-2" data-testid={`maintenance-event-${event.id}`}>
+                <span>
+                  <span className="font-medium">{event.actorName}</span>{" "}
+                  {ACTION_LABELS[event.action as MaintenanceWindowAction] ?? event.action} a janela{" "}
+                  <span className="font-medium">{event.windowName}</span>
+                </span>
+                <span className="text-muted-foreground whitespace-nowrap">{formatDateTime(event.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { type AnomalyMetric, type MetricBaselinePoint, type MetricBucket, type MetricName } from "@shared/schema";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+interface MetricHistoryChartProps {
+  buckets: MetricBucket[];
+  series: { metric: MetricName; aggregation: "avg" | "max" | "p95"; label: string; color: string }[];
+  unit: string;
+  // Range of the whole chart, used to pick the time axis format
+  rangeMs: number;
+  maxValue?: number;
+  // Expected range from the anomaly baseline, drawn behind the lines
+  band?: { metric: AnomalyMetric; points: MetricBaselinePoint[]; label: string; color: string };
+}
+
+export function formatTick(timestamp: string, rangeMs: number): string {
+  const date = new Date(timestamp);
+  return rangeMs > 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString([], { day: "2-digit", month: "2-digit" })
+    : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export function MetricHistoryChart({ buckets, series, unit, rangeMs, maxValue, band }: MetricHistoryChartProps) {
+  const config: ChartConfig = Object.fromEntries(
+    series.map(({ metric, aggregation, label, color }) => [`${metric}_${aggregation}`, { label, color }]),
+  );
+  if (band) config.band = { label: band.label, color: band.color };
+
+  // Both series come from the same from/to, so their bucket timestamps line up
+  const bands = new Map(band?.points.map(point => [point.timestamp, point[band.metric]]));
+  const data = buckets.map(bucket => {
+    const expected = bands.get(bucket.timestamp);
+    return {
+      timestamp: bucket.timestamp,
+      ...Object.fromEntries(series.map(({ metric, aggregation }) => [`${metric}_${aggregation}`, bucket[metric][aggregation]])),
+      band: expected ? [expected.lower, expected.upper] : null,
+    };
+  });
+
+  return (
+    <ChartContainer config={config} className="h-64 w-full">
+      <ComposedChart data={data} margin={{ left: 0, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="timestamp"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+          tickFormatter={(value: string) => formatTick(value, rangeMs)}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={48}
+          domain={maxValue !== undefined ? [0, maxValue] : [0, "auto"]}
+          tickFormatter={(value: number) => `${Math.round(value)}${unit}`}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => new Date(payload[0]?.payload.timestamp).toLocaleString()}
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{config[name as string]?.label}</span>
+                  <span className="font-mono font-medium">
+                    {Array.isArray(value)
+                      ? `${Number(value[0]).toFixed(1)}–${Number(value[1]).toFixed(1)}${unit}`
+                      : `${Number(value).toFixed(1)}${unit}`}
+                  </span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {band && (
+          <Area
+            dataKey="band"
+            type="monotone"
+            stroke="none"
+            fill="var(--color-band)"
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+        )}
+        {series.map(({ metric, aggregation }) => (
+          <Line
+            key={`${metric}_${aggregation}`}
+            dataKey={`${metric}_${aggregation}`}
+            type="monotone"
+            stroke={`var(--color-${metric}_${aggregation})`}
+            strokeWidth={2}
+            strokeDasharray={aggregation === "avg" ? undefined : "4 4"}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,538 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertNotificationChannelSchema,
+  type InsertNotificationChannel,
+  type NotificationChannel,
+  type NotificationChannelType,
+  type NotificationDelivery,
+  type OnCallUser,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { History, Pencil, Plus, Send, Trash2 } from "lucide-react";
+
+const CHANNEL_TYPE_OPTIONS: Record<NotificationChannelType, string> = {
+  email: "Email",
+  webhook: "Webhook",
+  slack: "Slack",
+  mattermost: "Mattermost",
+  teams: "Microsoft Teams",
+};
+
+const SEVERITY_OPTIONS: Record<string, string> = {
+  info: "Info",
+  warning: "Aviso",
+  critical: "Crítico",
+};
+
+const DELIVERY_STATUS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  success: { label: "Entregue", variant: "default" },
+  pending: { label: "Pendente", variant: "secondary" },
+  failed: { label: "Falhou", variant: "destructive" },
+};
+
+const DELIVERY_EVENTS: Record<string, string> = {
+  triggered: "Disparo",
+  resolved: "Resolução",
+  reopened: "Reabertura",
+  escalated: "Escalonamento",
+  test: "Teste",
+};
+
+// Flat form shape; the per-type config object is assembled on submit
+interface ChannelFormValues {
+  name: string;
+  type: NotificationChannelType;
+  recipients: string;
+  url: string;
+  secret: string;
+  severities: string[];
+  notifyOnResolve: boolean;
+  isEnabled: boolean;
+}
+
+function toChannelPayload(values: ChannelFormValues) {
+  const config =
+    values.type === "email" ? { to: values.recipients.split(",").map(email => email.trim()).filter(Boolean) } :
+    values.type === "webhook" ? { url: values.url.trim(), secret: values.secret } :
+    { url: values.url.trim() };
+
+  return {
+    name: values.name,
+    type: values.type,
+    config,
+    severities: values.severities,
+    notifyOnResolve: values.notifyOnResolve,
+    isEnabled: values.isEnabled,
+  };
+}
+
+function NotificationChannelForm({ channel, onSuccess }: { channel?: NotificationChannel; onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const isEditing = !!channel;
+  const config = (channel?.config ?? {}) as { to?: string[]; url?: string; secret?: string };
+
+  const form = useForm<ChannelFormValues>({
+    defaultValues: {
+      name: channel?.name || "",
+      type: (channel?.type as NotificationChannelType) || "email",
+      recipients: config.to?.join(", ") || "",
+      url: config.url || "",
+      secret: config.secret || "",
+      severities: (channel?.severities as string[]) || ["warning", "critical"],
+      notifyOnResolve: channel?.notifyOnResolve ?? true,
+      isEnabled: channel?.isEnabled ?? true,
+    },
+  });
+
+  const type = form.watch("type");
+
+  const saveChannelMutation = useMutation({
+    mutationFn: async (data: InsertNotificationChannel) => {
+      const url = isEditing ? `/api/notification-channels/${channel.id}` : "/api/notification-channels";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-channels"] });
+      toast({
+        title: isEditing ? "Canal atualizado" : "Canal criado",
+        description: "O canal de notificação foi salvo com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar o canal de notificação. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: ChannelFormValues) => {
+    const result = insertNotificationChannelSchema.safeParse(toChannelPayload(values));
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field =
+          issue.path[0] === "severities" ? "severities" :
+          issue.path[0] === "name" ? "name" :
+          issue.path[1] === "to" ? "recipients" :
+          issue.path[1] === "secret" ? "secret" :
+          "url";
+        form.setError(field, { message: "Valor inválido" });
+      }
+      return;
+    }
+    saveChannelMutation.mutate(result.data);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="notification-channel-form">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input placeholder="Plantão infraestrutura" {...field} data-testid="input-channel-name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tipo</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-channel-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(CHANNEL_TYPE_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {type === "email" ? (
+          <FormField
+            control={form.control}
+            name="recipients"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Destinatários</FormLabel>
+                <FormControl>
+                  <Input placeholder="ops@exemplo.com, noc@exemplo.com" {...field} data-testid="input-channel-recipients" />
+                </FormControl>
+                <FormDescription>Separe os endereços por vírgula.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <FormField
+            control={form.control}
+            name="url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{type === "webhook" ? "URL do webhook" : "URL do incoming webhook"}</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://" {...field} data-testid="input-channel-url" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {type === "webhook" && (
+          <FormField
+            control={form.control}
+            name="secret"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Segredo de assinatura</FormLabel>
+                <FormControl>
+                  <Input type="password" {...field} data-testid="input-channel-secret" />
+                </FormControl>
+                <FormDescription>
+                  Mínimo de 16 caracteres. Cada requisição é assinada com HMAC-SHA256 no cabeçalho X-HosMonitor-Signature.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="severities"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Severidades</FormLabel>
+              <div className="flex items-center space-x-4">
+                {Object.entries(SEVERITY_OPTIONS).map(([value, label]) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`channel-severity-${value}`}
+                      checked={field.value.includes(value)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked ? [...field.value, value] : field.value.filter(v => v !== value))
+                      }
+                      data-testid={`checkbox-channel-severity-${value}`}
+                    />
+                    <Label htmlFor={`channel-severity-${value}`}>{label}</Label>
+                  </div>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="notifyOnResolve"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between space-y-0">
+                <FormLabel>Notificar resolução</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-channel-resolve" />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="isEnabled"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between space-y-0">
+                <FormLabel>Ativo</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-channel-enabled" />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveChannelMutation.isPending} data-testid="button-submit-channel">
+            {saveChannelMutation.isPending ? "Salvando..." : isEditing ? "Atualizar Canal" : "Criar Canal"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export function NotificationChannelsCard() {
+  const { toast } = useToast();
+  const [isAddChannelOpen, setIsAddChannelOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+
+  const { data: channels, isLoading } = useQuery<NotificationChannel[]>({
+    queryKey: ["/api/notification-channels"],
+  });
+
+  const testChannelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/notification-channels/${id}/test`);
+      return response.json() as Promise<NotificationDelivery>;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-deliveries"] });
+      if (delivery.status === "success") {
+        toast({ title: "Teste enviado", description: "A notificação de teste foi entregue." });
+      } else {
+        toast({ title: "Falha no teste", description: delivery.lastError ?? "Erro desconhecido", variant: "destructive" });
+      }
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao enviar a notificação de teste.", variant: "destructive" });
+    },
+  });
+
+  const toggleChannelMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) =>
+      apiRequest("PUT", `/api/notification-channels/${id}`, { isEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-channels"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atualizar o canal.", variant: "destructive" });
+    },
+  });
+
+  const deleteChannelMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/notification-channels/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-deliveries"] });
+      toast({ title: "Canal removido", description: "O canal de notificação foi removido." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover o canal.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Send className="w-5 h-5" />
+            <span>Canais de Notificação</span>
+          </CardTitle>
+          <Dialog open={isAddChannelOpen} onOpenChange={setIsAddChannelOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" data-testid="button-add-channel">
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Canal
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Novo Canal de Notificação</DialogTitle>
+              </DialogHeader>
+              <NotificationChannelForm onSuccess={() => setIsAddChannelOpen(false)} />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando canais...</p>
+        ) : !channels?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhum canal de notificação cadastrado.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="notification-channels-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Canal</th>
+                  <th className="text-left p-2">Tipo</th>
+                  <th className="text-left p-2">Severidades</th>
+                  <th className="text-left p-2">Ativo</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {channels.map((channel) => (
+                  <tr key={channel.id} className="border-b" data-testid={`notification-channel-${channel.id}`}>
+                    <td className="p-2 font-medium">{channel.name}</td>
+                    <td className="p-2">{CHANNEL_TYPE_OPTIONS[channel.type as NotificationChannelType] ?? channel.type}</td>
+                    <td className="p-2 space-x-1">
+                      {(channel.severities as string[]).map(severity => (
+                        <Badge key={severity} variant={severity === "critical" ? "destructive" : "secondary"}>
+                          {SEVERITY_OPTIONS[severity] ?? severity}
+                        </Badge>
+                      ))}
+                    </td>
+                    <td className="p-2">
+                      <Switch
+                        checked={channel.isEnabled}
+                        onCheckedChange={(isEnabled) => toggleChannelMutation.mutate({ id: channel.id, isEnabled })}
+                        data-testid={`switch-channel-${channel.id}`}
+                      />
+                    </td>
+                    <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => testChannelMutation.mutate(channel.id)}
+                        disabled={testChannelMutation.isPending}
+                        data-testid={`button-test-channel-${channel.id}`}
+                      >
+                        <Send className="w-4 h-4 mr-2" />
+                        Testar
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditingChannel(channel)}
+                        data-testid={`button-edit-channel-${channel.id}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteChannelMutation.mutate(channel.id)}
+                        disabled={deleteChannelMutation.isPending}
+                        data-testid={`button-delete-channel-${channel.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Dialog open={!!editingChannel} onOpenChange={(open) => !open && setEditingChannel(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Editar Canal de Notificação</DialogTitle>
+            </DialogHeader>
+            {editingChannel && (
+              <NotificationChannelForm channel={editingChannel} onSuccess={() => setEditingChannel(null)} />
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function NotificationDeliveriesCard() {
+  const { hasRole } = useAuth();
+
+  const { data: deliveries, isLoading } = useQuery<NotificationDelivery[]>({
+    queryKey: ["/api/notification-deliveries"],
+    refetchInterval: 15000,
+  });
+
+  // Channel names are only readable by admins; operators see the channel id
+  const { data: channels } = useQuery<NotificationChannel[]>({
+    queryKey: ["/api/notification-channels"],
+    enabled: hasRole("admin"),
+  });
+  const channelNames = new Map(channels?.map(channel => [channel.id, channel.name]));
+  // Escalations to a person are delivered to the user's e-mail rather than a channel
+  const { data: users } = useQuery<OnCallUser[]>({
+    queryKey: ["/api/on-call/users"],
+  });
+  const userNames = new Map(users?.map(user => [user.id, user.name]));
+  const describeRecipient = (delivery: NotificationDelivery) => delivery.userId
+    ? `E-mail de ${userNames.get(delivery.userId) ?? delivery.userId.slice(0, 8)}`
+    : channelNames.get(delivery.channelId!) ?? delivery.channelId!.slice(0, 8);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>Histórico de Entregas</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando entregas...</p>
+        ) : !deliveries?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma notificação enviada ainda.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm" data-testid="notification-deliveries-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Data</th>
+                  <th className="text-left p-2">Destino</th>
+                  <th className="text-left p-2">Evento</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Tentativas</th>
+                  <th className="text-left p-2">Erro</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => {
+                  const status = DELIVERY_STATUS[delivery.status] ?? DELIVERY_STATUS.pending;
+                  return (
+                    <tr key={delivery.id} className="border-b" data-testid={`notification-delivery-${delivery.id}`}>
+                      <td className="p-2 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+                      <td className="p-2">{describeRecipient(delivery)}</td>
+                      <td className="p-2">{DELIVERY_EVENTS[delivery.event] ?? delivery.event}</td>
+                      <td className="p-2">
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </td>
+                      <td className="p-2">{delivery.attempts}</td>
+                      <td className="p-2 text-muted-foreground max-w-xs truncate" title={delivery.lastError ?? undefined}>
+                        {delivery.lastError ?? "—"}
+                        {delivery.status === "pending" && delivery.nextAttemptAt && (
+                          <span className="block text-xs">
+                            Próxima tentativa: {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
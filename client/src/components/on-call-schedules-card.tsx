@@ -0,0 +1,615 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertOnCallOverrideSchema,
+  insertOnCallScheduleSchema,
+  type OnCallRotation,
+  type OnCallSchedule,
+  type OnCallScheduleStatus,
+  type OnCallShift,
+  type OnCallUser,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowUp, CalendarClock, Pencil, Plus, Trash2, UserPlus, X } from "lucide-react";
+
+const ROTATION_LABELS: Record<OnCallRotation, string> = {
+  daily: "Diária",
+  weekly: "Semanal",
+  custom: "Personalizada",
+};
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toLocaleString([], { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(value: string | Date): string {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function describeRotation(schedule: OnCallSchedule): string {
+  if (schedule.rotation === "custom") return `Turnos de ${schedule.shiftHours} h`;
+  return ROTATION_LABELS[schedule.rotation as OnCallRotation] ?? schedule.rotation;
+}
+
+/** Active users that can be put on call, with their display names. */
+export function useOnCallUsers() {
+  const query = useQuery<OnCallUser[]>({
+    queryKey: ["/api/on-call/users"],
+  });
+  return { ...query, byId: new Map(query.data?.map(user => [user.id, user])) };
+}
+
+interface ScheduleFormValues {
+  name: string;
+  description: string;
+  rotation: OnCallRotation;
+  shiftHours: string;
+  handoffAt: string;
+  participants: string[];
+}
+
+function toSchedulePayload(values: ScheduleFormValues) {
+  return {
+    name: values.name,
+    description: values.description.trim() || null,
+    rotation: values.rotation,
+    shiftHours: values.rotation === "custom" && values.shiftHours ? Number(values.shiftHours) : null,
+    handoffAt: values.handoffAt ? new Date(values.handoffAt) : undefined,
+    participants: values.participants,
+  };
+}
+
+function OnCallScheduleForm({
+  schedule,
+  users,
+  onSuccess,
+}: {
+  schedule?: OnCallSchedule;
+  users: OnCallUser[];
+  onSuccess?: () => void;
+}) {
+  const { toast } = useToast();
+  const isEditing = !!schedule;
+  const userNames = new Map(users.map(user => [user.id, user.name]));
+
+  const form = useForm<ScheduleFormValues>({
+    defaultValues: {
+      name: schedule?.name || "",
+      description: schedule?.description || "",
+      rotation: (schedule?.rotation as OnCallRotation) || "weekly",
+      shiftHours: schedule?.shiftHours?.toString() || "12",
+      handoffAt: toLocalInput(schedule?.handoffAt ?? new Date()),
+      participants: (schedule?.participants as string[]) || [],
+    },
+  });
+
+  const rotation = form.watch("rotation");
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof toSchedulePayload>) => {
+      const url = isEditing ? `/api/on-call/schedules/${schedule.id}` : "/api/on-call/schedules";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/on-call/schedules"] });
+      toast({
+        title: isEditing ? "Escala atualizada" : "Escala criada",
+        description: "A escala de plantão foi salva com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a escala de plantão. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: ScheduleFormValues) => {
+    const payload = toSchedulePayload(values);
+    const result = insertOnCallScheduleSchema.safeParse(payload);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        form.setError(issue.path[0] as keyof ScheduleFormValues, { message: issue.message });
+      }
+      return;
+    }
+    saveScheduleMutation.mutate(payload);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="on-call-schedule-form">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input placeholder="Plantão Infraestrutura" {...field} data-testid="input-schedule-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="rotation"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rotação</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-schedule-rotation">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(ROTATION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          {rotation === "custom" && (
+            <FormField
+              control={form.control}
+              name="shiftHours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Duração do turno (horas)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} {...field} data-testid="input-schedule-shift-hours" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="handoffAt"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Início do primeiro turno</FormLabel>
+              <FormControl>
+                <Input type="datetime-local" {...field} data-testid="input-schedule-handoff" />
+              </FormControl>
+              <FormDescription>Os turnos seguintes se sucedem a partir deste horário.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="participants"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Participantes (ordem da rotação)</FormLabel>
+              <ol className="space-y-1">
+                {field.value.map((userId, index) => (
+                  <li key={userId} className="flex items-center justify-between text-sm border rounded px-2 py-1">
+                    <span>{index + 1}. {userNames.get(userId) ?? userId}</span>
+                    <span className="space-x-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === 0}
+                        onClick={() => {
+                          const next = [...field.value];
+                          [next[index - 1], next[index]] = [next[index], next[index - 1]];
+                          field.onChange(next);
+                        }}
+                        data-testid={`button-participant-up-${userId}`}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => field.onChange(field.value.filter(id => id !== userId))}
+                        data-testid={`button-participant-remove-${userId}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+              <Select value="" onValueChange={(userId) => field.onChange([...field.value, userId])}>
+                <SelectTrigger data-testid="select-schedule-participant">
+                  <SelectValue placeholder="Adicionar participante" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.filter(user => !field.value.includes(user.id)).map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name}{!user.hasEmail && " (sem e-mail)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Descrição</FormLabel>
+              <FormControl>
+                <Input placeholder="Atende alertas críticos de produção" {...field} data-testid="input-schedule-description" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveScheduleMutation.isPending} data-testid="button-submit-schedule">
+            {saveScheduleMutation.isPending ? "Salvando..." : isEditing ? "Atualizar escala" : "Criar escala"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+interface OverrideFormValues {
+  userId: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string;
+}
+
+function OnCallOverrideForm({
+  schedule,
+  users,
+  onSuccess,
+}: {
+  schedule: OnCallSchedule;
+  users: OnCallUser[];
+  onSuccess?: () => void;
+}) {
+  const { toast } = useToast();
+  const now = new Date();
+
+  const form = useForm<OverrideFormValues>({
+    defaultValues: {
+      userId: "",
+      startsAt: toLocalInput(now),
+      endsAt: toLocalInput(new Date(now.getTime() + 24 * 60 * 60_000)),
+      reason: "",
+    },
+  });
+
+  const createOverrideMutation = useMutation({
+    mutationFn: async (data: { userId: string; startsAt: Date; endsAt: Date; reason: string | null }) =>
+      apiRequest("POST", `/api/on-call/schedules/${schedule.id}/overrides`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/on-call/schedules"] });
+      toast({ title: "Substituição criada", description: "A substituição de plantão foi registrada." });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao registrar a substituição. Tente novamente.", variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (values: OverrideFormValues) => {
+    const payload = {
+      userId: values.userId,
+      startsAt: new Date(values.startsAt),
+      endsAt: new Date(values.endsAt),
+      reason: values.reason.trim() || null,
+    };
+    const result = insertOnCallOverrideSchema.safeParse(payload);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        form.setError(issue.path[0] as keyof OverrideFormValues, { message: issue.message });
+      }
+      return;
+    }
+    createOverrideMutation.mutate(payload);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="on-call-override-form">
+        <FormField
+          control={form.control}
+          name="userId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Quem assume o plantão</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-override-user">
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Início</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} data-testid="input-override-starts-at" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="endsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fim</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} data-testid="input-override-ends-at" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="reason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Motivo</FormLabel>
+              <FormControl>
+                <Input placeholder="Troca de turno, férias..." {...field} data-testid="input-override-reason" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={createOverrideMutation.isPending} data-testid="button-submit-override">
+            {createOverrideMutation.isPending ? "Salvando..." : "Registrar substituição"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function ShiftSummary({ shift, users }: { shift: OnCallShift | null; users: Map<string, OnCallUser> }) {
+  if (!shift) return <span className="text-muted-foreground">—</span>;
+  return (
+    <div>
+      <div className="font-medium">
+        {users.get(shift.userId)?.name ?? shift.userId}
+        {shift.overrideId && <Badge variant="outline" className="ml-2">Substituição</Badge>}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {formatDateTime(shift.startsAt)} → {formatDateTime(shift.endsAt)}
+      </div>
+    </div>
+  );
+}
+
+export function OnCallSchedulesCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [isAddScheduleOpen, setIsAddScheduleOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<OnCallSchedule | null>(null);
+  const [overrideSchedule, setOverrideSchedule] = useState<OnCallSchedule | null>(null);
+  const canManageSchedules = hasRole("admin");
+  const canOverride = hasRole("operator");
+
+  const { data: schedules, isLoading } = useQuery<OnCallScheduleStatus[]>({
+    queryKey: ["/api/on-call/schedules"],
+    refetchInterval: 60_000,
+  });
+  const { data: users, byId: usersById } = useOnCallUsers();
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/on-call/schedules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/on-call/schedules"] });
+      toast({ title: "Escala removida", description: "A escala de plantão foi removida." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a escala de plantão.", variant: "destructive" });
+    },
+  });
+
+  const deleteOverrideMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/on-call/overrides/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/on-call/schedules"] });
+      toast({ title: "Substituição removida", description: "O plantão volta a seguir a rotação." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a substituição.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5" />
+            <span>Escalas de Plantão</span>
+          </CardTitle>
+          {canManageSchedules && (
+            <Dialog open={isAddScheduleOpen} onOpenChange={setIsAddScheduleOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-schedule">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova escala
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-xl">
+                <DialogHeader>
+                  <DialogTitle>Nova escala de plantão</DialogTitle>
+                </DialogHeader>
+                <OnCallScheduleForm users={users ?? []} onSuccess={() => setIsAddScheduleOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando escalas...</p>
+        ) : !schedules?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma escala de plantão cadastrada.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="on-call-schedules-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Escala</th>
+                  <th className="text-left p-2">Plantão atual</th>
+                  <th className="text-left p-2">Próximo</th>
+                  <th className="text-left p-2">Substituições</th>
+                  {canOverride && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map((schedule) => (
+                  <tr key={schedule.id} className="border-b align-top" data-testid={`on-call-schedule-${schedule.id}`}>
+                    <td className="p-2">
+                      <div className="font-medium">{schedule.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {describeRotation(schedule)} · {(schedule.participants as string[])
+                          .map(userId => usersById.get(userId)?.name ?? userId)
+                          .join(" → ")}
+                      </div>
+                      {schedule.description && <div className="text-xs text-muted-foreground">{schedule.description}</div>}
+                    </td>
+                    <td className="p-2"><ShiftSummary shift={schedule.current} users={usersById} /></td>
+                    <td className="p-2"><ShiftSummary shift={schedule.next} users={usersById} /></td>
+                    <td className="p-2 text-xs space-y-1">
+                      {!schedule.overrides.length && <span className="text-muted-foreground">—</span>}
+                      {schedule.overrides.map((override) => (
+                        <div key={override.id} className="flex items-center space-x-1" data-testid={`on-call-override-${override.id}`}>
+                          <span title={override.reason ?? undefined}>
+                            {usersById.get(override.userId)?.name ?? override.userId}: {formatDateTime(override.startsAt)} → {formatDateTime(override.endsAt)}
+                          </span>
+                          {canOverride && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteOverrideMutation.mutate(override.id)}
+                              data-testid={`button-delete-override-${override.id}`}
+                            >
+                              <X className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                    {canOverride && (
+                      <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Registrar substituição"
+                          onClick={() => setOverrideSchedule(schedule)}
+                          data-testid={`button-override-schedule-${schedule.id}`}
+                        >
+                          <UserPlus className="w-4 h-4" />
+                        </Button>
+                        {canManageSchedules && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditingSchedule(schedule)}
+                              data-testid={`button-edit-schedule-${schedule.id}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                              data-testid={`button-delete-schedule-${schedule.id}`}
+                            >
+                              <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingSchedule} onOpenChange={(open) => !open && setEditingSchedule(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Editar escala de plantão</DialogTitle>
+          </DialogHeader>
+          {editingSchedule && (
+            <OnCallScheduleForm schedule={editingSchedule} users={users ?? []} onSuccess={() => setEditingSchedule(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!overrideSchedule} onOpenChange={(open) => !open && setOverrideSchedule(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Substituição em {overrideSchedule?.name}</DialogTitle>
+          </DialogHeader>
+          {overrideSchedule && (
+            <OnCallOverrideForm schedule={overrideSchedule} users={users ?? []} onSuccess={() => setOverrideSchedule(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
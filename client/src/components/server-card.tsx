@@ -1,16 +1,22 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ServerWithMetrics } from "@shared/schema";
+import { ServerWithMetrics, type SyntheticCheckWithStatus } from "@shared/schema";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { AlertTriangle, Terminal, BarChart3, Network, Clock, Settings, Trash2 } from "lucide-react";
+import { AlertTriangle, Terminal, BarChart3, Network, Clock, Settings, Trash2, TrendingUp } from "lucide-react";
 import { SshTerminal } from "./ssh-terminal";
 import { ServerForm } from "./server-form";
+import { CheckStatusBadge } from "./synthetic-checks-card";
+import { formatTimeToSaturation, useCapacityForecasts } from "./capacity-forecast-card";
+import { MaintenanceBadge, useServerMaintenance } from "./maintenance-windows-card";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { formatAvailability, formatUptime, getAvailabilityColor } from "@/lib/utils";
+import { useServerAvailability } from "@/hooks/use-availability";
 
 interface ServerCardProps {
   server: ServerWithMetrics;
@@ -19,9 +25,24 @@ interface ServerCardProps {
 
 export function ServerCard({ server, showActions = false }: ServerCardProps) {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   const [isSshOpen, setIsSshOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
 
+  // Shared query key with the settings card, so every server card reuses one request
+  const { data: checks } = useQuery<SyntheticCheckWithStatus[]>({
+    queryKey: ["/api/checks"],
+    refetchInterval: 15_000,
+  });
+  const serverChecks = checks?.filter(check => check.serverId === server.id && check.isEnabled) ?? [];
+  const availability = useServerAvailability("30d").byServer.get(server.id);
+  const { data: forecasts } = useCapacityForecasts();
+  const maintenance = useServerMaintenance().byServer.get(server.id);
+  // Only predictions within a week are worth the card space
+  const saturating = forecasts?.filter(forecast =>
+    forecast.serverId === server.id && forecast.hoursToSaturation !== null && forecast.hoursToSaturation <= 7 * 24,
+  ) ?? [];
+
   const deleteServerMutation = useMutation({
     mutationFn: async () => {
       return apiRequest("DELETE", `/api/servers/${server.id}`);
@@ -100,6 +121,7 @@ export function ServerCard({ server, showActions = false }: ServerCardProps) {
             <h3 className="font-semibold text-foreground">{server.name}</h3>
           </div>
           <div className="flex space-x-2">
+            {maintenance && <MaintenanceBadge maintenance={maintenance} />}
             <Badge className={getServerTypeColor(server.serverType)}>
               {server.serverType}
             </Badge>
@@ -120,7 +142,13 @@ export function ServerCard({ server, showActions = false }: ServerCardProps) {
             <Clock className="w-4 h-4 mr-2" />
             <span>Uptime: </span>
             <span className={`ml-1 ${server.metrics?.isOnline ? 'text-green-600' : 'text-red-600'}`}>
-              {server.metrics?.uptime || '0'}%
+              {server.metrics?.isOnline && server.metrics.uptime
+                ? formatUptime(parseFloat(server.metrics.uptime))
+                : "—"}
+            </span>
+            <span className="ml-4">Disponibilidade 30d: </span>
+            <span className={`ml-1 ${getAvailabilityColor(availability?.availability)}`} data-testid={`availability-${server.id}`}>
+              {formatAvailability(availability?.availability)}
             </span>
           </div>
         </div>
@@ -176,6 +204,39 @@ export function ServerCard({ server, showActions = false }: ServerCardProps) {
           </div>
         )}
 
+        {serverChecks.length > 0 && (
+          <div className="space-y-1" data-testid={`server-checks-${server.id}`}>
+            {serverChecks.map((check) => (
+              <div key={check.id} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground truncate" title={check.latestResult?.message ?? undefined}>
+                  {check.name}
+                </span>
+                <div className="flex items-center space-x-2">
+                  {check.latestResult?.latencyMs != null && (
+                    <span className="text-xs text-muted-foreground">{check.latestResult.latencyMs} ms</span>
+                  )}
+                  <CheckStatusBadge result={check.latestResult} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {saturating.map((forecast) => (
+          <div
+            key={forecast.metric}
+            className="bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-md p-3"
+            data-testid={`forecast-warning-${server.id}-${forecast.metric}`}
+          >
+            <div className="flex items-center">
+              <TrendingUp className="w-4 h-4 text-yellow-600 mr-2" />
+              <span className="text-sm text-yellow-800 dark:text-yellow-200">
+                {forecast.metric === "disk" ? "Disco cheio" : "Memória saturada"} em {formatTimeToSaturation(forecast.hoursToSaturation!)}
+              </span>
+            </div>
+          </div>
+        ))}
+
         {hasAlerts && (
           <div className="bg-orange-50 dark:bg-orange-950 border border-orange-200 dark:border-orange-800 rounded-md p-3">
             <div className="flex items-center">
@@ -191,7 +252,7 @@ export function ServerCard({ server, showActions = false }: ServerCardProps) {
         )}
 
         <div className="flex space-x-2 pt-4 border-t border-border">
-          {server.metrics?.isOnline ? (
+          {server.metrics?.isOnline && hasRole("operator") ? (
             <Dialog open={isSshOpen} onOpenChange={setIsSshOpen}>
               <DialogTrigger asChild>
                 <Button 
@@ -232,7 +293,7 @@ export function ServerCard({ server, showActions = false }: ServerCardProps) {
             Métricas
           </Button>
 
-          {showActions && (
+          {showActions && hasRole("admin") && (
             <>
               <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
                 <DialogTrigger asChild>
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTheme } from "next-themes";
+import { type Alert } from "@shared/schema";
+import { useSettings } from "@/hooks/use-settings";
+
+declare global {
+  interface Window {
+    // Older Safari only ships the prefixed constructor
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+function playAlertTone() {
+  const AudioContextClass = window.AudioContext ?? window.webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  const context: AudioContext = new AudioContextClass();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.type = "square";
+  oscillator.frequency.value = 880;
+  gain.gain.setValueAtTime(0.1, context.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.6);
+  oscillator.connect(gain).connect(context.destination);
+  oscillator.start();
+  oscillator.stop(context.currentTime + 0.6);
+  oscillator.onended = () => context.close();
+}
+
+/**
+ * Applies the saved settings that affect the whole app: the theme and the
+ * sound played when a new critical alert shows up.
+ */
+export function SettingsEffects() {
+  const { settings, refreshIntervalMs } = useSettings();
+  const { setTheme } = useTheme();
+  const seenCriticalIds = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    setTheme(settings.theme);
+  }, [settings.theme, setTheme]);
+
+  const { data: alerts } = useQuery<Alert[]>({
+    queryKey: ["/api/alerts"],
+    enabled: settings.soundAlerts,
+    refetchInterval: refreshIntervalMs,
+  });
+
+  useEffect(() => {
+    if (!alerts) return;
+
+    const criticalIds = alerts
+      .filter(alert => alert.severity === "critical" && !alert.isResolved)
+      .map(alert => alert.id);
+
+    // The first load only records what is already open
+    if (seenCriticalIds.current && criticalIds.some(id => !seenCriticalIds.current!.has(id))) {
+      playAlertTone();
+    }
+    seenCriticalIds.current = new Set(criticalIds);
+  }, [alerts]);
+
+  return null;
+}
@@ -9,21 +9,41 @@ import {
   User,
   Activity,
   FileText,
-  Boxes
+  FileSearch,
+  Boxes,
+  Users,
+  Gauge,
+  Wrench,
+  PhoneCall,
+  LogOut
 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+const ROLE_LABELS: Record<string, string> = {
+  viewer: "Visualizador",
+  operator: "Operador",
+  admin: "Administrador",
+};
 
 export function Sidebar() {
   const [location] = useLocation();
+  const { user, hasRole, logoutMutation } = useAuth();
 
   const navItems = [
     { path: "/", label: "Dashboard", icon: Activity },
     { path: "/servers", label: "Servidores", icon: Server },
     { path: "/metrics", label: "Métricas", icon: BarChart3 },
     { path: "/alerts", label: "Alertas", icon: Bell, badge: "3" },
+    { path: "/reports", label: "Disponibilidade", icon: Gauge },
+    { path: "/maintenance", label: "Manutenção", icon: Wrench },
+    { path: "/on-call", label: "Plantão", icon: PhoneCall },
     { path: "/logs", label: "Logs", icon: FileText },
+    { path: "/log-search", label: "Busca de Logs", icon: FileSearch },
     { path: "/ssh", label: "SSH Manager", icon: Terminal },
     { path: "/operations", label: "Orquestração", icon: Boxes },
     { path: "/settings", label: "Configurações", icon: Settings },
+    ...(hasRole("admin") ? [{ path: "/users", label: "Usuários", icon: Users }] : []),
   ];
 
   return (
@@ -72,10 +92,25 @@ export function Sidebar() {
           <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center">
             <User className="w-4 h-4 text-primary-foreground" />
           </div>
-          <div className="ml-3">
-            <p className="text-sm font-medium">Admin User</p>
-            <p className="text-xs text-muted-foreground">admin@empresa.com</p>
+          <div className="ml-3 min-w-0">
+            <p className="text-sm font-medium truncate" data-testid="text-current-user">
+              {user?.displayName || user?.username}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">
+              {user ? ROLE_LABELS[user.role] ?? user.role : ""}
+            </p>
           </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            title="Sair"
+            data-testid="button-logout"
+          >
+            <LogOut className="w-4 h-4" />
+          </Button>
         </div>
       </div>
     </aside>
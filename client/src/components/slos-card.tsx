@@ -0,0 +1,399 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  insertSloSchema,
+  type InsertSlo,
+  type PublicServer,
+  type Slo,
+  type SloHealth,
+  type SloScope,
+  type SloStatus,
+  type SloWindow,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatAvailability, formatDowntime, getAvailabilityColor } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Pencil, Plus, Target, Trash2 } from "lucide-react";
+
+export const ENVIRONMENT_LABELS: Record<string, string> = {
+  production: "Produção",
+  staging: "Homologação",
+  development: "Desenvolvimento",
+};
+
+const WINDOW_LABELS: Record<SloWindow, string> = {
+  "7d": "7 dias",
+  "30d": "30 dias",
+  quarter: "Trimestre",
+};
+
+const HEALTH: Record<SloHealth, { label: string; className: string }> = {
+  healthy: { label: "Dentro do SLO", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" },
+  at_risk: { label: "Em risco", className: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200" },
+  breached: { label: "Violado", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200" },
+  no_data: { label: "Sem dados", className: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200" },
+};
+
+function formatBurnRate(rate: number | null): string {
+  return rate === null ? "—" : `${rate.toFixed(1)}x`;
+}
+
+interface SloFormValues {
+  name: string;
+  scopeType: SloScope;
+  scopeValue: string;
+  targetPercent: string;
+  window: SloWindow;
+}
+
+function SloForm({ slo, servers, onSuccess }: { slo?: Slo; servers: PublicServer[]; onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const isEditing = !!slo;
+
+  const form = useForm<SloFormValues>({
+    defaultValues: {
+      name: slo?.name || "",
+      scopeType: (slo?.scopeType as SloScope) || "server",
+      scopeValue: slo?.scopeValue || "",
+      targetPercent: slo?.targetPercent || "99.9",
+      window: (slo?.window as SloWindow) || "30d",
+    },
+  });
+
+  const scopeType = form.watch("scopeType");
+
+  const saveSloMutation = useMutation({
+    mutationFn: async (data: InsertSlo) => {
+      const url = isEditing ? `/api/slos/${slo.id}` : "/api/slos";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/slos"] });
+      toast({
+        title: isEditing ? "SLO atualizado" : "SLO criado",
+        description: "O objetivo de disponibilidade foi salvo com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar o SLO. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: SloFormValues) => {
+    const result = insertSloSchema.safeParse(values);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        form.setError(issue.path[0] as keyof SloFormValues, { message: issue.message });
+      }
+      return;
+    }
+    saveSloMutation.mutate(result.data);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="slo-form">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input placeholder="Produção 99,9%" {...field} data-testid="input-slo-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="scopeType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Escopo</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("scopeValue", "");
+                  }}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="select-slo-scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="server">Servidor</SelectItem>
+                    <SelectItem value="environment">Ambiente</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="scopeValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{scopeType === "server" ? "Servidor" : "Ambiente"}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-slo-scope-value">
+                      <SelectValue placeholder="Selecione" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {scopeType === "server"
+                      ? servers.map((server) => (
+                          <SelectItem key={server.id} value={server.id}>{server.name}</SelectItem>
+                        ))
+                      : Object.entries(ENVIRONMENT_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="targetPercent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Meta (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.001" {...field} data-testid="input-slo-target" />
+                </FormControl>
+                <FormDescription>Ex.: 99.9 permite ~43 min de indisponibilidade em 30 dias.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="window"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Janela</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-slo-window">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(WINDOW_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveSloMutation.isPending} data-testid="button-submit-slo">
+            {saveSloMutation.isPending ? "Salvando..." : isEditing ? "Atualizar SLO" : "Criar SLO"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/** SLO statuses with error budget and burn rates; actions are only rendered when handlers are given. */
+export function SloTable({
+  slos,
+  servers,
+  onEdit,
+  onDelete,
+}: {
+  slos: SloStatus[];
+  servers?: PublicServer[];
+  onEdit?: (slo: SloStatus) => void;
+  onDelete?: (slo: SloStatus) => void;
+}) {
+  const serverNames = new Map(servers?.map(server => [server.id, server.name]));
+  const hasActions = !!(onEdit || onDelete);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" data-testid="slos-table">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-2">SLO</th>
+            <th className="text-left p-2">Meta</th>
+            <th className="text-left p-2">Disponibilidade</th>
+            <th className="text-left p-2">Orçamento de erro</th>
+            <th className="text-left p-2" title="Consumo do orçamento em relação ao ritmo permitido pela meta">
+              Burn rate 1h / 6h / 24h
+            </th>
+            <th className="text-left p-2">Situação</th>
+            {hasActions && <th className="p-2" />}
+          </tr>
+        </thead>
+        <tbody>
+          {slos.map((slo) => {
+            const health = HEALTH[slo.health];
+            const budgetLeft = slo.errorBudgetRemaining;
+            return (
+              <tr key={slo.id} className="border-b" data-testid={`slo-${slo.id}`}>
+                <td className="p-2">
+                  <div className="font-medium">{slo.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {slo.scopeType === "server"
+                      ? serverNames.get(slo.scopeValue) ?? slo.scopeValue
+                      : ENVIRONMENT_LABELS[slo.scopeValue] ?? slo.scopeValue}
+                    {" · "}
+                    {WINDOW_LABELS[slo.window as SloWindow] ?? slo.window}
+                  </div>
+                </td>
+                <td className="p-2">{parseFloat(slo.targetPercent)}%</td>
+                <td className={`p-2 font-medium ${getAvailabilityColor(slo.availability)}`}>
+                  {formatAvailability(slo.availability)}
+                </td>
+                <td className="p-2 min-w-40">
+                  {budgetLeft === null ? "—" : (
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-xs">
+                        <span>{Math.max(budgetLeft, 0).toFixed(0)}% restante</span>
+                        <span className="text-muted-foreground">
+                          {formatDowntime(slo.downtimeMinutes)} / {formatDowntime(Math.round(slo.errorBudgetMinutes))}
+                        </span>
+                      </div>
+                      <Progress value={Math.min(Math.max(budgetLeft, 0), 100)} className="h-1" />
+                    </div>
+                  )}
+                </td>
+                <td className="p-2 font-mono text-xs whitespace-nowrap">
+                  {formatBurnRate(slo.burnRates["1h"])} / {formatBurnRate(slo.burnRates["6h"])} / {formatBurnRate(slo.burnRates["24h"])}
+                </td>
+                <td className="p-2"><Badge className={health.className}>{health.label}</Badge></td>
+                {hasActions && (
+                  <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                    {onEdit && (
+                      <Button variant="outline" size="sm" onClick={() => onEdit(slo)} data-testid={`button-edit-slo-${slo.id}`}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {onDelete && (
+                      <Button variant="outline" size="sm" onClick={() => onDelete(slo)} data-testid={`button-delete-slo-${slo.id}`}>
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function SlosCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [isAddSloOpen, setIsAddSloOpen] = useState(false);
+  const [editingSlo, setEditingSlo] = useState<Slo | null>(null);
+
+  const { data: slos, isLoading } = useQuery<SloStatus[]>({
+    queryKey: ["/api/slos"],
+    refetchInterval: 60_000,
+  });
+  const { data: servers } = useQuery<PublicServer[]>({
+    queryKey: ["/api/servers"],
+  });
+
+  const deleteSloMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/slos/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/slos"] });
+      toast({ title: "SLO removido", description: "O objetivo de disponibilidade foi removido." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover o SLO.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Target className="w-5 h-5" />
+            <span>Objetivos de Disponibilidade (SLO)</span>
+          </CardTitle>
+          {hasRole("admin") && (
+            <Dialog open={isAddSloOpen} onOpenChange={setIsAddSloOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-slo">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Novo SLO
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-xl">
+                <DialogHeader>
+                  <DialogTitle>Novo SLO</DialogTitle>
+                </DialogHeader>
+                <SloForm servers={servers ?? []} onSuccess={() => setIsAddSloOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando SLOs...</p>
+        ) : !slos?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhum SLO cadastrado.</p>
+        ) : (
+          <SloTable
+            slos={slos}
+            servers={servers}
+            onEdit={hasRole("admin") ? setEditingSlo : undefined}
+            onDelete={hasRole("admin") ? (slo) => deleteSloMutation.mutate(slo.id) : undefined}
+          />
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingSlo} onOpenChange={(open) => !open && setEditingSlo(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Editar SLO</DialogTitle>
+          </DialogHeader>
+          {editingSlo && (
+            <SloForm slo={editingSlo} servers={servers ?? []} onSuccess={() => setEditingSlo(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,706 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  dnsRecordTypes,
+  insertSyntheticCheckSchema,
+  type InsertSyntheticCheck,
+  type PublicServer,
+  type SyntheticCheck,
+  type SyntheticCheckResult,
+  type SyntheticCheckStatus,
+  type SyntheticCheckType,
+  type SyntheticCheckWithStatus,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Pencil, Play, Plus, Radar, Trash2 } from "lucide-react";
+
+const CHECK_TYPE_OPTIONS: Record<SyntheticCheckType, string> = {
+  http: "HTTP(S)",
+  tcp: "Porta TCP",
+  dns: "DNS",
+  tls: "Certificado TLS",
+};
+
+const CHECK_STATUS: Record<SyntheticCheckStatus, { label: string; className: string }> = {
+  up: { label: "OK", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" },
+  degraded: { label: "Degradado", className: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200" },
+  down: { label: "Falha", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200" },
+};
+
+const SEVERITY_OPTIONS: Record<string, string> = {
+  info: "Info",
+  warning: "Aviso",
+  critical: "Crítico",
+};
+
+// Select value for standalone checks (Radix Select does not allow an empty value)
+const NO_SERVER = "none";
+
+export function CheckStatusBadge({ result }: { result: SyntheticCheckResult | null }) {
+  if (!result) return <Badge variant="secondary">Aguardando</Badge>;
+  const status = CHECK_STATUS[result.status as SyntheticCheckStatus] ?? CHECK_STATUS.down;
+  return <Badge className={status.className}>{status.label}</Badge>;
+}
+
+/** Human readable target of a check, e.g. the URL or host:port. */
+export function describeCheckTarget(check: SyntheticCheck, server?: PublicServer): string {
+  const config = check.config as Record<string, unknown>;
+  const host = (config.host as string | undefined) ?? server?.ip ?? "?";
+  switch (check.type) {
+    case "http":
+      return config.url as string;
+    case "tcp":
+      return `${host}:${config.port}`;
+    case "dns":
+      return `${config.recordType} ${config.hostname}`;
+    case "tls":
+      return `${host}:${config.port}`;
+    default:
+      return check.type;
+  }
+}
+
+// Flat form shape; the per-type config object is assembled on submit
+interface CheckFormValues {
+  name: string;
+  type: SyntheticCheckType;
+  serverId: string;
+  url: string;
+  expectedStatus: string;
+  bodyMatch: string;
+  maxLatencyMs: string;
+  allowInsecureTls: boolean;
+  host: string;
+  port: string;
+  hostname: string;
+  recordType: string;
+  expectedValue: string;
+  warningDays: string;
+  intervalSeconds: string;
+  failureThreshold: string;
+  severity: string;
+  isEnabled: boolean;
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() ? Number(value) : undefined;
+}
+
+function optionalText(value: string): string | undefined {
+  return value.trim() || undefined;
+}
+
+function toCheckPayload(values: CheckFormValues) {
+  const config =
+    values.type === "http" ? {
+      url: values.url.trim(),
+      expectedStatus: values.expectedStatus.trim()
+        ? values.expectedStatus.split(",").map(code => Number(code.trim()))
+        : undefined,
+      bodyMatch: optionalText(values.bodyMatch),
+      maxLatencyMs: optionalNumber(values.maxLatencyMs),
+      allowInsecureTls: values.allowInsecureTls,
+    } :
+    values.type === "dns" ? {
+      hostname: values.hostname.trim(),
+      recordType: values.recordType,
+      expectedValue: optionalText(values.expectedValue),
+    } :
+    values.type === "tls" ? {
+      host: optionalText(values.host),
+      port: optionalNumber(values.port) ?? 443,
+      warningDays: optionalNumber(values.warningDays) ?? 14,
+      allowUntrusted: values.allowInsecureTls,
+    } :
+    { host: optionalText(values.host), port: optionalNumber(values.port) };
+
+  return {
+    name: values.name,
+    type: values.type,
+    serverId: values.serverId === NO_SERVER ? null : values.serverId,
+    config,
+    intervalSeconds: Number(values.intervalSeconds),
+    failureThreshold: Number(values.failureThreshold),
+    severity: values.severity,
+    isEnabled: values.isEnabled,
+  };
+}
+
+function SyntheticCheckForm({ check, servers, onSuccess }: { check?: SyntheticCheck; servers: PublicServer[]; onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const isEditing = !!check;
+  const config = (check?.config ?? {}) as Record<string, any>;
+
+  const form = useForm<CheckFormValues>({
+    defaultValues: {
+      name: check?.name || "",
+      type: (check?.type as SyntheticCheckType) || "http",
+      serverId: check?.serverId || NO_SERVER,
+      url: config.url || "",
+      expectedStatus: config.expectedStatus?.join(", ") || "",
+      bodyMatch: config.bodyMatch || "",
+      maxLatencyMs: config.maxLatencyMs?.toString() || "",
+      allowInsecureTls: config.allowInsecureTls ?? config.allowUntrusted ?? false,
+      host: config.host || "",
+      port: config.port?.toString() || "",
+      hostname: config.hostname || "",
+      recordType: config.recordType || "A",
+      expectedValue: config.expectedValue || "",
+      warningDays: config.warningDays?.toString() || "14",
+      intervalSeconds: check?.intervalSeconds.toString() || "60",
+      failureThreshold: check?.failureThreshold.toString() || "2",
+      severity: check?.severity || "critical",
+      isEnabled: check?.isEnabled ?? true,
+    },
+  });
+
+  const type = form.watch("type");
+
+  const saveCheckMutation = useMutation({
+    mutationFn: async (data: InsertSyntheticCheck) => {
+      const url = isEditing ? `/api/checks/${check.id}` : "/api/checks";
+      return apiRequest(isEditing ? "PUT" : "POST", url, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checks"] });
+      toast({
+        title: isEditing ? "Verificação atualizada" : "Verificação criada",
+        description: "A verificação sintética foi salva com sucesso.",
+      });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar a verificação. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: CheckFormValues) => {
+    const result = insertSyntheticCheckSchema.safeParse(toCheckPayload(values));
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = (issue.path[0] === "config" ? issue.path[1] : issue.path[0]) as keyof CheckFormValues;
+        form.setError(field in form.getValues() ? field : "name", { message: issue.message || "Valor inválido" });
+      }
+      return;
+    }
+    saveCheckMutation.mutate(result.data);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="synthetic-check-form">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input placeholder="Site institucional" {...field} data-testid="input-check-name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tipo</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-check-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(CHECK_TYPE_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="serverId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Servidor</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-check-server">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_SERVER}>Nenhum (endpoint externo)</SelectItem>
+                  {servers.map((server) => (
+                    <SelectItem key={server.id} value={server.id}>{server.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>O status aparece no card do servidor e os alertas ficam vinculados a ele.</FormDescription>
+            </FormItem>
+          )}
+        />
+
+        {type === "http" && (
+          <>
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://exemplo.com/health" {...field} data-testid="input-check-url" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="expectedStatus"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status esperados</FormLabel>
+                    <FormControl>
+                      <Input placeholder="200, 204" {...field} data-testid="input-check-expected-status" />
+                    </FormControl>
+                    <FormDescription>Vazio aceita qualquer 2xx/3xx.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxLatencyMs"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Latência máxima (ms)</FormLabel>
+                    <FormControl>
+                      <Input type="number" placeholder="1000" {...field} data-testid="input-check-max-latency" />
+                    </FormControl>
+                    <FormDescription>Acima disso a verificação fica degradada.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="bodyMatch"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Conteúdo esperado</FormLabel>
+                  <FormControl>
+                    <Input placeholder="status: ok" {...field} data-testid="input-check-body-match" />
+                  </FormControl>
+                  <FormDescription>Texto que a resposta deve conter (opcional).</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        {(type === "tcp" || type === "tls") && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="host"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Host</FormLabel>
+                  <FormControl>
+                    <Input placeholder="IP do servidor" {...field} data-testid="input-check-host" />
+                  </FormControl>
+                  <FormDescription>Vazio usa o IP do servidor vinculado.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="port"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Porta</FormLabel>
+                  <FormControl>
+                    <Input type="number" placeholder={type === "tls" ? "443" : "5432"} {...field} data-testid="input-check-port" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {type === "dns" && (
+          <div className="grid grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="hostname"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="exemplo.com" {...field} data-testid="input-check-hostname" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="recordType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Registro</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-check-record-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {dnsRecordTypes.map((recordType) => (
+                        <SelectItem key={recordType} value={recordType}>{recordType}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expectedValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Valor esperado</FormLabel>
+                  <FormControl>
+                    <Input placeholder="203.0.113.10" {...field} data-testid="input-check-expected-value" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {type === "tls" && (
+          <FormField
+            control={form.control}
+            name="warningDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Avisar com antecedência (dias)</FormLabel>
+                <FormControl>
+                  <Input type="number" {...field} data-testid="input-check-warning-days" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {(type === "http" || type === "tls") && (
+          <FormField
+            control={form.control}
+            name="allowInsecureTls"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between space-y-0">
+                <FormLabel>Aceitar certificado não confiável (autoassinado)</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-check-insecure" />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="intervalSeconds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Intervalo (s)</FormLabel>
+                <FormControl>
+                  <Input type="number" {...field} data-testid="input-check-interval" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="failureThreshold"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Falhas para alertar</FormLabel>
+                <FormControl>
+                  <Input type="number" {...field} data-testid="input-check-failure-threshold" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="severity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Severidade</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-check-severity">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(SEVERITY_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isEnabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between space-y-0">
+              <FormLabel>Ativa</FormLabel>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-check-enabled" />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveCheckMutation.isPending} data-testid="button-submit-check">
+            {saveCheckMutation.isPending ? "Salvando..." : isEditing ? "Atualizar Verificação" : "Criar Verificação"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export function SyntheticChecksCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [isAddCheckOpen, setIsAddCheckOpen] = useState(false);
+  const [editingCheck, setEditingCheck] = useState<SyntheticCheck | null>(null);
+
+  const { data: checks, isLoading } = useQuery<SyntheticCheckWithStatus[]>({
+    queryKey: ["/api/checks"],
+    refetchInterval: 15_000,
+  });
+  const { data: servers } = useQuery<PublicServer[]>({
+    queryKey: ["/api/servers"],
+  });
+  const serversById = new Map(servers?.map(server => [server.id, server]));
+
+  const runCheckMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/checks/${id}/run`);
+      return response.json() as Promise<SyntheticCheckResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checks"] });
+      toast({
+        title: `Verificação: ${CHECK_STATUS[result.status as SyntheticCheckStatus]?.label ?? result.status}`,
+        description: result.message ?? undefined,
+        variant: result.status === "down" ? "destructive" : undefined,
+      });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao executar a verificação.", variant: "destructive" });
+    },
+  });
+
+  const toggleCheckMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) =>
+      apiRequest("PUT", `/api/checks/${id}`, { isEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checks"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atualizar a verificação.", variant: "destructive" });
+    },
+  });
+
+  const deleteCheckMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/checks/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      toast({ title: "Verificação removida", description: "A verificação e seu histórico foram removidos." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a verificação.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Radar className="w-5 h-5" />
+            <span>Verificações Sintéticas</span>
+          </CardTitle>
+          {hasRole("admin") && (
+            <Dialog open={isAddCheckOpen} onOpenChange={setIsAddCheckOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-check">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova Verificação
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Nova Verificação Sintética</DialogTitle>
+                </DialogHeader>
+                <SyntheticCheckForm servers={servers ?? []} onSuccess={() => setIsAddCheckOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando verificações...</p>
+        ) : !checks?.length ? (
+          <p className="text-sm text-muted-foreground">Nenhuma verificação sintética cadastrada.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="synthetic-checks-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Verificação</th>
+                  <th className="text-left p-2">Servidor</th>
+                  <th className="text-left p-2">Latência</th>
+                  <th className="text-left p-2">Última execução</th>
+                  <th className="text-left p-2">Ativa</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {checks.map((check) => {
+                  const server = check.serverId ? serversById.get(check.serverId) : undefined;
+                  return (
+                    <tr key={check.id} className="border-b" data-testid={`synthetic-check-${check.id}`}>
+                      <td className="p-2"><CheckStatusBadge result={check.latestResult} /></td>
+                      <td className="p-2">
+                        <div className="font-medium">{check.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {CHECK_TYPE_OPTIONS[check.type as SyntheticCheckType] ?? check.type} · {describeCheckTarget(check, server)}
+                        </div>
+                        {check.latestResult?.message && (
+                          <div className="text-xs text-muted-foreground">{check.latestResult.message}</div>
+                        )}
+                      </td>
+                      <td className="p-2">{server?.name ?? "—"}</td>
+                      <td className="p-2">
+                        {check.latestResult?.latencyMs != null ? `${check.latestResult.latencyMs} ms` : "—"}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">
+                        {check.latestResult ? new Date(check.latestResult.checkedAt).toLocaleString() : "Nunca"}
+                      </td>
+                      <td className="p-2">
+                        <Switch
+                          checked={check.isEnabled}
+                          disabled={!hasRole("admin")}
+                          onCheckedChange={(isEnabled) => toggleCheckMutation.mutate({ id: check.id, isEnabled })}
+                          data-testid={`switch-check-${check.id}`}
+                        />
+                      </td>
+                      <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                        {hasRole("operator") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => runCheckMutation.mutate(check.id)}
+                            disabled={runCheckMutation.isPending}
+                            data-testid={`button-run-check-${check.id}`}
+                          >
+                            <Play className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {hasRole("admin") && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditingCheck(check)}
+                              data-testid={`button-edit-check-${check.id}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => deleteCheckMutation.mutate(check.id)}
+                              disabled={deleteCheckMutation.isPending}
+                              data-testid={`button-delete-check-${check.id}`}
+                            >
+                              <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingCheck} onOpenChange={(open) => !open && setEditingCheck(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Editar Verificação Sintética</DialogTitle>
+          </DialogHeader>
+          {editingCheck && (
+            <SyntheticCheckForm check={editingCheck} servers={servers ?? []} onSuccess={() => setEditingCheck(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Server, SyslogReceiverStatus, SyslogSender } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Radio, Trash2 } from "lucide-react";
+
+const REFRESH_MS = 10_000;
+
+function SenderAssignment({ sender, servers }: { sender: SyslogSender; servers: Server[] }) {
+  const { toast } = useToast();
+  const [serverId, setServerId] = useState(sender.serverId ?? "");
+
+  const assignMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/syslog/senders/${sender.id}/assign`, { serverId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/syslog/senders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/servers", serverId, "logs"] });
+      toast({ title: "Remetente atribuído", description: "As mensagens retidas foram enviadas para o servidor." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atribuir o remetente.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select value={serverId} onValueChange={setServerId}>
+        <SelectTrigger className="w-48" data-testid={`select-syslog-server-${sender.id}`}>
+          <SelectValue placeholder="Selecione um servidor" />
+        </SelectTrigger>
+        <SelectContent>
+          {servers.map(server => (
+            <SelectItem key={server.id} value={server.id}>{server.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => assignMutation.mutate()}
+        disabled={!serverId || serverId === sender.serverId || assignMutation.isPending}
+        data-testid={`button-assign-syslog-${sender.id}`}
+      >
+        <Check className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+/** Syslog listener status and the senders no server matched, waiting to be assigned. */
+export function SyslogSendersCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canManage = hasRole("admin");
+
+  const { data: status } = useQuery<SyslogReceiverStatus>({
+    queryKey: ["/api/syslog/status"],
+    refetchInterval: REFRESH_MS,
+  });
+
+  const { data: senders, isLoading } = useQuery<SyslogSender[]>({
+    queryKey: ["/api/syslog/senders"],
+    refetchInterval: REFRESH_MS,
+  });
+
+  const { data: servers = [] } = useQuery<Server[]>({
+    queryKey: ["/api/servers"],
+  });
+
+  const deleteSenderMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/syslog/senders/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/syslog/senders"] });
+      toast({ title: "Remetente removido", description: "As mensagens retidas foram descartadas." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover o remetente.", variant: "destructive" });
+    },
+  });
+
+  const serverName = (serverId: string) => servers.find(server => server.id === serverId)?.name ?? serverId;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Radio className="w-5 h-5" />
+              <span>Receptor Syslog</span>
+            </CardTitle>
+            <CardDescription>
+              {status?.enabled
+                ? `Porta ${status.port} (${[status.udp && "UDP", status.tcp && "TCP"].filter(Boolean).join("/") || "inativa"}) • ` +
+                  `${status.received} mensagens recebidas • ${status.dropped} descartadas`
+                : "Desativado. Defina SYSLOG_PORT para receber mensagens de dispositivos sem SSH."}
+            </CardDescription>
+          </div>
+          {status?.enabled && (
+            <Badge variant={status.udp || status.tcp ? "secondary" : "destructive"} data-testid="badge-syslog-status">
+              {status.udp || status.tcp ? "Escutando" : "Falha ao escutar"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando remetentes...</p>
+        ) : !senders?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum remetente em quarentena. Mensagens de servidores reconhecidos pelo IP ou hostname vão direto para os logs.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="syslog-senders-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Remetente</th>
+                  <th className="text-left p-2">Última mensagem</th>
+                  <th className="text-left p-2">Mensagens</th>
+                  <th className="text-left p-2">Servidor</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {senders.map((sender) => (
+                  <tr key={sender.id} className="border-b align-top" data-testid={`syslog-sender-${sender.id}`}>
+                    <td className="p-2">
+                      <div className="font-mono">{sender.address}</div>
+                      <div className="text-xs text-muted-foreground">{sender.hostname || "sem hostname"}</div>
+                    </td>
+                    <td className="p-2">
+                      <div className="font-mono text-xs truncate max-w-md">{sender.lastMessage ?? "—"}</div>
+                      <div className="text-xs text-muted-foreground">{new Date(sender.lastSeenAt).toLocaleString()}</div>
+                    </td>
+                    <td className="p-2">{sender.messageCount}</td>
+                    <td className="p-2">
+                      {canManage ? (
+                        <SenderAssignment sender={sender} servers={servers} />
+                      ) : sender.serverId ? (
+                        serverName(sender.serverId)
+                      ) : (
+                        <Badge variant="outline">Quarentena</Badge>
+                      )}
+                    </td>
+                    {canManage && (
+                      <td className="p-2 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteSenderMutation.mutate(sender.id)}
+                          disabled={deleteSenderMutation.isPending}
+                          data-testid={`button-delete-syslog-${sender.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
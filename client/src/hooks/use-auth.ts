@@ -0,0 +1,50 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type PublicUser, type UserRole, type LoginInput } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+const roleRank: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginInput) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(["/api/auth/me"], loggedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  const hasRole = (required: UserRole) => {
+    if (!user) return false;
+    const rank = roleRank[user.role as UserRole];
+    return rank !== undefined && rank >= roleRank[required];
+  };
+
+  return {
+    user: user ?? null,
+    isLoading,
+    hasRole,
+    loginMutation,
+    logoutMutation,
+  };
+}
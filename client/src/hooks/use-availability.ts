@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import type { AvailabilityResponse, ServerAvailability, SloWindow } from "@shared/schema";
+
+/** Availability of every server over an SLO window, keyed by server id. */
+export function useServerAvailability(window: SloWindow = "30d") {
+  const query = useQuery<AvailabilityResponse>({
+    queryKey: [`/api/availability?window=${window}`],
+    refetchInterval: 5 * 60_000,
+  });
+  const byServer = new Map<string, ServerAvailability>(query.data?.servers.map(server => [server.serverId, server]));
+  return { ...query, byServer };
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { type CustomMetricSeriesResponse, type FleetMetricSeries, type MetricBaselineSeries } from "@shared/schema";
+import { useSettings } from "./use-settings";
+
+export const METRIC_WINDOWS = {
+  "1h": { label: "1 hora", ms: 60 * 60 * 1000 },
+  "24h": { label: "24 horas", ms: 24 * 60 * 60 * 1000 },
+  "7d": { label: "7 dias", ms: 7 * 24 * 60 * 60 * 1000 },
+  "30d": { label: "30 dias", ms: 30 * 24 * 60 * 60 * 1000 },
+} as const;
+
+export type MetricWindow = keyof typeof METRIC_WINDOWS;
+
+/**
+ * from/to query params for a sliding window. The window end moves forward
+ * on the configured refresh interval; the step is chosen by the server.
+ */
+function useWindowParams(metricWindow: MetricWindow): URLSearchParams {
+  const { refreshIntervalMs } = useSettings();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!refreshIntervalMs) return;
+    const timer = setInterval(() => setNow(Date.now()), refreshIntervalMs);
+    return () => clearInterval(timer);
+  }, [metricWindow, refreshIntervalMs]);
+
+  return new URLSearchParams({
+    from: new Date(now - METRIC_WINDOWS[metricWindow].ms).toISOString(),
+    to: new Date(now).toISOString(),
+  });
+}
+
+/** Bucketed fleet/server history for a sliding window. */
+export function useMetricSeries(metricWindow: MetricWindow, serverIds?: string[]) {
+  const params = useWindowParams(metricWindow);
+  if (serverIds?.length) params.set("serverIds", serverIds.join(","));
+
+  return useQuery<FleetMetricSeries>({
+    queryKey: [`/api/metrics/series?${params.toString()}`],
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Expected band of one server's metrics on the same bucket grid as useMetricSeries. */
+export function useMetricBaseline(metricWindow: MetricWindow, serverId: string | undefined) {
+  const params = useWindowParams(metricWindow);
+
+  return useQuery<MetricBaselineSeries>({
+    queryKey: [`/api/servers/${serverId}/baseline?${params.toString()}`],
+    enabled: !!serverId,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Bucketed history of one labeled custom metric, one series per label set. */
+export function useCustomMetricSeries(metricWindow: MetricWindow, serverId: string, name: string | undefined) {
+  const params = useWindowParams(metricWindow);
+  if (name) params.set("name", name);
+
+  return useQuery<CustomMetricSeriesResponse>({
+    queryKey: [`/api/servers/${serverId}/custom-metrics/series?${params.toString()}`],
+    enabled: !!name,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { ServerWithMetrics } from "@shared/schema";
 import { useWebSocket } from "./use-websocket";
+import { useSettings } from "./use-settings";
 
 interface UseServersReturn {
   servers: ServerWithMetrics[] | undefined;
@@ -11,6 +12,9 @@ interface UseServersReturn {
 
 export function useServers(): UseServersReturn {
   const { servers: wsServers, isConnected } = useWebSocket();
+  const { settings, refreshIntervalMs } = useSettings();
+  // With auto refresh off the list only changes on manual refetch
+  const useLiveUpdates = settings.autoRefresh && isConnected;
 
   const {
     data: queryServers,
@@ -19,12 +23,12 @@ export function useServers(): UseServersReturn {
     refetch,
   } = useQuery<ServerWithMetrics[]>({
     queryKey: ["/api/servers"],
-    refetchInterval: isConnected ? false : 30000, // Only poll if WebSocket is not connected
-    staleTime: isConnected ? Infinity : 30000,
+    refetchInterval: useLiveUpdates ? false : refreshIntervalMs, // Only poll if WebSocket is not connected
+    staleTime: useLiveUpdates || !refreshIntervalMs ? Infinity : refreshIntervalMs,
   });
 
   // Use WebSocket data if available, otherwise fall back to query data
-  const servers = wsServers || queryServers;
+  const servers = (settings.autoRefresh ? wsServers : null) || queryServers;
 
   return {
     servers,
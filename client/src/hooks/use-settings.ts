@@ -0,0 +1,44 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type AppSettings, type UpdateAppSettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Used while /api/settings is loading so consumers never see undefined
+const FALLBACK_SETTINGS: Pick<AppSettings, "refreshIntervalSeconds" | "autoRefresh" | "theme" | "compactMode" | "soundAlerts"> = {
+  refreshIntervalSeconds: 30,
+  autoRefresh: true,
+  theme: "light",
+  compactMode: false,
+  soundAlerts: false,
+};
+
+export function useSettings() {
+  const { data, isLoading } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (changes: UpdateAppSettings) => {
+      const res = await apiRequest("PUT", "/api/settings", changes);
+      return (await res.json()) as AppSettings;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+    },
+  });
+
+  const settings = { ...FALLBACK_SETTINGS, ...data };
+
+  return {
+    settings,
+    isLoading,
+    // Polling period for data that is not pushed over the WebSocket
+    refreshIntervalMs: settings.autoRefresh ? settings.refreshIntervalSeconds * 1000 : false as const,
+    saveSettingsMutation,
+  };
+}
+
+export function serverGridClassName(compactMode: boolean): string {
+  return compactMode
+    ? "grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4"
+    : "grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6";
+}
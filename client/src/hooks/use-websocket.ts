@@ -1,11 +1,12 @@
 import { useEffect, useRef, useCallback, useState } from "react";
 import { ServerWithMetrics, Alert } from "@shared/schema";
 
-interface WebSocketMessage {
-  type: "connected" | "servers_update" | "alerts_update" | "logs_update";
+export interface WebSocketMessage {
+  type: "connected" | "servers_update" | "alerts_update" | "logs_update" | "logs_append" | "logs_error";
   message?: string;
   data?: ServerWithMetrics[] | Alert[] | any[];
   serverId?: string;
+  dropped?: number; // logs_append: lines skipped because the client fell behind
 }
 
 interface UseWebSocketReturn {
@@ -16,67 +17,70 @@ interface UseWebSocketReturn {
   alerts: Alert[] | null;
 }
 
-export function useWebSocket(): UseWebSocketReturn {
-  const [isConnected, setIsConnected] = useState(false);
-  const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
-  const [servers, setServers] = useState<ServerWithMetrics[] | null>(null);
-  const [alerts, setAlerts] = useState<Alert[] | null>(null);
-  const ws = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttempts = useRef(0);
-  const maxReconnectAttempts = 5;
+export function resolveWebSocketUrl(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
 
-  const resolveWebSocketUrl = () => {
-    if (typeof window === "undefined") {
-      return null;
-    }
-
-    const explicitUrl = import.meta.env.VITE_WS_URL as string | undefined;
-    if (explicitUrl) {
-      try {
-        // Allow both full websocket urls and http(s) urls via configuration
-        const provided = new URL(explicitUrl, window.location.href);
-        const originalSearch = provided.search;
-        const originalHash = provided.hash;
+  const explicitUrl = import.meta.env.VITE_WS_URL as string | undefined;
+  if (explicitUrl) {
+    try {
+      // Allow both full websocket urls and http(s) urls via configuration
+      const provided = new URL(explicitUrl, window.location.href);
+      const originalSearch = provided.search;
+      const originalHash = provided.hash;
 
-        if (provided.protocol.startsWith("http")) {
-          provided.protocol = provided.protocol === "https:" ? "wss:" : "ws:";
-        }
-        if (!provided.pathname || provided.pathname === "/") {
-          provided.pathname = "/ws";
-        }
+      if (provided.protocol.startsWith("http")) {
+        provided.protocol = provided.protocol === "https:" ? "wss:" : "ws:";
+      }
+      if (!provided.pathname || provided.pathname === "/") {
+        provided.pathname = "/ws";
+      }
 
-        // Restore any tokens or routing information supplied through the query/hash
-        provided.search = originalSearch;
-        provided.hash = originalHash;
+      // Restore any tokens or routing information supplied through the query/hash
+      provided.search = originalSearch;
+      provided.hash = originalHash;
 
-        return provided.toString();
-      } catch (error) {
-        console.error("Invalid VITE_WS_URL provided:", explicitUrl, error);
-      }
+      return provided.toString();
+    } catch (error) {
+      console.error("Invalid VITE_WS_URL provided:", explicitUrl, error);
     }
+  }
 
-    const httpBase = import.meta.env.VITE_API_URL as string | undefined;
-    if (httpBase) {
-      try {
-        const apiUrl = new URL(httpBase, window.location.href);
-        apiUrl.protocol = apiUrl.protocol === "https:" ? "wss:" : "ws:";
-        apiUrl.pathname = "/ws";
-        apiUrl.search = "";
-        apiUrl.hash = "";
-        return apiUrl.toString();
-      } catch (error) {
-        console.error("Invalid VITE_API_URL provided:", httpBase, error);
-      }
+  const httpBase = import.meta.env.VITE_API_URL as string | undefined;
+  if (httpBase) {
+    try {
+      const apiUrl = new URL(httpBase, window.location.href);
+      apiUrl.protocol = apiUrl.protocol === "https:" ? "wss:" : "ws:";
+      apiUrl.pathname = "/ws";
+      apiUrl.search = "";
+      apiUrl.hash = "";
+      return apiUrl.toString();
+    } catch (error) {
+      console.error("Invalid VITE_API_URL provided:", httpBase, error);
     }
+  }
+
+  const wsUrl = new URL(window.location.href);
+  wsUrl.protocol = wsUrl.protocol === "https:" ? "wss:" : "ws:";
+  wsUrl.pathname = "/ws";
+  wsUrl.search = "";
+  wsUrl.hash = "";
+  return wsUrl.toString();
+}
 
-    const wsUrl = new URL(window.location.href);
-    wsUrl.protocol = wsUrl.protocol === "https:" ? "wss:" : "ws:";
-    wsUrl.pathname = "/ws";
-    wsUrl.search = "";
-    wsUrl.hash = "";
-    return wsUrl.toString();
-  };
+// lastMessage only holds the latest frame; pass onMessage to see every one (e.g. log tail batches)
+export function useWebSocket(onMessage?: (message: WebSocketMessage) => void): UseWebSocketReturn {
+  const [isConnected, setIsConnected] = useState(false);
+  const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
+  const [servers, setServers] = useState<ServerWithMetrics[] | null>(null);
+  const [alerts, setAlerts] = useState<Alert[] | null>(null);
+  const ws = useRef<WebSocket | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectAttempts = useRef(0);
+  const maxReconnectAttempts = 5;
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
 
   const connect = useCallback(() => {
     try {
@@ -103,6 +107,7 @@ export function useWebSocket(): UseWebSocketReturn {
         try {
           const message: WebSocketMessage = JSON.parse(event.data);
           setLastMessage(message);
+          onMessageRef.current?.(message);
 
           switch (message.type) {
             case "servers_update":
@@ -127,3 +127,30 @@ export function throttle<T extends (...args: any[]) => any>(
     }
   };
 }
+
+// Availability percentages keep enough decimals to tell 99.9% from 99.99%
+export function formatAvailability(percent: number | null | undefined): string {
+  if (percent === null || percent === undefined) return "—";
+  return percent >= 99 ? `${percent.toFixed(3)}%` : `${percent.toFixed(2)}%`;
+}
+
+export function formatDowntime(minutes: number): string {
+  return minutes ? formatUptime(minutes * 60) : "0m";
+}
+
+export function getAvailabilityColor(percent: number | null | undefined): string {
+  if (percent === null || percent === undefined) return "text-muted-foreground";
+  if (percent >= 99.9) return "text-green-600";
+  if (percent >= 99) return "text-orange-600";
+  return "text-red-600";
+}
+
+// apiRequest errors read "400: {\"message\": ...}"; returns just the server's message
+export function getApiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+}
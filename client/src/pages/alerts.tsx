@@ -1,34 +1,107 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Alert } from "@shared/schema";
+import { Alert, BulkAlertAction, IncidentWithAlerts } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, CheckCircle, Clock, X } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTimeline } from "@/components/alert-timeline";
+import { IncidentsCard } from "@/components/incidents-card";
+import { AlertTriangle, BellOff, CheckCircle, Clock, Eye, History, Repeat, RotateCcw, Wrench } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const SNOOZE_OPTIONS = [
+  { minutes: 15, label: "15 minutos" },
+  { minutes: 60, label: "1 hora" },
+  { minutes: 240, label: "4 horas" },
+  { minutes: 1440, label: "24 horas" },
+];
+
+const ACTION_MESSAGES: Record<BulkAlertAction["action"], string> = {
+  acknowledge: "reconhecido(s)",
+  snooze: "adiado(s)",
+  resolve: "resolvido(s)",
+  reopen: "reaberto(s)",
+};
+
+function isSnoozed(alert: Alert) {
+  return !!alert.snoozedUntil && new Date(alert.snoozedUntil).getTime() > Date.now();
+}
+
+function SnoozeMenu({
+  onSnooze,
+  disabled,
+  testId,
+}: {
+  onSnooze: (minutes: number) => void;
+  disabled?: boolean;
+  testId: string;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} data-testid={testId}>
+          <BellOff className="w-4 h-4 mr-2" />
+          Adiar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        {SNOOZE_OPTIONS.map((option) => (
+          <DropdownMenuItem key={option.minutes} onClick={() => onSnooze(option.minutes)}>
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
 
 export default function Alerts() {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canOperate = hasRole("operator");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [historyAlert, setHistoryAlert] = useState<Alert | null>(null);
 
   const { data: alerts, isLoading } = useQuery<Alert[]>({
     queryKey: ["/api/alerts"]
   });
 
-  const resolveAlertMutation = useMutation({
-    mutationFn: async (alertId: string) => {
-      return apiRequest("PATCH", `/api/alerts/${alertId}/resolve`);
+  const { data: resolvedAlerts = [] } = useQuery<Alert[]>({
+    queryKey: ["/api/alerts?status=resolved"]
+  });
+
+  const { data: incidents = [] } = useQuery<IncidentWithAlerts[]>({
+    queryKey: ["/api/incidents"]
+  });
+
+  const alertActionMutation = useMutation({
+    mutationFn: async (payload: BulkAlertAction) => {
+      return apiRequest("POST", "/api/alerts/bulk", payload);
     },
-    onSuccess: () => {
+    onSuccess: (_data, payload) => {
+      setSelectedIds(ids => ids.filter(id => !payload.ids.includes(id)));
       queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts?status=resolved"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
       toast({
-        title: "Alerta resolvido",
-        description: "O alerta foi marcado como resolvido com sucesso.",
+        title: "Alertas atualizados",
+        description: `${payload.ids.length} alerta(s) ${ACTION_MESSAGES[payload.action]}.`,
       });
     },
     onError: () => {
       toast({
         title: "Erro",
-        description: "Falha ao resolver o alerta. Tente novamente.",
+        description: "Falha ao atualizar os alertas. Tente novamente.",
         variant: "destructive",
       });
     }
@@ -43,9 +116,39 @@ export default function Alerts() {
   }
 
   const activeAlerts = alerts?.filter(alert => !alert.isResolved) || [];
-  const resolvedAlerts = alerts?.filter(alert => alert.isResolved) || [];
-  const criticalAlerts = activeAlerts.filter(alert => alert.severity === "critical");
-  const warningAlerts = activeAlerts.filter(alert => alert.severity === "warning");
+  const openAlerts = activeAlerts.filter(alert => !isSnoozed(alert));
+  // Alerts grouped into an open incident are listed under it instead of one by one
+  const incidentIds = new Set(incidents.map(incident => incident.id));
+  const isGrouped = (alert: Alert) => !!alert.incidentId && incidentIds.has(alert.incidentId);
+  const ungroupedAlerts = openAlerts.filter(alert => !isGrouped(alert));
+  const snoozedAlerts = activeAlerts.filter(isSnoozed);
+  const ungroupedSnoozedAlerts = snoozedAlerts.filter(alert => !isGrouped(alert));
+  const criticalAlerts = openAlerts.filter(alert => alert.severity === "critical");
+  const warningAlerts = openAlerts.filter(alert => alert.severity === "warning");
+  const today = new Date().toDateString();
+  const resolvedToday = resolvedAlerts.filter(
+    alert => alert.resolvedAt && new Date(alert.resolvedAt).toDateString() === today
+  );
+
+  const selectedActive = activeAlerts.filter(alert => selectedIds.includes(alert.id)).map(alert => alert.id);
+  const selectedResolved = resolvedAlerts.filter(alert => selectedIds.includes(alert.id)).map(alert => alert.id);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, id] : ids.filter(existing => existing !== id));
+  };
+
+  const toggleAll = (list: Alert[], checked: boolean) => {
+    const listIds = list.map(alert => alert.id);
+    setSelectedIds(ids => checked
+      ? Array.from(new Set([...ids, ...listIds]))
+      : ids.filter(id => !listIds.includes(id)));
+  };
+
+  const runAction = (action: BulkAlertAction["action"], ids: string[], minutes?: number) => {
+    if (ids.length > 0) {
+      alertActionMutation.mutate({ ids, action, minutes });
+    }
+  };
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -69,13 +172,113 @@ export default function Alerts() {
     }
   };
 
+  const renderActiveAlert = (alert: Alert) => (
+    <div
+      key={alert.id}
+      className="flex items-center justify-between p-4 border border-border rounded-lg"
+      data-testid={`alert-${alert.id}`}
+    >
+      <div className="flex items-center space-x-4">
+        {canOperate && (
+          <Checkbox
+            checked={selectedIds.includes(alert.id)}
+            onCheckedChange={(checked) => toggleSelected(alert.id, checked === true)}
+            data-testid={`checkbox-alert-${alert.id}`}
+          />
+        )}
+        {getSeverityIcon(alert.severity)}
+        <div>
+          <div className="flex items-center space-x-2">
+            <h3 className="font-medium">{alert.message}</h3>
+            <Badge variant={getSeverityColor(alert.severity)}>
+              {alert.severity}
+            </Badge>
+            {alert.acknowledgedAt && (
+              <Badge variant="outline" data-testid={`badge-acknowledged-${alert.id}`}>
+                <Eye className="w-3 h-3 mr-1" />
+                Reconhecido
+              </Badge>
+            )}
+            {isSnoozed(alert) && (
+              <Badge variant="outline" data-testid={`badge-snoozed-${alert.id}`}>
+                <BellOff className="w-3 h-3 mr-1" />
+                Adiado até {new Date(alert.snoozedUntil!).toLocaleTimeString()}
+              </Badge>
+            )}
+            {alert.maintenanceWindowId && (
+              <Badge variant="outline" data-testid={`badge-maintenance-${alert.id}`}>
+                <Wrench className="w-3 h-3 mr-1" />
+                Em manutenção
+              </Badge>
+            )}
+            {alert.occurrences > 1 && (
+              <Badge variant="outline" data-testid={`badge-occurrences-${alert.id}`}>
+                <Repeat className="w-3 h-3 mr-1" />
+                {alert.occurrences} ocorrências
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Valor atual: {alert.currentValue} • Limite: {alert.threshold}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(alert.createdAt).toLocaleString()}
+            {alert.acknowledgedAt && ` • Reconhecido em ${new Date(alert.acknowledgedAt).toLocaleString()}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setHistoryAlert(alert)}
+          data-testid={`button-history-${alert.id}`}
+        >
+          <History className="w-4 h-4" />
+        </Button>
+        {canOperate && (
+          <>
+            {!alert.acknowledgedAt && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runAction("acknowledge", [alert.id])}
+                disabled={alertActionMutation.isPending}
+                data-testid={`button-acknowledge-${alert.id}`}
+              >
+                <Eye className="w-4 h-4 mr-2" />
+                Reconhecer
+              </Button>
+            )}
+            <SnoozeMenu
+              onSnooze={(minutes) => runAction("snooze", [alert.id], minutes)}
+              disabled={alertActionMutation.isPending}
+              testId={`button-snooze-${alert.id}`}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runAction("resolve", [alert.id])}
+              disabled={alertActionMutation.isPending}
+              data-testid={`button-resolve-${alert.id}`}
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Resolver
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
       <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
         <h1 className="text-2xl font-bold text-foreground">Alertas do Sistema</h1>
         <p className="text-muted-foreground">
-          {activeAlerts.length} alertas ativos • {criticalAlerts.length} críticos • {warningAlerts.length} avisos
+          {openAlerts.length} alertas ativos • {criticalAlerts.length} críticos • {warningAlerts.length} avisos • {snoozedAlerts.length} adiados • {incidents.length} incidentes
         </p>
       </div>
 
@@ -109,98 +312,209 @@ export default function Alerts() {
             <CheckCircle className="h-4 w-4 text-green-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{resolvedAlerts.length}</div>
+            <div className="text-2xl font-bold text-green-600">{resolvedToday.length}</div>
             <p className="text-xs text-muted-foreground">Alertas resolvidos</p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Bulk actions */}
+      {canOperate && selectedIds.length > 0 && (
+        <div
+          className="flex items-center justify-between p-4 bg-muted rounded-lg"
+          data-testid="alert-bulk-actions"
+        >
+          <span className="text-sm font-medium">{selectedIds.length} alerta(s) selecionado(s)</span>
+          <div className="flex items-center space-x-2">
+            {selectedActive.length > 0 && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runAction("acknowledge", selectedActive)}
+                  disabled={alertActionMutation.isPending}
+                  data-testid="button-bulk-acknowledge"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Reconhecer
+                </Button>
+                <SnoozeMenu
+                  onSnooze={(minutes) => runAction("snooze", selectedActive, minutes)}
+                  disabled={alertActionMutation.isPending}
+                  testId="button-bulk-snooze"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runAction("resolve", selectedActive)}
+                  disabled={alertActionMutation.isPending}
+                  data-testid="button-bulk-resolve"
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Resolver
+                </Button>
+              </>
+            )}
+            {selectedResolved.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runAction("reopen", selectedResolved)}
+                disabled={alertActionMutation.isPending}
+                data-testid="button-bulk-reopen"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reabrir
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])} data-testid="button-clear-selection">
+              Limpar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Incidents */}
+      {incidents.length > 0 && (
+        <IncidentsCard incidents={incidents} renderAlert={renderActiveAlert} />
+      )}
+
       {/* Active Alerts */}
       <Card>
         <CardHeader>
-          <CardTitle>Alertas Ativos</CardTitle>
+          <div className="flex items-center space-x-3">
+            {canOperate && ungroupedAlerts.length > 0 && (
+              <Checkbox
+                checked={ungroupedAlerts.every(alert => selectedIds.includes(alert.id))}
+                onCheckedChange={(checked) => toggleAll(ungroupedAlerts, checked === true)}
+                data-testid="checkbox-select-all-active"
+              />
+            )}
+            <CardTitle>Alertas Ativos</CardTitle>
+          </div>
         </CardHeader>
         <CardContent>
-          {activeAlerts.length === 0 ? (
+          {ungroupedAlerts.length === 0 ? (
             <div className="text-center py-8">
               <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
-              <p className="text-muted-foreground">Nenhum alerta ativo no momento!</p>
+              <p className="text-muted-foreground">
+                {openAlerts.length === 0 ? "Nenhum alerta ativo no momento!" : "Todos os alertas ativos estão agrupados em incidentes."}
+              </p>
             </div>
           ) : (
             <div className="space-y-4">
-              {activeAlerts.map((alert) => (
-                <div 
-                  key={alert.id} 
-                  className="flex items-center justify-between p-4 border border-border rounded-lg"
-                  data-testid={`alert-${alert.id}`}
-                >
-                  <div className="flex items-center space-x-4">
-                    {getSeverityIcon(alert.severity)}
-                    <div>
-                      <div className="flex items-center space-x-2">
-                        <h3 className="font-medium">{alert.message}</h3>
-                        <Badge variant={getSeverityColor(alert.severity) as any}>
-                          {alert.severity}
-                        </Badge>
-                      </div>
-                      <p className="text-sm text-muted-foreground">
-                        Valor atual: {alert.currentValue} • Limite: {alert.threshold}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(alert.createdAt).toLocaleString()}
-                      </p>
-                    </div>
-                  </div>
-                  
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => resolveAlertMutation.mutate(alert.id)}
-                    disabled={resolveAlertMutation.isPending}
-                    data-testid={`button-resolve-${alert.id}`}
-                  >
-                    <CheckCircle className="w-4 h-4 mr-2" />
-                    Resolver
-                  </Button>
-                </div>
-              ))}
+              {ungroupedAlerts.map(renderActiveAlert)}
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Snoozed Alerts */}
+      {ungroupedSnoozedAlerts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-3">
+              {canOperate && (
+                <Checkbox
+                  checked={ungroupedSnoozedAlerts.every(alert => selectedIds.includes(alert.id))}
+                  onCheckedChange={(checked) => toggleAll(ungroupedSnoozedAlerts, checked === true)}
+                  data-testid="checkbox-select-all-snoozed"
+                />
+              )}
+              <CardTitle>Alertas Adiados</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {ungroupedSnoozedAlerts.map(renderActiveAlert)}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Resolved Alerts */}
       {resolvedAlerts.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Alertas Resolvidos</CardTitle>
+            <div className="flex items-center space-x-3">
+              {canOperate && (
+                <Checkbox
+                  checked={resolvedAlerts.every(alert => selectedIds.includes(alert.id))}
+                  onCheckedChange={(checked) => toggleAll(resolvedAlerts, checked === true)}
+                  data-testid="checkbox-select-all-resolved"
+                />
+              )}
+              <CardTitle>Alertas Resolvidos</CardTitle>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4 max-h-96 overflow-y-auto">
               {resolvedAlerts.map((alert) => (
-                <div 
-                  key={alert.id} 
+                <div
+                  key={alert.id}
                   className="flex items-center justify-between p-4 border border-border rounded-lg opacity-75"
                   data-testid={`resolved-alert-${alert.id}`}
                 >
                   <div className="flex items-center space-x-4">
+                    {canOperate && (
+                      <Checkbox
+                        checked={selectedIds.includes(alert.id)}
+                        onCheckedChange={(checked) => toggleSelected(alert.id, checked === true)}
+                        data-testid={`checkbox-alert-${alert.id}`}
+                      />
+                    )}
                     <CheckCircle className="w-4 h-4 text-green-500" />
                     <div>
                       <div className="flex items-center space-x-2">
                         <h3 className="font-medium">{alert.message}</h3>
-                        <Badge variant="outline">Resolvido</Badge>
+                        <Badge variant="outline">
+                          {alert.resolvedBy ? "Resolvido" : "Resolvido automaticamente"}
+                        </Badge>
                       </div>
                       <p className="text-sm text-muted-foreground">
                         Resolvido em: {alert.resolvedAt ? new Date(alert.resolvedAt).toLocaleString() : 'N/A'}
                       </p>
                     </div>
                   </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryAlert(alert)}
+                      data-testid={`button-history-${alert.id}`}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    {canOperate && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runAction("reopen", [alert.id])}
+                        disabled={alertActionMutation.isPending}
+                        data-testid={`button-reopen-${alert.id}`}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Reabrir
+                      </Button>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
           </CardContent>
         </Card>
       )}
+
+      {/* Alert history */}
+      <Dialog open={!!historyAlert} onOpenChange={(open) => !open && setHistoryAlert(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Histórico: {historyAlert?.message}</DialogTitle>
+          </DialogHeader>
+          {historyAlert && <AlertTimeline alertId={historyAlert.id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { useServers } from "@/hooks/use-servers";
+import { useAuth } from "@/hooks/use-auth";
+import { serverGridClassName, useSettings } from "@/hooks/use-settings";
 import { MetricCard } from "@/components/metric-card";
 import { ServerCard } from "@/components/server-card";
 import { Button } from "@/components/ui/button";
@@ -10,6 +12,8 @@ import { Download, Plus, Server, Activity, AlertTriangle, BarChart3 } from "luci
 
 export default function Dashboard() {
   const { servers, isLoading } = useServers();
+  const { hasRole } = useAuth();
+  const { settings } = useSettings();
   const [activeEnvironment, setActiveEnvironment] = useState("production");
   const [isAddServerOpen, setIsAddServerOpen] = useState(false);
 
@@ -70,20 +74,22 @@ export default function Dashboard() {
               <Download className="w-4 h-4 mr-2" />
               Exportar
             </Button>
-            <Dialog open={isAddServerOpen} onOpenChange={setIsAddServerOpen}>
-              <DialogTrigger asChild>
-                <Button data-testid="button-add-server">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Adicionar Servidor
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Adicionar Novo Servidor</DialogTitle>
-                </DialogHeader>
-                <ServerForm onSuccess={() => setIsAddServerOpen(false)} />
-              </DialogContent>
-            </Dialog>
+            {hasRole("admin") && (
+              <Dialog open={isAddServerOpen} onOpenChange={setIsAddServerOpen}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-add-server">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Adicionar Servidor
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Adicionar Novo Servidor</DialogTitle>
+                  </DialogHeader>
+                  <ServerForm onSuccess={() => setIsAddServerOpen(false)} />
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
         </div>
       </div>
@@ -140,7 +146,7 @@ export default function Dashboard() {
           </TabsList>
 
           <TabsContent value="production" className="mt-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+            <div className={serverGridClassName(settings.compactMode)}>
               {filteredServers.map((server) => (
                 <ServerCard key={server.id} server={server} />
               ))}
@@ -148,7 +154,7 @@ export default function Dashboard() {
           </TabsContent>
 
           <TabsContent value="staging" className="mt-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+            <div className={serverGridClassName(settings.compactMode)}>
               {filteredServers.map((server) => (
                 <ServerCard key={server.id} server={server} />
               ))}
@@ -156,7 +162,7 @@ export default function Dashboard() {
           </TabsContent>
 
           <TabsContent value="development" className="mt-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+            <div className={serverGridClassName(settings.compactMode)}>
               {filteredServers.map((server) => (
                 <ServerCard key={server.id} server={server} />
               ))}
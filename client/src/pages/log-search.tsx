@@ -0,0 +1,409 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getApiErrorMessage } from "@/lib/utils";
+import type { LogSearchRange, LogSearchResult, SavedLogSearch } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Bookmark, ChevronLeft, ChevronRight, Link2, Search, Trash2 } from "lucide-react";
+
+const PAGE_SIZE = 50;
+const CUSTOM_RANGE = "custom";
+
+const RANGE_OPTIONS: { value: LogSearchRange | typeof CUSTOM_RANGE; label: string }[] = [
+  { value: "15m", label: "Últimos 15 minutos" },
+  { value: "1h", label: "Última hora" },
+  { value: "6h", label: "Últimas 6 horas" },
+  { value: "24h", label: "Últimas 24 horas" },
+  { value: "7d", label: "Últimos 7 dias" },
+  { value: "30d", label: "Últimos 30 dias" },
+  { value: CUSTOM_RANGE, label: "Período personalizado" },
+];
+
+const EXAMPLE_QUERY = 'level:error source:nginx "timeout" server:web-prod-*';
+
+const getLogLevelColor = (level: string): BadgeProps["variant"] => {
+  switch (level.toLowerCase()) {
+    case "error": return "destructive";
+    case "warning": return "default";
+    case "info": return "secondary";
+    default: return "outline";
+  }
+};
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+
+// The URL is the source of truth so any search can be shared by copying the address
+function useSearchState() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const params = new URLSearchParams(search);
+  const from = params.get("from");
+  const to = params.get("to");
+  const state = {
+    q: params.get("q") ?? "",
+    range: (from ? CUSTOM_RANGE : params.get("range") ?? "24h") as LogSearchRange | typeof CUSTOM_RANGE,
+    from,
+    to,
+    page: Math.max(1, Number(params.get("page")) || 1),
+  };
+
+  const update = (next: Partial<typeof state>) => {
+    const merged = { ...state, page: 1, ...next };
+    const query = new URLSearchParams();
+    if (merged.q) query.set("q", merged.q);
+    if (merged.range === CUSTOM_RANGE) {
+      if (merged.from) query.set("from", merged.from);
+      if (merged.to) query.set("to", merged.to);
+    } else {
+      query.set("range", merged.range);
+    }
+    if (merged.page > 1) query.set("page", String(merged.page));
+    setLocation(`/log-search?${query}`);
+  };
+
+  return { state, update, path: `/log-search${search ? `?${search}` : ""}` };
+}
+
+function HighlightedMessage({ hit }: { hit: LogSearchResult["hits"][number] }) {
+  return (
+    <div className="text-sm font-mono bg-muted/50 p-2 rounded border break-all whitespace-pre-wrap">
+      {hit.highlight.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </div>
+  );
+}
+
+function SaveSearchDialog({ query, range }: { query: string; range: LogSearchRange }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const saveSearchMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/saved-log-searches", { name, query, timeRange: range }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-log-searches"] });
+      toast({ title: "Busca salva", description: "A busca ficou disponível para toda a equipe." });
+      setIsOpen(false);
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-save-log-search">
+          <Bookmark className="w-4 h-4 mr-2" />
+          Salvar busca
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Salvar busca</DialogTitle>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveSearchMutation.mutate();
+          }}
+        >
+          <Input
+            placeholder="Erros 5xx em produção"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-saved-search-name"
+          />
+          <p className="text-xs text-muted-foreground font-mono break-all">{query || "(todos os logs)"}</p>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!name.trim() || saveSearchMutation.isPending} data-testid="button-submit-saved-search">
+              {saveSearchMutation.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function LogSearch() {
+  const { toast } = useToast();
+  const { user, hasRole } = useAuth();
+  const { state, update, path } = useSearchState();
+  const [draft, setDraft] = useState(state.q);
+  const [customFrom, setCustomFrom] = useState(toLocalInput(state.from));
+  const [customTo, setCustomTo] = useState(toLocalInput(state.to));
+
+  // Opening a shared link or a saved search replaces whatever was typed
+  useEffect(() => {
+    setDraft(state.q);
+  }, [state.q]);
+
+  const apiParams = new URLSearchParams({ q: state.q, page: String(state.page), pageSize: String(PAGE_SIZE) });
+  if (state.range === CUSTOM_RANGE) {
+    if (state.from) apiParams.set("from", state.from);
+    if (state.to) apiParams.set("to", state.to);
+  } else {
+    apiParams.set("range", state.range);
+  }
+
+  const { data: result, isLoading, error, refetch } = useQuery<LogSearchResult>({
+    queryKey: [`/api/logs/search?${apiParams}`],
+    retry: false,
+  });
+
+  const { data: savedSearches = [] } = useQuery<SavedLogSearch[]>({
+    queryKey: ["/api/saved-log-searches"],
+  });
+
+  const deleteSavedSearchMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/saved-log-searches/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-log-searches"] });
+      toast({ title: "Busca removida", description: "A busca salva foi removida." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a busca salva.", variant: "destructive" });
+    },
+  });
+
+  const runSearch = () => {
+    if (state.range === CUSTOM_RANGE) {
+      update({
+        q: draft.trim(),
+        from: customFrom ? new Date(customFrom).toISOString() : null,
+        to: customTo ? new Date(customTo).toISOString() : null,
+      });
+    } else if (draft.trim() === state.q && state.page === 1) {
+      // Same URL: search again so the relative range ends now
+      refetch();
+    } else {
+      update({ q: draft.trim() });
+    }
+  };
+
+  const changeRange = (range: string) => {
+    if (range === CUSTOM_RANGE) {
+      // Start the custom period from the window currently shown
+      const from = result?.from ?? null;
+      const to = result?.to ?? null;
+      setCustomFrom(toLocalInput(from));
+      setCustomTo(toLocalInput(to));
+      update({ range: CUSTOM_RANGE, from, to });
+    } else {
+      update({ range: range as LogSearchRange });
+    }
+  };
+
+  const copyLink = async (path: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+      toast({ title: "Link copiado", description: "Qualquer pessoa com acesso ao painel pode abrir esta busca." });
+    } catch {
+      toast({ title: "Erro", description: "Falha ao copiar o link.", variant: "destructive" });
+    }
+  };
+
+  const savedSearchPath = (saved: SavedLogSearch) =>
+    `/log-search?${new URLSearchParams({ ...(saved.query ? { q: saved.query } : {}), range: saved.timeRange })}`;
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+        <h1 className="text-2xl font-bold text-foreground">Busca de Logs</h1>
+        <p className="text-muted-foreground">
+          Pesquisa em texto completo nos logs de todos os servidores
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <form
+            className="flex flex-col md:flex-row gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              runSearch();
+            }}
+          >
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={EXAMPLE_QUERY}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="pl-8 font-mono"
+                data-testid="input-log-search"
+              />
+            </div>
+            <Select value={state.range} onValueChange={changeRange}>
+              <SelectTrigger className="md:w-56" data-testid="select-log-search-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" data-testid="button-run-log-search">Buscar</Button>
+            <Button type="button" variant="outline" onClick={() => copyLink(path)} data-testid="button-copy-log-search-link">
+              <Link2 className="w-4 h-4" />
+            </Button>
+            {state.range !== CUSTOM_RANGE && <SaveSearchDialog query={state.q} range={state.range} />}
+          </form>
+
+          {state.range === CUSTOM_RANGE && (
+            <div className="flex flex-col md:flex-row gap-2 md:items-center">
+              <Input
+                type="datetime-local"
+                className="md:w-64"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                data-testid="input-log-search-from"
+              />
+              <span className="text-sm text-muted-foreground">até</span>
+              <Input
+                type="datetime-local"
+                className="md:w-64"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                data-testid="input-log-search-to"
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            <code>level:</code>, <code>source:</code> e <code>server:</code> aceitam vários valores separados por vírgula e
+            curingas (<code>server:web-prod-*</code>); texto entre aspas busca a frase exata; <code>-</code> exclui um termo;
+            campos extraídos pelos parsers filtram com <code>status&gt;=500</code> ou <code>path~^/api</code>.
+          </p>
+
+          {savedSearches.length > 0 && (
+            <div className="flex flex-wrap gap-2" data-testid="saved-log-searches">
+              {savedSearches.map(saved => (
+                <div key={saved.id} className="flex items-center rounded-full border pl-3 pr-1 py-0.5 text-sm">
+                  <button
+                    type="button"
+                    className="hover:underline"
+                    onClick={() => update({ q: saved.query, range: saved.timeRange as LogSearchRange })}
+                    title={saved.query}
+                    data-testid={`saved-log-search-${saved.id}`}
+                  >
+                    {saved.name}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 ml-1"
+                    onClick={() => copyLink(savedSearchPath(saved))}
+                    data-testid={`button-copy-saved-search-${saved.id}`}
+                  >
+                    <Link2 className="w-3 h-3" />
+                  </Button>
+                  {(saved.createdBy === user?.id || hasRole("admin")) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => deleteSavedSearchMutation.mutate(saved.id)}
+                      disabled={deleteSavedSearchMutation.isPending}
+                      data-testid={`button-delete-saved-search-${saved.id}`}
+                    >
+                      <Trash2 className="w-3 h-3 text-red-500" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Resultados</CardTitle>
+          <CardDescription data-testid="text-log-search-total">
+            {result
+              ? `${result.total} logs entre ${format(new Date(result.from), "dd/MM/yyyy HH:mm", { locale: ptBR })} e ` +
+                format(new Date(result.to), "dd/MM/yyyy HH:mm", { locale: ptBR })
+              : "Buscando..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {error ? (
+            <p className="text-sm text-red-500" data-testid="text-log-search-error">
+              Consulta inválida: {getApiErrorMessage(error as Error)}
+            </p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Carregando logs...</p>
+          ) : !result?.hits.length ? (
+            <p className="text-sm text-muted-foreground">Nenhum log encontrado neste período.</p>
+          ) : (
+            <>
+              {result.hits.map(hit => (
+                <div key={hit.id} className="p-3 rounded-lg border space-y-1" data-testid={`log-search-hit-${hit.id}`}>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant={getLogLevelColor(hit.logLevel)} className="text-xs">
+                      {hit.logLevel.toUpperCase()}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs">{hit.serverName}</Badge>
+                    <Badge variant="outline" className="text-xs">{hit.logSource}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(hit.timestamp), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+                    </span>
+                  </div>
+                  <HighlightedMessage hit={hit} />
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between pt-2">
+                <span className="text-sm text-muted-foreground">Página {result.page} de {totalPages}</span>
+                <div className="space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={result.page <= 1}
+                    onClick={() => update({ page: result.page - 1 })}
+                    data-testid="button-log-search-previous"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={result.page >= totalPages}
+                    onClick={() => update({ page: result.page + 1 })}
+                    data-testid="button-log-search-next"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { useWebSocket } from "@/hooks/use-websocket";
-import { AlertCircle, Info, AlertTriangle, Bug, Search, Filter, Play, Pause, Settings } from "lucide-react";
+import { LogMonitoringCard } from "@/components/log-monitoring-card";
+import { SyslogSendersCard } from "@/components/syslog-senders-card";
+import { LogParsersCard } from "@/components/log-parsers-card";
+import { useWebSocket, type WebSocketMessage } from "@/hooks/use-websocket";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, Info, AlertTriangle, Bug, Search, Filter, Play, Pause, Square, Settings, Braces, ArrowUp } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -39,13 +43,25 @@ const LOG_LEVELS = [
   { value: "debug", label: "Debug", icon: Bug },
 ];
 
-const getLogLevelColor = (level: string) => {
+// Lines kept on screen (and held while paused) during a live tail
+const MAX_VISIBLE_LOGS = 1000;
+// Filter changes re-subscribe, so typing in the search box waits for a pause
+const SUBSCRIBE_DELAY_MS = 300;
+
+// Keys the shipper and syslog receiver add next to the parsed fields
+const INTERNAL_METADATA_KEYS = new Set(["parser", "configId"]);
+
+const getParsedFields = (log: ServerLog): [string, unknown][] => {
+  if (!log.metadata?.parser) return [];
+  return Object.entries(log.metadata).filter(([key]) => !INTERNAL_METADATA_KEYS.has(key));
+};
+
+const getLogLevelColor = (level: string): BadgeProps["variant"] => {
   switch (level.toLowerCase()) {
     case "error": return "destructive";
-    case "warning": return "yellow";
-    case "info": return "blue";
-    case "debug": return "gray";
-    default: return "secondary";
+    case "warning": return "default";
+    case "info": return "secondary";
+    default: return "outline";
   }
 };
 
@@ -65,8 +81,51 @@ export function LogsPage() {
   const [isStreaming, setIsStreaming] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [logs, setLogs] = useState<ServerLog[]>([]);
-  
-  const { sendMessage, lastMessage } = useWebSocket();
+  const [showConfig, setShowConfig] = useState(false);
+  const [fieldQuery, setFieldQuery] = useState("");
+  const [appliedFields, setAppliedFields] = useState("");
+  const [isPaused, setIsPaused] = useState(false);
+  const [pendingLogs, setPendingLogs] = useState<ServerLog[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [droppedCount, setDroppedCount] = useState(0);
+  const { toast } = useToast();
+
+  // The socket handler is created once, so it reads the current selection through refs
+  const selectedServerRef = useRef(selectedServer);
+  selectedServerRef.current = selectedServer;
+  const isPausedRef = useRef(isPaused);
+  isPausedRef.current = isPaused;
+
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    if (message.serverId !== selectedServerRef.current) return;
+
+    switch (message.type) {
+      case "logs_update":
+        setLogs((message.data as ServerLog[]) || []);
+        setPendingLogs([]);
+        setPendingCount(0);
+        break;
+      case "logs_append": {
+        // Batches arrive oldest first; the list shows newest first
+        const lines = ((message.data as ServerLog[]) || []).slice().reverse();
+        if (isPausedRef.current) {
+          setPendingLogs(previous => [...lines, ...previous].slice(0, MAX_VISIBLE_LOGS));
+          setPendingCount(count => count + lines.length);
+        } else {
+          setLogs(previous => [...lines, ...previous].slice(0, MAX_VISIBLE_LOGS));
+        }
+        if (message.dropped) {
+          setDroppedCount(count => count + message.dropped!);
+        }
+        break;
+      }
+      case "logs_error":
+        toast({ title: "Filtro inválido", description: message.message, variant: "destructive" });
+        break;
+    }
+  }, [toast]);
+
+  const { sendMessage, isConnected } = useWebSocket(handleMessage);
 
   // Fetch servers for the dropdown
   const { data: servers = [] } = useQuery<Server[]>({
@@ -74,41 +133,52 @@ export function LogsPage() {
     select: (data) => data || [],
   });
 
-  // Fetch initial logs when server is selected
-  const { data: initialLogs = [] } = useQuery<ServerLog[]>({
-    queryKey: ["/api/servers", selectedServer, "logs"],
+  // Fetch initial logs when server is selected; field filters are applied server-side on parsed metadata
+  const { data: initialLogs, error: fieldFilterError } = useQuery<ServerLog[]>({
+    queryKey: appliedFields
+      ? [`/api/servers/${selectedServer}/logs?fields=${encodeURIComponent(appliedFields)}`]
+      : ["/api/servers", selectedServer, "logs"],
     enabled: !!selectedServer,
+    retry: false,
     select: (data) => data || [],
   });
 
   // Update logs when initial data changes
   useEffect(() => {
-    if (initialLogs.length > 0) {
+    if (initialLogs) {
       setLogs(initialLogs);
     }
   }, [initialLogs]);
 
-  // Handle WebSocket log streaming
+  // Live tail: the server filters by level, text and fields, then pushes new lines as they are stored.
+  // Reconnecting re-subscribes because isConnected flips back to true.
   useEffect(() => {
-    if (!selectedServer || !isStreaming) return;
+    if (!selectedServer || !isStreaming || !isConnected) return;
 
-    // Subscribe to logs for selected server
-    sendMessage({
-      type: "subscribe_logs",
-      serverId: selectedServer,
-      limit: 100
-    });
-  }, [sendMessage, selectedServer, isStreaming]);
+    const timeout = setTimeout(() => {
+      sendMessage({
+        type: "subscribe_logs",
+        serverId: selectedServer,
+        limit: 100,
+        levels: logLevel === "all" ? undefined : [logLevel],
+        pattern: searchQuery || undefined,
+        fields: appliedFields || undefined
+      });
+    }, SUBSCRIBE_DELAY_MS);
 
-  // Handle WebSocket messages for logs
-  useEffect(() => {
-    if (lastMessage && lastMessage.type === "logs_update") {
-      const data = lastMessage as any;
-      if (data.serverId === selectedServer) {
-        setLogs(data.data || []);
-      }
-    }
-  }, [lastMessage, selectedServer]);
+    return () => {
+      clearTimeout(timeout);
+      sendMessage({ type: "unsubscribe_logs", serverId: selectedServer });
+    };
+  }, [sendMessage, isConnected, selectedServer, isStreaming, logLevel, searchQuery, appliedFields]);
+
+  // Lines held while paused are shown at once when the tail resumes
+  const resumeStreaming = () => {
+    setLogs(previous => [...pendingLogs, ...previous].slice(0, MAX_VISIBLE_LOGS));
+    setPendingLogs([]);
+    setPendingCount(0);
+    setIsPaused(false);
+  };
 
   // Filter logs based on level and search
   const filteredLogs = logs.filter(log => {
@@ -120,6 +190,8 @@ export function LogsPage() {
   });
 
   const toggleStreaming = () => {
+    if (isStreaming && isPaused) resumeStreaming();
+    setDroppedCount(0);
     setIsStreaming(!isStreaming);
   };
 
@@ -132,12 +204,25 @@ export function LogsPage() {
             Monitoramento de logs em tempo real dos servidores
           </p>
         </div>
-        <Button variant="outline" size="sm" data-testid="button-config-logs">
+        <Button
+          variant={showConfig ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setShowConfig(!showConfig)}
+          data-testid="button-config-logs"
+        >
           <Settings className="h-4 w-4 mr-2" />
           Configurações
         </Button>
       </div>
 
+      {showConfig && (
+        <>
+          <LogMonitoringCard />
+          <SyslogSendersCard />
+          <LogParsersCard />
+        </>
+      )}
+
       {/* Controls */}
       <Card>
         <CardHeader>
@@ -212,8 +297,8 @@ export function LogsPage() {
               >
                 {isStreaming ? (
                   <>
-                    <Pause className="h-4 w-4 mr-2" />
-                    Pausar
+                    <Square className="h-4 w-4 mr-2" />
+                    Parar
                   </>
                 ) : (
                   <>
@@ -225,6 +310,38 @@ export function LogsPage() {
             </div>
           </div>
 
+          {/* Field Filter */}
+          <div className="space-y-2 mb-4">
+            <label className="text-sm font-medium">Campos</label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Braces className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="status>=500 path~^/api duration_ms>1000"
+                  value={fieldQuery}
+                  onChange={(e) => setFieldQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && setAppliedFields(fieldQuery.trim())}
+                  className="pl-8 font-mono"
+                  disabled={!selectedServer}
+                  data-testid="input-field-filter"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setAppliedFields(fieldQuery.trim())}
+                disabled={!selectedServer}
+                data-testid="button-apply-field-filter"
+              >
+                Aplicar
+              </Button>
+            </div>
+            {fieldFilterError && appliedFields && (
+              <p className="text-sm text-red-500" data-testid="text-field-filter-error">
+                Filtro de campos inválido
+              </p>
+            )}
+          </div>
+
           {/* Status */}
           <div className="flex items-center justify-between text-sm text-muted-foreground">
             <span data-testid="text-logs-count">
@@ -232,10 +349,36 @@ export function LogsPage() {
               {selectedServer && ` para ${servers.find(s => s.id === selectedServer)?.name}`}
             </span>
             {isStreaming && (
-              <Badge variant="secondary" className="animate-pulse" data-testid="badge-streaming-status">
-                <div className="w-2 h-2 bg-green-500 rounded-full mr-2"></div>
-                Streaming ativo
-              </Badge>
+              <div className="flex items-center gap-2">
+                {droppedCount > 0 && (
+                  <span className="text-xs text-orange-600" data-testid="text-dropped-lines">
+                    {droppedCount} linhas descartadas (conexão lenta)
+                  </span>
+                )}
+                {isPaused && pendingCount > 0 && (
+                  <Button size="sm" variant="secondary" onClick={resumeStreaming} data-testid="button-pending-lines">
+                    <ArrowUp className="h-4 w-4 mr-1" />
+                    {pendingCount} novas linhas
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => (isPaused ? resumeStreaming() : setIsPaused(true))}
+                  data-testid="button-pause-streaming"
+                >
+                  {isPaused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+                  {isPaused ? "Continuar" : "Pausar"}
+                </Button>
+                <Badge
+                  variant="secondary"
+                  className={isPaused ? undefined : "animate-pulse"}
+                  data-testid="badge-streaming-status"
+                >
+                  <div className={`w-2 h-2 rounded-full mr-2 ${isPaused ? "bg-yellow-500" : "bg-green-500"}`}></div>
+                  {isPaused ? "Streaming pausado" : "Streaming ativo"}
+                </Badge>
+              </div>
             )}
           </div>
         </CardContent>
@@ -282,7 +425,7 @@ export function LogsPage() {
                         <div className="flex-1 min-w-0 space-y-1">
                           <div className="flex items-center gap-2">
                             <Badge 
-                              variant={getLogLevelColor(log.logLevel) as any}
+                              variant={getLogLevelColor(log.logLevel)}
                               className="text-xs"
                               data-testid={`badge-log-level-${log.logLevel}`}
                             >
@@ -298,6 +441,15 @@ export function LogsPage() {
                           <div className="text-sm font-mono bg-muted/50 p-2 rounded border">
                             {log.message}
                           </div>
+                          {getParsedFields(log).length > 0 && (
+                            <div className="flex flex-wrap gap-1" data-testid={`log-fields-${log.id}`}>
+                              {getParsedFields(log).map(([key, value]) => (
+                                <Badge key={key} variant="outline" className="text-xs font-mono font-normal">
+                                  {key}={String(value)}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                           {log.originalLogPath && (
                             <div className="text-xs text-muted-foreground">
                               Arquivo: {log.originalLogPath}
@@ -0,0 +1,19 @@
+import { MaintenanceHistoryCard, MaintenanceWindowsCard } from "@/components/maintenance-windows-card";
+
+export default function Maintenance() {
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+        <h1 className="text-2xl font-bold text-foreground">Manutenção</h1>
+        <p className="text-muted-foreground">
+          Janelas programadas em que os alertas dos servidores afetados são silenciados ou marcados como manutenção
+        </p>
+      </div>
+
+      <MaintenanceWindowsCard />
+
+      <MaintenanceHistoryCard />
+    </div>
+  );
+}
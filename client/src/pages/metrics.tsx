@@ -1,9 +1,29 @@
+import { useState } from "react";
 import { useServers } from "@/hooks/use-servers";
+import { METRIC_WINDOWS, useMetricBaseline, useMetricSeries, type MetricWindow } from "@/hooks/use-metric-series";
+import { MetricHistoryChart } from "@/components/metric-history-chart";
+import { CustomMetricsCard } from "@/components/custom-metrics-card";
+import { CapacityForecastCard } from "@/components/capacity-forecast-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatAvailability, formatUptime, getAvailabilityColor } from "@/lib/utils";
+import { useServerAvailability } from "@/hooks/use-availability";
 import { Activity, HardDrive, MemoryStick, Network } from "lucide-react";
 
 export default function Metrics() {
   const { servers, isLoading } = useServers();
+  const [metricWindow, setMetricWindow] = useState<MetricWindow>("24h");
+  const [serverFilter, setServerFilter] = useState("all");
+  const { byServer: availability } = useServerAvailability("30d");
+  const { data: history, isLoading: isHistoryLoading } = useMetricSeries(
+    metricWindow,
+    serverFilter === "all" ? undefined : [serverFilter],
+  );
+  // Baselines are per server, so the band only shows with a server selected
+  const { data: serverBaseline } = useMetricBaseline(metricWindow, serverFilter === "all" ? undefined : serverFilter);
+  // Placeholder data would keep the last server's band after switching back to all servers
+  const baseline = serverFilter === "all" ? undefined : serverBaseline;
 
   if (isLoading) {
     return (
@@ -98,6 +118,7 @@ export default function Metrics() {
                   <th className="text-left p-2">Memória</th>
                   <th className="text-left p-2">Disco</th>
                   <th className="text-left p-2">Uptime</th>
+                  <th className="text-left p-2">Disponibilidade (30d)</th>
                 </tr>
               </thead>
               <tbody>
@@ -153,7 +174,12 @@ export default function Metrics() {
                       </div>
                     </td>
                     <td className="p-2 text-green-600">
-                      {server.metrics?.uptime || '0'}%
+                      {server.metrics?.isOnline && server.metrics.uptime
+                        ? formatUptime(parseFloat(server.metrics.uptime))
+                        : "—"}
+                    </td>
+                    <td className={`p-2 ${getAvailabilityColor(availability.get(server.id)?.availability)}`}>
+                      {formatAvailability(availability.get(server.id)?.availability)}
                     </td>
                   </tr>
                 ))}
@@ -164,29 +190,96 @@ export default function Metrics() {
       </Card>
 
       {/* Charts */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <Tabs value={metricWindow} onValueChange={(value) => setMetricWindow(value as MetricWindow)}>
+          <TabsList>
+            {Object.entries(METRIC_WINDOWS).map(([value, { label }]) => (
+              <TabsTrigger key={value} value={value} data-testid={`tab-window-${value}`}>
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Select value={serverFilter} onValueChange={setServerFilter}>
+          <SelectTrigger className="w-full sm:w-64" data-testid="select-history-server">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os servidores</SelectItem>
+            {servers?.map((server) => (
+              <SelectItem key={server.id} value={server.id}>{server.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle>Histórico de CPU</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="h-64 bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-900 rounded-lg flex items-center justify-center">
-              <span className="text-muted-foreground font-medium">Gráfico de histórico de CPU</span>
-            </div>
-          </CardContent>
-        </Card>
+        {[
+          { title: "Histórico de CPU", metric: "cpu" as const, color: "hsl(217 91% 60%)" },
+          { title: "Histórico de Memória", metric: "memory" as const, color: "hsl(142 71% 45%)" },
+          { title: "Histórico de Disco", metric: "disk" as const, color: "hsl(25 95% 53%)" },
+        ].map(({ title, metric, color }) => (
+          <Card key={metric}>
+            <CardHeader>
+              <CardTitle>{title}</CardTitle>
+            </CardHeader>
+            <CardContent data-testid={`chart-${metric}`}>
+              {isHistoryLoading || !history ? (
+                <div className="h-64 flex items-center justify-center text-muted-foreground">Carregando histórico...</div>
+              ) : (
+                <MetricHistoryChart
+                  buckets={history.fleet}
+                  unit="%"
+                  maxValue={100}
+                  rangeMs={METRIC_WINDOWS[metricWindow].ms}
+                  series={[
+                    { metric, aggregation: "avg", label: "Média", color },
+                    { metric, aggregation: "p95", label: "p95", color: "hsl(0 84% 60%)" },
+                  ]}
+                  band={baseline && metric !== "disk"
+                    ? { metric, points: baseline.points, label: "Faixa esperada", color }
+                    : undefined}
+                />
+              )}
+            </CardContent>
+          </Card>
+        ))}
 
         <Card>
           <CardHeader>
-            <CardTitle>Histórico de Memória</CardTitle>
+            <CardTitle className="flex items-center space-x-2">
+              <Network className="w-5 h-5" />
+              <span>Histórico de Rede</span>
+            </CardTitle>
           </CardHeader>
-          <CardContent>
-            <div className="h-64 bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-900 rounded-lg flex items-center justify-center">
-              <span className="text-muted-foreground font-medium">Gráfico de histórico de memória</span>
-            </div>
+          <CardContent data-testid="chart-network">
+            {isHistoryLoading || !history ? (
+              <div className="h-64 flex items-center justify-center text-muted-foreground">Carregando histórico...</div>
+            ) : (
+              <MetricHistoryChart
+                buckets={history.fleet}
+                unit=" KB/s"
+                rangeMs={METRIC_WINDOWS[metricWindow].ms}
+                series={[
+                  { metric: "networkIn", aggregation: "avg", label: "Entrada", color: "hsl(262 83% 58%)" },
+                  { metric: "networkOut", aggregation: "avg", label: "Saída", color: "hsl(173 80% 40%)" },
+                ]}
+                band={baseline ? { metric: "networkIn", points: baseline.points, label: "Faixa esperada (entrada)", color: "hsl(262 83% 58%)" } : undefined}
+              />
+            )}
           </CardContent>
         </Card>
       </div>
+
+      <CapacityForecastCard servers={servers ?? []} serverId={serverFilter === "all" ? undefined : serverFilter} />
+
+      {serverFilter === "all" ? (
+        <p className="text-sm text-muted-foreground" data-testid="custom-metrics-hint">
+          Selecione um servidor para ver métricas por disco, interface de rede, carga e as enviadas pelo agente.
+        </p>
+      ) : (
+        <CustomMetricsCard serverId={serverFilter} metricWindow={metricWindow} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,20 @@
+import { EscalationPoliciesCard } from "@/components/escalation-policies-card";
+import { OnCallSchedulesCard } from "@/components/on-call-schedules-card";
+
+export default function OnCall() {
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+        <h1 className="text-2xl font-bold text-foreground">Plantão</h1>
+        <p className="text-muted-foreground">
+          Escalas de plantão e políticas que escalonam alertas não reconhecidos para a próxima pessoa
+        </p>
+      </div>
+
+      <OnCallSchedulesCard />
+
+      <EscalationPoliciesCard />
+    </div>
+  );
+}
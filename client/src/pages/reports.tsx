@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AvailabilityReport, PublicServer } from "@shared/schema";
+import { MetricCard } from "@/components/metric-card";
+import { ENVIRONMENT_LABELS, SloTable } from "@/components/slos-card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatAvailability, formatDowntime, getAvailabilityColor } from "@/lib/utils";
+import { CalendarRange, Clock, Download, Gauge, Server } from "lucide-react";
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString("pt-BR", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function downloadCsv(report: AvailabilityReport) {
+  const rows = [
+    ["servidor", "hostname", "disponibilidade_pct", "indisponibilidade_min", "cobertura_pct"],
+    ...report.servers.map(server => [
+      server.name,
+      server.hostname,
+      server.availability?.toFixed(4) ?? "",
+      server.downtimeMinutes.toString(),
+      server.coverage.toFixed(1),
+    ]),
+    ["total", "", report.summary.availability?.toFixed(4) ?? "", report.summary.downtimeMinutes.toString(), report.summary.coverage.toFixed(1)],
+  ];
+  const csv = rows.map(row => row.map(value => `"${value.replace(/"/g, '""')}"`).join(",")).join("\n");
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `disponibilidade-${report.environment}-${report.month}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function Reports() {
+  const [environment, setEnvironment] = useState("production");
+  const [month, setMonth] = useState(currentMonth());
+
+  const { data: report, isLoading } = useQuery<AvailabilityReport>({
+    queryKey: [`/api/reports/availability?environment=${environment}&month=${month}`],
+    enabled: !!month,
+  });
+  const { data: servers } = useQuery<PublicServer[]>({
+    queryKey: ["/api/servers"],
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Relatório de Disponibilidade</h1>
+            <p className="text-muted-foreground">
+              Disponibilidade mensal por ambiente, calculada a partir das amostras coletadas e das verificações sintéticas
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Input
+              type="month"
+              value={month}
+              max={currentMonth()}
+              onChange={(event) => setMonth(event.target.value)}
+              className="w-44"
+              data-testid="input-report-month"
+            />
+            <Button
+              variant="outline"
+              onClick={() => report && downloadCsv(report)}
+              disabled={!report}
+              data-testid="button-export-report"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Exportar CSV
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Tabs value={environment} onValueChange={setEnvironment}>
+        <TabsList className="grid w-fit grid-cols-3">
+          {Object.entries(ENVIRONMENT_LABELS).map(([value, label]) => (
+            <TabsTrigger key={value} value={value} data-testid={`tab-report-${value}`}>
+              {label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isLoading || !report ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <MetricCard
+              title="Disponibilidade"
+              value={formatAvailability(report.summary.availability)}
+              icon={<Gauge className="w-5 h-5 text-green-500" />}
+              subtitle={formatMonth(report.month)}
+              data-testid="card-report-availability"
+            />
+            <MetricCard
+              title="Indisponibilidade"
+              value={formatDowntime(report.summary.downtimeMinutes)}
+              icon={<Clock className="w-5 h-5 text-red-500" />}
+              subtitle="Soma entre os servidores"
+              data-testid="card-report-downtime"
+            />
+            <MetricCard
+              title="Cobertura"
+              value={`${report.summary.coverage.toFixed(1)}%`}
+              icon={<CalendarRange className="w-5 h-5 text-blue-500" />}
+              subtitle="Tempo do período com dados"
+              data-testid="card-report-coverage"
+            />
+            <MetricCard
+              title="Servidores"
+              value={report.servers.length.toString()}
+              icon={<Server className="w-5 h-5 text-purple-500" />}
+              subtitle={ENVIRONMENT_LABELS[report.environment] ?? report.environment}
+              data-testid="card-report-servers"
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Disponibilidade por Servidor</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!report.servers.length ? (
+                <p className="text-sm text-muted-foreground">Nenhum servidor neste ambiente.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm" data-testid="availability-table">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2">Servidor</th>
+                        <th className="text-left p-2">Disponibilidade</th>
+                        <th className="text-left p-2">Indisponibilidade</th>
+                        <th className="text-left p-2">Cobertura</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.servers.map((server) => (
+                        <tr key={server.serverId} className="border-b" data-testid={`availability-row-${server.serverId}`}>
+                          <td className="p-2">
+                            <div className="font-medium">{server.name}</div>
+                            <div className="text-xs text-muted-foreground">{server.hostname}</div>
+                          </td>
+                          <td className={`p-2 font-medium ${getAvailabilityColor(server.availability)}`}>
+                            {formatAvailability(server.availability)}
+                          </td>
+                          <td className="p-2">{formatDowntime(server.downtimeMinutes)}</td>
+                          <td className="p-2">{server.coverage.toFixed(1)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>SLOs do Ambiente</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!report.slos.length ? (
+                <p className="text-sm text-muted-foreground">
+                  Nenhum SLO cadastrado para este ambiente. Cadastre em Configurações → Objetivos de Disponibilidade.
+                </p>
+              ) : (
+                <SloTable slos={report.slos} servers={servers} />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
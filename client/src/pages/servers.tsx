@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { useServers } from "@/hooks/use-servers";
+import { useAuth } from "@/hooks/use-auth";
+import { serverGridClassName, useSettings } from "@/hooks/use-settings";
 import { ServerCard } from "@/components/server-card";
 import { ServerForm } from "@/components/server-form";
 import { Button } from "@/components/ui/button";
@@ -10,6 +12,8 @@ import { Plus, Search, Filter } from "lucide-react";
 
 export default function Servers() {
   const { servers, isLoading } = useServers();
+  const { hasRole } = useAuth();
+  const { settings } = useSettings();
   const [isAddServerOpen, setIsAddServerOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [environmentFilter, setEnvironmentFilter] = useState("all");
@@ -45,20 +49,22 @@ export default function Servers() {
               {filteredServers.length} de {servers?.length || 0} servidores
             </p>
           </div>
-          <Dialog open={isAddServerOpen} onOpenChange={setIsAddServerOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-add-server">
-                <Plus className="w-4 h-4 mr-2" />
-                Adicionar Servidor
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Adicionar Novo Servidor</DialogTitle>
-              </DialogHeader>
-              <ServerForm onSuccess={() => setIsAddServerOpen(false)} />
-            </DialogContent>
-          </Dialog>
+          {hasRole("admin") && (
+            <Dialog open={isAddServerOpen} onOpenChange={setIsAddServerOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-server">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Adicionar Servidor
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Adicionar Novo Servidor</DialogTitle>
+                </DialogHeader>
+                <ServerForm onSuccess={() => setIsAddServerOpen(false)} />
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
 
         {/* Filters */}
@@ -105,7 +111,7 @@ export default function Servers() {
       </div>
 
       {/* Servers Grid */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+      <div className={serverGridClassName(settings.compactMode)}>
         {filteredServers.map((server) => (
           <ServerCard key={server.id} server={server} showActions />
         ))}
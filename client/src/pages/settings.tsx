@@ -1,13 +1,61 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { AlertRulesCard } from "@/components/alert-rules-card";
+import { CorrelationRulesCard } from "@/components/correlation-rules-card";
+import { NotificationChannelsCard, NotificationDeliveriesCard } from "@/components/notification-channels-card";
+import { IngestTokensCard } from "@/components/ingest-tokens-card";
+import { SyntheticChecksCard } from "@/components/synthetic-checks-card";
+import { SlosCard } from "@/components/slos-card";
+import { useAuth } from "@/hooks/use-auth";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import { type UpdateAppSettings } from "@shared/schema";
 import { Save, RefreshCw, Bell, Shield, Database } from "lucide-react";
 
 export default function Settings() {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { settings, isLoading, saveSettingsMutation } = useSettings();
+  const [draft, setDraft] = useState<UpdateAppSettings>({});
+  const canEdit = hasRole("admin");
+
+  // Start from the saved values whenever they (re)load
+  useEffect(() => {
+    if (!isLoading) setDraft({});
+  }, [isLoading, settings.updatedAt]);
+
+  const values = { ...settings, ...draft };
+  const update = (changes: UpdateAppSettings) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSave = () => {
+    saveSettingsMutation.mutate(draft, {
+      onSuccess: () => {
+        setDraft({});
+        toast({ title: "Configurações salvas", description: "As preferências foram aplicadas." });
+      },
+      onError: () => {
+        toast({
+          title: "Erro",
+          description: "Falha ao salvar as configurações. Tente novamente.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
@@ -30,7 +78,11 @@ export default function Settings() {
           <CardContent className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="refresh-interval">Intervalo de Atualização (segundos)</Label>
-              <Select defaultValue="30">
+              <Select
+                value={String(values.refreshIntervalSeconds)}
+                onValueChange={(value) => update({ refreshIntervalSeconds: parseInt(value, 10) })}
+                disabled={!canEdit}
+              >
                 <SelectTrigger data-testid="select-refresh-interval">
                   <SelectValue />
                 </SelectTrigger>
@@ -39,13 +91,22 @@ export default function Settings() {
                   <SelectItem value="30">30 segundos</SelectItem>
                   <SelectItem value="60">1 minuto</SelectItem>
                   <SelectItem value="300">5 minutos</SelectItem>
+                  {![10, 30, 60, 300].includes(values.refreshIntervalSeconds) && (
+                    <SelectItem value={String(values.refreshIntervalSeconds)}>
+                      {values.refreshIntervalSeconds} segundos
+                    </SelectItem>
+                  )}
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="theme">Tema</Label>
-              <Select defaultValue="light">
+              <Select
+                value={values.theme}
+                onValueChange={(value) => update({ theme: value as UpdateAppSettings["theme"] })}
+                disabled={!canEdit}
+              >
                 <SelectTrigger data-testid="select-theme">
                   <SelectValue />
                 </SelectTrigger>
@@ -64,7 +125,12 @@ export default function Settings() {
                   Atualizar métricas automaticamente
                 </p>
               </div>
-              <Switch defaultChecked data-testid="switch-auto-refresh" />
+              <Switch
+                checked={values.autoRefresh}
+                onCheckedChange={(autoRefresh) => update({ autoRefresh })}
+                disabled={!canEdit}
+                data-testid="switch-auto-refresh"
+              />
             </div>
 
             <div className="flex items-center justify-between">
@@ -74,7 +140,12 @@ export default function Settings() {
                   Exibir mais servidores por linha
                 </p>
               </div>
-              <Switch data-testid="switch-compact-mode" />
+              <Switch
+                checked={values.compactMode}
+                onCheckedChange={(compactMode) => update({ compactMode })}
+                disabled={!canEdit}
+                data-testid="switch-compact-mode"
+              />
             </div>
           </CardContent>
         </Card>
@@ -88,54 +159,16 @@ export default function Settings() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="cpu-threshold">Limite CPU (%)</Label>
-              <Input 
-                id="cpu-threshold" 
-                type="number" 
-                defaultValue="80" 
-                min="1" 
-                max="100"
-                data-testid="input-cpu-threshold"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="memory-threshold">Limite Memória (%)</Label>
-              <Input 
-                id="memory-threshold" 
-                type="number" 
-                defaultValue="90" 
-                min="1" 
-                max="100"
-                data-testid="input-memory-threshold"
-              />
-            </div>
+            <p className="text-sm text-muted-foreground">
+              Os limites de CPU, memória e disco são definidos nas regras de alerta abaixo.
+            </p>
 
-            <div className="space-y-2">
-              <Label htmlFor="disk-threshold">Limite Disco (%)</Label>
-              <Input 
-                id="disk-threshold" 
-                type="number" 
-                defaultValue="85" 
-                min="1" 
-                max="100"
-                data-testid="input-disk-threshold"
-              />
-            </div>
+            <p className="text-sm text-muted-foreground">
+              Email, webhooks e chat são configurados nos canais de notificação.
+            </p>
 
             <Separator />
 
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Notificações por Email</Label>
-                <p className="text-sm text-muted-foreground">
-                  Receber alertas por email
-                </p>
-              </div>
-              <Switch data-testid="switch-email-notifications" />
-            </div>
-
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label>Alertas Sonoros</Label>
@@ -143,7 +176,12 @@ export default function Settings() {
                   Reproduzir som para alertas críticos
                 </p>
               </div>
-              <Switch data-testid="switch-sound-alerts" />
+              <Switch
+                checked={values.soundAlerts}
+                onCheckedChange={(soundAlerts) => update({ soundAlerts })}
+                disabled={!canEdit}
+                data-testid="switch-sound-alerts"
+              />
             </div>
           </CardContent>
         </Card>
@@ -159,7 +197,11 @@ export default function Settings() {
           <CardContent className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="session-timeout">Timeout da Sessão (minutos)</Label>
-              <Select defaultValue="60">
+              <Select
+                value={String(values.sessionTimeoutMinutes)}
+                onValueChange={(value) => update({ sessionTimeoutMinutes: parseInt(value, 10) })}
+                disabled={!canEdit}
+              >
                 <SelectTrigger data-testid="select-session-timeout">
                   <SelectValue />
                 </SelectTrigger>
@@ -171,26 +213,6 @@ export default function Settings() {
                 </SelectContent>
               </Select>
             </div>
-
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Autenticação de Dois Fatores</Label>
-                <p className="text-sm text-muted-foreground">
-                  Aumentar segurança do acesso
-                </p>
-              </div>
-              <Switch data-testid="switch-2fa" />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Log de Auditoria</Label>
-                <p className="text-sm text-muted-foreground">
-                  Registrar todas as ações do usuário
-                </p>
-              </div>
-              <Switch defaultChecked data-testid="switch-audit-log" />
-            </div>
           </CardContent>
         </Card>
 
@@ -204,28 +226,54 @@ export default function Settings() {
           </CardHeader>
           <CardContent className="space-y-6">
             <div className="space-y-2">
-              <Label htmlFor="retention-period">Período de Retenção de Métricas</Label>
-              <Select defaultValue="30">
+              <Label htmlFor="retention-period">Retenção de Métricas Brutas</Label>
+              <Select
+                value={String(values.metricsRetentionDays)}
+                onValueChange={(value) => update({ metricsRetentionDays: parseInt(value, 10) })}
+                disabled={!canEdit}
+              >
                 <SelectTrigger data-testid="select-retention-period">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="7">7 dias</SelectItem>
-                  <SelectItem value="30">30 dias</SelectItem>
-                  <SelectItem value="90">90 dias</SelectItem>
-                  <SelectItem value="365">1 ano</SelectItem>
+                  <RetentionOptions days={[7, 30, 90, 365]} current={values.metricsRetentionDays} />
                 </SelectContent>
               </Select>
             </div>
 
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Backup Automático</Label>
-                <p className="text-sm text-muted-foreground">
-                  Fazer backup diário das configurações
-                </p>
-              </div>
-              <Switch defaultChecked data-testid="switch-auto-backup" />
+            <div className="space-y-2">
+              <Label htmlFor="rollup-5m-retention">Retenção dos Agregados de 5 Minutos</Label>
+              <Select
+                value={String(values.rollup5mRetentionDays)}
+                onValueChange={(value) => update({ rollup5mRetentionDays: parseInt(value, 10) })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger data-testid="select-rollup-5m-retention">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <RetentionOptions days={[30, 90, 180, 365]} current={values.rollup5mRetentionDays} />
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rollup-1h-retention">Retenção dos Agregados de 1 Hora</Label>
+              <Select
+                value={String(values.rollup1hRetentionDays)}
+                onValueChange={(value) => update({ rollup1hRetentionDays: parseInt(value, 10) })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger data-testid="select-rollup-1h-retention">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <RetentionOptions days={[365, 730, 1825]} current={values.rollup1hRetentionDays} />
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Métricas antigas são consultadas automaticamente nos agregados.
+              </p>
             </div>
 
             <div className="space-y-2">
@@ -237,13 +285,47 @@ export default function Settings() {
         </Card>
       </div>
 
+      <AlertRulesCard />
+      <CorrelationRulesCard />
+      <SyntheticChecksCard />
+      <SlosCard />
+
+      {hasRole("admin") && <NotificationChannelsCard />}
+      {hasRole("operator") && <NotificationDeliveriesCard />}
+      {hasRole("admin") && <IngestTokensCard />}
+
       {/* Save Button */}
       <div className="flex justify-end">
-        <Button className="w-full sm:w-auto" data-testid="button-save-settings">
+        <Button
+          className="w-full sm:w-auto"
+          onClick={handleSave}
+          disabled={!canEdit || Object.keys(draft).length === 0 || saveSettingsMutation.isPending}
+          data-testid="button-save-settings"
+        >
           <Save className="w-4 h-4 mr-2" />
-          Salvar Configurações
+          {saveSettingsMutation.isPending ? "Salvando..." : "Salvar Configurações"}
         </Button>
       </div>
     </div>
   );
 }
+
+function formatRetention(days: number) {
+  if (days % 365 === 0) return days === 365 ? "1 ano" : `${days / 365} anos`;
+  return `${days} dias`;
+}
+
+function RetentionOptions({ days, current }: { days: number[]; current?: number }) {
+  const options = current === undefined || days.includes(current)
+    ? days
+    : [...days, current].sort((a, b) => a - b);
+  return (
+    <>
+      {options.map((value) => (
+        <SelectItem key={value} value={String(value)}>
+          {formatRetention(value)}
+        </SelectItem>
+      ))}
+    </>
+  );
+}
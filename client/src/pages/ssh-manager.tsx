@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useServers } from "@/hooks/use-servers";
+import { useAuth } from "@/hooks/use-auth";
 import { SshTerminal } from "@/components/ssh-terminal";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,6 +9,7 @@ import { Terminal, Play, Square } from "lucide-react";
 
 export default function SshManager() {
   const { servers, isLoading } = useServers();
+  const { hasRole } = useAuth();
   const [selectedServerId, setSelectedServerId] = useState<string>("");
   const [activeConnections, setActiveConnections] = useState<string[]>([]);
 
@@ -71,7 +73,7 @@ export default function SshManager() {
             
             <Button 
               onClick={handleConnect}
-              disabled={!selectedServerId || activeConnections.includes(selectedServerId)}
+              disabled={!hasRole("operator") || !selectedServerId || activeConnections.includes(selectedServerId)}
               data-testid="button-connect"
             >
               <Play className="w-4 h-4 mr-2" />
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { insertUserSchema, type InsertUser, type PublicUser, type UpdateUser, type UserRole } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Trash2, Users as UsersIcon } from "lucide-react";
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Visualizador",
+  operator: "Operador",
+  admin: "Administrador",
+};
+
+function UserForm({ onSuccess }: { onSuccess?: () => void }) {
+  const { toast } = useToast();
+
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: {
+      username: "",
+      displayName: "",
+      email: "",
+      password: "",
+      role: "viewer",
+      isActive: true,
+    },
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: InsertUser) => apiRequest("POST", "/api/users", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Usuário criado", description: "O usuário foi criado com sucesso." });
+      onSuccess?.();
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao criar o usuário. Verifique se o nome já existe.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(data => createUserMutation.mutate(data))}
+        className="space-y-4"
+        data-testid="user-form"
+      >
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Usuário</FormLabel>
+              <FormControl>
+                <Input placeholder="joao.silva" {...field} data-testid="input-user-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="displayName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input placeholder="João Silva" {...field} value={field.value ?? ""} data-testid="input-user-display-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="joao@empresa.com" {...field} value={field.value ?? ""} data-testid="input-user-email" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Senha</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-user-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Perfil</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-user-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={createUserMutation.isPending} data-testid="button-submit-user">
+            {createUserMutation.isPending ? "Criando..." : "Criar Usuário"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export default function Users() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [isAddUserOpen, setIsAddUserOpen] = useState(false);
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateUser }) =>
+      apiRequest("PUT", `/api/users/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao atualizar o usuário.", variant: "destructive" });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/users/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Usuário removido", description: "O usuário foi removido com sucesso." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover o usuário.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Usuários</h1>
+            <p className="text-muted-foreground">
+              Gerencie quem acessa o painel e o que cada perfil pode fazer
+            </p>
+          </div>
+          <Dialog open={isAddUserOpen} onOpenChange={setIsAddUserOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-user">
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Usuário
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Novo Usuário</DialogTitle>
+              </DialogHeader>
+              <UserForm onSuccess={() => setIsAddUserOpen(false)} />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <UsersIcon className="w-5 h-5" />
+            <span>Contas</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full" data-testid="users-table">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Usuário</th>
+                  <th className="text-left p-2">Perfil</th>
+                  <th className="text-left p-2">Ativo</th>
+                  <th className="text-left p-2">Último acesso</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {users?.map((user) => {
+                  const isSelf = user.id === currentUser?.id;
+                  return (
+                    <tr key={user.id} className="border-b" data-testid={`user-row-${user.id}`}>
+                      <td className="p-2">
+                        <div className="font-medium">{user.displayName || user.username}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {user.username}{user.email ? ` • ${user.email}` : ""}
+                        </div>
+                      </td>
+                      <td className="p-2">
+                        <Select
+                          value={user.role}
+                          disabled={isSelf}
+                          onValueChange={(role) =>
+                            updateUserMutation.mutate({ id: user.id, data: { role: role as UserRole } })
+                          }
+                        >
+                          <SelectTrigger className="w-40" data-testid={`select-role-${user.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="p-2">
+                        <Switch
+                          checked={user.isActive}
+                          disabled={isSelf}
+                          onCheckedChange={(isActive) =>
+                            updateUserMutation.mutate({ id: user.id, data: { isActive } })
+                          }
+                          data-testid={`switch-active-${user.id}`}
+                        />
+                      </td>
+                      <td className="p-2 text-sm text-muted-foreground">
+                        {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "Nunca"}
+                      </td>
+                      <td className="p-2 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isSelf || deleteUserMutation.isPending}
+                          onClick={() => deleteUserMutation.mutate(user.id)}
+                          data-testid={`button-delete-user-${user.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
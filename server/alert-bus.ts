@@ -0,0 +1,26 @@
+import { EventEmitter } from "events";
+import type { Alert } from "@shared/schema";
+
+export type AlertLifecycleEvent = "triggered" | "resolved" | "reopened";
+
+interface AlertBusEvents {
+  triggered: [alert: Alert];
+  resolved: [alert: Alert];
+  reopened: [alert: Alert];
+}
+
+/**
+ * In-process fan-out of alert lifecycle changes. Storage emits after the
+ * change is persisted, so listeners always see the stored row.
+ */
+class AlertBus extends EventEmitter {
+  emitAlert<E extends AlertLifecycleEvent>(event: E, ...args: AlertBusEvents[E]): boolean {
+    return this.emit(event, ...args);
+  }
+
+  onAlert<E extends AlertLifecycleEvent>(event: E, listener: (...args: AlertBusEvents[E]) => void): this {
+    return this.on(event, listener as (...args: unknown[]) => void);
+  }
+}
+
+export const alertBus = new AlertBus();
@@ -0,0 +1,257 @@
+import type { Alert, AlertRule, AlertRuleMetric, AlertRuleScope, InsertAlertRule, Server, ServerMetrics } from "@shared/schema";
+import type { MaintenanceService } from "./maintenance";
+import type { IStorage } from "./storage";
+
+// More specific scopes override broader ones for the same metric
+const SCOPE_PRIORITY: Record<AlertRuleScope, number> = {
+  global: 0,
+  environment: 1,
+  serverType: 2,
+  tag: 3,
+  server: 4,
+};
+
+const METRIC_LABELS: Record<AlertRuleMetric, { label: string; unit: string }> = {
+  cpu: { label: "CPU", unit: "%" },
+  memory: { label: "Memória", unit: "%" },
+  disk: { label: "Disco", unit: "%" },
+  networkIn: { label: "Rede (entrada)", unit: " KB/s" },
+  networkOut: { label: "Rede (saída)", unit: " KB/s" },
+};
+
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+// Thresholds that used to be hardcoded in the collection loop
+const DEFAULT_RULES: InsertAlertRule[] = [
+  { name: "CPU crítica", metric: "cpu", operator: "gt", threshold: "80", durationMinutes: 0, severity: "critical", hysteresis: "5", scopeType: "global" },
+  { name: "Memória crítica", metric: "memory", operator: "gt", threshold: "90", durationMinutes: 0, severity: "critical", hysteresis: "5", scopeType: "global" },
+  { name: "Disco alto", metric: "disk", operator: "gt", threshold: "85", durationMinutes: 0, severity: "warning", hysteresis: "2", scopeType: "global" },
+];
+
+export function compareValue(value: number, operator: string, threshold: number): boolean {
+  switch (operator) {
+    case "gt":
+      return value > threshold;
+    case "gte":
+      return value >= threshold;
+    case "lt":
+      return value < threshold;
+    case "lte":
+      return value <= threshold;
+    default:
+      return false;
+  }
+}
+
+export function ruleMatchesServer(rule: AlertRule, server: Server): boolean {
+  switch (rule.scopeType) {
+    case "global":
+      return true;
+    case "environment":
+      return server.environment === rule.scopeValue;
+    case "serverType":
+      return server.serverType === rule.scopeValue;
+    case "tag":
+      return Array.isArray(server.tags) && (server.tags as string[]).includes(rule.scopeValue ?? "");
+    case "server":
+      return server.id === rule.scopeValue;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Picks the rules that apply to a server. For each metric only the rules at
+ * the most specific matching scope are kept, so a per-server rule replaces the
+ * global one instead of firing alongside it.
+ */
+export function selectRulesForServer(rules: AlertRule[], server: Server): AlertRule[] {
+  const byMetric = new Map<string, AlertRule[]>();
+
+  for (const rule of rules) {
+    if (!rule.isEnabled || !ruleMatchesServer(rule, server)) continue;
+
+    const current = byMetric.get(rule.metric);
+    const priority = SCOPE_PRIORITY[rule.scopeType as AlertRuleScope] ?? 0;
+    const currentPriority = current ? SCOPE_PRIORITY[current[0].scopeType as AlertRuleScope] ?? 0 : -1;
+
+    if (priority > currentPriority) {
+      byMetric.set(rule.metric, [rule]);
+    } else if (priority === currentPriority) {
+      current!.push(rule);
+    }
+  }
+
+  return Array.from(byMetric.values()).flat();
+}
+
+/**
+ * Alerts raised before rules existed carry no ruleId, only the metric name as
+ * type, and are taken over by the rule for that metric. Alerts orphaned by a
+ * deleted rule look the same but are newer than the oldest rule.
+ */
+function isLegacyMetricAlert(alert: Alert, rulesSince: number): boolean {
+  return alert.ruleId === null && alert.alertType in METRIC_LABELS && alert.createdAt.getTime() < rulesSince;
+}
+
+function metricValue(sample: ServerMetrics, metric: string): number | null {
+  const raw = {
+    cpu: sample.cpuUsage,
+    memory: sample.memoryUsage,
+    disk: sample.diskUsage,
+    networkIn: sample.networkIn,
+    networkOut: sample.networkOut,
+  }[metric];
+
+  if (raw === null || raw === undefined) return null;
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+export class AlertEvaluator {
+  // When each rule/server pair started breaching, for "for N minutes" rules
+  private breachedSince = new Map<string, number>();
+  // When each rule/server pair (or a server's reachability) last breached, to re-arm reopened alerts
+  private lastBreachAt = new Map<string, number>();
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  async ensureDefaultRules(): Promise<void> {
+    const existing = await this.storage.getAlertRules();
+    if (existing.length > 0) return;
+
+    for (const rule of DEFAULT_RULES) {
+      await this.storage.createAlertRule(rule);
+    }
+  }
+
+  async evaluate(samples: ServerMetrics[]): Promise<void> {
+    if (!samples.length) return;
+
+    const [rules, servers] = await Promise.all([
+      this.storage.getAlertRules(),
+      this.storage.getServers(),
+    ]);
+    const serversById = new Map(servers.map(server => [server.id, server]));
+    const rulesSince = Math.min(...rules.map(rule => rule.createdAt.getTime()));
+
+    for (const sample of samples) {
+      const server = serversById.get(sample.serverId);
+      if (!server) continue;
+
+      const openAlerts = (await this.storage.getServerAlerts(server.id)).filter(alert => !alert.isResolved);
+
+      if (!sample.isOnline) {
+        await this.handleOffline(server, openAlerts);
+        continue;
+      }
+
+      for (const alert of openAlerts.filter(alert => alert.alertType === "offline")) {
+        await this.recover(alert, `offline:${server.id}`);
+      }
+
+      const applicable = selectRulesForServer(rules, server);
+      // A rule that was superseded by a more specific one, disabled or rescoped is no longer
+      // evaluated here, so its open alert would never recover on its own
+      const applicableIds = new Set(applicable.map(rule => rule.id));
+      const stale = openAlerts.filter(alert => alert.ruleId
+        ? !applicableIds.has(alert.ruleId)
+        : alert.alertType in METRIC_LABELS && !isLegacyMetricAlert(alert, rulesSince));
+      for (const alert of stale) {
+        await this.storage.resolveAlert(alert.id);
+      }
+
+      for (const rule of applicable) {
+        await this.evaluateRule(rule, server, sample, openAlerts, rulesSince);
+      }
+    }
+  }
+
+  private async handleOffline(server: Server, openAlerts: Alert[]) {
+    // Pending durations restart once the host is reachable again
+    this.forget(server.id);
+    this.lastBreachAt.set(`offline:${server.id}`, Date.now());
+
+    if (openAlerts.some(alert => alert.alertType === "offline")) return;
+
+    await this.maintenance.raise({
+      serverId: server.id,
+      alertType: "offline",
+      severity: "critical",
+      message: "Servidor inacessível",
+      isResolved: false,
+    });
+  }
+
+  private async evaluateRule(rule: AlertRule, server: Server, sample: ServerMetrics, openAlerts: Alert[], rulesSince: number) {
+    const value = metricValue(sample, rule.metric);
+    if (value === null) return;
+
+    const key = `${rule.id}:${server.id}`;
+    const threshold = parseFloat(rule.threshold);
+    const hysteresis = parseFloat(rule.hysteresis);
+    const openAlert = openAlerts.find(alert =>
+      alert.ruleId === rule.id || (alert.alertType === rule.metric && isLegacyMetricAlert(alert, rulesSince)),
+    );
+
+    if (compareValue(value, rule.operator, threshold)) {
+      const now = Date.now();
+      const since = this.breachedSince.get(key) ?? now;
+      this.breachedSince.set(key, since);
+      this.lastBreachAt.set(key, now);
+
+      if (!openAlert && now - since >= rule.durationMinutes * 60_000) {
+        const { label, unit } = METRIC_LABELS[rule.metric as AlertRuleMetric] ?? { label: rule.metric, unit: "" };
+        await this.maintenance.raise({
+          serverId: server.id,
+          ruleId: rule.id,
+          alertType: rule.metric,
+          severity: rule.severity,
+          message: `${rule.name}: ${label} ${value.toFixed(1)}${unit} (${OPERATOR_SYMBOLS[rule.operator] ?? rule.operator} ${threshold}${unit})`,
+          threshold: threshold.toFixed(2),
+          currentValue: value.toFixed(2),
+          isResolved: false,
+        });
+      }
+      return;
+    }
+
+    this.breachedSince.delete(key);
+
+    // Only auto-resolve once the value is back past the threshold by the hysteresis margin
+    const recoveryThreshold = rule.operator.startsWith("g") ? threshold - hysteresis : threshold + hysteresis;
+    if (openAlert && !compareValue(value, rule.operator, recoveryThreshold)) {
+      await this.recover(openAlert, key);
+    }
+  }
+
+  /**
+   * Auto-resolves a recovered alert, unless someone reopened it by hand and
+   * the condition has not been seen again since; the value had already
+   * recovered when they did, so recovering proves nothing.
+   */
+  private async recover(alert: Alert, key: string) {
+    const lifecycle = (await this.storage.getAlertEvents(alert.id))
+      .filter(event => event.eventType === "resolved" || event.eventType === "reopened");
+    const last = lifecycle[lifecycle.length - 1];
+    if (last?.eventType === "reopened" && (this.lastBreachAt.get(key) ?? 0) < last.createdAt.getTime()) return;
+
+    await this.storage.resolveAlert(alert.id);
+  }
+
+  forget(serverId: string) {
+    for (const key of Array.from(this.breachedSince.keys())) {
+      if (key.endsWith(`:${serverId}`)) {
+        this.breachedSince.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { metricNames, type MetricBucket } from "@shared/schema";
+import { baselineBand, buildBaseline, describeBaseline } from "./anomaly-detection";
+
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+// A Monday
+const MONDAY_10H = new Date("2026-10-19T10:00:00Z");
+
+function bucket(time: Date, value: number | null): MetricBucket {
+  const result = { timestamp: time.toISOString(), samples: value === null ? 0 : 1 } as MetricBucket;
+  for (const metric of metricNames) {
+    result[metric] = { avg: value, min: value, max: value, p95: value };
+  }
+  return result;
+}
+
+describe("baselineBand", () => {
+  test("uses the same weekday and hour once it has three weeks of samples", () => {
+    const buckets = [40, 42, 44, 46].map((value, week) => bucket(new Date(MONDAY_10H.getTime() - (week + 1) * 7 * DAY_MS), value));
+    const band = baselineBand(buildBaseline(buckets, "cpu"), "cpu", MONDAY_10H)!;
+
+    const deviation = Math.sqrt(20 / 3);
+    assert.equal(band.method, "seasonal");
+    assert.equal(band.samples, 4);
+    assert.equal(band.expected, 43);
+    assert.ok(Math.abs(band.lower - (43 - 3 * deviation)) < 1e-9);
+    assert.ok(Math.abs(band.upper - (43 + 3 * deviation)) < 1e-9);
+  });
+
+  test("falls back to the hour of day when the weekday slot is thin", () => {
+    // 10:00 on five consecutive days, so each weekday slot has a single sample
+    const buckets = [50, 50, 60, 60, 55].map((value, day) => bucket(new Date(MONDAY_10H.getTime() - (day + 1) * DAY_MS), value));
+    const band = baselineBand(buildBaseline(buckets, "cpu"), "cpu", MONDAY_10H)!;
+
+    assert.equal(band.method, "hourly");
+    assert.equal(band.expected, 55);
+  });
+
+  test("falls back to the whole history, and to nothing without enough of it", () => {
+    const day = Array.from({ length: 24 }, (_, hour) => bucket(new Date(MONDAY_10H.getTime() - (hour + 1) * HOUR_MS), 30));
+    assert.equal(baselineBand(buildBaseline(day, "memory"), "memory", MONDAY_10H)!.method, "rolling");
+    assert.equal(baselineBand(buildBaseline(day.slice(1), "memory"), "memory", MONDAY_10H), null);
+  });
+
+  test("skips empty buckets", () => {
+    const buckets = [40, null, 42, 44].map((value, week) => bucket(new Date(MONDAY_10H.getTime() - (week + 1) * 7 * DAY_MS), value));
+    assert.equal(baselineBand(buildBaseline(buckets, "cpu"), "cpu", MONDAY_10H)!.samples, 3);
+  });
+
+  test("keeps a minimum width for constant series and clamps percentages", () => {
+    const weeks = (value: number) => [1, 2, 3].map(week => bucket(new Date(MONDAY_10H.getTime() - week * 7 * DAY_MS), value));
+
+    const cpu = baselineBand(buildBaseline(weeks(99), "cpu"), "cpu", MONDAY_10H)!;
+    assert.deepEqual([cpu.lower, cpu.upper], [93, 100]);
+
+    const network = baselineBand(buildBaseline(weeks(5), "networkIn"), "networkIn", MONDAY_10H)!;
+    assert.deepEqual([network.lower, network.upper], [0, 35]);
+  });
+
+  test("narrows with fewer sigmas", () => {
+    const buckets = [1, 2, 3].map(week => bucket(new Date(MONDAY_10H.getTime() - week * 7 * DAY_MS), 50));
+    const band = baselineBand(buildBaseline(buckets, "cpu"), "cpu", MONDAY_10H, 2)!;
+    assert.deepEqual([band.lower, band.upper], [46, 54]);
+  });
+});
+
+describe("describeBaseline", () => {
+  test("names the profile the band came from", () => {
+    const band = { expected: 0, lower: 0, upper: 0, samples: 0 };
+    assert.equal(describeBaseline({ ...band, method: "seasonal" }, MONDAY_10H), "segunda às 10h UTC");
+    assert.equal(describeBaseline({ ...band, method: "hourly" }, MONDAY_10H), "10h UTC");
+    assert.equal(describeBaseline({ ...band, method: "rolling" }, MONDAY_10H), "últimos 28 dias");
+  });
+});
@@ -0,0 +1,274 @@
+import {
+  anomalyMetrics,
+  type Alert,
+  type AnomalyMetric,
+  type BaselineBand,
+  type MetricBaselinePoint,
+  type MetricBucket,
+  type MetricsRange,
+  type Server,
+} from "@shared/schema";
+import { applyMetricsTier, bucketStartMs } from "./metrics-query";
+import { retentionDaysByTier } from "./metrics-retention";
+import type { MaintenanceService } from "./maintenance";
+import type { SettingsService } from "./settings";
+import type { IStorage } from "./storage";
+
+const DETECTION_INTERVAL_MS = 5 * 60_000;
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Baselines come from hourly averages of the last four weeks, so each weekday/hour slot has up to four samples
+const BASELINE_LOOKBACK_DAYS = 28;
+const BASELINE_STEP_SECONDS = 3600;
+// Minimum samples before each profile is trusted; coarser profiles are the fallback
+const MIN_SEASONAL_SAMPLES = 3;
+const MIN_HOURLY_SAMPLES = 5;
+const MIN_ROLLING_SAMPLES = 24;
+
+// Recent average compared against the band, so a single spiky sample does not alert
+const DETECTION_WINDOW_MS = 15 * 60_000;
+const DETECTION_STEP_SECONDS = 60;
+// Opened outside mean ± 3σ, resolved back inside mean ± 2σ
+const BAND_SIGMAS = 3;
+const RESOLVE_SIGMAS = 2;
+
+// A server idling at a constant value has ~0 deviation; without a floor any wobble would alert
+const MIN_STDDEV: Record<AnomalyMetric, number> = {
+  cpu: 2,
+  memory: 2,
+  networkIn: 10,
+  networkOut: 10,
+};
+
+const PERCENT_METRICS = new Set<AnomalyMetric>(["cpu", "memory"]);
+
+const METRIC_LABELS: Record<AnomalyMetric, { label: string; unit: string }> = {
+  cpu: { label: "CPU", unit: "%" },
+  memory: { label: "Memória", unit: "%" },
+  networkIn: { label: "Rede (entrada)", unit: " KB/s" },
+  networkOut: { label: "Rede (saída)", unit: " KB/s" },
+};
+
+const WEEKDAYS = ["domingo", "segunda", "terça", "quarta", "quinta", "sexta", "sábado"];
+
+type Moments = { count: number; sum: number; sumSquares: number };
+
+/** Per-metric profiles of one server; seasonal slots are keyed by UTC hour of week, hourly by UTC hour of day. */
+export type MetricBaseline = {
+  seasonal: Map<number, Moments>;
+  hourly: Map<number, Moments>;
+  rolling: Moments;
+};
+
+function emptyMoments(): Moments {
+  return { count: 0, sum: 0, sumSquares: 0 };
+}
+
+function addSample(moments: Moments, value: number) {
+  moments.count++;
+  moments.sum += value;
+  moments.sumSquares += value * value;
+}
+
+function hourOfWeek(time: Date): number {
+  return time.getUTCDay() * 24 + time.getUTCHours();
+}
+
+export function buildBaseline(buckets: MetricBucket[], metric: AnomalyMetric): MetricBaseline {
+  const baseline: MetricBaseline = { seasonal: new Map(), hourly: new Map(), rolling: emptyMoments() };
+
+  for (const bucket of buckets) {
+    const value = bucket[metric].avg;
+    if (value === null) continue;
+
+    const time = new Date(bucket.timestamp);
+    const seasonal = baseline.seasonal.get(hourOfWeek(time)) ?? emptyMoments();
+    const hourly = baseline.hourly.get(time.getUTCHours()) ?? emptyMoments();
+    addSample(seasonal, value);
+    addSample(hourly, value);
+    addSample(baseline.rolling, value);
+    baseline.seasonal.set(hourOfWeek(time), seasonal);
+    baseline.hourly.set(time.getUTCHours(), hourly);
+  }
+  return baseline;
+}
+
+/** Expected range at `time` from the most specific profile with enough samples, or null while there is too little history. */
+export function baselineBand(baseline: MetricBaseline, metric: AnomalyMetric, time: Date, sigmas: number = BAND_SIGMAS): BaselineBand | null {
+  const candidates: { method: BaselineBand["method"]; moments?: Moments; minSamples: number }[] = [
+    { method: "seasonal", moments: baseline.seasonal.get(hourOfWeek(time)), minSamples: MIN_SEASONAL_SAMPLES },
+    { method: "hourly", moments: baseline.hourly.get(time.getUTCHours()), minSamples: MIN_HOURLY_SAMPLES },
+    { method: "rolling", moments: baseline.rolling, minSamples: MIN_ROLLING_SAMPLES },
+  ];
+  const match = candidates.find(candidate => candidate.moments && candidate.moments.count >= candidate.minSamples);
+  if (!match) return null;
+
+  const { method } = match;
+  const moments = match.moments!;
+  const mean = moments.sum / moments.count;
+  // Sample variance; rounding can push it slightly below zero for constant series
+  const variance = Math.max(0, (moments.sumSquares - moments.count * mean * mean) / (moments.count - 1));
+  const deviation = Math.max(Math.sqrt(variance), MIN_STDDEV[metric]);
+  const ceiling = PERCENT_METRICS.has(metric) ? 100 : Infinity;
+
+  return {
+    method,
+    expected: mean,
+    lower: Math.max(0, mean - sigmas * deviation),
+    upper: Math.min(ceiling, mean + sigmas * deviation),
+    samples: moments.count,
+  };
+}
+
+export function describeBaseline(band: BaselineBand, time: Date): string {
+  switch (band.method) {
+    case "seasonal":
+      return `${WEEKDAYS[time.getUTCDay()]} às ${time.getUTCHours()}h UTC`;
+    case "hourly":
+      return `${time.getUTCHours()}h UTC`;
+    default:
+      return `últimos ${BASELINE_LOOKBACK_DAYS} dias`;
+  }
+}
+
+/** Sample-weighted average of the bucket averages, i.e. the average of the underlying samples. */
+function recentAverage(buckets: MetricBucket[], metric: AnomalyMetric): number | null {
+  let samples = 0;
+  let total = 0;
+  for (const bucket of buckets) {
+    const value = bucket[metric].avg;
+    if (value === null) continue;
+    samples += bucket.samples;
+    total += value * bucket.samples;
+  }
+  return samples ? total / samples : null;
+}
+
+/**
+ * Learns per-server baselines from the metrics history and keeps one
+ * "anomaly" alert per server and metric while the recent average sits
+ * outside the expected band for the current hour.
+ */
+export class AnomalyDetector {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly settings: SettingsService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  start() {
+    const tick = () => {
+      this.run().catch(error => console.error("Failed to run anomaly detection:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, DETECTION_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Baselines as of `now`, learned from full hours only so the hour in progress never feeds its own band. */
+  async getBaselines(serverIds: string[], now: Date = new Date()): Promise<Map<string, Record<AnomalyMetric, MetricBaseline>>> {
+    const to = new Date(bucketStartMs(now, BASELINE_STEP_SECONDS));
+    const range = applyMetricsTier(
+      { from: new Date(to.getTime() - BASELINE_LOOKBACK_DAYS * DAY_MS), to, stepSeconds: BASELINE_STEP_SECONDS },
+      retentionDaysByTier(this.settings.get()),
+      now,
+    );
+    const series = await this.storage.getMetricSeries(serverIds, range);
+
+    const baselines = new Map<string, Record<AnomalyMetric, MetricBaseline>>();
+    for (const serverId of serverIds) {
+      const buckets = series.get(serverId) ?? [];
+      baselines.set(serverId, Object.fromEntries(
+        anomalyMetrics.map(metric => [metric, buildBaseline(buckets, metric)]),
+      ) as Record<AnomalyMetric, MetricBaseline>);
+    }
+    return baselines;
+  }
+
+  /** Expected band on the same bucket grid the metrics charts use for `range`. */
+  async getBaselineSeries(serverId: string, range: MetricsRange, now: Date = new Date()): Promise<MetricBaselinePoint[]> {
+    const baseline = (await this.getBaselines([serverId], now)).get(serverId)!;
+    const stepMs = range.stepSeconds * 1000;
+    const points: MetricBaselinePoint[] = [];
+
+    for (let time = bucketStartMs(range.from, range.stepSeconds); time < range.to.getTime(); time += stepMs) {
+      // Bands are hourly; read them at the bucket's midpoint so coarse buckets pick the hour they mostly cover
+      const at = new Date(time + stepMs / 2);
+      points.push({
+        timestamp: new Date(time).toISOString(),
+        ...Object.fromEntries(anomalyMetrics.map(metric => [metric, baselineBand(baseline[metric], metric, at)])),
+      } as MetricBaselinePoint);
+    }
+    return points;
+  }
+
+  async run(now: Date = new Date()) {
+    const servers = (await this.storage.getServers()).filter(server => server.isActive);
+    if (!servers.length) return;
+
+    const serverIds = servers.map(server => server.id);
+    const baselines = await this.getBaselines(serverIds, now);
+    const recentRange = applyMetricsTier(
+      { from: new Date(now.getTime() - DETECTION_WINDOW_MS), to: now, stepSeconds: DETECTION_STEP_SECONDS },
+      retentionDaysByTier(this.settings.get()),
+      now,
+    );
+    const recent = await this.storage.getMetricSeries(serverIds, recentRange);
+
+    for (const server of servers) {
+      const openAlerts = (await this.storage.getServerAlerts(server.id))
+        .filter(alert => !alert.isResolved && alert.alertType === "anomaly");
+
+      for (const metric of anomalyMetrics) {
+        const value = recentAverage(recent.get(server.id) ?? [], metric);
+        // No recent data: offline handling owns that case, keep the current state
+        if (value === null) continue;
+
+        await this.updateAlert(
+          server,
+          metric,
+          value,
+          baselines.get(server.id)![metric],
+          openAlerts.filter(alert => alert.metric === metric),
+          now,
+        );
+      }
+    }
+  }
+
+  private async updateAlert(server: Server, metric: AnomalyMetric, value: number, baseline: MetricBaseline, openAlerts: Alert[], now: Date) {
+    const band = baselineBand(baseline, metric, now);
+    const resolveBand = baselineBand(baseline, metric, now, RESOLVE_SIGMAS);
+
+    if (!band || !resolveBand || (value >= resolveBand.lower && value <= resolveBand.upper)) {
+      for (const alert of openAlerts) {
+        await this.storage.resolveAlert(alert.id);
+      }
+      return;
+    }
+    if (openAlerts.length || (value >= band.lower && value <= band.upper)) return;
+
+    const { label, unit } = METRIC_LABELS[metric];
+    const above = value > band.upper;
+    await this.maintenance.raise({
+      serverId: server.id,
+      alertType: "anomaly",
+      metric,
+      severity: "warning",
+      message: `Anomalia: ${label} ${value.toFixed(1)}${unit} ${above ? "acima" : "abaixo"} do esperado ` +
+        `(${band.lower.toFixed(1)}–${band.upper.toFixed(1)}${unit}, média ${band.expected.toFixed(1)}${unit} em ${describeBaseline(band, now)})`,
+      threshold: (above ? band.upper : band.lower).toFixed(2),
+      currentValue: value.toFixed(2),
+      isResolved: false,
+    });
+  }
+}
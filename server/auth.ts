@@ -0,0 +1,320 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { ZodError } from "zod";
+import {
+  insertUserSchema,
+  updateUserSchema,
+  loginSchema,
+  type User,
+  type PublicUser,
+  type UserRole,
+} from "@shared/schema";
+import { pool } from "./db";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Written by passport.serializeUser
+    passport?: { user?: string };
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+
+const roleRank: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, 64);
+  return `${salt}:${derived.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scryptAsync(password, salt, expected.length);
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+}
+
+export function sanitizeUser(user: User): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+export function hasRole(user: Pick<PublicUser, "role"> | undefined, required: UserRole): boolean {
+  if (!user) return false;
+  const rank = roleRank[user.role as UserRole];
+  return rank !== undefined && rank >= roleRank[required];
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(role: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ message: `Requires ${role} role` });
+    }
+    next();
+  };
+}
+
+function resolveSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET not set; using an ephemeral secret (sessions reset on restart)");
+  return randomBytes(32).toString("hex");
+}
+
+// Creates the first admin account so a fresh install is not locked out
+async function ensureBootstrapAdmin() {
+  const existing = await storage.getUsers();
+  if (existing.length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || "admin";
+  let password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    password = randomBytes(12).toString("base64url");
+    console.warn(`Created bootstrap admin "${username}" with generated password: ${password}`);
+  }
+
+  await storage.createUser({
+    username,
+    passwordHash: await hashPassword(password),
+    displayName: "Administrador",
+    role: "admin",
+    isActive: true,
+  });
+}
+
+export interface AuthOptions {
+  // Idle timeout applied to every session on each request (sessions are rolling)
+  sessionMaxAgeMs?: () => number;
+}
+
+/**
+ * Wires sessions, passport and the auth/user routes. Returns the session
+ * middleware so the WebSocket upgrade can authenticate with the same cookie.
+ */
+export function setupAuth(app: Express, options: AuthOptions = {}): RequestHandler {
+  const PgStore = connectPgSimple(session);
+  const sessionParser = session({
+    store: new PgStore({ pool, tableName: "sessions", createTableIfMissing: true }),
+    secret: resolveSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+
+  if (process.env.NODE_ENV === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, sanitizeUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user && user.isActive ? sanitizeUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(sessionParser);
+  if (options.sessionMaxAgeMs) {
+    const sessionMaxAgeMs = options.sessionMaxAgeMs;
+    app.use((req, _res, next) => {
+      if (req.session) req.session.cookie.maxAge = sessionMaxAgeMs();
+      next();
+    });
+  }
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  ensureBootstrapAdmin().catch(error => {
+    console.error("Failed to create bootstrap admin:", error);
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid login payload" });
+    }
+
+    passport.authenticate("local", (error: unknown, user: PublicUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, async (loginError) => {
+        if (loginError) return next(loginError);
+        try {
+          await storage.updateUser(user.id, { lastLoginAt: new Date() });
+          res.json(user);
+        } catch (error) {
+          next(error);
+        }
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(req.user);
+  });
+
+  // Everything else under /api needs a logged-in user
+  app.use("/api", requireAuth);
+
+  // User management (admin only)
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
+    try {
+      const allUsers = await storage.getUsers();
+      res.json(allUsers.map(sanitizeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const { password, ...data } = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const user = await storage.createUser({ ...data, passwordHash: await hashPassword(password) });
+      res.status(201).json(sanitizeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid user data" });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { password, ...data } = updateUserSchema.parse(req.body);
+      if (req.params.id === req.user!.id && data.role && data.role !== "admin") {
+        return res.status(400).json({ message: "Admins cannot demote themselves" });
+      }
+      const user = await storage.updateUser(req.params.id, {
+        ...data,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(sanitizeUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid user data" });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "Admins cannot delete themselves" });
+      }
+      const deleted = await storage.deleteUser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  return sessionParser;
+}
+
+/**
+ * Resolves the logged-in user for a raw upgrade request by running it through
+ * the session middleware. Resolves to undefined when the cookie is missing,
+ * expired or belongs to a disabled account.
+ */
+export function authenticateUpgrade(
+  sessionParser: RequestHandler,
+  request: IncomingMessage,
+): Promise<PublicUser | undefined> {
+  return new Promise((resolve) => {
+    const req = request as Request;
+    const res = {} as Response;
+    sessionParser(req, res, async () => {
+      try {
+        const userId = req.session?.passport?.user;
+        if (!userId) return resolve(undefined);
+        const user = await storage.getUser(userId);
+        resolve(user && user.isActive ? sanitizeUser(user) : undefined);
+      } catch (error) {
+        console.error("Failed to authenticate WebSocket upgrade:", error);
+        resolve(undefined);
+      }
+    });
+  });
+}
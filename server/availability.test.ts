@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { countAvailabilitySlots, monthRange, sloHealth, sloWindowRange, summarizeAvailability } from "./availability";
+
+const MINUTE_MS = 60_000;
+const START = new Date("2026-10-19T12:00:00Z");
+const RANGE = { from: START, to: new Date(START.getTime() + 60 * MINUTE_MS) };
+
+function at(minutes: number): Date {
+  return new Date(START.getTime() + minutes * MINUTE_MS);
+}
+
+describe("countAvailabilitySlots", () => {
+  test("counts a slot as up when any sample in it was online", () => {
+    const totals = countAvailabilitySlots("s1", [
+      { timestamp: at(0), isOnline: false },
+      { timestamp: at(1), isOnline: true },
+      { timestamp: at(5), isOnline: false },
+      { timestamp: at(9), isOnline: false },
+      { timestamp: at(10), isOnline: true },
+    ], [], RANGE);
+
+    assert.deepEqual(totals, { serverId: "s1", observedSlots: 3, downSlots: 1 });
+  });
+
+  test("marks a slot down when a check in it failed, even with the server online", () => {
+    const totals = countAvailabilitySlots("s1", [
+      { timestamp: at(0), isOnline: true },
+      { timestamp: at(5), isOnline: true },
+    ], [
+      { checkedAt: at(2), status: "down" },
+      { checkedAt: at(6), status: "degraded" },
+    ], RANGE);
+
+    assert.deepEqual(totals, { serverId: "s1", observedSlots: 2, downSlots: 1 });
+  });
+
+  test("counts slots that only have check results", () => {
+    const totals = countAvailabilitySlots("s1", [], [
+      { checkedAt: at(20), status: "up" },
+      { checkedAt: at(31), status: "down" },
+    ], RANGE);
+
+    assert.deepEqual(totals, { serverId: "s1", observedSlots: 2, downSlots: 1 });
+  });
+
+  test("ignores data outside the range, which excludes its end", () => {
+    const totals = countAvailabilitySlots("s1", [
+      { timestamp: at(-1), isOnline: false },
+      { timestamp: at(60), isOnline: false },
+    ], [{ checkedAt: at(60), status: "down" }], RANGE);
+
+    assert.deepEqual(totals, { serverId: "s1", observedSlots: 0, downSlots: 0 });
+  });
+});
+
+describe("summarizeAvailability", () => {
+  test("weights servers by observed slots and reports coverage of the period", () => {
+    const summary = summarizeAvailability([
+      { serverId: "s1", observedSlots: 12, downSlots: 1 },
+      { serverId: "s2", observedSlots: 6, downSlots: 2 },
+    ], RANGE, 2);
+
+    assert.equal(summary.availability, (15 / 18) * 100);
+    assert.equal(summary.observedMinutes, 90);
+    assert.equal(summary.downtimeMinutes, 15);
+    assert.equal(summary.coverage, 75);
+  });
+
+  test("has no availability without observations", () => {
+    const summary = summarizeAvailability([], RANGE, 1);
+    assert.equal(summary.availability, null);
+    assert.equal(summary.coverage, 0);
+  });
+});
+
+describe("SLO windows", () => {
+  test("rolling windows end now and quarters start on the calendar quarter", () => {
+    const now = new Date("2026-11-15T08:30:00Z");
+    assert.deepEqual(sloWindowRange("7d", now), { from: new Date("2026-11-08T08:30:00Z"), to: now });
+    assert.deepEqual(sloWindowRange("quarter", now), { from: new Date("2026-10-01T00:00:00Z"), to: now });
+  });
+
+  test("months are whole UTC months, cut at now for the current one", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    assert.deepEqual(monthRange("2026-02", now), {
+      month: "2026-02",
+      from: new Date("2026-02-01T00:00:00Z"),
+      to: new Date("2026-03-01T00:00:00Z"),
+    });
+    assert.deepEqual(monthRange(undefined, now), { month: "2026-10", from: new Date("2026-10-01T00:00:00Z"), to: now });
+  });
+});
+
+describe("sloHealth", () => {
+  const summary = summarizeAvailability([{ serverId: "s1", observedSlots: 12, downSlots: 0 }], RANGE, 1);
+  const calm = { "1h": 0, "6h": 0, "24h": 0 };
+
+  test("grades the remaining error budget and the fast burn rate", () => {
+    assert.equal(sloHealth(summary, 80, calm), "healthy");
+    assert.equal(sloHealth(summary, 20, calm), "at_risk");
+    assert.equal(sloHealth(summary, 80, { ...calm, "1h": 14.4 }), "at_risk");
+    assert.equal(sloHealth(summary, -1, calm), "breached");
+  });
+
+  test("has no verdict without data", () => {
+    assert.equal(sloHealth({ ...summary, availability: null }, 80, calm), "no_data");
+    assert.equal(sloHealth(summary, null, calm), "no_data");
+  });
+});
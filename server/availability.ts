@@ -0,0 +1,214 @@
+import type {
+  AvailabilityReport,
+  AvailabilitySummary,
+  AvailabilityTotals,
+  Server,
+  ServerAvailability,
+  Slo,
+  SloBurnWindow,
+  SloHealth,
+  SloStatus,
+  SloWindow,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const AVAILABILITY_SLOT_MINUTES = 5;
+const SLOT_MS = AVAILABILITY_SLOT_MINUTES * 60_000;
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+
+const BURN_WINDOW_HOURS: Record<SloBurnWindow, number> = { "1h": 1, "6h": 6, "24h": 24 };
+// Burning 2% of a 30-day budget in one hour; the usual fast-burn paging threshold
+const FAST_BURN_RATE = 14.4;
+const LOW_BUDGET_PERCENT = 25;
+
+export type AvailabilityRange = { from: Date; to: Date };
+
+type SlotSample = { timestamp: Date; isOnline: boolean };
+type SlotCheckResult = { checkedAt: Date; status: string };
+
+/** Rolling 7d/30d windows end now; a quarter runs from the start of the current UTC calendar quarter. */
+export function sloWindowRange(window: SloWindow, now: Date = new Date()): AvailabilityRange {
+  if (window === "quarter") {
+    const quarterStartMonth = Math.floor(now.getUTCMonth() / 3) * 3;
+    return { from: new Date(Date.UTC(now.getUTCFullYear(), quarterStartMonth, 1)), to: now };
+  }
+  const days = window === "7d" ? 7 : 30;
+  return { from: new Date(now.getTime() - days * DAY_MS), to: now };
+}
+
+/** UTC calendar month `YYYY-MM`; the current month ends now. */
+export function monthRange(month: string | undefined, now: Date = new Date()): AvailabilityRange & { month: string } {
+  const [year, monthIndex] = month
+    ? [Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1]
+    : [now.getUTCFullYear(), now.getUTCMonth()];
+  const from = new Date(Date.UTC(year, monthIndex, 1));
+  const end = new Date(Date.UTC(year, monthIndex + 1, 1));
+  return {
+    month: `${year}-${String(monthIndex + 1).padStart(2, "0")}`,
+    from,
+    to: end.getTime() > now.getTime() ? now : end,
+  };
+}
+
+function slotStart(time: number): number {
+  return Math.floor(time / SLOT_MS) * SLOT_MS;
+}
+
+/**
+ * Folds one server's samples and attached check results into slot counts:
+ * a 5-minute slot is observed when either source has data in it, and down
+ * when no sample in it was online or any check in it was down. In-memory
+ * equivalent of DatabaseStorage.rollupAvailability.
+ */
+export function countAvailabilitySlots(
+  serverId: string,
+  samples: SlotSample[],
+  checkResults: SlotCheckResult[],
+  range: AvailabilityRange,
+): AvailabilityTotals {
+  const slots = new Map<number, boolean>(); // slot start -> down
+  const inRange = (time: number) => time >= range.from.getTime() && time < range.to.getTime();
+
+  const onlineSlots = new Set<number>();
+  for (const sample of samples) {
+    const time = new Date(sample.timestamp).getTime();
+    if (!inRange(time)) continue;
+    const slot = slotStart(time);
+    if (sample.isOnline) onlineSlots.add(slot);
+    slots.set(slot, false);
+  }
+  slots.forEach((_, slot) => slots.set(slot, !onlineSlots.has(slot)));
+
+  for (const result of checkResults) {
+    const time = result.checkedAt.getTime();
+    if (!inRange(time)) continue;
+    const slot = slotStart(time);
+    slots.set(slot, (slots.get(slot) ?? false) || result.status === "down");
+  }
+
+  let downSlots = 0;
+  slots.forEach(down => {
+    if (down) downSlots++;
+  });
+  return { serverId, observedSlots: slots.size, downSlots };
+}
+
+/** Slot-weighted availability of a set of servers over a range. */
+export function summarizeAvailability(totals: AvailabilityTotals[], range: AvailabilityRange, serverCount: number): AvailabilitySummary {
+  const observedSlots = totals.reduce((sum, total) => sum + total.observedSlots, 0);
+  const downSlots = totals.reduce((sum, total) => sum + total.downSlots, 0);
+  const periodSlots = Math.ceil((range.to.getTime() - range.from.getTime()) / SLOT_MS) * serverCount;
+
+  return {
+    availability: observedSlots ? ((observedSlots - downSlots) / observedSlots) * 100 : null,
+    observedMinutes: observedSlots * AVAILABILITY_SLOT_MINUTES,
+    downtimeMinutes: downSlots * AVAILABILITY_SLOT_MINUTES,
+    coverage: periodSlots ? Math.min(100, (observedSlots / periodSlots) * 100) : 0,
+  };
+}
+
+export function sloHealth(summary: AvailabilitySummary, errorBudgetRemaining: number | null, burnRates: Record<SloBurnWindow, number | null>): SloHealth {
+  if (summary.availability === null || errorBudgetRemaining === null) return "no_data";
+  if (errorBudgetRemaining < 0) return "breached";
+  if (errorBudgetRemaining < LOW_BUDGET_PERCENT || (burnRates["1h"] ?? 0) >= FAST_BURN_RATE) return "at_risk";
+  return "healthy";
+}
+
+/**
+ * Availability, SLO and error-budget reporting over the hourly availability
+ * rollup (or the raw data when storage keeps no rollups).
+ */
+export class AvailabilityService {
+  constructor(private readonly storage: IStorage) {}
+
+  async getServerAvailability(servers: Pick<Server, "id">[], range: AvailabilityRange): Promise<ServerAvailability[]> {
+    const totals = await this.storage.getAvailabilityTotals(servers.map(server => server.id), range.from, range.to);
+    const byServer = new Map(totals.map(total => [total.serverId, total]));
+
+    return servers.map(server => {
+      const total = byServer.get(server.id);
+      return { serverId: server.id, ...summarizeAvailability(total ? [total] : [], range, 1) };
+    });
+  }
+
+  async getSloStatuses(now: Date = new Date()): Promise<SloStatus[]> {
+    const [slos, servers] = await Promise.all([this.storage.getSlos(), this.storage.getServers()]);
+    return Promise.all(slos.map(slo => this.getSloStatus(slo, servers, now)));
+  }
+
+  async getSloStatus(slo: Slo, servers: Server[], now: Date = new Date()): Promise<SloStatus> {
+    const serverIds = servers
+      .filter(server => slo.scopeType === "environment" ? server.environment === slo.scopeValue : server.id === slo.scopeValue)
+      .map(server => server.id);
+    const range = sloWindowRange(slo.window as SloWindow, now);
+    const summary = summarizeAvailability(
+      await this.storage.getAvailabilityTotals(serverIds, range.from, range.to),
+      range,
+      serverIds.length,
+    );
+
+    const allowedErrorRate = 1 - parseFloat(slo.targetPercent) / 100;
+    const errorBudgetMinutes = summary.observedMinutes * allowedErrorRate;
+    // The target is below 100%, so any observed time leaves a non-zero budget
+    const errorBudgetRemaining = summary.availability === null
+      ? null
+      : ((errorBudgetMinutes - summary.downtimeMinutes) / errorBudgetMinutes) * 100;
+
+    const burnRates = {} as Record<SloBurnWindow, number | null>;
+    for (const [burnWindow, hours] of Object.entries(BURN_WINDOW_HOURS) as [SloBurnWindow, number][]) {
+      const burnRange = { from: new Date(now.getTime() - hours * HOUR_MS), to: now };
+      const burn = summarizeAvailability(
+        await this.storage.getAvailabilityTotals(serverIds, burnRange.from, burnRange.to),
+        burnRange,
+        serverIds.length,
+      );
+      burnRates[burnWindow] = burn.availability === null ? null : (1 - burn.availability / 100) / allowedErrorRate;
+    }
+
+    return {
+      ...slo,
+      ...summary,
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      errorBudgetMinutes,
+      errorBudgetRemaining,
+      burnRates,
+      health: sloHealth(summary, errorBudgetRemaining, burnRates),
+    };
+  }
+
+  async getReport(environment: string, month: string | undefined, now: Date = new Date()): Promise<AvailabilityReport> {
+    const range = monthRange(month, now);
+    const allServers = await this.storage.getServers();
+    const servers = allServers.filter(server => server.environment === environment);
+    const totals = await this.storage.getAvailabilityTotals(servers.map(server => server.id), range.from, range.to);
+    const byServer = new Map(totals.map(total => [total.serverId, total]));
+
+    const slos = (await this.storage.getSlos()).filter(slo =>
+      slo.scopeType === "environment"
+        ? slo.scopeValue === environment
+        : servers.some(server => server.id === slo.scopeValue),
+    );
+
+    return {
+      environment,
+      month: range.month,
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      summary: summarizeAvailability(totals, range, servers.length),
+      servers: servers
+        .map(server => {
+          const total = byServer.get(server.id);
+          return {
+            serverId: server.id,
+            name: server.name,
+            hostname: server.hostname,
+            ...summarizeAvailability(total ? [total] : [], range, 1),
+          };
+        })
+        .sort((a, b) => (a.availability ?? Infinity) - (b.availability ?? Infinity)),
+      slos: await Promise.all(slos.map(slo => this.getSloStatus(slo, allServers, now))),
+    };
+  }
+}
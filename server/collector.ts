@@ -0,0 +1,431 @@
+import type { Server, ServerMetrics, InsertMetrics, CustomMetricPoint } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { execSshCommand } from "./ssh-client";
+
+export type CollectorMode = "ssh" | "simulate";
+
+const SECTION_MARKER = "__HOSMON_SECTION__";
+
+// Single round-trip script: every /proc source is separated by a marker line.
+// The extended sections feed the labeled series; hosts lacking them (busybox df,
+// no /proc/loadavg...) still report the core sample.
+const COLLECT_COMMAND = [
+  "head -n 1 /proc/stat",
+  "cat /proc/meminfo",
+  "df -P /",
+  "cat /proc/net/dev",
+  "cat /proc/uptime",
+  ...["df -PT", "df -PTi", "cat /proc/loadavg", "cat /proc/sys/fs/file-nr"].map(command => `${command} 2>/dev/null || true`),
+].join(`; echo ${SECTION_MARKER}; `);
+
+// Filesystems that say nothing about real disk space
+const PSEUDO_FILESYSTEMS = new Set([
+  "tmpfs", "devtmpfs", "overlay", "squashfs", "proc", "sysfs", "cgroup", "cgroup2",
+  "devpts", "mqueue", "debugfs", "tracefs", "securityfs", "pstore", "autofs", "fuse.lxcfs", "nsfs", "ramfs",
+]);
+
+type InterfaceCounters = Map<string, { rxBytes: number; txBytes: number }>;
+
+interface CounterSnapshot {
+  cpuIdle: number;
+  cpuTotal: number;
+  rxBytes: number;
+  txBytes: number;
+  interfaces: InterfaceCounters;
+  takenAt: number;
+}
+
+export interface FilesystemUsage {
+  mount: string;
+  fstype: string;
+  usedPercent: number;
+}
+
+export interface HostSample {
+  cpuUsage: number;
+  memoryUsage: number;
+  diskUsage: number;
+  networkIn: number | null;
+  networkOut: number | null;
+  uptime: number;
+  // Labeled series stored in server_custom_metrics next to the sample
+  series: CustomMetricPoint[];
+}
+
+export interface CollectorOptions {
+  mode?: CollectorMode;
+  intervalMs?: number;
+  // Push-only servers are considered offline after this long without a sample
+  pushStaleAfterMs?: number;
+}
+
+function resolveMode(value: string | undefined): CollectorMode {
+  return value === "simulate" ? "simulate" : "ssh";
+}
+
+export function parseCpuCounters(line: string): { idle: number; total: number } {
+  const fields = line.trim().split(/\s+/).slice(1).map(Number);
+  if (fields.length < 4 || fields.some(Number.isNaN)) {
+    throw new Error(`Unexpected /proc/stat line: ${line}`);
+  }
+  // idle + iowait count as idle time
+  const idle = fields[3] + (fields[4] ?? 0);
+  const total = fields.reduce((acc, value) => acc + value, 0);
+  return { idle, total };
+}
+
+function parseMeminfo(meminfo: string): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const line of meminfo.split("\n")) {
+    const match = line.match(/^(\w+):\s+(\d+)/);
+    if (match) {
+      values.set(match[1], parseInt(match[2], 10));
+    }
+  }
+  return values;
+}
+
+export function parseMemoryUsage(meminfo: string): number {
+  const values = parseMeminfo(meminfo);
+  const total = values.get("MemTotal");
+  if (!total) {
+    throw new Error("MemTotal missing from /proc/meminfo");
+  }
+  const available = values.get("MemAvailable")
+    ?? (values.get("MemFree") ?? 0) + (values.get("Buffers") ?? 0) + (values.get("Cached") ?? 0);
+  return ((total - available) / total) * 100;
+}
+
+/** Swap in use as a percentage, or null when the host has no swap. */
+export function parseSwapUsage(meminfo: string): number | null {
+  const values = parseMeminfo(meminfo);
+  const total = values.get("SwapTotal");
+  if (!total) return null;
+  return ((total - (values.get("SwapFree") ?? total)) / total) * 100;
+}
+
+export function parseDiskUsage(df: string): number {
+  const lines = df.trim().split("\n").slice(1);
+  const columns = lines[0]?.trim().split(/\s+/);
+  const capacity = columns?.[4];
+  if (!capacity || !capacity.endsWith("%")) {
+    throw new Error(`Unexpected df output: ${df}`);
+  }
+  return parseFloat(capacity);
+}
+
+/**
+ * Works for both `df -PT` and `df -PTi` (same column layout, inodes instead
+ * of blocks). Pseudo filesystems and rows without a percentage are dropped.
+ */
+export function parseFilesystems(df: string): FilesystemUsage[] {
+  const filesystems: FilesystemUsage[] = [];
+  for (const line of df.trim().split("\n").slice(1)) {
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 7) continue;
+    const [, fstype, , , , capacity] = columns;
+    if (PSEUDO_FILESYSTEMS.has(fstype) || !capacity.endsWith("%")) continue;
+    filesystems.push({ mount: columns.slice(6).join(" "), fstype, usedPercent: parseFloat(capacity) });
+  }
+  return filesystems;
+}
+
+export function parseInterfaceCounters(netDev: string): InterfaceCounters {
+  const interfaces: InterfaceCounters = new Map();
+  for (const line of netDev.split("\n").slice(2)) {
+    const [iface, data] = line.split(":");
+    if (!data || iface.trim() === "lo") continue;
+    const fields = data.trim().split(/\s+/).map(Number);
+    interfaces.set(iface.trim(), { rxBytes: fields[0] || 0, txBytes: fields[8] || 0 });
+  }
+  return interfaces;
+}
+
+export function parseNetworkCounters(netDev: string): { rxBytes: number; txBytes: number } {
+  let rxBytes = 0;
+  let txBytes = 0;
+  parseInterfaceCounters(netDev).forEach(counters => {
+    rxBytes += counters.rxBytes;
+    txBytes += counters.txBytes;
+  });
+  return { rxBytes, txBytes };
+}
+
+export function parseLoadAverage(loadavg: string): [number, number, number] {
+  const [load1, load5, load15] = loadavg.trim().split(/\s+/).map(Number);
+  if ([load1, load5, load15].some(value => value === undefined || Number.isNaN(value))) {
+    throw new Error(`Unexpected /proc/loadavg output: ${loadavg}`);
+  }
+  return [load1, load5, load15];
+}
+
+/** /proc/sys/fs/file-nr: allocated handles, free allocated handles, system maximum. */
+export function parseFileHandles(fileNr: string): { allocated: number; max: number } {
+  const [allocated, , max] = fileNr.trim().split(/\s+/).map(Number);
+  if (Number.isNaN(allocated) || Number.isNaN(max) || max === undefined) {
+    throw new Error(`Unexpected /proc/sys/fs/file-nr output: ${fileNr}`);
+  }
+  return { allocated, max };
+}
+
+export function parseUptimeSeconds(uptime: string): number {
+  const seconds = parseFloat(uptime.trim().split(/\s+/)[0]);
+  if (Number.isNaN(seconds)) {
+    throw new Error(`Unexpected /proc/uptime output: ${uptime}`);
+  }
+  return seconds;
+}
+
+function clampPercentage(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+export class MetricsCollector {
+  readonly mode: CollectorMode;
+  // Mutable so the settings page can change the cadence at runtime
+  intervalMs: number;
+  private readonly pushStaleAfterOverrideMs?: number;
+  private readonly counters = new Map<string, CounterSnapshot>();
+  private lastDurationMs = 0;
+
+  constructor(private readonly storage: IStorage, options: CollectorOptions = {}) {
+    this.mode = options.mode ?? resolveMode(process.env.METRICS_COLLECTOR_MODE);
+    this.intervalMs = options.intervalMs
+      ?? parseInt(process.env.METRICS_COLLECTOR_INTERVAL_MS || "30000", 10);
+    this.pushStaleAfterOverrideMs = options.pushStaleAfterMs;
+  }
+
+  private get pushStaleAfterMs(): number {
+    return this.pushStaleAfterOverrideMs ?? this.intervalMs * 3;
+  }
+
+  get lastCollectionDurationMs(): number {
+    return this.lastDurationMs;
+  }
+
+  /**
+   * Runs one collection cycle over every active server and returns the samples
+   * that were persisted. Unreachable hosts produce an `isOnline=false` sample.
+   */
+  async collect(): Promise<ServerMetrics[]> {
+    const startedAt = Date.now();
+    const servers = (await this.storage.getServers()).filter(server => server.isActive);
+
+    const results = await Promise.allSettled(
+      servers.map(server => this.collectServer(server)),
+    );
+
+    const samples: ServerMetrics[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        if (result.value) samples.push(result.value);
+      } else {
+        console.error(`Failed to store metrics for ${servers[index].name}:`, result.reason);
+      }
+    });
+
+    this.lastDurationMs = Date.now() - startedAt;
+    return samples;
+  }
+
+  forget(serverId: string) {
+    this.counters.delete(serverId);
+  }
+
+  private async collectServer(server: Server): Promise<ServerMetrics | undefined> {
+    if (this.mode === "simulate") {
+      return await this.storage.createMetrics(await this.simulateSample(server));
+    }
+
+    if (server.metricsSource === "push") {
+      return await this.checkPushFreshness(server);
+    }
+
+    try {
+      const sample = await this.sampleOverSsh(server);
+      const stored = await this.storage.createMetrics(this.toInsertMetrics(server.id, sample));
+      await this.storeSeries(stored, sample.series);
+      return stored;
+    } catch (error) {
+      console.warn(`Metrics collection failed for ${server.name}: ${(error as Error).message}`);
+      this.counters.delete(server.id);
+      return await this.storage.createMetrics(this.offlineSample(server.id));
+    }
+  }
+
+  private async storeSeries(sample: ServerMetrics, series: CustomMetricPoint[]) {
+    if (!series.length) return;
+    try {
+      await this.storage.createMetricsBatch([], series.map(point => ({
+        serverId: sample.serverId,
+        name: point.name,
+        labels: point.labels,
+        value: point.value,
+        timestamp: sample.timestamp,
+      })));
+    } catch (error) {
+      // The host answered; losing the extra series must not mark it offline
+      console.warn(`Failed to store labeled series for server ${sample.serverId}: ${(error as Error).message}`);
+    }
+  }
+
+  private async checkPushFreshness(server: Server): Promise<ServerMetrics | undefined> {
+    const latest = await this.storage.getLatestServerMetrics(server.id);
+    const lastSeen = latest ? new Date(latest.timestamp).getTime() : 0;
+
+    if (Date.now() - lastSeen <= this.pushStaleAfterMs) {
+      // Agent is reporting on its own, nothing to record this cycle
+      return undefined;
+    }
+    return await this.storage.createMetrics(this.offlineSample(server.id));
+  }
+
+  private async sampleOverSsh(server: Server): Promise<HostSample> {
+    const output = await execSshCommand(server, COLLECT_COMMAND);
+    const sections = output.split(`${SECTION_MARKER}\n`);
+    if (sections.length < 5) {
+      throw new Error("Incomplete collector output");
+    }
+
+    const [statSection, memSection, dfSection, netSection, uptimeSection, ...extendedSections] = sections;
+    const cpu = parseCpuCounters(statSection);
+    const net = parseNetworkCounters(netSection);
+    const interfaces = parseInterfaceCounters(netSection);
+    const now = Date.now();
+    const previous = this.counters.get(server.id);
+    const series = this.extendedSeries(memSection, extendedSections);
+
+    let cpuUsage: number;
+    let networkIn: number | null = null;
+    let networkOut: number | null = null;
+
+    if (previous && cpu.total > previous.cpuTotal) {
+      const totalDelta = cpu.total - previous.cpuTotal;
+      const idleDelta = cpu.idle - previous.cpuIdle;
+      cpuUsage = ((totalDelta - idleDelta) / totalDelta) * 100;
+
+      const elapsedSeconds = (now - previous.takenAt) / 1000;
+      if (elapsedSeconds > 0 && net.rxBytes >= previous.rxBytes && net.txBytes >= previous.txBytes) {
+        // KB/s since the previous cycle
+        networkIn = (net.rxBytes - previous.rxBytes) / 1024 / elapsedSeconds;
+        networkOut = (net.txBytes - previous.txBytes) / 1024 / elapsedSeconds;
+
+        interfaces.forEach((counters, iface) => {
+          const before = previous.interfaces.get(iface);
+          if (!before || counters.rxBytes < before.rxBytes || counters.txBytes < before.txBytes) return;
+          series.push(
+            { name: "network.receive_kbps", labels: { interface: iface }, value: (counters.rxBytes - before.rxBytes) / 1024 / elapsedSeconds },
+            { name: "network.transmit_kbps", labels: { interface: iface }, value: (counters.txBytes - before.txBytes) / 1024 / elapsedSeconds },
+          );
+        });
+      }
+    } else {
+      // First sample after (re)connect: fall back to the average since boot
+      cpuUsage = ((cpu.total - cpu.idle) / cpu.total) * 100;
+    }
+
+    this.counters.set(server.id, {
+      cpuIdle: cpu.idle,
+      cpuTotal: cpu.total,
+      rxBytes: net.rxBytes,
+      txBytes: net.txBytes,
+      interfaces,
+      takenAt: now,
+    });
+
+    return {
+      cpuUsage: clampPercentage(cpuUsage),
+      memoryUsage: clampPercentage(parseMemoryUsage(memSection)),
+      diskUsage: clampPercentage(parseDiskUsage(dfSection)),
+      networkIn,
+      networkOut,
+      uptime: parseUptimeSeconds(uptimeSection),
+      series,
+    };
+  }
+
+  /** Series from the optional sections; a section the host could not produce is just skipped. */
+  private extendedSeries(memSection: string, [dfSection, inodeSection, loadSection, fileNrSection]: string[]): CustomMetricPoint[] {
+    const series: CustomMetricPoint[] = [];
+    const collect = (read: () => void) => {
+      try {
+        read();
+      } catch {
+        // Missing or unexpected output on this host
+      }
+    };
+
+    collect(() => {
+      for (const { mount, fstype, usedPercent } of parseFilesystems(dfSection ?? "")) {
+        series.push({ name: "disk.used_percent", labels: { mount, fstype }, value: usedPercent });
+      }
+    });
+    collect(() => {
+      for (const { mount, usedPercent } of parseFilesystems(inodeSection ?? "")) {
+        series.push({ name: "disk.inodes_used_percent", labels: { mount }, value: usedPercent });
+      }
+    });
+    collect(() => {
+      const [load1, load5, load15] = parseLoadAverage(loadSection ?? "");
+      series.push(
+        { name: "load.1m", value: load1 },
+        { name: "load.5m", value: load5 },
+        { name: "load.15m", value: load15 },
+      );
+    });
+    collect(() => {
+      const swap = parseSwapUsage(memSection);
+      if (swap !== null) series.push({ name: "swap.used_percent", value: clampPercentage(swap) });
+    });
+    collect(() => {
+      const { allocated, max } = parseFileHandles(fileNrSection ?? "");
+      series.push({ name: "fd.allocated", value: allocated }, { name: "fd.max", value: max });
+    });
+    return series;
+  }
+
+  // Development-only generator kept from the original dashboard prototype
+  private async simulateSample(server: Server): Promise<InsertMetrics> {
+    const currentMetrics = await this.storage.getLatestServerMetrics(server.id);
+    const cpuBase = parseFloat(currentMetrics?.cpuUsage || "50");
+    const memoryBase = parseFloat(currentMetrics?.memoryUsage || "60");
+    const diskBase = parseFloat(currentMetrics?.diskUsage || "40");
+    const uptimeBase = parseFloat(currentMetrics?.uptime || "0");
+
+    return this.toInsertMetrics(server.id, {
+      cpuUsage: clampPercentage(cpuBase + (Math.random() - 0.5) * 10),
+      memoryUsage: clampPercentage(memoryBase + (Math.random() - 0.5) * 5),
+      diskUsage: clampPercentage(diskBase + (Math.random() - 0.5) * 2),
+      networkIn: Math.random() * 1000,
+      networkOut: Math.random() * 1000,
+      uptime: uptimeBase + this.intervalMs / 1000,
+      series: [],
+    });
+  }
+
+  private toInsertMetrics(serverId: string, sample: HostSample): InsertMetrics {
+    return {
+      serverId,
+      cpuUsage: sample.cpuUsage.toFixed(1),
+      memoryUsage: sample.memoryUsage.toFixed(1),
+      diskUsage: sample.diskUsage.toFixed(1),
+      networkIn: sample.networkIn !== null ? sample.networkIn.toFixed(2) : null,
+      networkOut: sample.networkOut !== null ? sample.networkOut.toFixed(2) : null,
+      uptime: sample.uptime.toFixed(0),
+      isOnline: true,
+    };
+  }
+
+  private offlineSample(serverId: string): InsertMetrics {
+    return {
+      serverId,
+      cpuUsage: null,
+      memoryUsage: null,
+      diskUsage: null,
+      networkIn: null,
+      networkOut: null,
+      uptime: null,
+      isOnline: false,
+    };
+  }
+}
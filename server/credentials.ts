@@ -0,0 +1,170 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { Server } from "@shared/schema";
+
+/**
+ * Envelope encryption for SSH credentials stored in the servers table.
+ *
+ * Every value gets its own random data key (AES-256-GCM). The data key is
+ * wrapped with the master key from CREDENTIALS_MASTER_KEY and stored next to
+ * the ciphertext, so a database dump alone never reveals the secret:
+ *
+ *   enc:v1:<masterKeyId>:<wrappedDataKey>:<iv>:<authTag>:<ciphertext>
+ *
+ * During a rotation the old key goes in CREDENTIALS_MASTER_KEY_PREVIOUS
+ * (comma separated) so existing rows stay readable until they are re-encrypted.
+ */
+
+const PREFIX = "enc";
+const VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+class CredentialEncryptionError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = "CredentialEncryptionError";
+  }
+}
+
+let cachedKeys: { current?: MasterKey; all: Map<string, MasterKey> } | undefined;
+
+function parseMasterKey(raw: string, source: string): MasterKey {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new CredentialEncryptionError(`${source} must be a 32-byte key encoded as base64 or hex`);
+  }
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 12);
+  return { id, key };
+}
+
+function loadMasterKeys() {
+  if (cachedKeys) return cachedKeys;
+
+  const all = new Map<string, MasterKey>();
+  let current: MasterKey | undefined;
+
+  if (process.env.CREDENTIALS_MASTER_KEY) {
+    current = parseMasterKey(process.env.CREDENTIALS_MASTER_KEY, "CREDENTIALS_MASTER_KEY");
+    all.set(current.id, current);
+  }
+
+  for (const raw of (process.env.CREDENTIALS_MASTER_KEY_PREVIOUS ?? "").split(",")) {
+    if (!raw.trim()) continue;
+    const previous = parseMasterKey(raw, "CREDENTIALS_MASTER_KEY_PREVIOUS");
+    all.set(previous.id, previous);
+  }
+
+  cachedKeys = { current, all };
+  return cachedKeys;
+}
+
+function currentMasterKey(): MasterKey {
+  const { current } = loadMasterKeys();
+  if (!current) {
+    throw new CredentialEncryptionError("CREDENTIALS_MASTER_KEY must be set to store SSH credentials");
+  }
+  return current;
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${PREFIX}:${VERSION}:`);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const master = currentMasterKey();
+  const dataKey = randomBytes(KEY_BYTES);
+
+  const wrapped = seal(master.key, dataKey);
+  const sealed = seal(dataKey, Buffer.from(plaintext, "utf8"));
+
+  return [
+    PREFIX,
+    VERSION,
+    master.id,
+    Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString("base64"),
+    sealed.iv.toString("base64"),
+    sealed.tag.toString("base64"),
+    sealed.ciphertext.toString("base64"),
+  ].join(":");
+}
+
+export function decryptSecret(value: string): string {
+  // Rows written before encryption was enabled are returned as-is until
+  // the rotation command re-encrypts them
+  if (!isEncryptedSecret(value)) return value;
+
+  const [, , keyId, wrappedKey, iv, tag, ciphertext] = value.split(":");
+  const master = loadMasterKeys().all.get(keyId);
+  if (!master) {
+    throw new CredentialEncryptionError(`Master key ${keyId} is not configured`);
+  }
+
+  try {
+    const wrapped = Buffer.from(wrappedKey, "base64");
+    const dataKey = open(
+      master.key,
+      wrapped.subarray(0, IV_BYTES),
+      wrapped.subarray(IV_BYTES, IV_BYTES + 16),
+      wrapped.subarray(IV_BYTES + 16),
+    );
+    return open(
+      dataKey,
+      Buffer.from(iv, "base64"),
+      Buffer.from(tag, "base64"),
+      Buffer.from(ciphertext, "base64"),
+    ).toString("utf8");
+  } catch (error) {
+    throw new CredentialEncryptionError("Failed to decrypt credential", error);
+  }
+}
+
+type CredentialFields = Pick<Server, "sshPassword" | "sshPrivateKey">;
+
+/**
+ * Seals the credential fields of a server payload before it is written.
+ * Missing or blank fields are dropped so editing a server without retyping
+ * the password keeps the stored secret; an explicit null clears it.
+ */
+export function encryptServerCredentials<T extends Partial<CredentialFields>>(data: T): T {
+  const result = { ...data };
+  for (const field of ["sshPassword", "sshPrivateKey"] as const) {
+    const value = result[field];
+    if (value) {
+      result[field] = encryptSecret(value) as T[typeof field];
+    } else if (value !== null) {
+      delete result[field];
+    }
+  }
+  return result;
+}
+
+/** Returns a copy of the server with plaintext credentials, for SSH use only. */
+export function decryptServerCredentials<T extends CredentialFields>(server: T): T {
+  return {
+    ...server,
+    sshPassword: server.sshPassword ? decryptSecret(server.sshPassword) : server.sshPassword,
+    sshPrivateKey: server.sshPrivateKey ? decryptSecret(server.sshPrivateKey) : server.sshPrivateKey,
+  };
+}
+
+export { CredentialEncryptionError };
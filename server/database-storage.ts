@@ -1,22 +1,105 @@
 import {
+  users,
+  appSettings,
   servers,
   serverMetrics,
+  serverMetrics5m,
+  serverMetrics1h,
+  serverCustomMetrics,
+  ingestTokens,
+  syntheticChecks,
+  syntheticCheckResults,
+  serverAvailability1h,
+  slos,
+  maintenanceWindows,
+  maintenanceWindowEvents,
+  onCallSchedules,
+  onCallOverrides,
+  escalationPolicies,
+  correlationRules,
+  incidents,
+  incidentEvents,
   alerts,
+  alertRules,
+  alertEvents,
+  notificationChannels,
+  notificationDeliveries,
   sshSessions,
   serverLogs,
   logMonitoringConfig,
+  syslogSenders,
+  logParsers,
+  savedLogSearches,
   type Server,
   type InsertServer,
   type ServerMetrics,
   type InsertMetrics,
+  type InsertTimedMetrics,
+  type ServerCustomMetric,
+  type InsertServerCustomMetric,
+  type IngestToken,
+  type InsertIngestTokenRecord,
+  type SyntheticCheck,
+  type InsertSyntheticCheck,
+  type UpdateSyntheticCheck,
+  type SyntheticCheckResult,
+  type InsertSyntheticCheckResult,
+  type AvailabilityTotals,
+  type Slo,
+  type InsertSlo,
+  type UpdateSlo,
+  type MaintenanceWindow,
+  type InsertMaintenanceWindow,
+  type UpdateMaintenanceWindow,
+  type MaintenanceWindowAction,
+  type MaintenanceWindowEvent,
+  type OnCallSchedule,
+  type InsertOnCallSchedule,
+  type UpdateOnCallSchedule,
+  type OnCallOverride,
+  type InsertOnCallOverride,
+  type EscalationPolicy,
+  type InsertEscalationPolicy,
+  type UpdateEscalationPolicy,
+  type CorrelationRule,
+  type InsertCorrelationRule,
+  type UpdateCorrelationRule,
+  type Incident,
+  type InsertIncidentRecord,
+  type UpdateIncident,
+  type IncidentEvent,
+  type IncidentEventType,
   type Alert,
   type InsertAlert,
+  type AlertEvent,
+  type AlertEventType,
+  type AlertActor,
+  type AlertRule,
+  type InsertAlertRule,
+  type NotificationChannel,
+  type InsertNotificationChannel,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
   type SshSession,
   type InsertSshSession,
   type ServerLog,
   type InsertServerLog,
   type LogMonitoringConfig,
   type InsertLogMonitoringConfig,
+  type LogShipperPosition,
+  type SyslogSender,
+  type LogParser,
+  type InsertLogParser,
+  type UpdateLogParser,
+  type LogFieldFilter,
+  type LogTailQuery,
+  type LogSearchQualifier,
+  type LogSearchTerm,
+  type ParsedLogSearch,
+  type LogSearchHit,
+  type SavedLogSearch,
+  type InsertSavedLogSearch,
+  type QuarantinedSyslogMessage,
   type ServerWithMetrics,
   type PublicServer,
   type PublicServerWithMetrics,
@@ -31,12 +114,179 @@ import {
   type CreateLogExportInput,
   type TelemetryEvent,
   type RecordTelemetryInput,
+  type User,
+  type InsertUserRecord,
+  type AppSettings,
+  type UpdateAppSettings,
+  type MetricBucket,
+  type MetricName,
+  type MetricsRange,
+  type MetricTier,
+  type CustomMetricBucket,
+  type CustomMetricSeries,
+  metricNames,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, not, desc, gt, gte, lt, lte, ne, inArray, isNull, isNotNull, ilike, count, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { IStorage } from "./storage";
 import { randomUUID } from "crypto";
 import { DockerEngine, type DockerContainerSummary } from "./docker-engine";
+import { encryptSecret, encryptServerCredentials } from "./credentials";
+import { alertBus } from "./alert-bus";
+import { logBus } from "./log-bus";
+import { AVAILABILITY_SLOT_MINUTES } from "./availability";
+import {
+  emptyBucket,
+  emptyCustomBucket,
+  fillBuckets,
+  fillCustomBuckets,
+  metricLabelsKey,
+  TIER_RESOLUTION_SECONDS,
+} from "./metrics-query";
+
+const METRIC_COLUMNS: Record<MetricName, AnyPgColumn> = {
+  cpu: serverMetrics.cpuUsage,
+  memory: serverMetrics.memoryUsage,
+  disk: serverMetrics.diskUsage,
+  networkIn: serverMetrics.networkIn,
+  networkOut: serverMetrics.networkOut,
+};
+
+type RollupTier = Exclude<MetricTier, "raw">;
+type RollupAggregateKey = `${MetricName}${"Avg" | "Min" | "Max" | "P95"}`;
+
+const ROLLUP_TABLES = {
+  "5m": serverMetrics5m,
+  "1h": serverMetrics1h,
+};
+
+// Fixed order shared by the rollup INSERT column list and its SELECT
+const ROLLUP_AGGREGATE_KEYS = metricNames.flatMap(metric =>
+  (["Avg", "Min", "Max", "P95"] as const).map((suffix): RollupAggregateKey => `${metric}${suffix}`),
+);
+
+function rawAggregates(): Record<RollupAggregateKey, SQL<string | null>> {
+  const aggregates = {} as Record<RollupAggregateKey, SQL<string | null>>;
+  for (const metric of metricNames) {
+    const column = METRIC_COLUMNS[metric];
+    aggregates[`${metric}Avg`] = sql<string | null>`avg(${column})`;
+    aggregates[`${metric}Min`] = sql<string | null>`min(${column})`;
+    aggregates[`${metric}Max`] = sql<string | null>`max(${column})`;
+    aggregates[`${metric}P95`] = sql<string | null>`percentile_cont(0.95) within group (order by ${column})`;
+  }
+  return aggregates;
+}
+
+/**
+ * Re-aggregates rollup rows into wider buckets. Averages are weighted by
+ * sample count; p95 can't be merged exactly, so the worst bucket's p95 is
+ * kept as an upper bound.
+ */
+function rollupAggregates(source: typeof serverMetrics5m | typeof serverMetrics1h): Record<RollupAggregateKey, SQL<string | null>> {
+  const aggregates = {} as Record<RollupAggregateKey, SQL<string | null>>;
+  for (const metric of metricNames) {
+    const avg = source[`${metric}Avg`];
+    aggregates[`${metric}Avg`] =
+      sql<string | null>`sum(${avg} * ${source.samples}) / nullif(sum(${source.samples}) filter (where ${avg} is not null), 0)`;
+    aggregates[`${metric}Min`] = sql<string | null>`min(${source[`${metric}Min`]})`;
+    aggregates[`${metric}Max`] = sql<string | null>`max(${source[`${metric}Max`]})`;
+    aggregates[`${metric}P95`] = sql<string | null>`max(${source[`${metric}P95`]})`;
+  }
+  return aggregates;
+}
+
+/**
+ * Joins, as "watermarks", the newest bucket each server already has in a
+ * rollup table. Rollups resume per server from there, so a server whose
+ * samples arrive late is not skipped because another one is further ahead.
+ */
+function joinRollupWatermarks(target: typeof serverMetrics5m | typeof serverMetrics1h | typeof serverAvailability1h, serverId: AnyPgColumn): SQL {
+  return sql`left join (
+    select ${target.serverId} as server_id, max(${target.bucket}) as latest from ${target} group by 1
+  ) watermarks on watermarks.server_id = ${serverId}`;
+}
+
+// The newest bucket may have been written while still filling, so it is recomputed too
+function afterRollupWatermark(column: AnyPgColumn): SQL {
+  return sql`(watermarks.latest is null or ${column} >= watermarks.latest)`;
+}
+
+type MetricBucketRow = { bucket: string; samples: number } & Record<string, string | number | null>;
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function rowToBucket(row: MetricBucketRow): MetricBucket {
+  const bucket = emptyBucket(Number(row.bucket) * 1000);
+  bucket.samples = row.samples;
+  for (const metric of metricNames) {
+    bucket[metric] = {
+      avg: toNumber(row[`${metric}Avg`]),
+      min: toNumber(row[`${metric}Min`]),
+      max: toNumber(row[`${metric}Max`]),
+      p95: toNumber(row[`${metric}P95`]),
+    };
+  }
+  return bucket;
+}
+
+/**
+ * SQL for one parsed-field filter, with the same semantics as
+ * matchesLogFieldFilters: a numeric value only matches numeric fields.
+ */
+function logFieldCondition(filter: LogFieldFilter): SQL {
+  const field = sql`(${serverLogs.metadata} ->> ${filter.field})`;
+  if (filter.operator === "~") return sql`${field} ~ ${filter.value}`;
+
+  // The operator comes from the logFieldOperators whitelist
+  const operator = sql.raw(filter.operator === "!=" ? "<>" : filter.operator);
+  if (/^-?\d+(\.\d+)?$/.test(filter.value)) {
+    return sql`(case when ${field} ~ '^-?[0-9]+([.][0-9]+)?$' then ${field}::numeric end) ${operator} ${Number(filter.value)}`;
+  }
+  return sql`${field} ${operator} ${filter.value}`;
+}
+
+// "web-prod-*" becomes the ILIKE pattern "web-prod-%", with LIKE wildcards in the value escaped
+function globToLike(glob: string): string {
+  return glob.replace(/[\\%_]/g, "\\$&").replace(/\*/g, "%");
+}
+
+// Literal text found anywhere in the value, so "*" has no special meaning here
+function textToLike(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function logSearchQualifierCondition(qualifier: LogSearchQualifier): SQL {
+  const matches = qualifier.values.map(value => {
+    const pattern = globToLike(value);
+    switch (qualifier.key) {
+      case "level": return ilike(serverLogs.logLevel, pattern);
+      case "source": return ilike(serverLogs.logSource, pattern);
+      case "server": return or(ilike(servers.name, pattern), ilike(servers.hostname, pattern))!;
+    }
+  });
+  const condition = or(...matches)!;
+  return qualifier.negated ? not(condition) : condition;
+}
+
+/**
+ * Full-text condition over the IDX_server_logs_message_search expression
+ * index; the to_tsvector call must stay identical to the index definition.
+ */
+function logSearchTextCondition(terms: LogSearchTerm[]): SQL | undefined {
+  if (!terms.length) return undefined;
+  const queries = terms.map(term => {
+    const query = term.phrase
+      ? sql`phraseto_tsquery('simple', ${term.text})`
+      : sql`plainto_tsquery('simple', ${term.text})`;
+    return term.negated ? sql`(!! ${query})` : query;
+  });
+  return sql`to_tsvector('simple', ${serverLogs.message}) @@ (${sql.join(queries, sql` && `)})`;
+}
 
 export class DatabaseStorage implements IStorage {
   private readonly dockerEngine = new DockerEngine();
@@ -207,6 +457,67 @@ export class DatabaseStorage implements IStorage {
     ];
   }
 
+  // User operations
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUserRecord): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values({
+        ...insertUser,
+        displayName: insertUser.displayName || null,
+        email: insertUser.email || null,
+        role: insertUser.role ?? "viewer",
+        isActive: insertUser.isActive ?? true,
+      })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: string, updateData: Partial<InsertUserRecord> & { lastLoginAt?: Date }): Promise<User | undefined> {
+    const [updated] = await db
+      .update(users)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Settings operations
+  async getSettings(): Promise<AppSettings | undefined> {
+    const [settings] = await db.select().from(appSettings).where(eq(appSettings.id, "global"));
+    return settings || undefined;
+  }
+
+  async saveSettings(settings: UpdateAppSettings, updatedBy: string | null = null): Promise<AppSettings> {
+    const [saved] = await db
+      .insert(appSettings)
+      .values({ ...settings, id: "global", updatedBy })
+      .onConflictDoUpdate({
+        target: appSettings.id,
+        set: { ...settings, updatedAt: new Date(), updatedBy },
+      })
+      .returning();
+    return saved;
+  }
+
   // Server operations
   async getServers(): Promise<Server[]> {
     return await db.select().from(servers);
@@ -239,11 +550,12 @@ export class DatabaseStorage implements IStorage {
         sshPort: insertServer.sshPort ?? 22,
         environment: insertServer.environment ?? "production",
         serverType: insertServer.serverType ?? "web",
+        metricsSource: insertServer.metricsSource ?? "ssh",
         isActive: insertServer.isActive ?? true,
         description: insertServer.description || null,
         sshUsername: insertServer.sshUsername || null,
-        sshPassword: insertServer.sshPassword || null,
-        sshPrivateKey: insertServer.sshPrivateKey || null,
+        sshPassword: insertServer.sshPassword ? encryptSecret(insertServer.sshPassword) : null,
+        sshPrivateKey: insertServer.sshPrivateKey ? encryptSecret(insertServer.sshPrivateKey) : null,
         tags: insertServer.tags || [],
       })
       .returning();
@@ -253,7 +565,7 @@ export class DatabaseStorage implements IStorage {
   async updateServer(id: string, updateData: Partial<InsertServer>): Promise<Server | undefined> {
     const [updated] = await db
       .update(servers)
-      .set(updateData)
+      .set({ ...encryptServerCredentials(updateData), updatedAt: new Date() })
       .where(eq(servers.id, id))
       .returning();
     return updated || undefined;
@@ -261,16 +573,115 @@ export class DatabaseStorage implements IStorage {
 
   async deleteServer(id: string): Promise<boolean> {
     const result = await db.delete(servers).where(eq(servers.id, id));
+    // SLO scopes are plain text, so server-scoped objectives are not cascaded
+    await db.delete(slos).where(and(eq(slos.scopeType, "server"), eq(slos.scopeValue, id)));
     return (result.rowCount ?? 0) > 0;
   }
 
   // Metrics operations
-  async getServerMetrics(serverId: string): Promise<ServerMetrics[]> {
-    return await db
-      .select()
-      .from(serverMetrics)
-      .where(eq(serverMetrics.serverId, serverId))
-      .orderBy(desc(serverMetrics.timestamp));
+  async getMetricSeries(serverIds: string[], range: MetricsRange): Promise<Map<string, MetricBucket[]>> {
+    const rows = await this.queryMetricBuckets(serverIds, range, true);
+    const byServer = new Map<string, Map<number, MetricBucket>>(serverIds.map(id => [id, new Map()]));
+
+    for (const row of rows) {
+      const bucket = rowToBucket(row);
+      byServer.get(row.serverId as string)?.set(new Date(bucket.timestamp).getTime(), bucket);
+    }
+
+    return new Map(Array.from(byServer.entries()).map(([serverId, buckets]) => [serverId, fillBuckets(buckets, range)]));
+  }
+
+  async getFleetMetricSeries(serverIds: string[], range: MetricsRange): Promise<MetricBucket[]> {
+    const rows = await this.queryMetricBuckets(serverIds, range, false);
+    const buckets = new Map<number, MetricBucket>();
+    for (const row of rows) {
+      const bucket = rowToBucket(row);
+      buckets.set(new Date(bucket.timestamp).getTime(), bucket);
+    }
+    return fillBuckets(buckets, range);
+  }
+
+  private async queryMetricBuckets(serverIds: string[], range: MetricsRange, groupByServer: boolean): Promise<MetricBucketRow[]> {
+    if (!serverIds.length) return [];
+
+    // Raw samples unless the range was routed to a rollup tier
+    const rollup = range.tier && range.tier !== "raw" ? ROLLUP_TABLES[range.tier] : undefined;
+    const time = rollup ? rollup.bucket : serverMetrics.timestamp;
+    const serverId = rollup ? rollup.serverId : serverMetrics.serverId;
+
+    // The step is a validated integer; inlining it keeps the SELECT and GROUP BY expressions identical
+    const step = sql.raw(String(Math.trunc(range.stepSeconds)));
+    const bucket = sql<string>`floor(extract(epoch from ${time}) / ${step}) * ${step}`;
+
+    const conditions = [inArray(serverId, serverIds), gte(time, range.from), lt(time, range.to)];
+    if (!rollup) conditions.push(eq(serverMetrics.isOnline, true));
+
+    const rows = await db
+      .select({
+        ...(groupByServer ? { serverId } : {}),
+        bucket,
+        samples: rollup ? sql<number>`sum(${rollup.samples})::int` : sql<number>`count(*)::int`,
+        ...(rollup ? rollupAggregates(rollup) : rawAggregates()),
+      })
+      .from(rollup ?? serverMetrics)
+      .where(and(...conditions))
+      .groupBy(...(groupByServer ? [serverId, bucket] : [bucket]))
+      .orderBy(bucket);
+
+    return rows as unknown as MetricBucketRow[];
+  }
+
+  async rollupMetrics(tier: RollupTier, until: Date): Promise<number> {
+    const target = ROLLUP_TABLES[tier];
+    const width = sql.raw(`'${TIER_RESOLUTION_SECONDS[tier]} seconds'::interval`);
+    let source: SQL;
+    if (tier === "5m") {
+      const aggregates = rawAggregates();
+      source = sql`
+        select ${serverMetrics.serverId}, date_bin(${width}, ${serverMetrics.timestamp}, timestamp '1970-01-01'), count(*)::int,
+          ${sql.join(ROLLUP_AGGREGATE_KEYS.map(key => aggregates[key]), sql`, `)}
+        from ${serverMetrics}
+        ${joinRollupWatermarks(target, serverMetrics.serverId)}
+        where ${and(
+          eq(serverMetrics.isOnline, true),
+          afterRollupWatermark(serverMetrics.timestamp),
+          lt(serverMetrics.timestamp, until),
+        )}
+        group by 1, 2`;
+    } else {
+      const aggregates = rollupAggregates(serverMetrics5m);
+      source = sql`
+        select ${serverMetrics5m.serverId}, date_bin(${width}, ${serverMetrics5m.bucket}, timestamp '1970-01-01'), sum(${serverMetrics5m.samples})::int,
+          ${sql.join(ROLLUP_AGGREGATE_KEYS.map(key => aggregates[key]), sql`, `)}
+        from ${serverMetrics5m}
+        ${joinRollupWatermarks(target, serverMetrics5m.serverId)}
+        where ${and(afterRollupWatermark(serverMetrics5m.bucket), lt(serverMetrics5m.bucket, until))}
+        group by 1, 2`;
+    }
+
+    const columns = [target.serverId, target.bucket, target.samples, ...ROLLUP_AGGREGATE_KEYS.map(key => target[key])];
+    const updates = columns.slice(2).map(column => sql`${sql.identifier(column.name)} = excluded.${sql.identifier(column.name)}`);
+
+    const result = await db.execute(sql`
+      insert into ${target} (${sql.join(columns.map(column => sql.identifier(column.name)), sql`, `)})
+      ${source}
+      on conflict (${sql.identifier(target.serverId.name)}, ${sql.identifier(target.bucket.name)})
+      do update set ${sql.join(updates, sql`, `)}`);
+    return result.rowCount ?? 0;
+  }
+
+  async pruneMetrics(tier: MetricTier, before: Date): Promise<number> {
+    if (tier === "1h") {
+      await db.delete(serverAvailability1h).where(lt(serverAvailability1h.bucket, before));
+    }
+    if (tier !== "raw") {
+      const result = await db.delete(ROLLUP_TABLES[tier]).where(lt(ROLLUP_TABLES[tier].bucket, before));
+      return result.rowCount ?? 0;
+    }
+
+    await db.delete(serverCustomMetrics).where(lt(serverCustomMetrics.timestamp, before));
+    const result = await db.delete(serverMetrics).where(lt(serverMetrics.timestamp, before));
+    return result.rowCount ?? 0;
   }
 
   async getLatestServerMetrics(serverId: string): Promise<ServerMetrics | undefined> {
@@ -300,6 +711,84 @@ export class DatabaseStorage implements IStorage {
     return metrics;
   }
 
+  async createMetricsBatch(metrics: InsertTimedMetrics[], customMetrics: InsertServerCustomMetric[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (metrics.length) {
+        await tx.insert(serverMetrics).values(metrics.map(insertMetrics => ({
+          ...insertMetrics,
+          isOnline: insertMetrics.isOnline ?? false,
+          cpuUsage: insertMetrics.cpuUsage || null,
+          memoryUsage: insertMetrics.memoryUsage || null,
+          diskUsage: insertMetrics.diskUsage || null,
+          networkIn: insertMetrics.networkIn || null,
+          networkOut: insertMetrics.networkOut || null,
+          uptime: insertMetrics.uptime || null,
+        })));
+      }
+      if (customMetrics.length) {
+        await tx.insert(serverCustomMetrics).values(customMetrics.map(insertCustom => {
+          const labels = insertCustom.labels ?? {};
+          return { ...insertCustom, labels, labelsKey: metricLabelsKey(labels) };
+        }));
+      }
+    });
+  }
+
+  async getLatestCustomMetrics(serverId: string): Promise<ServerCustomMetric[]> {
+    return await db
+      .selectDistinctOn([serverCustomMetrics.name, serverCustomMetrics.labelsKey])
+      .from(serverCustomMetrics)
+      .where(eq(serverCustomMetrics.serverId, serverId))
+      .orderBy(serverCustomMetrics.name, serverCustomMetrics.labelsKey, desc(serverCustomMetrics.timestamp));
+  }
+
+  async getCustomMetricSeries(serverId: string, name: string, range: MetricsRange, labels?: Record<string, string>): Promise<CustomMetricSeries[]> {
+    const step = sql.raw(String(Math.trunc(range.stepSeconds)));
+    const bucket = sql<string>`floor(extract(epoch from ${serverCustomMetrics.timestamp}) / ${step}) * ${step}`;
+    const value = serverCustomMetrics.value;
+
+    const conditions = [
+      eq(serverCustomMetrics.serverId, serverId),
+      eq(serverCustomMetrics.name, name),
+      gte(serverCustomMetrics.timestamp, range.from),
+      lt(serverCustomMetrics.timestamp, range.to),
+    ];
+    if (labels) conditions.push(sql`${serverCustomMetrics.labels} @> ${JSON.stringify(labels)}::jsonb`);
+
+    const rows = await db
+      .select({
+        labelsKey: serverCustomMetrics.labelsKey,
+        labels: sql<Record<string, string>>`min(${serverCustomMetrics.labels}::text)::jsonb`,
+        bucket,
+        samples: sql<number>`count(*)::int`,
+        avg: sql<number | null>`avg(${value})`,
+        min: sql<number | null>`min(${value})`,
+        max: sql<number | null>`max(${value})`,
+        p95: sql<number | null>`percentile_cont(0.95) within group (order by ${value})`,
+      })
+      .from(serverCustomMetrics)
+      .where(and(...conditions))
+      .groupBy(serverCustomMetrics.labelsKey, bucket)
+      .orderBy(serverCustomMetrics.labelsKey, bucket);
+
+    const grouped = new Map<string, { labels: Record<string, string>; buckets: Map<number, CustomMetricBucket> }>();
+    for (const row of rows) {
+      const series = grouped.get(row.labelsKey) ?? { labels: row.labels, buckets: new Map() };
+      const time = Number(row.bucket) * 1000;
+      series.buckets.set(time, {
+        ...emptyCustomBucket(time),
+        samples: row.samples,
+        avg: toNumber(row.avg),
+        min: toNumber(row.min),
+        max: toNumber(row.max),
+        p95: toNumber(row.p95),
+      });
+      grouped.set(row.labelsKey, series);
+    }
+
+    return Array.from(grouped.values()).map(({ labels, buckets }) => ({ labels, buckets: fillCustomBuckets(buckets, range) }));
+  }
+
   async getServersWithLatestMetrics(): Promise<ServerWithMetrics[]> {
     const allServers = await this.getServers();
     const serversWithMetrics: ServerWithMetrics[] = [];
@@ -347,6 +836,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(alerts.createdAt));
   }
 
+  async getCheckAlerts(checkId: string): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.checkId, checkId))
+      .orderBy(desc(alerts.createdAt));
+  }
+
   async getActiveAlerts(): Promise<Alert[]> {
     return await db
       .select()
@@ -355,6 +852,20 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(alerts.createdAt));
   }
 
+  async getResolvedAlerts(limit: number = 100): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.isResolved, true))
+      .orderBy(desc(alerts.resolvedAt))
+      .limit(limit);
+  }
+
+  async getAlert(id: string): Promise<Alert | undefined> {
+    const [alert] = await db.select().from(alerts).where(eq(alerts.id, id));
+    return alert || undefined;
+  }
+
   async createAlert(insertAlert: InsertAlert): Promise<Alert> {
     const [alert] = await db
       .insert(alerts)
@@ -365,21 +876,733 @@ export class DatabaseStorage implements IStorage {
         currentValue: insertAlert.currentValue || null,
       })
       .returning();
+    await this.recordAlertEvent(alert.id, "created");
+    alertBus.emitAlert("triggered", alert);
     return alert;
   }
 
-  async resolveAlert(id: string): Promise<Alert | undefined> {
+  private async recordAlertEvent(
+    alertId: string,
+    eventType: AlertEventType,
+    actor?: AlertActor,
+    message?: string,
+  ): Promise<AlertEvent> {
+    const [event] = await db
+      .insert(alertEvents)
+      .values({
+        alertId,
+        eventType,
+        userId: actor?.id ?? null,
+        actorName: actor?.name ?? null,
+        message: message ?? null,
+      })
+      .returning();
+    return event;
+  }
+
+  async acknowledgeAlert(id: string, actor: AlertActor): Promise<Alert | undefined> {
+    const [updated] = await db
+      .update(alerts)
+      .set({ acknowledgedAt: new Date(), acknowledgedBy: actor.id })
+      .where(and(eq(alerts.id, id), eq(alerts.isResolved, false), isNull(alerts.acknowledgedAt)))
+      .returning();
+    if (updated) await this.recordAlertEvent(id, "acknowledged", actor);
+    return updated || undefined;
+  }
+
+  async snoozeAlert(id: string, until: Date, actor: AlertActor): Promise<Alert | undefined> {
+    const [updated] = await db
+      .update(alerts)
+      .set({ snoozedUntil: until })
+      .where(and(eq(alerts.id, id), eq(alerts.isResolved, false)))
+      .returning();
+    if (updated) await this.recordAlertEvent(id, "snoozed", actor, until.toISOString());
+    return updated || undefined;
+  }
+
+  async resolveAlert(id: string, actor?: AlertActor): Promise<Alert | undefined> {
     const [updated] = await db
       .update(alerts)
       .set({ 
         isResolved: true, 
-        resolvedAt: new Date() 
+        resolvedAt: new Date(),
+        resolvedBy: actor?.id ?? null,
       })
+      // Only the first resolution records history and notifies
+      .where(and(eq(alerts.id, id), eq(alerts.isResolved, false)))
+      .returning();
+    if (updated) {
+      await this.recordAlertEvent(id, "resolved", actor, actor ? undefined : "Resolvido automaticamente");
+      alertBus.emitAlert("resolved", updated);
+    }
+    return updated || undefined;
+  }
+
+  async reopenAlert(id: string, actor: AlertActor): Promise<Alert | undefined> {
+    const [updated] = await db
+      .update(alerts)
+      .set({
+        isResolved: false,
+        resolvedAt: null,
+        resolvedBy: null,
+        acknowledgedAt: null,
+        acknowledgedBy: null,
+        snoozedUntil: null,
+        escalationStep: 0,
+        escalationStartedAt: new Date(),
+      })
+      .where(and(eq(alerts.id, id), eq(alerts.isResolved, true)))
+      .returning();
+    if (updated) {
+      await this.recordAlertEvent(id, "reopened", actor);
+      alertBus.emitAlert("reopened", updated);
+    }
+    return updated || undefined;
+  }
+
+  async getAlertEvents(alertId: string): Promise<AlertEvent[]> {
+    return await db
+      .select()
+      .from(alertEvents)
+      .where(eq(alertEvents.alertId, alertId))
+      .orderBy(alertEvents.createdAt);
+  }
+
+  async addAlertComment(alertId: string, actor: AlertActor, message: string): Promise<AlertEvent | undefined> {
+    const alert = await this.getAlert(alertId);
+    if (!alert) return undefined;
+    return await this.recordAlertEvent(alertId, "comment", actor, message);
+  }
+
+  async recordAlertEscalation(id: string, step: number, message: string): Promise<Alert | undefined> {
+    const [updated] = await db
+      .update(alerts)
+      .set({ escalationStep: step })
       .where(eq(alerts.id, id))
       .returning();
+    if (updated) await this.recordAlertEvent(id, "escalated", undefined, message);
+    return updated || undefined;
+  }
+
+  async releaseMaintenanceAlert(id: string): Promise<Alert | undefined> {
+    const [updated] = await db
+      .update(alerts)
+      .set({ maintenanceWindowId: null, escalationStep: 0, escalationStartedAt: new Date() })
+      .where(and(eq(alerts.id, id), eq(alerts.isResolved, false), isNotNull(alerts.maintenanceWindowId)))
+      .returning();
+    // Announced as triggered now, since nothing was notified while the window was open
+    if (updated) alertBus.emitAlert("triggered", updated);
+    return updated || undefined;
+  }
+
+  // Alert rule operations
+  async getAlertRules(): Promise<AlertRule[]> {
+    return await db.select().from(alertRules).orderBy(alertRules.metric, alertRules.name);
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await db
+      .insert(alertRules)
+      .values({
+        ...insertRule,
+        scopeValue: insertRule.scopeValue || null,
+      })
+      .returning();
+    return rule;
+  }
+
+  async updateAlertRule(id: string, updateData: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [updated] = await db
+      .update(alertRules)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(alertRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const { deleted, resolved } = await db.transaction(async (tx) => {
+      const resolved = await tx
+        .update(alerts)
+        .set({ isResolved: true, resolvedAt: new Date(), resolvedBy: null })
+        .where(and(eq(alerts.ruleId, id), eq(alerts.isResolved, false)))
+        .returning();
+      if (resolved.length) {
+        await tx.insert(alertEvents).values(resolved.map(alert => ({
+          alertId: alert.id,
+          eventType: "resolved",
+          message: "Resolvido ao remover a regra",
+        })));
+      }
+      const result = await tx.delete(alertRules).where(eq(alertRules.id, id));
+      return { deleted: (result.rowCount ?? 0) > 0, resolved };
+    });
+
+    // The foreign key cleared ruleId along with the delete
+    for (const alert of resolved) alertBus.emitAlert("resolved", { ...alert, ruleId: null });
+    return deleted;
+  }
+
+  // Notification operations
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return await db.select().from(notificationChannels).orderBy(notificationChannels.name);
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | undefined> {
+    const [channel] = await db.select().from(notificationChannels).where(eq(notificationChannels.id, id));
+    return channel || undefined;
+  }
+
+  async createNotificationChannel(insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const [channel] = await db.insert(notificationChannels).values(insertChannel).returning();
+    return channel;
+  }
+
+  async updateNotificationChannel(id: string, updateData: Partial<InsertNotificationChannel>): Promise<NotificationChannel | undefined> {
+    const [updated] = await db
+      .update(notificationChannels)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(notificationChannels.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    const result = await db.delete(notificationChannels).where(eq(notificationChannels.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getNotificationDeliveries(limit: number = 100): Promise<NotificationDelivery[]> {
+    return await db
+      .select()
+      .from(notificationDeliveries)
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getPendingNotificationDeliveries(): Promise<NotificationDelivery[]> {
+    return await db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.status, "pending"))
+      .orderBy(notificationDeliveries.createdAt);
+  }
+
+  async hasNotificationDelivery(channelId: string, alertId: string, event: string, since: Date): Promise<boolean> {
+    const [existing] = await db
+      .select({ id: notificationDeliveries.id })
+      .from(notificationDeliveries)
+      .where(and(
+        eq(notificationDeliveries.channelId, channelId),
+        eq(notificationDeliveries.alertId, alertId),
+        eq(notificationDeliveries.event, event),
+        gte(notificationDeliveries.createdAt, since),
+      ))
+      .limit(1);
+    return !!existing;
+  }
+
+  async createNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const [delivery] = await db.insert(notificationDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async updateNotificationDelivery(id: string, updateData: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const [updated] = await db
+      .update(notificationDeliveries)
+      .set(updateData)
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+
+  // Ingest token operations
+  async getIngestTokens(): Promise<IngestToken[]> {
+    return await db.select().from(ingestTokens).orderBy(desc(ingestTokens.createdAt));
+  }
+
+  async getIngestTokenByHash(tokenHash: string): Promise<IngestToken | undefined> {
+    const [token] = await db.select().from(ingestTokens).where(eq(ingestTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async createIngestToken(insertToken: InsertIngestTokenRecord): Promise<IngestToken> {
+    const [token] = await db.insert(ingestTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async revokeIngestToken(id: string): Promise<IngestToken | undefined> {
+    const [revoked] = await db
+      .update(ingestTokens)
+      .set({ revokedAt: sql`coalesce(${ingestTokens.revokedAt}, now())` })
+      .where(eq(ingestTokens.id, id))
+      .returning();
+    return revoked || undefined;
+  }
+
+  async touchIngestToken(id: string, usedAt: Date): Promise<void> {
+    await db.update(ingestTokens).set({ lastUsedAt: usedAt }).where(eq(ingestTokens.id, id));
+  }
+
+  // Synthetic check operations
+  async getSyntheticChecks(): Promise<SyntheticCheck[]> {
+    return await db.select().from(syntheticChecks).orderBy(syntheticChecks.name);
+  }
+
+  async getSyntheticCheck(id: string): Promise<SyntheticCheck | undefined> {
+    const [check] = await db.select().from(syntheticChecks).where(eq(syntheticChecks.id, id));
+    return check || undefined;
+  }
+
+  async createSyntheticCheck(insertCheck: InsertSyntheticCheck): Promise<SyntheticCheck> {
+    const [check] = await db.insert(syntheticChecks).values(insertCheck).returning();
+    return check;
+  }
+
+  async updateSyntheticCheck(id: string, updateData: UpdateSyntheticCheck): Promise<SyntheticCheck | undefined> {
+    const [updated] = await db
+      .update(syntheticChecks)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(syntheticChecks.id, id))
+      .returning();
     return updated || undefined;
   }
 
+  async deleteSyntheticCheck(id: string): Promise<boolean> {
+    const result = await db.delete(syntheticChecks).where(eq(syntheticChecks.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getLatestCheckResults(): Promise<SyntheticCheckResult[]> {
+    return await db
+      .selectDistinctOn([syntheticCheckResults.checkId])
+      .from(syntheticCheckResults)
+      .orderBy(syntheticCheckResults.checkId, desc(syntheticCheckResults.checkedAt));
+  }
+
+  async getCheckResults(checkId: string, from: Date, to: Date): Promise<SyntheticCheckResult[]> {
+    return await db
+      .select()
+      .from(syntheticCheckResults)
+      .where(and(
+        eq(syntheticCheckResults.checkId, checkId),
+        gte(syntheticCheckResults.checkedAt, from),
+        lt(syntheticCheckResults.checkedAt, to),
+      ))
+      .orderBy(syntheticCheckResults.checkedAt);
+  }
+
+  async createCheckResult(insertResult: InsertSyntheticCheckResult): Promise<SyntheticCheckResult> {
+    const [result] = await db.insert(syntheticCheckResults).values(insertResult).returning();
+    return result;
+  }
+
+  async pruneCheckResults(before: Date): Promise<number> {
+    const result = await db.delete(syntheticCheckResults).where(lt(syntheticCheckResults.checkedAt, before));
+    return result.rowCount ?? 0;
+  }
+
+  // Availability and SLO operations
+  async rollupAvailability(until: Date): Promise<number> {
+    const slot = (column: AnyPgColumn) => sql`date_bin('${sql.raw(String(AVAILABILITY_SLOT_MINUTES))} minutes'::interval, ${column}, timestamp '1970-01-01')`;
+    const columns = [serverAvailability1h.serverId, serverAvailability1h.bucket, serverAvailability1h.observedSlots, serverAvailability1h.downSlots];
+    const updates = columns.slice(2).map(column => sql`${sql.identifier(column.name)} = excluded.${sql.identifier(column.name)}`);
+
+    // A slot is down when no sample in it was online or any attached check in it was down
+    const result = await db.execute(sql`
+      insert into ${serverAvailability1h} (${sql.join(columns.map(column => sql.identifier(column.name)), sql`, `)})
+      select server_id, date_bin('1 hour'::interval, slot, timestamp '1970-01-01'), count(*)::int,
+        (count(*) filter (where coalesce(offline, false) or coalesce(failed, false)))::int
+      from (
+        select ${serverMetrics.serverId} as server_id, ${slot(serverMetrics.timestamp)} as slot, not bool_or(${serverMetrics.isOnline}) as offline
+        from ${serverMetrics}
+        ${joinRollupWatermarks(serverAvailability1h, serverMetrics.serverId)}
+        where ${and(afterRollupWatermark(serverMetrics.timestamp), lt(serverMetrics.timestamp, until))}
+        group by 1, 2
+      ) metrics
+      full join (
+        select ${syntheticChecks.serverId} as server_id, ${slot(syntheticCheckResults.checkedAt)} as slot, bool_or(${syntheticCheckResults.status} = 'down') as failed
+        from ${syntheticCheckResults}
+        inner join ${syntheticChecks} on ${eq(syntheticChecks.id, syntheticCheckResults.checkId)}
+        ${joinRollupWatermarks(serverAvailability1h, syntheticChecks.serverId)}
+        where ${and(
+          isNotNull(syntheticChecks.serverId),
+          afterRollupWatermark(syntheticCheckResults.checkedAt),
+          lt(syntheticCheckResults.checkedAt, until),
+        )}
+        group by 1, 2
+      ) checks using (server_id, slot)
+      group by 1, 2
+      on conflict (${sql.identifier(serverAvailability1h.serverId.name)}, ${sql.identifier(serverAvailability1h.bucket.name)})
+      do update set ${sql.join(updates, sql`, `)}`);
+    return result.rowCount ?? 0;
+  }
+
+  async getAvailabilityTotals(serverIds: string[], from: Date, to: Date): Promise<AvailabilityTotals[]> {
+    if (!serverIds.length) return [];
+
+    // Include the hour `from` falls in rather than dropping it
+    const fromHour = new Date(Math.floor(from.getTime() / 3_600_000) * 3_600_000);
+    return await db
+      .select({
+        serverId: serverAvailability1h.serverId,
+        observedSlots: sql<number>`sum(${serverAvailability1h.observedSlots})::int`,
+        downSlots: sql<number>`sum(${serverAvailability1h.downSlots})::int`,
+      })
+      .from(serverAvailability1h)
+      .where(and(
+        inArray(serverAvailability1h.serverId, serverIds),
+        gte(serverAvailability1h.bucket, fromHour),
+        lt(serverAvailability1h.bucket, to),
+      ))
+      .groupBy(serverAvailability1h.serverId);
+  }
+
+  async getSlos(): Promise<Slo[]> {
+    return await db.select().from(slos).orderBy(slos.name);
+  }
+
+  async getSlo(id: string): Promise<Slo | undefined> {
+    const [slo] = await db.select().from(slos).where(eq(slos.id, id));
+    return slo || undefined;
+  }
+
+  async createSlo(insertSlo: InsertSlo): Promise<Slo> {
+    const [slo] = await db.insert(slos).values(insertSlo).returning();
+    return slo;
+  }
+
+  async updateSlo(id: string, updateData: UpdateSlo): Promise<Slo | undefined> {
+    const [updated] = await db
+      .update(slos)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(slos.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSlo(id: string): Promise<boolean> {
+    const result = await db.delete(slos).where(eq(slos.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Maintenance window operations
+  private async recordMaintenanceWindowEvent(window: MaintenanceWindow, action: MaintenanceWindowAction, actor: AlertActor) {
+    await db.insert(maintenanceWindowEvents).values({
+      windowId: window.id,
+      windowName: window.name,
+      action,
+      userId: actor.id,
+      actorName: actor.name,
+      details: action === "deleted" ? null : window,
+    });
+  }
+
+  async getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+    return await db.select().from(maintenanceWindows).orderBy(maintenanceWindows.startsAt);
+  }
+
+  async getMaintenanceWindow(id: string): Promise<MaintenanceWindow | undefined> {
+    const [window] = await db.select().from(maintenanceWindows).where(eq(maintenanceWindows.id, id));
+    return window || undefined;
+  }
+
+  async createMaintenanceWindow(insertWindow: InsertMaintenanceWindow, actor: AlertActor): Promise<MaintenanceWindow> {
+    const [window] = await db
+      .insert(maintenanceWindows)
+      .values({ ...insertWindow, createdBy: actor.id })
+      .returning();
+    await this.recordMaintenanceWindowEvent(window, "created", actor);
+    return window;
+  }
+
+  async updateMaintenanceWindow(id: string, updateData: UpdateMaintenanceWindow, actor: AlertActor): Promise<MaintenanceWindow | undefined> {
+    const [updated] = await db
+      .update(maintenanceWindows)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(maintenanceWindows.id, id))
+      .returning();
+    if (updated) await this.recordMaintenanceWindowEvent(updated, "updated", actor);
+    return updated || undefined;
+  }
+
+  async deleteMaintenanceWindow(id: string, actor: AlertActor): Promise<boolean> {
+    const [deleted] = await db.delete(maintenanceWindows).where(eq(maintenanceWindows.id, id)).returning();
+    if (deleted) await this.recordMaintenanceWindowEvent(deleted, "deleted", actor);
+    return !!deleted;
+  }
+
+  async getMaintenanceWindowEvents(windowId?: string): Promise<MaintenanceWindowEvent[]> {
+    return await db
+      .select()
+      .from(maintenanceWindowEvents)
+      .where(windowId ? eq(maintenanceWindowEvents.windowId, windowId) : undefined)
+      .orderBy(desc(maintenanceWindowEvents.createdAt));
+  }
+
+  // On-call schedule operations
+  async getOnCallSchedules(): Promise<OnCallSchedule[]> {
+    return await db.select().from(onCallSchedules).orderBy(onCallSchedules.name);
+  }
+
+  async getOnCallSchedule(id: string): Promise<OnCallSchedule | undefined> {
+    const [schedule] = await db.select().from(onCallSchedules).where(eq(onCallSchedules.id, id));
+    return schedule || undefined;
+  }
+
+  async createOnCallSchedule(insertSchedule: InsertOnCallSchedule): Promise<OnCallSchedule> {
+    const [schedule] = await db.insert(onCallSchedules).values(insertSchedule).returning();
+    return schedule;
+  }
+
+  async updateOnCallSchedule(id: string, updateData: UpdateOnCallSchedule): Promise<OnCallSchedule | undefined> {
+    const [updated] = await db
+      .update(onCallSchedules)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(onCallSchedules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteOnCallSchedule(id: string): Promise<boolean> {
+    const result = await db.delete(onCallSchedules).where(eq(onCallSchedules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getOnCallOverrides(scheduleId: string, endingAfter?: Date): Promise<OnCallOverride[]> {
+    return await db
+      .select()
+      .from(onCallOverrides)
+      .where(and(
+        eq(onCallOverrides.scheduleId, scheduleId),
+        endingAfter ? gt(onCallOverrides.endsAt, endingAfter) : undefined,
+      ))
+      .orderBy(onCallOverrides.startsAt);
+  }
+
+  async getOnCallOverride(id: string): Promise<OnCallOverride | undefined> {
+    const [override] = await db.select().from(onCallOverrides).where(eq(onCallOverrides.id, id));
+    return override || undefined;
+  }
+
+  async createOnCallOverride(insertOverride: InsertOnCallOverride): Promise<OnCallOverride> {
+    const [override] = await db.insert(onCallOverrides).values(insertOverride).returning();
+    return override;
+  }
+
+  async deleteOnCallOverride(id: string): Promise<boolean> {
+    const result = await db.delete(onCallOverrides).where(eq(onCallOverrides.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Escalation policy operations
+  async getEscalationPolicies(): Promise<EscalationPolicy[]> {
+    return await db.select().from(escalationPolicies).orderBy(escalationPolicies.name);
+  }
+
+  async getEscalationPolicy(id: string): Promise<EscalationPolicy | undefined> {
+    const [policy] = await db.select().from(escalationPolicies).where(eq(escalationPolicies.id, id));
+    return policy || undefined;
+  }
+
+  async createEscalationPolicy(insertPolicy: InsertEscalationPolicy): Promise<EscalationPolicy> {
+    const [policy] = await db.insert(escalationPolicies).values(insertPolicy).returning();
+    return policy;
+  }
+
+  async updateEscalationPolicy(id: string, updateData: UpdateEscalationPolicy): Promise<EscalationPolicy | undefined> {
+    const [updated] = await db
+      .update(escalationPolicies)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(escalationPolicies.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteEscalationPolicy(id: string): Promise<boolean> {
+    const result = await db.delete(escalationPolicies).where(eq(escalationPolicies.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Correlation rule operations
+  async getCorrelationRules(): Promise<CorrelationRule[]> {
+    return await db.select().from(correlationRules).orderBy(correlationRules.createdAt);
+  }
+
+  async getCorrelationRule(id: string): Promise<CorrelationRule | undefined> {
+    const [rule] = await db.select().from(correlationRules).where(eq(correlationRules.id, id));
+    return rule || undefined;
+  }
+
+  async createCorrelationRule(insertRule: InsertCorrelationRule): Promise<CorrelationRule> {
+    const [rule] = await db.insert(correlationRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateCorrelationRule(id: string, updateData: UpdateCorrelationRule): Promise<CorrelationRule | undefined> {
+    const [updated] = await db
+      .update(correlationRules)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(correlationRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCorrelationRule(id: string): Promise<boolean> {
+    const result = await db.delete(correlationRules).where(eq(correlationRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Incident operations
+  async getIncidents(includeResolved: boolean = false): Promise<Incident[]> {
+    return await db
+      .select()
+      .from(incidents)
+      .where(includeResolved ? undefined : ne(incidents.status, "resolved"))
+      .orderBy(desc(incidents.createdAt));
+  }
+
+  async getIncident(id: string): Promise<Incident | undefined> {
+    const [incident] = await db.select().from(incidents).where(eq(incidents.id, id));
+    return incident || undefined;
+  }
+
+  async getIncidentAlerts(incidentId: string): Promise<Alert[]> {
+    return await db.select().from(alerts).where(eq(alerts.incidentId, incidentId)).orderBy(alerts.createdAt);
+  }
+
+  async createIncident(insertIncident: InsertIncidentRecord, alertIds: string[]): Promise<Incident> {
+    const [incident] = await db.insert(incidents).values(insertIncident).returning();
+    await this.recordIncidentEvent(incident.id, "created");
+    if (alertIds.length) {
+      const attached = await db
+        .update(alerts)
+        .set({ incidentId: incident.id })
+        .where(inArray(alerts.id, alertIds))
+        .returning();
+      for (const alert of attached) {
+        await this.recordIncidentEvent(incident.id, "alert_attached", undefined, alert.message, alert.id);
+      }
+    }
+    return incident;
+  }
+
+  async attachAlertToIncident(
+    incidentId: string,
+    alertId: string,
+    changes: Partial<InsertIncidentRecord>,
+    message?: string,
+  ): Promise<Incident | undefined> {
+    const [alert] = await db.update(alerts).set({ incidentId }).where(eq(alerts.id, alertId)).returning();
+    if (!alert) return undefined;
+
+    const [updated] = await db
+      .update(incidents)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(incidents.id, incidentId))
+      .returning();
+    if (updated) await this.recordIncidentEvent(incidentId, "alert_attached", undefined, message ?? alert.message, alertId);
+    return updated || undefined;
+  }
+
+  async repeatIncidentAlert(
+    alertId: string,
+    changes: Pick<InsertAlert, "severity" | "message" | "threshold" | "currentValue">,
+    incidentChanges: Partial<InsertIncidentRecord>,
+  ): Promise<Alert | undefined> {
+    const openIncidents = db.select({ id: incidents.id }).from(incidents).where(ne(incidents.status, "resolved"));
+    const [alert] = await db
+      .update(alerts)
+      .set({
+        severity: changes.severity,
+        message: changes.message,
+        threshold: changes.threshold || null,
+        currentValue: changes.currentValue || null,
+        isResolved: false,
+        resolvedAt: null,
+        resolvedBy: null,
+        occurrences: sql`${alerts.occurrences} + 1`,
+      })
+      .where(and(eq(alerts.id, alertId), inArray(alerts.incidentId, openIncidents)))
+      .returning();
+    if (!alert) return undefined;
+
+    await this.recordAlertEvent(alertId, "repeated", undefined, changes.message);
+    await db.update(incidents).set({ ...incidentChanges, updatedAt: new Date() }).where(eq(incidents.id, alert.incidentId!));
+    await this.recordIncidentEvent(alert.incidentId!, "alert_repeated", undefined, `${changes.message} (${alert.occurrences}ª ocorrência)`, alertId);
+    return alert;
+  }
+
+  async updateIncident(id: string, changes: UpdateIncident, actor: AlertActor): Promise<Incident | undefined> {
+    const incident = await this.getIncident(id);
+    if (!incident) return undefined;
+
+    const statusChanged = changes.status !== undefined && changes.status !== incident.status;
+    const [updated] = await db
+      .update(incidents)
+      .set({
+        ...changes,
+        ...(statusChanged ? { resolvedAt: changes.status === "resolved" ? new Date() : null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(incidents.id, id))
+      .returning();
+    if (!updated) return undefined;
+
+    if (statusChanged) {
+      await this.recordIncidentEvent(id, "status_changed", actor, changes.status);
+    }
+    if (changes.commanderId !== undefined && changes.commanderId !== incident.commanderId) {
+      const commander = changes.commanderId ? await this.getUser(changes.commanderId) : undefined;
+      await this.recordIncidentEvent(id, "commander_changed", actor, commander ? commander.displayName || commander.username : undefined);
+    }
+    if (changes.postmortem !== undefined && changes.postmortem !== incident.postmortem) {
+      await this.recordIncidentEvent(id, "postmortem_updated", actor);
+    }
+    return updated;
+  }
+
+  private async recordIncidentEvent(
+    incidentId: string,
+    eventType: IncidentEventType,
+    actor?: AlertActor,
+    message?: string,
+    alertId?: string,
+  ): Promise<IncidentEvent> {
+    const [event] = await db
+      .insert(incidentEvents)
+      .values({
+        incidentId,
+        eventType,
+        alertId: alertId ?? null,
+        userId: actor?.id ?? null,
+        actorName: actor?.name ?? null,
+        message: message ?? null,
+      })
+      .returning();
+    return event;
+  }
+
+  async getIncidentEvents(incidentId: string): Promise<IncidentEvent[]> {
+    return await db
+      .select()
+      .from(incidentEvents)
+      .where(eq(incidentEvents.incidentId, incidentId))
+      .orderBy(incidentEvents.createdAt);
+  }
+
+  async addIncidentNote(incidentId: string, actor: AlertActor, message: string): Promise<IncidentEvent | undefined> {
+    const incident = await this.getIncident(incidentId);
+    if (!incident) return undefined;
+    return await this.recordIncidentEvent(incidentId, "note", actor, message);
+  }
+
   // SSH Session operations
   async getSshSessions(): Promise<SshSession[]> {
     return await db.select().from(sshSessions).orderBy(desc(sshSessions.startedAt));
@@ -393,6 +1616,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(sshSessions.startedAt));
   }
 
+  async getSshSession(id: string): Promise<SshSession | undefined> {
+    const [session] = await db.select().from(sshSessions).where(eq(sshSessions.id, id));
+    return session || undefined;
+  }
+
   async createSshSession(insertSession: InsertSshSession): Promise<SshSession> {
     const [session] = await db
       .insert(sshSessions)
@@ -624,26 +1852,42 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Log Monitoring operations
-  async getServerLogs(serverId: string, limit: number = 100): Promise<ServerLog[]> {
+  async getServerLogs(serverId: string, limit: number = 100, fieldFilters: LogFieldFilter[] = []): Promise<ServerLog[]> {
     return await db
       .select()
       .from(serverLogs)
-      .where(eq(serverLogs.serverId, serverId))
+      .where(and(eq(serverLogs.serverId, serverId), ...fieldFilters.map(logFieldCondition)))
       .orderBy(desc(serverLogs.timestamp))
       .limit(limit);
   }
 
-  async getServerLogsByLevel(serverId: string, logLevel: string): Promise<ServerLog[]> {
+  async getServerLogsByLevel(serverId: string, logLevel: string, fieldFilters: LogFieldFilter[] = []): Promise<ServerLog[]> {
     return await db
       .select()
       .from(serverLogs)
       .where(and(
         eq(serverLogs.serverId, serverId),
-        eq(serverLogs.logLevel, logLevel)
+        eq(serverLogs.logLevel, logLevel),
+        ...fieldFilters.map(logFieldCondition),
       ))
       .orderBy(desc(serverLogs.timestamp));
   }
 
+  async getServerLogTail(serverId: string, query: LogTailQuery, limit: number): Promise<ServerLog[]> {
+    const contains = query.text && textToLike(query.text);
+    return await db
+      .select()
+      .from(serverLogs)
+      .where(and(
+        eq(serverLogs.serverId, serverId),
+        query.levels ? inArray(sql`lower(${serverLogs.logLevel})`, query.levels) : undefined,
+        contains ? or(ilike(serverLogs.message, contains), ilike(serverLogs.logSource, contains)) : undefined,
+        ...query.fieldFilters.map(logFieldCondition),
+      ))
+      .orderBy(desc(serverLogs.timestamp))
+      .limit(limit);
+  }
+
   async createServerLog(insertLog: InsertServerLog): Promise<ServerLog> {
     const [log] = await db
       .insert(serverLogs)
@@ -652,9 +1896,23 @@ export class DatabaseStorage implements IStorage {
         metadata: insertLog.metadata || {},
       })
       .returning();
+    logBus.emitLogs([log]);
     return log;
   }
 
+  async createServerLogs(insertLogs: InsertServerLog[]): Promise<ServerLog[]> {
+    if (!insertLogs.length) return [];
+    const logs = await db
+      .insert(serverLogs)
+      .values(insertLogs.map(insertLog => ({
+        ...insertLog,
+        metadata: insertLog.metadata || {},
+      })))
+      .returning();
+    logBus.emitLogs(logs);
+    return logs;
+  }
+
   async getLogMonitoringConfigs(serverId?: string): Promise<LogMonitoringConfig[]> {
     if (serverId) {
       return await db
@@ -670,6 +1928,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getLogMonitoringConfig(id: string): Promise<LogMonitoringConfig | undefined> {
+    const [config] = await db.select().from(logMonitoringConfig).where(eq(logMonitoringConfig.id, id));
+    return config || undefined;
+  }
+
   async createLogMonitoringConfig(insertConfig: InsertLogMonitoringConfig): Promise<LogMonitoringConfig> {
     const [config] = await db
       .insert(logMonitoringConfig)
@@ -685,7 +1948,7 @@ export class DatabaseStorage implements IStorage {
   async updateLogMonitoringConfig(id: string, updateData: Partial<InsertLogMonitoringConfig>): Promise<LogMonitoringConfig | undefined> {
     const [updated] = await db
       .update(logMonitoringConfig)
-      .set(updateData)
+      .set({ ...updateData, updatedAt: new Date() })
       .where(eq(logMonitoringConfig.id, id))
       .returning();
     return updated || undefined;
@@ -696,6 +1959,176 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  async saveLogShipperPosition(id: string, position: LogShipperPosition): Promise<void> {
+    await db.update(logMonitoringConfig).set(position).where(eq(logMonitoringConfig.id, id));
+  }
+
+  async searchServerLogs(search: ParsedLogSearch, from: Date, to: Date, limit: number, offset: number): Promise<{ hits: LogSearchHit[]; total: number }> {
+    const conditions = [
+      gte(serverLogs.timestamp, from),
+      lte(serverLogs.timestamp, to),
+      ...search.qualifiers.map(logSearchQualifierCondition),
+      ...search.fieldFilters.map(logFieldCondition),
+    ];
+    const textCondition = logSearchTextCondition(search.terms);
+    if (textCondition) conditions.push(textCondition);
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({ log: serverLogs, serverName: servers.name })
+        .from(serverLogs)
+        .innerJoin(servers, eq(serverLogs.serverId, servers.id))
+        .where(where)
+        .orderBy(desc(serverLogs.timestamp), desc(serverLogs.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(serverLogs)
+        .innerJoin(servers, eq(serverLogs.serverId, servers.id))
+        .where(where),
+    ]);
+    return { hits: rows.map(row => ({ ...row.log, serverName: row.serverName })), total };
+  }
+
+  // Saved log search operations
+  async getSavedLogSearches(): Promise<SavedLogSearch[]> {
+    return await db.select().from(savedLogSearches).orderBy(savedLogSearches.name);
+  }
+
+  async getSavedLogSearch(id: string): Promise<SavedLogSearch | undefined> {
+    const [search] = await db.select().from(savedLogSearches).where(eq(savedLogSearches.id, id));
+    return search || undefined;
+  }
+
+  async createSavedLogSearch(insertSearch: InsertSavedLogSearch): Promise<SavedLogSearch> {
+    const [search] = await db.insert(savedLogSearches).values(insertSearch).returning();
+    return search;
+  }
+
+  async deleteSavedLogSearch(id: string): Promise<boolean> {
+    const result = await db.delete(savedLogSearches).where(eq(savedLogSearches.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Log parser operations
+  async getLogParsers(): Promise<LogParser[]> {
+    return await db.select().from(logParsers).orderBy(logParsers.logType);
+  }
+
+  async getLogParser(id: string): Promise<LogParser | undefined> {
+    const [parser] = await db.select().from(logParsers).where(eq(logParsers.id, id));
+    return parser || undefined;
+  }
+
+  async createLogParser(insertParser: InsertLogParser): Promise<LogParser> {
+    const [parser] = await db.insert(logParsers).values(insertParser).returning();
+    return parser;
+  }
+
+  async updateLogParser(id: string, updateData: UpdateLogParser): Promise<LogParser | undefined> {
+    const [updated] = await db
+      .update(logParsers)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(logParsers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteLogParser(id: string): Promise<boolean> {
+    const result = await db.delete(logParsers).where(eq(logParsers.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Syslog sender operations
+  async getSyslogSenders(): Promise<SyslogSender[]> {
+    return await db.select().from(syslogSenders).orderBy(desc(syslogSenders.lastSeenAt));
+  }
+
+  async getSyslogSender(id: string): Promise<SyslogSender | undefined> {
+    const [sender] = await db.select().from(syslogSenders).where(eq(syslogSenders.id, id));
+    return sender || undefined;
+  }
+
+  async quarantineSyslogMessages(
+    address: string,
+    hostname: string,
+    messages: QuarantinedSyslogMessage[],
+    keep: number,
+  ): Promise<SyslogSender> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(syslogSenders)
+        .where(and(eq(syslogSenders.address, address), eq(syslogSenders.hostname, hostname)))
+        .for("update");
+      const lastMessage = messages[messages.length - 1]?.message;
+
+      if (!existing) {
+        const [created] = await tx
+          .insert(syslogSenders)
+          .values({
+            address,
+            hostname,
+            messageCount: messages.length,
+            pendingMessages: messages.slice(-keep),
+            lastMessage: lastMessage ?? null,
+          })
+          .returning();
+        return created;
+      }
+
+      const [updated] = await tx
+        .update(syslogSenders)
+        .set({
+          messageCount: existing.messageCount + messages.length,
+          pendingMessages: [...(existing.pendingMessages as QuarantinedSyslogMessage[]), ...messages].slice(-keep),
+          lastMessage: lastMessage ?? existing.lastMessage,
+          lastSeenAt: new Date(),
+        })
+        .where(eq(syslogSenders.id, existing.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async assignSyslogSender(id: string, serverId: string): Promise<SyslogSender | undefined> {
+    let delivered: ServerLog[] = [];
+    const assigned = await db.transaction(async (tx) => {
+      const [sender] = await tx.select().from(syslogSenders).where(eq(syslogSenders.id, id)).for("update");
+      if (!sender) return undefined;
+
+      // Messages held in quarantine are delivered with the time they were received
+      const pending = sender.pendingMessages as QuarantinedSyslogMessage[];
+      if (pending.length) {
+        delivered = await tx.insert(serverLogs).values(pending.map(message => ({
+          serverId,
+          logLevel: message.logLevel,
+          logSource: message.logSource,
+          message: message.message,
+          metadata: message.metadata,
+          timestamp: new Date(message.receivedAt),
+        }))).returning();
+      }
+
+      const [updated] = await tx
+        .update(syslogSenders)
+        .set({ serverId, pendingMessages: [] })
+        .where(eq(syslogSenders.id, id))
+        .returning();
+      return updated;
+    });
+    // Only announce the rows once the transaction committed
+    logBus.emitLogs(delivered);
+    return assigned;
+  }
+
+  async deleteSyslogSender(id: string): Promise<boolean> {
+    const result = await db.delete(syslogSenders).where(eq(syslogSenders.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   private async loadDockerStacks(): Promise<ContainerStack[]> {
     if (!this.dockerEngine.isAvailable) {
       return [];
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { Alert, EscalationPolicy, OnCallOverride, OnCallSchedule, Server } from "@shared/schema";
+import { escalationPolicyFor, onCallShift, policyCoversServer, rotationShift, shiftLengthMs } from "./escalation";
+
+const HOUR_MS = 60 * 60_000;
+const HANDOFF = new Date("2026-10-19T09:00:00Z");
+
+function hoursAfterHandoff(hours: number): Date {
+  return new Date(HANDOFF.getTime() + hours * HOUR_MS);
+}
+
+function schedule(changes: Partial<OnCallSchedule> = {}): OnCallSchedule {
+  return {
+    id: "sched",
+    name: "Infra",
+    description: null,
+    rotation: "daily",
+    shiftHours: null,
+    handoffAt: HANDOFF,
+    participants: ["ana", "bruno", "carla"],
+    createdAt: HANDOFF,
+    updatedAt: HANDOFF,
+    ...changes,
+  };
+}
+
+function override(id: string, userId: string, fromHours: number, toHours: number, createdAt = HANDOFF): OnCallOverride {
+  return {
+    id,
+    scheduleId: "sched",
+    userId,
+    startsAt: hoursAfterHandoff(fromHours),
+    endsAt: hoursAfterHandoff(toHours),
+    reason: null,
+    createdBy: null,
+    createdAt,
+  };
+}
+
+function policy(name: string, scopeType: string, scopeValue: string | null, severities = ["critical"]): EscalationPolicy {
+  return {
+    id: name,
+    name,
+    scopeType,
+    scopeValue,
+    severities,
+    steps: [],
+    isEnabled: true,
+    createdAt: HANDOFF,
+    updatedAt: HANDOFF,
+  };
+}
+
+describe("rotationShift", () => {
+  test("hands over back to back in participant order and wraps around", () => {
+    assert.deepEqual(rotationShift(schedule(), hoursAfterHandoff(0)), {
+      userId: "ana",
+      startsAt: HANDOFF.toISOString(),
+      endsAt: hoursAfterHandoff(24).toISOString(),
+      overrideId: null,
+    });
+    assert.equal(rotationShift(schedule(), hoursAfterHandoff(30))!.userId, "bruno");
+    assert.equal(rotationShift(schedule(), hoursAfterHandoff(3 * 24 + 1))!.userId, "ana");
+  });
+
+  test("uses the configured shift length", () => {
+    assert.equal(shiftLengthMs(schedule({ rotation: "weekly" })), 7 * 24 * HOUR_MS);
+    assert.equal(shiftLengthMs(schedule({ rotation: "custom", shiftHours: 12 })), 12 * HOUR_MS);
+    assert.equal(rotationShift(schedule({ rotation: "custom", shiftHours: 12 }), hoursAfterHandoff(13))!.userId, "bruno");
+  });
+
+  test("has nobody on call before the first handoff or without participants", () => {
+    assert.equal(rotationShift(schedule(), hoursAfterHandoff(-1)), null);
+    assert.equal(rotationShift(schedule({ participants: [] }), hoursAfterHandoff(1)), null);
+  });
+});
+
+describe("onCallShift", () => {
+  test("puts the override user on call while it lasts", () => {
+    const shift = onCallShift(schedule(), [override("o1", "dani", 4, 8)], hoursAfterHandoff(5));
+    assert.deepEqual(shift, {
+      userId: "dani",
+      startsAt: hoursAfterHandoff(4).toISOString(),
+      endsAt: hoursAfterHandoff(8).toISOString(),
+      overrideId: "o1",
+    });
+  });
+
+  test("prefers the most recently created of overlapping overrides", () => {
+    const overrides = [
+      override("old", "dani", 0, 10),
+      override("new", "edu", 2, 6, hoursAfterHandoff(1)),
+    ];
+    assert.equal(onCallShift(schedule(), overrides, hoursAfterHandoff(3))!.userId, "edu");
+    assert.equal(onCallShift(schedule(), overrides, hoursAfterHandoff(7))!.userId, "dani");
+  });
+
+  test("cuts the rotation shift short around overrides", () => {
+    const overrides = [override("before", "dani", 0, 4), override("after", "edu", 10, 12)];
+    assert.deepEqual(onCallShift(schedule(), overrides, hoursAfterHandoff(6)), {
+      userId: "ana",
+      startsAt: hoursAfterHandoff(4).toISOString(),
+      endsAt: hoursAfterHandoff(10).toISOString(),
+      overrideId: null,
+    });
+  });
+
+  test("falls back to the rotation once an override has ended", () => {
+    assert.equal(onCallShift(schedule(), [override("o1", "dani", 0, 4)], hoursAfterHandoff(4))!.userId, "ana");
+  });
+});
+
+describe("escalation policy selection", () => {
+  const server = { id: "s1", environment: "production", serverType: "database", tags: ["pci"] } as Server;
+  const alert = { severity: "critical" } as Alert;
+
+  test("matches policies by scope", () => {
+    assert.equal(policyCoversServer(policy("p", "environment", "production"), server), true);
+    assert.equal(policyCoversServer(policy("p", "environment", "staging"), server), false);
+    assert.equal(policyCoversServer(policy("p", "serverType", "database"), server), true);
+    assert.equal(policyCoversServer(policy("p", "tag", "pci"), server), true);
+    assert.equal(policyCoversServer(policy("p", "tag", "edge"), server), false);
+  });
+
+  test("only global policies cover alerts without a server", () => {
+    assert.equal(policyCoversServer(policy("p", "global", null), undefined), true);
+    assert.equal(policyCoversServer(policy("p", "environment", "production"), undefined), false);
+  });
+
+  test("picks the most specific enabled policy for the alert severity", () => {
+    const policies = [
+      policy("global", "global", null),
+      policy("prod", "environment", "production"),
+      policy("pci-warnings", "tag", "pci", ["warning"]),
+      { ...policy("pci-off", "tag", "pci"), isEnabled: false },
+      policy("db", "serverType", "database"),
+    ];
+    assert.equal(escalationPolicyFor(policies, alert, server)!.name, "db");
+    assert.equal(escalationPolicyFor(policies, alert, undefined)!.name, "global");
+    assert.equal(escalationPolicyFor(policies, { severity: "info" } as Alert, server), undefined);
+  });
+});
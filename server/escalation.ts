@@ -0,0 +1,263 @@
+import type {
+  Alert,
+  EscalationPolicy,
+  EscalationScope,
+  EscalationStep,
+  NotificationChannel,
+  OnCallOverride,
+  OnCallSchedule,
+  OnCallScheduleStatus,
+  OnCallShift,
+  Server,
+  User,
+} from "@shared/schema";
+import type { NotificationDispatcher } from "./notifications";
+import type { IStorage } from "./storage";
+
+const ESCALATION_INTERVAL_MS = 30_000;
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const ROTATION_HOURS: Record<string, number> = {
+  daily: 24,
+  weekly: 7 * 24,
+};
+
+// Most specific scope first: when several policies cover an alert only the first one escalates it
+const SCOPE_PRIORITY: EscalationScope[] = ["tag", "serverType", "environment", "global"];
+
+class EscalationConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EscalationConfigError";
+  }
+}
+
+type EscalationRecipients = { channels: NotificationChannel[]; users: User[] };
+
+export function shiftLengthMs(schedule: OnCallSchedule): number {
+  const hours = schedule.rotation === "custom" ? schedule.shiftHours : ROTATION_HOURS[schedule.rotation];
+  return (hours ?? ROTATION_HOURS.weekly) * HOUR_MS;
+}
+
+/** Rotation shift covering `at`, ignoring overrides; null before the first handoff. */
+export function rotationShift(schedule: OnCallSchedule, at: Date): OnCallShift | null {
+  const participants = schedule.participants as string[];
+  const elapsed = at.getTime() - schedule.handoffAt.getTime();
+  if (elapsed < 0 || !participants.length) return null;
+
+  const length = shiftLengthMs(schedule);
+  const index = Math.floor(elapsed / length);
+  const startsAt = schedule.handoffAt.getTime() + index * length;
+  return {
+    userId: participants[index % participants.length],
+    startsAt: new Date(startsAt).toISOString(),
+    endsAt: new Date(startsAt + length).toISOString(),
+    overrideId: null,
+  };
+}
+
+/**
+ * Who is on call at `at`: the most recently created override covering it,
+ * otherwise the rotation. Rotation shifts are cut short around overrides
+ * so that the shift after this one starts where it really ends.
+ */
+export function onCallShift(schedule: OnCallSchedule, overrides: OnCallOverride[], at: Date): OnCallShift | null {
+  const override = overrides
+    .filter(candidate => candidate.startsAt <= at && candidate.endsAt > at)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  if (override) {
+    return {
+      userId: override.userId,
+      startsAt: override.startsAt.toISOString(),
+      endsAt: override.endsAt.toISOString(),
+      overrideId: override.id,
+    };
+  }
+
+  const shift = rotationShift(schedule, at);
+  if (!shift) return null;
+
+  let startsAt = new Date(shift.startsAt).getTime();
+  let endsAt = new Date(shift.endsAt).getTime();
+  for (const candidate of overrides) {
+    if (candidate.endsAt <= at && candidate.endsAt.getTime() > startsAt) startsAt = candidate.endsAt.getTime();
+    if (candidate.startsAt > at && candidate.startsAt.getTime() < endsAt) endsAt = candidate.startsAt.getTime();
+  }
+  return { ...shift, startsAt: new Date(startsAt).toISOString(), endsAt: new Date(endsAt).toISOString() };
+}
+
+// Global policies also cover alerts without a server, such as standalone synthetic checks
+export function policyCoversServer(policy: EscalationPolicy, server: Server | undefined): boolean {
+  if (policy.scopeType === "global") return true;
+  if (!server) return false;
+
+  switch (policy.scopeType) {
+    case "environment":
+      return server.environment === policy.scopeValue;
+    case "serverType":
+      return server.serverType === policy.scopeValue;
+    case "tag":
+      return Array.isArray(server.tags) && (server.tags as string[]).includes(policy.scopeValue ?? "");
+    default:
+      return false;
+  }
+}
+
+export function escalationPolicyFor(policies: EscalationPolicy[], alert: Alert, server: Server | undefined): EscalationPolicy | undefined {
+  return policies
+    .filter(policy =>
+      policy.isEnabled &&
+      (policy.severities as string[]).includes(alert.severity) &&
+      policyCoversServer(policy, server),
+    )
+    .sort((a, b) =>
+      SCOPE_PRIORITY.indexOf(a.scopeType as EscalationScope) - SCOPE_PRIORITY.indexOf(b.scopeType as EscalationScope) ||
+      a.name.localeCompare(b.name),
+    )[0];
+}
+
+function userName(user: User): string {
+  return user.displayName || user.username;
+}
+
+/**
+ * Walks unacknowledged alerts through the steps of the escalation policy
+ * covering their server, or of a global policy. Each step fires once its delay has passed since
+ * the alert opened (or was reopened); acknowledging the alert stops it.
+ * Snoozing pauses it, and the remaining steps count from the end of the snooze.
+ */
+export class EscalationEngine {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly notifications: NotificationDispatcher,
+  ) {}
+
+  start() {
+    const tick = () => {
+      this.run().catch(error => console.error("Failed to run alert escalation:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, ESCALATION_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getScheduleStatuses(now: Date = new Date()): Promise<OnCallScheduleStatus[]> {
+    const schedules = await this.storage.getOnCallSchedules();
+    return Promise.all(schedules.map(async schedule => {
+      // Overrides that ended during the current rotation shift still decide where it starts
+      const overrides = await this.storage.getOnCallOverrides(schedule.id, new Date(now.getTime() - shiftLengthMs(schedule)));
+      const current = onCallShift(schedule, overrides, now);
+      const nextAt = current ? new Date(current.endsAt) : new Date(Math.max(now.getTime(), schedule.handoffAt.getTime()));
+      return {
+        ...schedule,
+        current,
+        next: onCallShift(schedule, overrides, nextAt),
+        overrides: overrides.filter(override => override.endsAt > now),
+      };
+    }));
+  }
+
+  /** Rejects schedule participants that are not active users. */
+  async assertParticipants(userIds: string[]): Promise<void> {
+    for (const userId of userIds) {
+      const user = await this.storage.getUser(userId);
+      if (!user || !user.isActive) throw new EscalationConfigError(`Unknown or inactive user ${userId}`);
+    }
+  }
+
+  /** Rejects steps pointing at schedules, users or channels that do not exist. */
+  async assertTargets(steps: EscalationStep[]): Promise<void> {
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index];
+      const exists = step.targetType === "schedule"
+        ? await this.storage.getOnCallSchedule(step.targetId)
+        : step.targetType === "user"
+          ? await this.storage.getUser(step.targetId)
+          : await this.storage.getNotificationChannel(step.targetId);
+      if (!exists) throw new EscalationConfigError(`Step ${index + 1} targets an unknown ${step.targetType}`);
+    }
+  }
+
+  async run(now: Date = new Date()) {
+    const policies = (await this.storage.getEscalationPolicies()).filter(policy => policy.isEnabled);
+    if (!policies.length) return;
+
+    // Acknowledged and snoozed alerts stop escalating; marked alerts wait for their window to end
+    const alerts = (await this.storage.getActiveAlerts()).filter(alert =>
+      !alert.acknowledgedAt &&
+      !alert.maintenanceWindowId &&
+      !(alert.snoozedUntil && alert.snoozedUntil > now),
+    );
+    if (!alerts.length) return;
+
+    const servers = new Map((await this.storage.getServers()).map(server => [server.id, server]));
+    for (const alert of alerts) {
+      const server = alert.serverId ? servers.get(alert.serverId) : undefined;
+      const policy = escalationPolicyFor(policies, alert, server);
+      if (policy) await this.escalate(alert, policy, now);
+    }
+  }
+
+  private async escalate(alert: Alert, policy: EscalationPolicy, now: Date) {
+    const steps = policy.steps as EscalationStep[];
+    // Steps skipped during a snooze would otherwise all fire on the first tick after it
+    const startedAt = Math.max(alert.escalationStartedAt.getTime(), alert.snoozedUntil?.getTime() ?? 0);
+    const elapsedMinutes = (now.getTime() - startedAt) / MINUTE_MS;
+
+    for (let index = alert.escalationStep; index < steps.length && steps[index].delayMinutes <= elapsedMinutes; index++) {
+      const { recipients, description } = await this.resolveStep(steps[index], now);
+      // Recorded before sending so a slow or failing delivery never repeats the step
+      await this.storage.recordAlertEscalation(
+        alert.id,
+        index + 1,
+        `Passo ${index + 1} de ${steps.length} da política "${policy.name}": ${description}`,
+      );
+      await this.notifications.escalate(alert, recipients);
+    }
+  }
+
+  private async resolveStep(step: EscalationStep, now: Date): Promise<{ recipients: EscalationRecipients; description: string }> {
+    const nobody = (description: string) => ({ recipients: { channels: [], users: [] }, description });
+
+    switch (step.targetType) {
+      case "schedule": {
+        const schedule = await this.storage.getOnCallSchedule(step.targetId);
+        if (!schedule) return nobody("escala de plantão removida");
+
+        const shift = onCallShift(schedule, await this.storage.getOnCallOverrides(schedule.id, now), now);
+        const user = shift ? await this.storage.getUser(shift.userId) : undefined;
+        if (!user || !user.isActive) return nobody(`escala "${schedule.name}" sem plantonista`);
+        return this.userStep(user, `plantão "${schedule.name}" (${userName(user)})`);
+      }
+
+      case "user": {
+        const user = await this.storage.getUser(step.targetId);
+        if (!user || !user.isActive) return nobody("usuário removido ou inativo");
+        return this.userStep(user, userName(user));
+      }
+
+      default: {
+        const channel = await this.storage.getNotificationChannel(step.targetId);
+        if (!channel) return nobody("canal removido");
+        if (!channel.isEnabled) return nobody(`canal "${channel.name}" desativado`);
+        return { recipients: { channels: [channel], users: [] }, description: `canal "${channel.name}"` };
+      }
+    }
+  }
+
+  private userStep(user: User, description: string) {
+    if (!user.email) return { recipients: { channels: [], users: [] }, description: `${description}, sem e-mail cadastrado` };
+    return { recipients: { channels: [], users: [user] }, description };
+  }
+}
+
+export { EscalationConfigError };
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { metricNames, type MetricBucket } from "@shared/schema";
+import { fitLinearTrend, forecastFromBuckets, formatTimeToSaturation } from "./forecasting";
+
+const HOUR_MS = 60 * 60_000;
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+// Hourly buckets ending at NOW where every metric averages the given value
+function hourlyBuckets(values: (number | null)[]): MetricBucket[] {
+  return values.map((value, index) => {
+    const bucket = {
+      timestamp: new Date(NOW.getTime() - (values.length - 1 - index) * HOUR_MS).toISOString(),
+      samples: value === null ? 0 : 1,
+    } as MetricBucket;
+    for (const metric of metricNames) {
+      bucket[metric] = { avg: value, min: value, max: value, p95: value };
+    }
+    return bucket;
+  });
+}
+
+function range(hours: number) {
+  return { from: new Date(NOW.getTime() - hours * HOUR_MS), to: NOW };
+}
+
+describe("fitLinearTrend", () => {
+  test("recovers an exact line", () => {
+    const fit = fitLinearTrend([0, 1, 2, 3].map(x => ({ x, y: 2 * x + 5 })))!;
+    assert.equal(fit.slope, 2);
+    assert.equal(fit.intercept, 5);
+    assert.equal(fit.r2, 1);
+  });
+
+  test("stays accurate on epoch-millisecond x values", () => {
+    const start = NOW.getTime();
+    const fit = fitLinearTrend([0, 1, 2].map(hour => ({ x: start + hour * HOUR_MS, y: 40 + hour })))!;
+    assert.ok(Math.abs(fit.slope * HOUR_MS - 1) < 1e-9);
+    assert.ok(Math.abs(fit.intercept + fit.slope * start - 40) < 1e-6);
+  });
+
+  test("reports a flat series as perfectly explained", () => {
+    assert.deepEqual(fitLinearTrend([{ x: 0, y: 7 }, { x: 1, y: 7 }]), { slope: 0, intercept: 7, r2: 1 });
+  });
+
+  test("lowers r2 for noisy points", () => {
+    const fit = fitLinearTrend([{ x: 0, y: 0 }, { x: 1, y: 10 }, { x: 2, y: 0 }, { x: 3, y: 10 }])!;
+    assert.ok(fit.r2 < 0.5);
+  });
+
+  test("needs two distinct x values", () => {
+    assert.equal(fitLinearTrend([{ x: 1, y: 1 }]), null);
+    assert.equal(fitLinearTrend([{ x: 1, y: 1 }, { x: 1, y: 2 }]), null);
+  });
+});
+
+describe("forecastFromBuckets", () => {
+  test("projects saturation for a growing series", () => {
+    // 1 point per hour from 50% to 73%, so 100% is 27 hours away
+    const values = Array.from({ length: 24 }, (_, hour) => 50 + hour);
+    const forecast = forecastFromBuckets("s1", "disk", hourlyBuckets(values), range(24));
+
+    assert.equal(forecast.trend, "growing");
+    assert.equal(forecast.samples, 24);
+    assert.ok(Math.abs(forecast.current! - 73) < 1e-6);
+    assert.ok(Math.abs(forecast.slopePerDay! - 24) < 1e-6);
+    assert.ok(Math.abs(forecast.hoursToSaturation! - 27) < 1e-6);
+    assert.equal(forecast.saturationAt, new Date(NOW.getTime() + 27 * HOUR_MS).toISOString());
+  });
+
+  test("calls slow growth stable and predicts nothing", () => {
+    const forecast = forecastFromBuckets("s1", "disk", hourlyBuckets(Array(24).fill(60)), range(24));
+    assert.equal(forecast.trend, "stable");
+    assert.equal(forecast.saturationAt, null);
+  });
+
+  test("ignores empty buckets and needs enough history", () => {
+    const sparse = hourlyBuckets([...Array(12).fill(null), ...Array.from({ length: 11 }, (_, hour) => 50 + hour)]);
+    const forecast = forecastFromBuckets("s1", "memory", sparse, range(24));
+    assert.equal(forecast.samples, 11);
+    assert.equal(forecast.trend, "insufficient_data");
+    assert.equal(forecast.current, null);
+  });
+
+  test("drops predictions more than a year out", () => {
+    // 0.2% a day from 10% would take well over a year
+    const values = Array.from({ length: 24 }, (_, hour) => 10 + (0.2 / 24) * hour);
+    const forecast = forecastFromBuckets("s1", "disk", hourlyBuckets(values), range(24));
+    assert.equal(forecast.trend, "growing");
+    assert.equal(forecast.hoursToSaturation, null);
+  });
+});
+
+describe("formatTimeToSaturation", () => {
+  test("uses hours up to two days, then days", () => {
+    assert.equal(formatTimeToSaturation(0.5), "menos de 1 hora");
+    assert.equal(formatTimeToSaturation(27.4), "~27 hora(s)");
+    assert.equal(formatTimeToSaturation(72), "~3 dia(s)");
+  });
+});
@@ -0,0 +1,196 @@
+import type { Alert, ForecastMetric, MetricBucket, MetricForecast, Server } from "@shared/schema";
+import { applyMetricsTier } from "./metrics-query";
+import { retentionDaysByTier } from "./metrics-retention";
+import type { MaintenanceService } from "./maintenance";
+import type { SettingsService } from "./settings";
+import type { IStorage } from "./storage";
+
+const FORECAST_INTERVAL_MS = 30 * 60_000;
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+const SATURATION_PERCENT = 100;
+
+// Disk grows over days, memory leaks show up within hours
+const FORECAST_WINDOWS: Record<ForecastMetric, { lookbackDays: number; stepSeconds: number }> = {
+  disk: { lookbackDays: 14, stepSeconds: 3600 },
+  memory: { lookbackDays: 3, stepSeconds: 900 },
+};
+
+const MIN_BUCKETS = 12;
+const MIN_SPAN_MS = 6 * HOUR_MS;
+// Slower growth than this is reported as stable
+const MIN_GROWTH_PER_DAY = 0.1;
+// Saturation further out than this is not a meaningful prediction
+const MAX_FORECAST_DAYS = 365;
+
+// Predictive alerts: opened within the horizon, resolved once the prediction moves past the resolve horizon
+const ALERT_HORIZON_DAYS = 7;
+const RESOLVE_HORIZON_DAYS = 10;
+// Noisy series fit a line poorly; don't page on them
+const MIN_ALERT_R2 = 0.5;
+
+const METRIC_LABELS: Record<ForecastMetric, string> = {
+  disk: "disco cheio",
+  memory: "memória saturada",
+};
+
+export type TrendFit = { slope: number; intercept: number; r2: number };
+
+/** Least-squares line through (x, y); x is centered on its mean to keep epoch milliseconds well conditioned. */
+export function fitLinearTrend(points: { x: number; y: number }[]): TrendFit | null {
+  if (points.length < 2) return null;
+
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const { x, y } of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    // A flat series is perfectly explained by a flat line
+    r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+  };
+}
+
+/** Fits the bucket averages of one metric and projects when the line reaches 100%. */
+export function forecastFromBuckets(
+  serverId: string,
+  metric: ForecastMetric,
+  buckets: MetricBucket[],
+  range: { from: Date; to: Date },
+): MetricForecast {
+  const points = buckets
+    .filter(bucket => bucket[metric].avg !== null)
+    .map(bucket => ({ x: new Date(bucket.timestamp).getTime(), y: bucket[metric].avg as number }));
+
+  const forecast: MetricForecast = {
+    serverId,
+    metric,
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    samples: points.length,
+    current: null,
+    slopePerDay: null,
+    r2: null,
+    trend: "insufficient_data",
+    saturationAt: null,
+    hoursToSaturation: null,
+  };
+
+  const fit = points.length >= MIN_BUCKETS && points[points.length - 1].x - points[0].x >= MIN_SPAN_MS
+    ? fitLinearTrend(points)
+    : null;
+  if (!fit) return forecast;
+
+  const now = range.to.getTime();
+  const current = Math.min(Math.max(fit.intercept + fit.slope * now, 0), SATURATION_PERCENT);
+  const slopePerDay = fit.slope * DAY_MS;
+  Object.assign(forecast, { current, slopePerDay, r2: fit.r2, trend: slopePerDay >= MIN_GROWTH_PER_DAY ? "growing" : "stable" });
+  if (forecast.trend !== "growing") return forecast;
+
+  const msToSaturation = ((SATURATION_PERCENT - current) / slopePerDay) * DAY_MS;
+  if (msToSaturation > MAX_FORECAST_DAYS * DAY_MS) return forecast;
+
+  forecast.saturationAt = new Date(now + msToSaturation).toISOString();
+  forecast.hoursToSaturation = msToSaturation / HOUR_MS;
+  return forecast;
+}
+
+export function formatTimeToSaturation(hours: number): string {
+  if (hours < 1) return "menos de 1 hora";
+  if (hours < 48) return `~${Math.round(hours)} hora(s)`;
+  return `~${Math.round(hours / 24)} dia(s)`;
+}
+
+/**
+ * Fits disk and memory trends over the metrics history and keeps one
+ * predictive warning per server and metric while saturation is forecast
+ * within ALERT_HORIZON_DAYS.
+ */
+export class CapacityForecaster {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly settings: SettingsService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  start() {
+    const tick = () => {
+      this.run().catch(error => console.error("Failed to run capacity forecasts:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, FORECAST_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async forecast(servers: Pick<Server, "id">[], now: Date = new Date()): Promise<MetricForecast[]> {
+    const serverIds = servers.map(server => server.id);
+    const forecasts: MetricForecast[] = [];
+
+    for (const metric of Object.keys(FORECAST_WINDOWS) as ForecastMetric[]) {
+      const { lookbackDays, stepSeconds } = FORECAST_WINDOWS[metric];
+      const range = applyMetricsTier(
+        { from: new Date(now.getTime() - lookbackDays * DAY_MS), to: now, stepSeconds },
+        retentionDaysByTier(this.settings.get()),
+        now,
+      );
+      const series = await this.storage.getMetricSeries(serverIds, range);
+      for (const serverId of serverIds) {
+        forecasts.push(forecastFromBuckets(serverId, metric, series.get(serverId) ?? [], range));
+      }
+    }
+    return forecasts;
+  }
+
+  async run(now: Date = new Date()): Promise<MetricForecast[]> {
+    const servers = (await this.storage.getServers()).filter(server => server.isActive);
+    const forecasts = await this.forecast(servers, now);
+
+    for (const forecast of forecasts) {
+      const openAlerts = (await this.storage.getServerAlerts(forecast.serverId))
+        .filter(alert => !alert.isResolved && alert.alertType === `${forecast.metric}_forecast`);
+      await this.updateAlert(forecast, openAlerts);
+    }
+    return forecasts;
+  }
+
+  private async updateAlert(forecast: MetricForecast, openAlerts: Alert[]) {
+    const hours = forecast.hoursToSaturation;
+
+    if (hours === null || hours > RESOLVE_HORIZON_DAYS * 24) {
+      for (const alert of openAlerts) {
+        await this.storage.resolveAlert(alert.id);
+      }
+      return;
+    }
+    if (openAlerts.length || hours > ALERT_HORIZON_DAYS * 24 || (forecast.r2 ?? 0) < MIN_ALERT_R2) return;
+
+    await this.maintenance.raise({
+      serverId: forecast.serverId,
+      alertType: `${forecast.metric}_forecast`,
+      severity: "warning",
+      message: `Previsão: ${METRIC_LABELS[forecast.metric]} em ${formatTimeToSaturation(hours)} ` +
+        `(${forecast.slopePerDay!.toFixed(1)} p.p./dia, estimado para ${new Date(forecast.saturationAt!).toLocaleDateString("pt-BR")})`,
+      threshold: SATURATION_PERCENT.toFixed(2),
+      currentValue: forecast.current!.toFixed(2),
+      isResolved: false,
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import {
+  alertSeverities,
+  type Alert,
+  type CorrelationRule,
+  type Incident,
+  type IncidentWithAlerts,
+  type InsertAlert,
+  type Server,
+} from "@shared/schema";
+import { alertBus } from "./alert-bus";
+import type { IStorage } from "./storage";
+
+const MINUTE_MS = 60_000;
+// Time-window rules group every alert together, so they share a single key
+const ANY_GROUP = "*";
+
+class ServerDependencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ServerDependencyError";
+  }
+}
+
+/** Top of the dependency chain `server` belongs to, e.g. the hypervisor of a VM. */
+export function dependencyRoot(server: Server, servers: Map<string, Server>): Server {
+  const visited = new Set<string>([server.id]);
+  let root = server;
+  while (root.parentServerId) {
+    const parent = servers.get(root.parentServerId);
+    // Cycles are rejected on save, but never loop on one that slipped through
+    if (!parent || visited.has(parent.id)) break;
+    visited.add(parent.id);
+    root = parent;
+  }
+  return root;
+}
+
+/** Keys an alert can be grouped under by `rule`; alerts sharing a key are related. */
+export function groupKeysFor(rule: CorrelationRule, server: Server | undefined, servers: Map<string, Server>): string[] {
+  switch (rule.groupBy) {
+    case "time_window":
+      return [ANY_GROUP];
+    case "tag":
+      return server && Array.isArray(server.tags) ? server.tags as string[] : [];
+    case "environment":
+      return server ? [server.environment] : [];
+    case "dependency":
+      return server ? [dependencyRoot(server, servers).id] : [];
+    default:
+      return [];
+  }
+}
+
+/** Alerts with the same fingerprint report the same problem, e.g. a flapping CPU alert. */
+export function alertFingerprint(alert: Pick<InsertAlert, "serverId" | "checkId" | "alertType" | "metric" | "ruleId">): string {
+  return [alert.serverId ?? alert.checkId, alert.alertType, alert.metric ?? alert.ruleId ?? ""].join(":");
+}
+
+function highestSeverity(severities: string[]): string {
+  const rank = (severity: string) => alertSeverities.indexOf(severity as typeof alertSeverities[number]);
+  return severities.reduce((highest, severity) => rank(severity) > rank(highest) ? severity : highest);
+}
+
+function incidentTitle(rule: CorrelationRule, key: string, servers: Map<string, Server>): string {
+  switch (rule.groupBy) {
+    case "tag":
+      return `Alertas relacionados à tag "${key}"`;
+    case "environment":
+      return `Alertas simultâneos no ambiente ${key}`;
+    case "dependency":
+      return `Falha em ${servers.get(key)?.name ?? key} e dependentes`;
+    default:
+      return "Alertas simultâneos";
+  }
+}
+
+/**
+ * Groups newly raised alerts into incidents. Each enabled correlation rule
+ * is tried oldest first: an alert joins an open incident of the same rule
+ * and group that saw an alert within the rule's window, or opens a new one
+ * once enough related alerts are waiting.
+ */
+export class IncidentCorrelator {
+  // Alerts are correlated one at a time so a burst never opens two incidents for one group
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storage: IStorage) {}
+
+  start() {
+    alertBus.onAlert("triggered", alert => {
+      this.queue = this.queue
+        .then(() => this.correlate(alert))
+        .catch(error => console.error("Failed to correlate alert:", error));
+    });
+  }
+
+  async getIncidentsWithAlerts(includeResolved: boolean = false): Promise<IncidentWithAlerts[]> {
+    const incidents = await this.storage.getIncidents(includeResolved);
+    return Promise.all(incidents.map(async incident => ({
+      ...incident,
+      alerts: await this.storage.getIncidentAlerts(incident.id),
+    })));
+  }
+
+  /** Rejects a parent that does not exist or would make the server depend on itself. */
+  async assertParentServer(serverId: string | undefined, parentServerId: string | null | undefined): Promise<void> {
+    if (!parentServerId) return;
+
+    const servers = new Map((await this.storage.getServers()).map(server => [server.id, server]));
+    const visited = new Set<string>();
+    let current = servers.get(parentServerId);
+    if (!current) throw new ServerDependencyError(`Unknown parent server ${parentServerId}`);
+    while (current && !visited.has(current.id)) {
+      if (current.id === serverId) throw new ServerDependencyError("A server cannot depend on itself or its dependents");
+      visited.add(current.id);
+      current = current.parentServerId ? servers.get(current.parentServerId) : undefined;
+    }
+  }
+
+  async correlate(alert: Alert, now: Date = new Date()): Promise<Incident | undefined> {
+    if (alert.incidentId) return undefined;
+
+    const rules = (await this.storage.getCorrelationRules()).filter(rule => rule.isEnabled);
+    if (!rules.length) return undefined;
+
+    const servers = new Map((await this.storage.getServers()).map(server => [server.id, server]));
+    const serverOf = (candidate: Alert) => candidate.serverId ? servers.get(candidate.serverId) : undefined;
+    const keys = new Map(rules.map(rule => [rule.id, groupKeysFor(rule, serverOf(alert), servers)]));
+
+    const incidents = await this.storage.getIncidents();
+    for (const rule of rules) {
+      const ruleKeys = keys.get(rule.id)!;
+      const windowStart = now.getTime() - rule.windowMinutes * MINUTE_MS;
+      const incident = incidents.find(candidate =>
+        candidate.correlationRuleId === rule.id &&
+        candidate.groupKey !== null &&
+        ruleKeys.includes(candidate.groupKey) &&
+        candidate.lastAlertAt.getTime() >= windowStart,
+      );
+      if (incident) return this.attach(incident, alert, now);
+    }
+
+    const waiting = (await this.storage.getActiveAlerts()).filter(candidate =>
+      candidate.id !== alert.id && !candidate.incidentId,
+    );
+    for (const rule of rules) {
+      const windowStart = now.getTime() - rule.windowMinutes * MINUTE_MS;
+      const recent = waiting.filter(candidate => candidate.createdAt.getTime() >= windowStart);
+      for (const key of keys.get(rule.id)!) {
+        const related = recent.filter(candidate => groupKeysFor(rule, serverOf(candidate), servers).includes(key));
+        if (related.length + 1 < rule.minAlerts) continue;
+
+        const grouped = [...related, alert];
+        return this.storage.createIncident({
+          title: incidentTitle(rule, key, servers),
+          severity: highestSeverity(grouped.map(candidate => candidate.severity)),
+          correlationRuleId: rule.id,
+          groupKey: key,
+          lastAlertAt: now,
+        }, grouped.map(candidate => candidate.id));
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Folds an alert about to be raised into an open incident's alert for the
+   * same problem, e.g. a flapping CPU alert, so it is counted there instead
+   * of being raised, notified and escalated again. Undefined when no
+   * incident has that problem.
+   */
+  async foldRepeat(alert: InsertAlert, now: Date = new Date()): Promise<Alert | undefined> {
+    const fingerprint = alertFingerprint(alert);
+    for (const incident of await this.storage.getIncidents()) {
+      const repeated = (await this.storage.getIncidentAlerts(incident.id))
+        .filter(candidate => alertFingerprint(candidate) === fingerprint)
+        .pop();
+      if (!repeated) continue;
+
+      return this.storage.repeatIncidentAlert(
+        repeated.id,
+        { severity: alert.severity, message: alert.message, threshold: alert.threshold, currentValue: alert.currentValue },
+        { severity: highestSeverity([incident.severity, alert.severity]), lastAlertAt: now },
+      );
+    }
+    return undefined;
+  }
+
+  private async attach(incident: Incident, alert: Alert, now: Date): Promise<Incident | undefined> {
+    return this.storage.attachAlertToIncident(
+      incident.id,
+      alert.id,
+      { severity: highestSeverity([incident.severity, alert.severity]), lastAlertAt: now },
+    );
+  }
+}
+
+export { ServerDependencyError };
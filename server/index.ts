@@ -1,10 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { dashboardMetrics } from "./prometheus";
 
 const app = express();
+// Agent batches get a larger limit; gzip/deflate bodies are inflated by the parser
+app.use("/api/ingest", express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+app.use(dashboardMetrics.observeHttpRequests());
 
 app.use((req, res, next) => {
   const start = Date.now();
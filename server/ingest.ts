@@ -0,0 +1,178 @@
+import { createHash, randomBytes } from "crypto";
+import type {
+  IngestBatch,
+  IngestResult,
+  IngestSample,
+  IngestSkipReason,
+  IngestToken,
+  InsertServerCustomMetric,
+  InsertTimedMetrics,
+  ServerMetrics,
+} from "@shared/schema";
+import type { AlertEvaluator } from "./alert-evaluator";
+import type { IStorage } from "./storage";
+
+const TOKEN_PREFIX = "hmi_";
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// Agent clocks may run a little ahead of ours
+const MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+class IngestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "IngestError";
+  }
+}
+
+export function hashIngestToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** New bearer token; only the hash and a short display prefix are persisted. */
+export function generateIngestToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashIngestToken(token), tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+function toDecimal(value: number | undefined): string | null {
+  return value === undefined ? null : value.toFixed(2);
+}
+
+type IndexedSample = { index: number; sample: IngestSample };
+
+/**
+ * Writes agent batches. Each server only accepts samples newer than its
+ * latest stored one, so a retried batch is skipped instead of duplicated.
+ * The newest stored sample of each server then goes through the alert rules,
+ * like a collector cycle would.
+ */
+export class MetricsIngestor {
+  // Batches for the same server run one after another so the watermark check can't race
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly evaluator: AlertEvaluator,
+  ) {}
+
+  async authenticate(authorization: string | undefined): Promise<IngestToken> {
+    if (!authorization?.startsWith("Bearer ")) {
+      throw new IngestError("Missing ingest token", 401);
+    }
+    const token = await this.storage.getIngestTokenByHash(hashIngestToken(authorization.slice("Bearer ".length).trim()));
+    if (!token || token.revokedAt) {
+      throw new IngestError("Invalid ingest token", 401);
+    }
+    return token;
+  }
+
+  async ingest(token: IngestToken, batch: IngestBatch, now: Date = new Date()): Promise<IngestResult> {
+    const byServer = new Map<string, IndexedSample[]>();
+    batch.samples.forEach((sample, index) => {
+      const serverId = sample.serverId ?? token.serverId;
+      if (!serverId) {
+        throw new IngestError(`samples[${index}].serverId is required for fleet tokens`, 400);
+      }
+      if (token.serverId && serverId !== token.serverId) {
+        throw new IngestError(`Token is not allowed to report for server ${serverId}`, 403);
+      }
+      byServer.set(serverId, [...(byServer.get(serverId) ?? []), { index, sample }]);
+    });
+
+    for (const serverId of Array.from(byServer.keys())) {
+      if (!(await this.storage.getServer(serverId))) {
+        throw new IngestError(`Server ${serverId} not found`, 404);
+      }
+    }
+
+    const results = await Promise.all(
+      Array.from(byServer.entries()).map(([serverId, samples]) =>
+        this.runExclusive(serverId, () => this.ingestServer(serverId, samples, now)),
+      ),
+    );
+    await this.storage.touchIngestToken(token.id, now);
+    await this.evaluateLatest(Array.from(byServer.keys()).filter((_serverId, index) => results[index].accepted > 0));
+
+    return {
+      accepted: results.reduce((sum, result) => sum + result.accepted, 0),
+      customMetrics: results.reduce((sum, result) => sum + result.customMetrics, 0),
+      skipped: results.flatMap(result => result.skipped).sort((a, b) => a.index - b.index),
+    };
+  }
+
+  private async ingestServer(serverId: string, samples: IndexedSample[], now: Date): Promise<IngestResult> {
+    const latest = await this.storage.getLatestServerMetrics(serverId);
+    let watermark = latest ? new Date(latest.timestamp).getTime() : -Infinity;
+
+    const metrics: InsertTimedMetrics[] = [];
+    const customMetrics: InsertServerCustomMetric[] = [];
+    const skipped: IngestResult["skipped"] = [];
+    const skip = ({ index, sample }: IndexedSample, reason: IngestSkipReason) => {
+      skipped.push({ index, serverId, timestamp: sample.timestamp.toISOString(), reason });
+    };
+
+    // Agents may flush a buffer in any order; only the stored watermark decides what is stale
+    const ordered = [...samples].sort((a, b) => a.sample.timestamp.getTime() - b.sample.timestamp.getTime());
+    for (const entry of ordered) {
+      const { sample } = entry;
+      const time = sample.timestamp.getTime();
+      if (time > now.getTime() + MAX_CLOCK_SKEW_MS) {
+        skip(entry, "future");
+        continue;
+      }
+      if (time <= watermark) {
+        skip(entry, time === watermark ? "duplicate" : "out_of_order");
+        continue;
+      }
+      watermark = time;
+
+      metrics.push({
+        serverId,
+        // Reaching us is what makes a pushed sample "online"
+        isOnline: true,
+        cpuUsage: toDecimal(sample.cpu),
+        memoryUsage: toDecimal(sample.memory),
+        diskUsage: toDecimal(sample.disk),
+        networkIn: toDecimal(sample.networkIn),
+        networkOut: toDecimal(sample.networkOut),
+        uptime: toDecimal(sample.uptime),
+        timestamp: sample.timestamp,
+      });
+      for (const [name, value] of Object.entries(sample.metrics ?? {})) {
+        customMetrics.push({ serverId, name, value, timestamp: sample.timestamp });
+      }
+      for (const point of sample.series ?? []) {
+        customMetrics.push({ serverId, name: point.name, labels: point.labels, value: point.value, timestamp: sample.timestamp });
+      }
+    }
+
+    if (metrics.length) {
+      await this.storage.createMetricsBatch(metrics, customMetrics);
+    }
+    return { accepted: metrics.length, customMetrics: customMetrics.length, skipped };
+  }
+
+  // Samples are already stored; a failing rule check must not make the agent retry the batch
+  private async evaluateLatest(serverIds: string[]) {
+    try {
+      const samples = await Promise.all(serverIds.map(serverId => this.storage.getLatestServerMetrics(serverId)));
+      await this.evaluator.evaluate(samples.filter((sample): sample is ServerMetrics => sample !== undefined));
+    } catch (error) {
+      console.error("Failed to evaluate alert rules for pushed metrics:", error);
+    }
+  }
+
+  private runExclusive<T>(serverId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(serverId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.queues.set(serverId, run);
+    run
+      .finally(() => {
+        if (this.queues.get(serverId) === run) this.queues.delete(serverId);
+      })
+      .catch(() => undefined);
+    return run;
+  }
+}
+
+export { IngestError };
@@ -0,0 +1,18 @@
+import { EventEmitter } from "events";
+import type { ServerLog } from "@shared/schema";
+
+/**
+ * In-process fan-out of new server_logs rows, in insertion order. Storage
+ * emits after the rows are persisted, so listeners always see stored rows.
+ */
+class LogBus extends EventEmitter {
+  emitLogs(logs: ServerLog[]): boolean {
+    return logs.length > 0 && this.emit("logs", logs);
+  }
+
+  onLogs(listener: (logs: ServerLog[]) => void): this {
+    return this.on("logs", listener);
+  }
+}
+
+export const logBus = new LogBus();
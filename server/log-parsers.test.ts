@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ServerLog } from "@shared/schema";
+import {
+  compileLogParser,
+  expandGrok,
+  LogFilterError,
+  LogParserError,
+  LogParserRegistry,
+  matchesLogFieldFilters,
+  normalizeLogLevel,
+  parseLogFieldFilters,
+} from "./log-parsers";
+import { MemStorage } from "./storage";
+
+function logWith(metadata: Record<string, unknown>): ServerLog {
+  return { metadata } as ServerLog;
+}
+
+describe("expandGrok", () => {
+  test("turns references into named groups and remembers field types", () => {
+    const { source, types, fields } = expandGrok("%{IPV4:client} %{INT:status:int} %{NUMBER:took:float}");
+    assert.equal(source, "(?<client>(?:\\d{1,3}\\.){3}\\d{1,3}) (?<status>[+-]?\\d+) (?<took>[+-]?(?:\\d+(?:\\.\\d+)?|\\.\\d+))");
+    assert.deepEqual(Array.from(types), [["status", "int"], ["took", "float"]]);
+    assert.deepEqual(Array.from(fields.values()), ["client", "status", "took"]);
+  });
+
+  test("leaves unnamed references uncaptured", () => {
+    assert.equal(expandGrok("%{WORD} %{WORD:verb}").source, "(?:\\b\\w+\\b) (?<verb>\\b\\w+\\b)");
+  });
+
+  test("maps dotted and dashed field names to valid group names", () => {
+    const { source, fields } = expandGrok("%{WORD:http.method} %{INT:2xx-count}");
+    assert.match(source, /\(\?<http_method>/);
+    assert.match(source, /\(\?<_2xx_count>/);
+    assert.equal(fields.get("http_method"), "http.method");
+  });
+
+  test("rejects unknown patterns and fields that collide after mapping", () => {
+    assert.throws(() => expandGrok("%{NOPE:x}"), LogParserError);
+    assert.throws(() => expandGrok("%{WORD:a.b} %{WORD:a-b}"), /too similar/);
+  });
+});
+
+describe("compileLogParser", () => {
+  test("parses grok lines into typed fields, level and message", () => {
+    const parser = compileLogParser({
+      name: "app",
+      kind: "grok",
+      pattern: "^%{TIMESTAMP_ISO8601:time} %{LOGLEVEL:level} \\[%{WORD:http.method}\\] %{INT:status:int} %{GREEDYDATA:msg}$",
+      levelField: "level",
+      messageField: "msg",
+    });
+
+    assert.deepEqual(parser.parse("2026-10-19T10:00:00Z WARN [GET] 503 upstream timed out"), {
+      parser: "app",
+      fields: { time: "2026-10-19T10:00:00Z", level: "WARN", "http.method": "GET", status: 503, msg: "upstream timed out" },
+      logLevel: "warning",
+      message: "upstream timed out",
+    });
+    assert.equal(parser.parse("not an app line"), null);
+  });
+
+  test("accepts plain regular expressions with named groups", () => {
+    const parser = compileLogParser({ name: "kv", kind: "regex", pattern: "user=(?<user>\\w+)" });
+    assert.deepEqual(parser.parse("login user=ana ok")!.fields, { user: "ana" });
+  });
+
+  test("rejects definitions that cannot work", () => {
+    assert.throws(() => compileLogParser({ name: "x", kind: "regex", pattern: "(" }), /Invalid pattern/);
+    assert.throws(() => compileLogParser({ name: "x", kind: "regex", pattern: "\\w+" }), /at least one named field/);
+    assert.throws(
+      () => compileLogParser({ name: "x", kind: "grok", pattern: "%{WORD:verb}", levelField: "level" }),
+      /"level" is not captured/,
+    );
+  });
+});
+
+describe("built-in parsers", () => {
+  const registry = new LogParserRegistry(new MemStorage());
+
+  test("reads nginx access lines with timings and their timestamp", () => {
+    const parsed = registry.get("nginx")!.parse(
+      "10.0.0.7 - - [19/Oct/2026:10:00:00 +0200] \"GET /api/servers HTTP/1.1\" 502 157 \"-\" \"curl/8.0\" rt=0.512 urt=\"0.500\"",
+    )!;
+
+    assert.equal(parsed.parser, "nginx-access");
+    assert.equal(parsed.logLevel, "error");
+    assert.deepEqual(parsed.timestamp, new Date("2026-10-19T08:00:00Z"));
+    assert.deepEqual(parsed.fields, {
+      client_ip: "10.0.0.7",
+      time: "19/Oct/2026:10:00:00 +0200",
+      method: "GET",
+      path: "/api/servers",
+      protocol: "HTTP/1.1",
+      status: 502,
+      bytes: 157,
+      user_agent: "curl/8.0",
+      request_time: 0.512,
+      upstream_time: 0.5,
+    });
+  });
+
+  test("finds parsers by alias and ignores case", () => {
+    assert.equal(registry.get("HTTPD")!.name, "apache");
+    assert.equal(registry.get("postgres")!.name, "postgresql");
+    assert.equal(registry.get("unknown"), undefined);
+  });
+
+  test("maps PostgreSQL severities and durations", () => {
+    const parsed = registry.get("postgresql")!.parse("2026-10-19 10:00:00.123 UTC [4242] ERROR:  relation \"x\" does not exist")!;
+    assert.equal(parsed.logLevel, "error");
+    assert.equal(parsed.fields.pid, 4242);
+    assert.deepEqual(parsed.timestamp, new Date("2026-10-19T10:00:00.123Z"));
+  });
+});
+
+describe("normalizeLogLevel", () => {
+  test("folds daemon level words into the four log levels", () => {
+    assert.deepEqual(["EMERG", "crit", "Error", "warn", "WARNING", "notice", "trace", "FINE"].map(normalizeLogLevel), [
+      "error", "error", "error", "warning", "warning", "info", "debug", "debug",
+    ]);
+  });
+});
+
+describe("parseLogFieldFilters", () => {
+  test("splits terms on spaces, keeping quoted values together", () => {
+    assert.deepEqual(parseLogFieldFilters("status>=500 path~^/api user_agent=\"curl 8\" method!=GET"), [
+      { field: "status", operator: ">=", value: "500" },
+      { field: "path", operator: "~", value: "^/api" },
+      { field: "user_agent", operator: "=", value: "curl 8" },
+      { field: "method", operator: "!=", value: "GET" },
+    ]);
+  });
+
+  test("rejects malformed terms and too many filters", () => {
+    assert.throws(() => parseLogFieldFilters("status"), LogFilterError);
+    assert.throws(() => parseLogFieldFilters("1status=5"), LogFilterError);
+    assert.throws(() => parseLogFieldFilters(Array(11).fill("a=1").join(" ")), /At most 10/);
+  });
+
+  test("only accepts regular expressions Postgres reads the same way", () => {
+    assert.doesNotThrow(() => parseLogFieldFilters("path~^/api/(v1|v2)/\\w+$"));
+    for (const pattern of ["(a+)+$", "(?=x)", "(?<name>x)", "\\p{L}", "\\1", "[[:alpha:]]", "a{300}", "a*b*c*d*", "("]) {
+      assert.throws(() => parseLogFieldFilters(`path~${pattern}`), LogFilterError, pattern);
+    }
+  });
+});
+
+describe("matchesLogFieldFilters", () => {
+  const log = logWith({ status: 503, path: "/api/servers", method: "GET", took: "1.5", headers: { host: "x" } });
+
+  test("compares numbers numerically and strings exactly", () => {
+    assert.equal(matchesLogFieldFilters(log, parseLogFieldFilters("status>=500 method=GET")), true);
+    assert.equal(matchesLogFieldFilters(log, parseLogFieldFilters("status<500")), false);
+    assert.equal(matchesLogFieldFilters(log, parseLogFieldFilters("took>1.25")), true);
+    assert.equal(matchesLogFieldFilters(log, parseLogFieldFilters("method!=POST path~^/api/")), true);
+  });
+
+  test("never matches missing, structured or non-numeric fields against numbers", () => {
+    assert.equal(matchesLogFieldFilters(log, parseLogFieldFilters("user=ana")), false);
+    assert.equal(matchesLogFieldFilters(log, parseLogFieldFilters("headers=x")), false);
+    assert.equal(matchesLogFieldFilters(log, parseLogFieldFilters("method>5")), false);
+    assert.equal(matchesLogFieldFilters(logWith({}), []), true);
+  });
+});
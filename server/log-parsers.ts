@@ -0,0 +1,677 @@
+import {
+  logFieldOperators,
+  type BuiltInLogParser,
+  type LogFieldFilter,
+  type LogFieldOperator,
+  type LogParser,
+  type ParsedLogFields,
+  type ServerLog,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { syslogLogLevel } from "./syslog";
+
+// Custom parsers are reloaded this often, or right after one changes
+const CACHE_TTL_MS = 30_000;
+const MAX_FIELD_FILTERS = 10;
+const MAX_FIELD_PATTERN_LENGTH = 200;
+// "*", "+" and "{n,}" multiply backtracking; bounded repeats stay within Postgres' 255 limit
+const MAX_FIELD_PATTERN_UNBOUNDED = 3;
+const MAX_FIELD_PATTERN_REPEAT = 255;
+const NUMERIC_VALUE = /^-?\d+(\.\d+)?$/;
+
+class LogParserError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogParserError";
+  }
+}
+
+class LogFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogFilterError";
+  }
+}
+
+export interface StructuredLogParser {
+  name: string;
+  parse(line: string): ParsedLogFields | null;
+}
+
+type Fields = Record<string, string | number>;
+
+function isNumericValue(value: string): boolean {
+  return NUMERIC_VALUE.test(value);
+}
+
+// Drops "-" placeholders and turns numeric strings into numbers so filters like status>=500 compare numerically
+function compactFields(fields: Record<string, string | number | null | undefined>): Fields {
+  const compacted: Fields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || value === null || value === "" || value === "-") continue;
+    compacted[key] = typeof value === "string" && isNumericValue(value) ? Number(value) : value;
+  }
+  return compacted;
+}
+
+/** Maps the level words used by common daemons and frameworks onto logLevel. */
+export function normalizeLogLevel(value: string): string {
+  const level = value.trim().toLowerCase();
+  if (/^(emerg|alert|crit|err|fatal|panic|severe)/.test(level)) return "error";
+  if (/^warn/.test(level)) return "warning";
+  if (/^(debug|trace|fine)/.test(level)) return "debug";
+  return "info";
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+// "19/Oct/2026:10:00:00 +0000" in access logs, "Sun Oct 19 10:00:00.123456 2026" in Apache's error log
+const ACCESS_LOG_TIME = /^(\d{2})\/([A-Z][a-z]{2})\/(\d{4}):(\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/;
+const APACHE_ERROR_TIME = /^[A-Z][a-z]{2} ([A-Z][a-z]{2}) +(\d{1,2}) (\d{2}:\d{2}:\d{2})(\.\d{1,3})?\d* (\d{4})$/;
+
+function month(name: string): string {
+  return String(MONTHS.indexOf(name) + 1).padStart(2, "0");
+}
+
+/**
+ * Reads an ISO-like timestamp; without a zone it is taken as local time,
+ * which is right as long as the monitored host shares HosMonitor's zone.
+ */
+function logTime(iso: string): Date | undefined {
+  const time = new Date(iso);
+  return Number.isNaN(time.getTime()) ? undefined : time;
+}
+
+function accessLogTime(time: string): Date | undefined {
+  const match = ACCESS_LOG_TIME.exec(time);
+  return match ? logTime(`${match[3]}-${month(match[2])}-${match[1]}T${match[4]}${match[5]}:${match[6]}`) : undefined;
+}
+
+function apacheErrorTime(time: string): Date | undefined {
+  const match = APACHE_ERROR_TIME.exec(time);
+  return match ? logTime(`${match[5]}-${month(match[1])}-${match[2].padStart(2, "0")}T${match[3]}${match[4] ?? ""}`) : undefined;
+}
+
+// "2026-10-19 10:00:00.123 UTC" or "... +02"; other zone names are ambiguous and read as local time
+function postgresTime(time: string): Date | undefined {
+  const [date, clock, zone = ""] = time.split(/ |(?=[+-]\d{2}$)/);
+  const offset = /^(UTC|GMT)$/.test(zone) ? "Z" : /^[+-]\d{2}$/.test(zone) ? `${zone}:00` : "";
+  return logTime(`${date}T${clock}${offset}`);
+}
+
+function httpStatusLevel(status: number): string {
+  if (status >= 500) return "error";
+  if (status >= 400) return "warning";
+  return "info";
+}
+
+// ---- Built-in parsers ----
+
+// Common/combined access log, shared by nginx and Apache; anything after the user agent is read as key=value pairs
+const ACCESS_LOG = /^(\S+) \S+ (\S+) \[([^\]]+)\] "(\S+) (\S+)(?: (HTTP\/[\d.]+))?" (\d{3}) (\d+|-)(?: "([^"]*)" "([^"]*)")?(.*)$/;
+const KEY_VALUE = /(\w+)=("[^"]*"|\S+)/g;
+// Timing variables people usually append to log_format, under the names this repo filters on
+const ACCESS_TIMINGS: Record<string, string> = {
+  rt: "request_time",
+  request_time: "request_time",
+  urt: "upstream_time",
+  upstream_response_time: "upstream_time",
+  uct: "upstream_connect_time",
+  upstream_connect_time: "upstream_connect_time",
+};
+
+function parseAccessLog(parser: string, source: string, line: string): ParsedLogFields | null {
+  const match = ACCESS_LOG.exec(line);
+  if (!match) return null;
+  const [, clientIp, user, time, method, path, protocol, status, bytes, referer, userAgent, extra] = match;
+
+  const fields = compactFields({
+    client_ip: clientIp,
+    user,
+    time,
+    method,
+    path,
+    protocol,
+    status,
+    bytes,
+    referer,
+    user_agent: userAgent,
+  });
+  for (const [, key, value] of Array.from(extra.matchAll(KEY_VALUE))) {
+    const name = ACCESS_TIMINGS[key];
+    if (name) Object.assign(fields, compactFields({ [name]: value.replace(/^"|"$/g, "") }));
+  }
+  return { parser, fields, logLevel: httpStatusLevel(Number(status)), logSource: source, timestamp: accessLogTime(time) };
+}
+
+const NGINX_ERROR = /^(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}) \[(\w+)\] (\d+)#(\d+): (?:\*(\d+) )?(.*)$/;
+// Context nginx appends to error lines: ", client: 1.2.3.4, server: example.com, request: "GET / HTTP/1.1""
+const NGINX_ERROR_CONTEXT = /, (client|server|request|upstream|host): ("[^"]*"|[^,]+)/g;
+
+function parseNginx(line: string): ParsedLogFields | null {
+  const access = parseAccessLog("nginx-access", "nginx", line);
+  if (access) return access;
+
+  const match = NGINX_ERROR.exec(line);
+  if (!match) return null;
+  const [, time, severity, pid, , connection, text] = match;
+  const context: Record<string, string> = {};
+  for (const [, key, value] of Array.from(text.matchAll(NGINX_ERROR_CONTEXT))) {
+    context[key === "client" ? "client_ip" : key] = value.replace(/^"|"$/g, "");
+  }
+  const contextStart = text.search(NGINX_ERROR_CONTEXT);
+  return {
+    parser: "nginx-error",
+    fields: compactFields({ time, severity, pid, connection, ...context }),
+    logLevel: normalizeLogLevel(severity),
+    logSource: "nginx",
+    message: contextStart === -1 ? text : text.slice(0, contextStart),
+    timestamp: logTime(time.replace(/\//g, "-").replace(" ", "T")),
+  };
+}
+
+const APACHE_ERROR = /^\[([^\]]+)\] \[(?:([\w-]+):)?(\w+)\] \[pid (\d+)(?::tid \d+)?\](?: \[client ([^\]]+)\])? (?:(AH\d+): )?(.*)$/;
+
+function parseApache(line: string): ParsedLogFields | null {
+  const access = parseAccessLog("apache-access", "apache", line);
+  if (access) return access;
+
+  const match = APACHE_ERROR.exec(line);
+  if (!match) return null;
+  const [, time, module, severity, pid, client, errorCode, text] = match;
+  return {
+    parser: "apache-error",
+    fields: compactFields({
+      time,
+      module,
+      severity,
+      pid,
+      // "[client 1.2.3.4:51234]": the port is of no use for filtering
+      client_ip: client?.replace(/:\d+$/, ""),
+      error_code: errorCode,
+    }),
+    logLevel: normalizeLogLevel(severity),
+    logSource: "apache",
+    message: text,
+    timestamp: apacheErrorTime(time),
+  };
+}
+
+// Default log_line_prefix "%m [%p] ", optionally followed by "%u@%d "
+const POSTGRES_LINE = /^(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?(?: [A-Z]{2,5}|[+-]\d{2})?) \[(\d+)(?:-\d+)?\] (?:(\S+)@(\S+) )?(DEBUG\d?|LOG|INFO|NOTICE|WARNING|ERROR|FATAL|PANIC|STATEMENT|DETAIL|HINT|CONTEXT):\s+(.*)$/;
+// log_min_duration_statement output
+const POSTGRES_DURATION = /^duration: ([\d.]+) ms(?:\s+(?:statement|(?:execute|bind|parse) [^:]*): (.*))?$/;
+
+function parsePostgres(line: string): ParsedLogFields | null {
+  const match = POSTGRES_LINE.exec(line);
+  if (!match) return null;
+  const [, time, pid, user, database, severity, text] = match;
+  const duration = POSTGRES_DURATION.exec(text);
+  return {
+    parser: duration ? "postgresql-slow-query" : "postgresql",
+    fields: compactFields({
+      time,
+      pid,
+      user,
+      database,
+      severity,
+      duration_ms: duration?.[1],
+      statement: duration?.[2] ?? (severity === "STATEMENT" ? text : undefined),
+    }),
+    logLevel: normalizeLogLevel(severity === "LOG" || severity === "STATEMENT" ? "info" : severity),
+    logSource: "postgresql",
+    timestamp: postgresTime(time),
+  };
+}
+
+const MYSQL_ERROR = /^(\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?) (\d+) \[(\w+)\] (?:\[(MY-\d+)\] )?(?:\[(\w+)\] )?(.*)$/;
+const MYSQL_SLOW_TIMES = /^# Query_time: ([\d.]+)\s+Lock_time: ([\d.]+)\s+Rows_sent: (\d+)\s+Rows_examined: (\d+)/;
+const MYSQL_SLOW_USER = /^# User@Host: (\S+?)\[[^\]]*\] @ (\S*) \[([^\]]*)\]/;
+
+function parseMysql(line: string): ParsedLogFields | null {
+  const error = MYSQL_ERROR.exec(line);
+  if (error) {
+    const [, time, thread, severity, errorCode, subsystem, text] = error;
+    return {
+      parser: "mysql-error",
+      fields: compactFields({ time, thread, severity, error_code: errorCode, subsystem }),
+      logLevel: normalizeLogLevel(severity),
+      logSource: "mysql",
+      message: text,
+      timestamp: logTime(time),
+    };
+  }
+
+  // The slow query log spreads one entry over several lines; only the header lines carry fields
+  const times = MYSQL_SLOW_TIMES.exec(line);
+  if (times) {
+    return {
+      parser: "mysql-slow-query",
+      fields: compactFields({ query_time: times[1], lock_time: times[2], rows_sent: times[3], rows_examined: times[4] }),
+      logSource: "mysql",
+    };
+  }
+  const user = MYSQL_SLOW_USER.exec(line);
+  if (user) {
+    return {
+      parser: "mysql-slow-query",
+      fields: compactFields({ user: user[1], host: user[2] || user[3] }),
+      logSource: "mysql",
+    };
+  }
+  return null;
+}
+
+// `journalctl -o json`: one JSON object per line with the journal's own field names
+function parseJournald(line: string): ParsedLogFields | null {
+  if (!line.startsWith("{")) return null;
+  let entry: Record<string, unknown>;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (typeof entry !== "object" || entry === null) return null;
+
+  const text = (value: unknown) => typeof value === "string" ? value : undefined;
+  // Messages with non-UTF-8 bytes are exported as arrays of byte values
+  const message = Array.isArray(entry.MESSAGE)
+    ? Buffer.from(entry.MESSAGE as number[]).toString("utf-8")
+    : text(entry.MESSAGE);
+  const priority = text(entry.PRIORITY);
+  const identifier = text(entry.SYSLOG_IDENTIFIER) ?? text(entry._COMM);
+  // Microseconds since the epoch
+  const realtime = text(entry.__REALTIME_TIMESTAMP);
+
+  return {
+    parser: "journald",
+    fields: compactFields({
+      unit: text(entry._SYSTEMD_UNIT),
+      identifier,
+      pid: text(entry._PID),
+      hostname: text(entry._HOSTNAME),
+      priority,
+      transport: text(entry._TRANSPORT),
+    }),
+    logLevel: priority !== undefined && isNumericValue(priority) ? syslogLogLevel(Number(priority)) : undefined,
+    logSource: identifier,
+    message,
+    timestamp: realtime && /^\d+$/.test(realtime) ? new Date(Math.floor(Number(realtime) / 1000)) : undefined,
+  };
+}
+
+type BuiltInDefinition = BuiltInLogParser & { aliases: string[]; parse: (line: string) => ParsedLogFields | null };
+
+const BUILT_IN_PARSERS: BuiltInDefinition[] = [
+  {
+    logType: "nginx",
+    aliases: [],
+    name: "Nginx (access e error log)",
+    description: "Formato combined, com request_time/upstream_response_time opcionais, e o error log.",
+    fields: ["client_ip", "method", "path", "status", "bytes", "user_agent", "request_time", "upstream_time", "severity"],
+    parse: parseNginx,
+  },
+  {
+    logType: "apache",
+    aliases: ["httpd"],
+    name: "Apache (access e error log)",
+    description: "Formatos common/combined e o error log do Apache 2.4.",
+    fields: ["client_ip", "method", "path", "status", "bytes", "user_agent", "module", "severity", "error_code"],
+    parse: parseApache,
+  },
+  {
+    logType: "postgresql",
+    aliases: ["postgres"],
+    name: "PostgreSQL",
+    description: "Prefixo padrão \"%m [%p] \" e consultas lentas de log_min_duration_statement.",
+    fields: ["pid", "user", "database", "severity", "duration_ms", "statement"],
+    parse: parsePostgres,
+  },
+  {
+    logType: "mysql",
+    aliases: ["mariadb"],
+    name: "MySQL / MariaDB",
+    description: "Error log e cabeçalhos do slow query log.",
+    fields: ["thread", "severity", "error_code", "subsystem", "query_time", "lock_time", "rows_sent", "rows_examined"],
+    parse: parseMysql,
+  },
+  {
+    logType: "journald",
+    aliases: ["journal"],
+    name: "journald (JSON)",
+    description: "Saída de journalctl -o json, uma entrada por linha.",
+    fields: ["unit", "identifier", "pid", "hostname", "priority", "transport"],
+    parse: parseJournald,
+  },
+];
+
+// ---- User-defined parsers ----
+
+const GROK_PATTERNS: Record<string, string> = {
+  WORD: "\\b\\w+\\b",
+  NOTSPACE: "\\S+",
+  SPACE: "\\s*",
+  DATA: ".*?",
+  GREEDYDATA: ".*",
+  INT: "[+-]?\\d+",
+  POSINT: "\\b[1-9]\\d*\\b",
+  NUMBER: "[+-]?(?:\\d+(?:\\.\\d+)?|\\.\\d+)",
+  IPV4: "(?:\\d{1,3}\\.){3}\\d{1,3}",
+  IPV6: "[0-9A-Fa-f]*:[0-9A-Fa-f:.]+",
+  IP: "(?:(?:\\d{1,3}\\.){3}\\d{1,3}|[0-9A-Fa-f]*:[0-9A-Fa-f:.]+)",
+  HOSTNAME: "\\b[0-9A-Za-z][0-9A-Za-z-]{0,62}(?:\\.[0-9A-Za-z][0-9A-Za-z-]{0,62})*\\.?\\b",
+  USERNAME: "[a-zA-Z0-9._-]+",
+  UUID: "[A-Fa-f0-9]{8}-(?:[A-Fa-f0-9]{4}-){3}[A-Fa-f0-9]{12}",
+  URIPATH: "(?:/[^\\s?#]*)+",
+  URIPATHPARAM: "(?:/[^\\s?#]*)+(?:\\?[^\\s#]*)?",
+  QUOTEDSTRING: "\"(?:[^\"\\\\]|\\\\.)*\"",
+  QS: "\"(?:[^\"\\\\]|\\\\.)*\"",
+  LOGLEVEL: "(?:[Aa]lert|ALERT|[Tt]race|TRACE|[Dd]ebug|DEBUG|[Nn]otice|NOTICE|[Ii]nfo|INFO|[Ww]arn(?:ing)?|WARN(?:ING)?|[Ee]rr(?:or)?|ERR(?:OR)?|[Cc]rit(?:ical)?|CRIT(?:ICAL)?|[Ff]atal|FATAL|[Ss]evere|SEVERE|[Ee]merg(?:ency)?|EMERG(?:ENCY)?)",
+  TIMESTAMP_ISO8601: "\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(?::\\d{2}(?:[.,]\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?",
+  HTTPDATE: "\\d{2}/\\w{3}/\\d{4}:\\d{2}:\\d{2}:\\d{2} [+-]\\d{4}",
+  SYSLOGTIMESTAMP: "\\w{3} +\\d{1,2} \\d{2}:\\d{2}:\\d{2}",
+};
+const GROK_REFERENCE = /%\{(\w+)(?::([\w.-]+))?(?::(int|float))?\}/g;
+
+export const grokPatternNames = Object.keys(GROK_PATTERNS);
+
+// Grok field names may contain dots or dashes, which named groups do not allow;
+// the group name stays internal and fields are stored under the name the user wrote
+function groupName(field: string): string {
+  const name = field.replace(/[^\w]/g, "_");
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Turns %{PATTERN:field[:int|float]} references into a regular expression
+ * with named groups. `fields` maps each group back to the field name.
+ */
+export function expandGrok(pattern: string): {
+  source: string;
+  types: Map<string, "int" | "float">;
+  fields: Map<string, string>;
+} {
+  const types = new Map<string, "int" | "float">();
+  const fields = new Map<string, string>();
+  const source = pattern.replace(GROK_REFERENCE, (_reference, name: string, field?: string, type?: "int" | "float") => {
+    const expression = GROK_PATTERNS[name];
+    if (!expression) throw new LogParserError(`Unknown grok pattern %{${name}}`);
+    if (!field) return `(?:${expression})`;
+    const group = groupName(field);
+    const existing = fields.get(group);
+    if (existing !== undefined && existing !== field) {
+      throw new LogParserError(`Fields "${existing}" and "${field}" are too similar, rename one of them`);
+    }
+    fields.set(group, field);
+    if (type) types.set(group, type);
+    return `(?<${group}>${expression})`;
+  });
+  return { source, types, fields };
+}
+
+/** Compiles a user-defined parser; throws LogParserError when the definition cannot work. */
+export function compileLogParser(
+  definition: Pick<LogParser, "name" | "kind" | "pattern"> & Partial<Pick<LogParser, "levelField" | "messageField">>,
+): StructuredLogParser {
+  const { source, types, fields: fieldNames } = definition.kind === "grok"
+    ? expandGrok(definition.pattern)
+    : { source: definition.pattern, types: new Map<string, "int" | "float">(), fields: new Map<string, string>() };
+
+  let expression: RegExp;
+  try {
+    expression = new RegExp(source);
+  } catch (error) {
+    throw new LogParserError(`Invalid pattern: ${(error as Error).message}`);
+  }
+
+  const groups = Array.from(source.matchAll(/\(\?<([A-Za-z_]\w*)>/g), match => match[1]);
+  if (!groups.length) throw new LogParserError("Pattern must capture at least one named field");
+  for (const field of [definition.levelField, definition.messageField]) {
+    if (field && !groups.includes(groupName(field))) {
+      throw new LogParserError(`Field "${field}" is not captured by the pattern`);
+    }
+  }
+  const levelField = definition.levelField ? groupName(definition.levelField) : null;
+  const messageField = definition.messageField ? groupName(definition.messageField) : null;
+
+  return {
+    name: definition.name,
+    parse(line: string) {
+      const match = expression.exec(line);
+      if (!match?.groups) return null;
+
+      const fields: Fields = {};
+      for (const [name, value] of Object.entries(match.groups)) {
+        if (value === undefined) continue;
+        const type = types.get(name);
+        const number = type === "int" ? parseInt(value, 10) : type === "float" ? parseFloat(value) : NaN;
+        fields[fieldNames.get(name) ?? name] = Number.isNaN(number) ? value : number;
+      }
+      return {
+        parser: definition.name,
+        fields,
+        logLevel: levelField && match.groups[levelField] ? normalizeLogLevel(match.groups[levelField]) : undefined,
+        message: messageField ? match.groups[messageField] : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Parsers by logType: the built-ins plus enabled user-defined parsers,
+ * which take precedence over a built-in of the same logType.
+ */
+export class LogParserRegistry {
+  private custom = new Map<string, StructuredLogParser>();
+  private loadedAt = 0;
+
+  constructor(private readonly storage: IStorage) {}
+
+  builtIns(): BuiltInLogParser[] {
+    return BUILT_IN_PARSERS.map(({ logType, name, description, fields }) => ({ logType, name, description, fields }));
+  }
+
+  /** Reloads user-defined parsers when the cache is stale; call before a batch of `get`. */
+  async refresh(now: number = Date.now()): Promise<void> {
+    if (now - this.loadedAt < CACHE_TTL_MS) return;
+
+    const custom = new Map<string, StructuredLogParser>();
+    for (const parser of await this.storage.getLogParsers()) {
+      if (!parser.isEnabled) continue;
+      try {
+        custom.set(parser.logType, compileLogParser(parser));
+      } catch (error) {
+        console.warn(`Skipping log parser ${parser.name}: ${(error as Error).message}`);
+      }
+    }
+    this.custom = custom;
+    this.loadedAt = now;
+  }
+
+  invalidate() {
+    this.loadedAt = 0;
+  }
+
+  get(logType: string): StructuredLogParser | undefined {
+    const key = logType.trim().toLowerCase();
+    const custom = this.custom.get(key);
+    if (custom) return custom;
+
+    const builtIn = BUILT_IN_PARSERS.find(parser => parser.logType === key || parser.aliases.includes(key));
+    return builtIn && { name: builtIn.logType, parse: builtIn.parse };
+  }
+}
+
+// ---- Field filters ----
+
+const FILTER_TERM = /^([A-Za-z_][\w.-]*)(>=|<=|!=|=|>|<|~)(.+)$/;
+// Escapes that mean the same to JavaScript and to Postgres regular expressions
+const PORTABLE_ESCAPES = new Set("dDsSwWtnr.\\/-^$|?*+()[]{}".split(""));
+const REPEAT_BOUNDS = /^\{(\d+)(,(\d*))?\}/;
+
+/**
+ * `~` patterns run in Postgres for queries and in-process for the live tail,
+ * so only the subset both engines read the same way is accepted: no
+ * lookaround, named groups, backreferences, Unicode classes or POSIX
+ * brackets. A quantified group may not contain a quantifier or an
+ * alternation, which rules out catastrophic backtracking like "(a+)+$".
+ */
+function assertPortableFieldPattern(pattern: string, term: string) {
+  const invalid = (reason: string) => new LogFilterError(`${reason} in "${term}"`);
+  if (pattern.length > MAX_FIELD_PATTERN_LENGTH) {
+    throw invalid(`Regular expressions are limited to ${MAX_FIELD_PATTERN_LENGTH} characters`);
+  }
+
+  const groups: { quantified: boolean; alternation: boolean }[] = [{ quantified: false, alternation: false }];
+  let unbounded = 0;
+  let afterAtom = false; // a quantifier may follow
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const group = groups[groups.length - 1];
+
+    if (char === "\\") {
+      const escaped = pattern[++index];
+      if (escaped === undefined || !PORTABLE_ESCAPES.has(escaped)) throw invalid(`Unsupported escape "\\${escaped ?? ""}"`);
+      afterAtom = true;
+      continue;
+    }
+
+    switch (char) {
+      case "[": {
+        let end = index + 1;
+        if (pattern[end] === "^") end++;
+        if (pattern[end] === "]") throw invalid("Character classes cannot start with \"]\"");
+        for (; end < pattern.length && pattern[end] !== "]"; end++) {
+          if (pattern[end] === "[") throw invalid("Nested brackets are not supported");
+          if (pattern[end] === "\\") {
+            if (!PORTABLE_ESCAPES.has(pattern[end + 1])) throw invalid(`Unsupported escape "\\${pattern[end + 1] ?? ""}"`);
+            end++;
+          }
+        }
+        index = end;
+        afterAtom = true;
+        break;
+      }
+      case "(":
+        if (pattern[index + 1] === "?") {
+          if (pattern[index + 2] !== ":") throw invalid("Only (?:...) groups are supported");
+          index += 2;
+        }
+        groups.push({ quantified: false, alternation: false });
+        afterAtom = false;
+        break;
+      case ")": {
+        if (groups.length === 1) throw invalid("Unbalanced parenthesis");
+        const closed = groups.pop()!;
+        const parent = groups[groups.length - 1];
+        const next = pattern[index + 1];
+        if (next && "*+?{".includes(next) && (closed.quantified || closed.alternation)) {
+          throw invalid("Repeated groups cannot contain quantifiers or alternatives");
+        }
+        parent.quantified ||= closed.quantified;
+        afterAtom = true;
+        break;
+      }
+      case "|":
+        group.alternation = true;
+        afterAtom = false;
+        break;
+      case "*":
+      case "+":
+      case "?":
+      case "{": {
+        if (!afterAtom) {
+          // "+?" and "*?" are lazy forms of the quantifier just read
+          if (char === "?" && "*+?}".includes(pattern[index - 1] ?? "")) continue;
+          throw invalid(`Nothing to repeat before "${char}"`);
+        }
+        let isUnbounded = char !== "?";
+        if (char === "{") {
+          const bounds = REPEAT_BOUNDS.exec(pattern.slice(index));
+          if (!bounds) throw invalid("Use {n}, {n,} or {n,m} for repeats");
+          const max = bounds[2] === undefined ? Number(bounds[1]) : bounds[3] ? Number(bounds[3]) : Infinity;
+          if (Number(bounds[1]) > MAX_FIELD_PATTERN_REPEAT || (max !== Infinity && max > MAX_FIELD_PATTERN_REPEAT)) {
+            throw invalid(`Repeat counts are limited to ${MAX_FIELD_PATTERN_REPEAT}`);
+          }
+          isUnbounded = max === Infinity;
+          index += bounds[0].length - 1;
+        }
+        if (isUnbounded && ++unbounded > MAX_FIELD_PATTERN_UNBOUNDED) {
+          throw invalid(`At most ${MAX_FIELD_PATTERN_UNBOUNDED} unbounded repeats are allowed`);
+        }
+        group.quantified = true;
+        afterAtom = false;
+        break;
+      }
+      default:
+        afterAtom = true;
+    }
+  }
+}
+
+/** Parses "status>=500 path~^/api method=\"GET\"" into filters on parsed metadata fields. */
+export function parseLogFieldFilters(expression: string): LogFieldFilter[] {
+  const terms = expression.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+  if (terms.length > MAX_FIELD_FILTERS) throw new LogFilterError(`At most ${MAX_FIELD_FILTERS} field filters are allowed`);
+
+  return terms.map(term => {
+    const match = FILTER_TERM.exec(term);
+    if (!match) throw new LogFilterError(`Invalid field filter "${term}", expected field${logFieldOperators.join("|")}value`);
+    const [, field, operator, rawValue] = match;
+    const value = rawValue.replace(/^"(.*)"$/, "$1");
+    if (operator === "~") {
+      try {
+        new RegExp(value);
+      } catch {
+        throw new LogFilterError(`Invalid regular expression in "${term}"`);
+      }
+      assertPortableFieldPattern(value, term);
+    }
+    return { field, operator: operator as LogFieldOperator, value };
+  });
+}
+
+function compare(left: string | number, operator: LogFieldOperator, right: string | number): boolean {
+  switch (operator) {
+    case "=": return left === right;
+    case "!=": return left !== right;
+    case ">": return left > right;
+    case ">=": return left >= right;
+    case "<": return left < right;
+    case "<=": return left <= right;
+    default: return false;
+  }
+}
+
+// The live tail checks the same filters against every new line
+const compiledPatterns = new WeakMap<LogFieldFilter, RegExp>();
+
+function fieldPattern(filter: LogFieldFilter): RegExp {
+  let pattern = compiledPatterns.get(filter);
+  if (!pattern) {
+    pattern = new RegExp(filter.value);
+    compiledPatterns.set(filter, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Whether the log's metadata satisfies every filter. Logs without the field
+ * never match, and a numeric value only matches numeric fields, so that
+ * "status>=500" skips lines where status is not a number.
+ */
+export function matchesLogFieldFilters(log: ServerLog, filters: LogFieldFilter[]): boolean {
+  const metadata = (log.metadata ?? {}) as Record<string, unknown>;
+  return filters.every(filter => {
+    const raw = metadata[filter.field];
+    if (raw === undefined || raw === null || typeof raw === "object") return false;
+    const value = String(raw);
+
+    if (filter.operator === "~") return fieldPattern(filter).test(value);
+    if (isNumericValue(filter.value)) {
+      return isNumericValue(value) && compare(Number(value), filter.operator, Number(filter.value));
+    }
+    return compare(value, filter.operator, filter.value);
+  });
+}
+
+export { LogParserError, LogFilterError };
@@ -0,0 +1,170 @@
+import {
+  logSearchQualifiers,
+  type LogHighlightSegment,
+  type LogSearchQualifier,
+  type LogSearchQualifierKey,
+  type LogSearchRange,
+  type LogSearchTerm,
+  type ParsedLogSearch,
+  type ServerLog,
+} from "@shared/schema";
+import { LogFilterError, matchesLogFieldFilters, parseLogFieldFilters } from "./log-parsers";
+
+const MAX_SEARCH_TOKENS = 20;
+const DEFAULT_RANGE: LogSearchRange = "24h";
+
+const RANGE_MS: Record<LogSearchRange, number> = {
+  "15m": 15 * 60_000,
+  "1h": 60 * 60_000,
+  "6h": 6 * 60 * 60_000,
+  "24h": 24 * 60 * 60_000,
+  "7d": 7 * 24 * 60 * 60_000,
+  "30d": 30 * 24 * 60 * 60_000,
+};
+
+const QUALIFIER_TOKEN = /^([A-Za-z]+):(.+)$/;
+const FIELD_FILTER_TOKEN = /^[A-Za-z_][\w.-]*(>=|<=|!=|=|>|<|~)/;
+// Word characters as the 'simple' text search parser sees them, closely enough for matching and highlights
+const WORD = new RegExp("[\\p{L}\\p{N}_]+", "gu");
+
+class LogSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogSearchError";
+  }
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, "$1");
+}
+
+function isQualifierKey(key: string): key is LogSearchQualifierKey {
+  return (logSearchQualifiers as readonly string[]).includes(key);
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? [];
+}
+
+/**
+ * Parses the search box syntax:
+ *   level:error source:nginx,php "upstream timed out" server:web-prod-* -healthcheck status>=500
+ * Qualifiers take comma-separated globs, quoted text is a phrase, bare words
+ * must all appear, a leading "-" negates a term or qualifier, and
+ * field<op>value terms filter on parsed metadata like the logs page does.
+ */
+export function parseLogSearch(query: string): ParsedLogSearch {
+  if ((query.match(/"/g) ?? []).length % 2 !== 0) throw new LogSearchError("Unterminated quote in search query");
+  const tokens = query.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+  if (tokens.length > MAX_SEARCH_TOKENS) throw new LogSearchError(`At most ${MAX_SEARCH_TOKENS} search terms are allowed`);
+
+  const search: ParsedLogSearch = { terms: [], qualifiers: [], fieldFilters: [] };
+  for (const token of tokens) {
+    const negated = token.length > 1 && token.startsWith("-");
+    const body = negated ? token.slice(1) : token;
+
+    const qualifier = QUALIFIER_TOKEN.exec(body);
+    if (qualifier && !body.startsWith('"')) {
+      const key = qualifier[1].toLowerCase();
+      if (!isQualifierKey(key)) {
+        throw new LogSearchError(`Unknown qualifier "${qualifier[1]}", expected ${logSearchQualifiers.join(", ")} (quote the text to search for it)`);
+      }
+      const values = unquote(qualifier[2]).split(",").map(value => value.trim()).filter(Boolean);
+      if (!values.length) throw new LogSearchError(`Missing value for "${key}:"`);
+      search.qualifiers.push({ key, values, negated });
+      continue;
+    }
+
+    if (FIELD_FILTER_TOKEN.test(body)) {
+      if (negated) throw new LogSearchError(`Field filters cannot be negated, use != instead: "${token}"`);
+      try {
+        search.fieldFilters.push(...parseLogFieldFilters(body));
+      } catch (error) {
+        if (error instanceof LogFilterError) throw new LogSearchError(error.message);
+        throw error;
+      }
+      continue;
+    }
+
+    const text = unquote(body);
+    // Punctuation-only terms would turn into an empty tsquery that matches nothing
+    if (!words(text).length) continue;
+    search.terms.push({ text, phrase: body.startsWith('"'), negated });
+  }
+  return search;
+}
+
+/** Resolves the search window: explicit from/to win over the relative range, which ends now. */
+export function resolveLogSearchRange(query: { range?: LogSearchRange; from?: Date; to?: Date }, now = new Date()) {
+  const to = query.to ?? now;
+  const from = query.from ?? new Date(to.getTime() - RANGE_MS[query.range ?? DEFAULT_RANGE]);
+  if (from >= to) throw new LogSearchError("The search range must end after it starts");
+  return { from, to };
+}
+
+// Globs only support "*"; everything else is literal
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split("*").map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function matchesQualifier(qualifier: LogSearchQualifier, candidates: string[]): boolean {
+  const matched = qualifier.values.some(value => {
+    const pattern = globToRegExp(value);
+    return candidates.some(candidate => pattern.test(candidate));
+  });
+  return qualifier.negated ? !matched : matched;
+}
+
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((word, index) => haystack[start + index] === word)) return true;
+  }
+  return false;
+}
+
+function matchesTerm(term: LogSearchTerm, messageWords: string[]): boolean {
+  const termWords = words(term.text);
+  const matched = term.phrase
+    ? containsSequence(messageWords, termWords)
+    : termWords.every(word => messageWords.includes(word));
+  return term.negated ? !matched : matched;
+}
+
+/**
+ * In-memory equivalent of the database search, used by MemStorage. Text
+ * matching compares whole words case-insensitively, like the 'simple'
+ * text search configuration without stemming.
+ */
+export function matchesLogSearch(log: ServerLog, server: { name: string; hostname: string }, search: ParsedLogSearch): boolean {
+  const messageWords = words(log.message);
+  return search.qualifiers.every(qualifier => {
+    switch (qualifier.key) {
+      case "level": return matchesQualifier(qualifier, [log.logLevel]);
+      case "source": return matchesQualifier(qualifier, [log.logSource]);
+      case "server": return matchesQualifier(qualifier, [server.name, server.hostname]);
+    }
+  }) &&
+    search.terms.every(term => matchesTerm(term, messageWords)) &&
+    matchesLogFieldFilters(log, search.fieldFilters);
+}
+
+/** Splits the message into segments, marking the words of the (non-negated) search terms. */
+export function highlightLogMessage(message: string, terms: LogSearchTerm[]): LogHighlightSegment[] {
+  const highlighted = Array.from(new Set(terms.filter(term => !term.negated).flatMap(term => words(term.text))))
+    .sort((a, b) => b.length - a.length);
+  if (!highlighted.length) return [{ text: message, match: false }];
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${highlighted.join("|")})(?![\\p{L}\\p{N}_])`, "giu");
+  const segments: LogHighlightSegment[] = [];
+  let position = 0;
+  for (const match of Array.from(message.matchAll(pattern))) {
+    if (match.index > position) segments.push({ text: message.slice(position, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    position = match.index + match[0].length;
+  }
+  if (position < message.length) segments.push({ text: message.slice(position), match: false });
+  return segments;
+}
+
+export { LogSearchError };
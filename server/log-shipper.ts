@@ -0,0 +1,281 @@
+import { randomUUID } from "crypto";
+import type { InsertServerLog, LogMonitoringConfig, LogShipperPosition, Server } from "@shared/schema";
+import type { LogParserRegistry } from "./log-parsers";
+import type { MaintenanceService } from "./maintenance";
+import { execSshCommand } from "./ssh-client";
+import type { IStorage } from "./storage";
+import { parseSyslogTimestamp } from "./syslog";
+
+const SHIP_INTERVAL_MS = 15_000;
+// Bytes read per file and round; a busy log catches up over the following rounds
+const MAX_READ_BYTES = 256 * 1024;
+const SSH_TIMEOUT_MS = 20_000;
+// Only the first lines of a burst go into the alert message
+const ALERT_SAMPLE_LENGTH = 200;
+
+// "draining" is a rotation whose old file has more left than one read takes
+export type LogReadMode = "initial" | "append" | "rotated" | "draining" | "truncated";
+
+export interface LogRead {
+  inode: string;
+  size: number;
+  mode: LogReadMode;
+  // Tail of the rotated file (`<path>.1`) still to ship, only when mode is "rotated" or "draining"
+  rotated: string;
+  current: string;
+}
+
+export interface ParsedLogLine {
+  logLevel: string;
+  logSource: string;
+  message: string;
+  // The message without its syslog prefix, what structured parsers look at
+  body: string;
+  pid: number | null;
+  timestamp: Date | null; // from the syslog prefix
+}
+
+// "Oct 19 10:00:00 host program[123]: message" and the RFC 3339 variant written by rsyslog
+const SYSLOG_PREFIX = /^([A-Z][a-z]{2}\s+\d{1,2}\s+\d{2}:\d{2}:\d{2}|\d{4}-\d{2}-\d{2}T\S+)\s+\S+\s+([^\s:[]+)(?:\[(\d+)\])?:\s*/;
+const ERROR_WORDS = /\b(error|err|crit|critical|fatal|panic|emerg|emergency)\b/i;
+const WARNING_WORDS = /\b(warn|warning)\b/i;
+const DEBUG_WORDS = /\b(debug|trace)\b/i;
+// Status code after the request line of common/combined access logs
+const HTTP_STATUS = /"\s([1-5]\d{2})\s/;
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * POSIX sh script that reads everything appended to `path` since the stored
+ * position in a single round trip. It prints "inode size mode", then, after
+ * a rotation, the unread tail of `<path>.1` followed by `marker`, then the
+ * new bytes of the current file. While more of `<path>.1` is left than one
+ * read takes, only that tail is printed, with mode "draining".
+ */
+export function buildReadScript(path: string, position: Pick<LogMonitoringConfig, "fileInode" | "fileOffset">, marker: string): string {
+  return [
+    `f=${shellQuote(path)}; inode=${shellQuote(position.fileInode ?? "")}; offset=${Math.max(0, position.fileOffset)}; max=${MAX_READ_BYTES}`,
+    `st=$(stat -Lc '%i %s' -- "$f") || exit 1`,
+    `cur=\${st% *}; size=\${st#* }`,
+    `if [ -z "$inode" ]; then mode=initial; from=$size`,
+    `elif [ "$cur" != "$inode" ]; then mode=rotated; from=0; old=$(stat -Lc '%i %s' -- "$f.1" 2>/dev/null)`,
+    `  if [ "\${old% *}" = "$inode" ] && [ $((\${old#* } - offset)) -gt $max ]; then mode=draining; fi`,
+    `elif [ "$size" -lt "$offset" ]; then mode=truncated; from=0`,
+    `else mode=append; from=$offset; fi`,
+    `echo "$cur $size $mode"`,
+    `if [ "$mode" = draining ]; then tail -c +$((offset + 1)) -- "$f.1" | head -c $max; exit 0; fi`,
+    `if [ "$mode" = rotated ]; then`,
+    `  if [ "\${old% *}" = "$inode" ]; then tail -c +$((offset + 1)) -- "$f.1" | head -c $max; fi`,
+    `  printf '\\n%s\\n' ${shellQuote(marker)}`,
+    `fi`,
+    `tail -c +$((from + 1)) -- "$f" | head -c $max`,
+  ].join("\n");
+}
+
+export function parseReadOutput(output: string, marker: string): LogRead {
+  const headerEnd = output.indexOf("\n");
+  const [inode, size, mode] = (headerEnd === -1 ? output : output.slice(0, headerEnd)).trim().split(" ");
+  if (!inode || Number.isNaN(Number(size)) || !["initial", "append", "rotated", "draining", "truncated"].includes(mode)) {
+    throw new Error(`Unexpected log read header: ${output.slice(0, 80)}`);
+  }
+
+  let body = headerEnd === -1 ? "" : output.slice(headerEnd + 1);
+  let rotated = "";
+  if (mode === "draining") {
+    rotated = body;
+    body = "";
+  } else if (mode === "rotated") {
+    const separator = `\n${marker}\n`;
+    const index = body.indexOf(separator);
+    if (index === -1) throw new Error("Rotated log section was not terminated");
+    rotated = body.slice(0, index);
+    body = body.slice(index + separator.length);
+  }
+  return { inode, size: Number(size), mode: mode as LogReadMode, rotated, current: body };
+}
+
+/**
+ * Complete lines of `chunk` and how many bytes they span. A trailing partial
+ * line is left for the next round, unless it fills the whole read, in which
+ * case it is shipped as is so one huge line cannot stall the file.
+ */
+export function completeLines(chunk: string): { lines: string[]; bytes: number } {
+  const end = chunk.lastIndexOf("\n");
+  if (end === -1) {
+    return Buffer.byteLength(chunk) >= MAX_READ_BYTES
+      ? { lines: [chunk], bytes: Buffer.byteLength(chunk) }
+      : { lines: [], bytes: 0 };
+  }
+  const complete = chunk.slice(0, end + 1);
+  return { lines: complete.slice(0, -1).split("\n"), bytes: Buffer.byteLength(complete) };
+}
+
+export function parseLogLine(line: string, logType: string, now: Date = new Date()): ParsedLogLine {
+  const message = line.replace(/\r$/, "");
+  const syslog = SYSLOG_PREFIX.exec(message);
+  const status = HTTP_STATUS.exec(message);
+  const statusCode = status ? Number(status[1]) : null;
+
+  let logLevel = "info";
+  if (ERROR_WORDS.test(message) || (statusCode !== null && statusCode >= 500)) {
+    logLevel = "error";
+  } else if (WARNING_WORDS.test(message) || (statusCode !== null && statusCode >= 400)) {
+    logLevel = "warning";
+  } else if (DEBUG_WORDS.test(message)) {
+    logLevel = "debug";
+  }
+
+  return {
+    logLevel,
+    logSource: syslog?.[2] ?? logType,
+    message,
+    body: syslog ? message.slice(syslog[0].length) : message,
+    pid: syslog?.[3] ? Number(syslog[3]) : null,
+    timestamp: syslog ? parseSyslogTimestamp(syslog[1], now) : null,
+  };
+}
+
+/**
+ * Ships enabled log monitoring configs into server_logs. Each round tails
+ * every file over SSH from the stored inode and offset: a new inode means
+ * the file was rotated, so the rest of `<path>.1` is shipped, over as many
+ * rounds as it takes, before the new file is read from the start; a file
+ * shorter than the offset was truncated
+ * and is read again from the start. Newly added configs start at the end of
+ * the file instead of importing its history.
+ */
+export class LogShipper {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly maintenance: MaintenanceService,
+    private readonly parsers: LogParserRegistry,
+  ) {}
+
+  start() {
+    const tick = () => {
+      this.run().catch(error => console.error("Failed to ship logs:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, SHIP_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async run(now: Date = new Date()): Promise<void> {
+    // A slow host must not make rounds overlap and ship the same bytes twice
+    if (this.running) return;
+    this.running = true;
+    try {
+      const servers = new Map((await this.storage.getServers())
+        .filter(server => server.isActive)
+        .map(server => [server.id, server]));
+      const configs = (await this.storage.getLogMonitoringConfigs())
+        .filter(config => config.isEnabled && servers.has(config.serverId));
+
+      const results = await Promise.allSettled(configs.map(config => this.ship(config, servers.get(config.serverId)!, now)));
+      results.forEach((result, index) => {
+        if (result.status === "rejected") {
+          console.error(`Failed to ship ${configs[index].logPath}:`, result.reason);
+        }
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** Forgets where the shipper was, e.g. after the config points at another file. */
+  async reset(configId: string): Promise<void> {
+    await this.storage.saveLogShipperPosition(configId, { fileInode: null, fileOffset: 0, lastError: null });
+  }
+
+  private async ship(config: LogMonitoringConfig, server: Server, now: Date) {
+    let read: LogRead;
+    let filter: RegExp | null;
+    try {
+      // Patterns are validated on save, but rows from before that may still hold a broken one
+      filter = config.filterPattern ? new RegExp(config.filterPattern) : null;
+      const marker = `--log-shipper-${randomUUID()}--`;
+      read = parseReadOutput(await execSshCommand(server, buildReadScript(config.logPath, config, marker), SSH_TIMEOUT_MS), marker);
+    } catch (error) {
+      await this.storage.saveLogShipperPosition(config.id, { lastError: (error as Error).message });
+      return;
+    }
+
+    const lines: string[] = [];
+    let position: LogShipperPosition;
+    if (read.mode === "draining") {
+      // Still on the old inode: the new file is read once the rotated one is done
+      const drained = completeLines(read.rotated);
+      lines.push(...drained.lines);
+      position = { fileInode: config.fileInode, fileOffset: config.fileOffset + drained.bytes, lastShippedAt: now, lastError: null };
+    } else {
+      if (read.mode === "rotated" && read.rotated) {
+        // The rotated file is not written to anymore, so a trailing partial line is final
+        lines.push(...read.rotated.replace(/\n$/, "").split("\n"));
+      }
+      const current = completeLines(read.current);
+      lines.push(...current.lines);
+
+      position = {
+        fileInode: read.inode,
+        fileOffset: read.mode === "initial" ? read.size : (read.mode === "append" ? config.fileOffset : 0) + current.bytes,
+        lastShippedAt: now,
+        lastError: null,
+      };
+    }
+
+    await this.parsers.refresh();
+    const structured = this.parsers.get(config.logType);
+    const logs: InsertServerLog[] = lines
+      .filter(line => line.trim() && (!filter || filter.test(line)))
+      .map(line => {
+        const parsed = parseLogLine(line, config.logType, now);
+        const fields = structured?.parse(parsed.body);
+        const metadata: Record<string, unknown> = parsed.pid === null ? {} : { pid: parsed.pid };
+        if (fields) Object.assign(metadata, fields.fields, { parser: fields.parser });
+        return {
+          serverId: config.serverId,
+          logLevel: fields?.logLevel ?? parsed.logLevel,
+          logSource: fields?.logSource ?? parsed.logSource,
+          message: fields?.message ?? parsed.message,
+          timestamp: fields?.timestamp ?? parsed.timestamp ?? undefined,
+          originalLogPath: config.logPath,
+          metadata: { ...metadata, configId: config.id },
+        };
+      });
+
+    await this.storage.createServerLogs(logs);
+    await this.storage.saveLogShipperPosition(config.id, position);
+
+    const errors = logs.filter(log => log.logLevel === "error");
+    if (config.alertOnError && errors.length) {
+      await this.raiseErrorAlert(config, errors);
+    }
+  }
+
+  // One open alert per file; further errors are in the logs page until it is resolved
+  private async raiseErrorAlert(config: LogMonitoringConfig, errors: InsertServerLog[]) {
+    const open = (await this.storage.getServerAlerts(config.serverId))
+      .some(alert => !alert.isResolved && alert.alertType === "log" && alert.metric === config.logPath);
+    if (open) return;
+
+    await this.maintenance.raise({
+      serverId: config.serverId,
+      alertType: "log",
+      metric: config.logPath,
+      severity: "warning",
+      message: `${errors.length} linha(s) de erro em ${config.logPath}: ${errors[0].message.slice(0, ALERT_SAMPLE_LENGTH)}`,
+      isResolved: false,
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import { WebSocket } from "ws";
+import type { LogFieldFilter, ServerLog } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { logBus } from "./log-bus";
+import { LogFilterError, matchesLogFieldFilters, parseLogFieldFilters } from "./log-parsers";
+
+const FLUSH_INTERVAL_MS = 250;
+// Lines held per subscription between flushes; the rest are counted as dropped
+const MAX_PENDING_LINES = 500;
+// Above this many unsent bytes the client is not keeping up and new lines are dropped
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+const DEFAULT_SNAPSHOT_LIMIT = 50;
+const MAX_SNAPSHOT_LIMIT = 500;
+const MAX_PATTERN_LENGTH = 500;
+
+export interface LogTailOptions {
+  limit?: unknown;
+  levels?: unknown; // e.g. ["error", "warning"]; empty or missing means every level
+  pattern?: unknown; // literal text, matched case-insensitively on the message or source
+  fields?: unknown; // parsed-field filters, same syntax as GET /api/servers/:id/logs
+}
+
+interface LogTailFilter {
+  levels: Set<string> | null;
+  pattern: string | null; // lowercased
+  fieldFilters: LogFieldFilter[];
+}
+
+interface LogTailSubscription {
+  serverId: string;
+  filter: LogTailFilter;
+  pending: ServerLog[];
+  dropped: number;
+  ready: boolean; // false until the initial snapshot was sent
+}
+
+class LogTailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogTailError";
+  }
+}
+
+function send(socket: WebSocket, payload: Record<string, unknown>) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(payload));
+  }
+}
+
+function compileFilter(options: LogTailOptions): LogTailFilter {
+  const levels = Array.isArray(options.levels)
+    ? options.levels.filter((level): level is string => typeof level === "string").map(level => level.toLowerCase())
+    : [];
+
+  // Plain text only: any viewer can subscribe and the filter runs on every new line
+  let pattern: string | null = null;
+  if (typeof options.pattern === "string" && options.pattern) {
+    if (options.pattern.length > MAX_PATTERN_LENGTH) {
+      throw new LogTailError(`Padrão maior que ${MAX_PATTERN_LENGTH} caracteres`);
+    }
+    pattern = options.pattern.toLowerCase();
+  }
+
+  let fieldFilters: LogFieldFilter[] = [];
+  if (typeof options.fields === "string" && options.fields.trim()) {
+    try {
+      fieldFilters = parseLogFieldFilters(options.fields);
+    } catch (error) {
+      if (error instanceof LogFilterError) throw new LogTailError(error.message);
+      throw error;
+    }
+  }
+
+  return { levels: levels.length ? new Set(levels) : null, pattern, fieldFilters };
+}
+
+function matchesFilter(filter: LogTailFilter, log: ServerLog): boolean {
+  return (!filter.levels || filter.levels.has(log.logLevel.toLowerCase())) &&
+    (!filter.pattern || log.message.toLowerCase().includes(filter.pattern) || log.logSource.toLowerCase().includes(filter.pattern)) &&
+    matchesLogFieldFilters(log, filter.fieldFilters);
+}
+
+/**
+ * Live tail of server_logs over WebSocket. A subscription gets a snapshot of
+ * the latest matching lines, then every new matching insert in batches
+ * (`logs_append`). When a client falls behind, lines are dropped instead of
+ * buffered without bound, and the next batch reports how many were missed.
+ */
+export class LogTailManager {
+  private readonly sockets = new Map<WebSocket, Map<string, LogTailSubscription>>();
+  private readonly listener = (logs: ServerLog[]) => this.publish(logs);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly storage: IStorage) {}
+
+  start() {
+    if (this.timer) return;
+    logBus.onLogs(this.listener);
+    this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+  }
+
+  stop() {
+    logBus.off("logs", this.listener);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Subscribing again to the same server replaces the filters and sends a fresh snapshot
+  async subscribe(socket: WebSocket, serverId: string, options: LogTailOptions = {}) {
+    let filter: LogTailFilter;
+    try {
+      filter = compileFilter(options);
+    } catch (error) {
+      if (error instanceof LogTailError) {
+        send(socket, { type: "logs_error", serverId, message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    // Registered before the snapshot query so lines inserted meanwhile are not lost
+    const subscription: LogTailSubscription = { serverId, filter, pending: [], dropped: 0, ready: false };
+    let subscriptions = this.sockets.get(socket);
+    if (!subscriptions) {
+      subscriptions = new Map();
+      this.sockets.set(socket, subscriptions);
+    }
+    subscriptions.set(serverId, subscription);
+
+    const limit = Math.min(Math.max(Number(options.limit) || DEFAULT_SNAPSHOT_LIMIT, 1), MAX_SNAPSHOT_LIMIT);
+    try {
+      const snapshot = await this.storage.getServerLogTail(serverId, {
+        levels: filter.levels && Array.from(filter.levels),
+        text: filter.pattern,
+        fieldFilters: filter.fieldFilters,
+      }, limit);
+      send(socket, { type: "logs_update", serverId, data: snapshot });
+
+      const sent = new Set(snapshot.map(log => log.id));
+      subscription.pending = subscription.pending.filter(log => !sent.has(log.id));
+      subscription.ready = true;
+    } catch (error) {
+      if (subscriptions.get(serverId) === subscription) this.unsubscribe(socket, serverId);
+      throw error;
+    }
+  }
+
+  unsubscribe(socket: WebSocket, serverId: string) {
+    const subscriptions = this.sockets.get(socket);
+    if (!subscriptions) return;
+    subscriptions.delete(serverId);
+    if (!subscriptions.size) this.sockets.delete(socket);
+  }
+
+  closeSocket(socket: WebSocket) {
+    this.sockets.delete(socket);
+  }
+
+  private publish(logs: ServerLog[]) {
+    this.sockets.forEach(subscriptions => {
+      for (const log of logs) {
+        const subscription = subscriptions.get(log.serverId);
+        if (!subscription || !matchesFilter(subscription.filter, log)) continue;
+        if (subscription.pending.length >= MAX_PENDING_LINES) {
+          subscription.dropped++;
+        } else {
+          subscription.pending.push(log);
+        }
+      }
+    });
+  }
+
+  private flush() {
+    this.sockets.forEach((subscriptions, socket) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      subscriptions.forEach(subscription => {
+        if (!subscription.ready || (!subscription.pending.length && !subscription.dropped)) return;
+
+        if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+          subscription.dropped += subscription.pending.length;
+          subscription.pending = [];
+          return;
+        }
+
+        send(socket, {
+          type: "logs_append",
+          serverId: subscription.serverId,
+          data: subscription.pending,
+          dropped: subscription.dropped,
+        });
+        subscription.pending = [];
+        subscription.dropped = 0;
+      });
+    });
+  }
+}
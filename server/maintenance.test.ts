@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { MaintenanceWindow, Server } from "@shared/schema";
+import {
+  activeUntil,
+  CronExpressionError,
+  nextCronMatch,
+  nextOccurrence,
+  parseCronExpression,
+  previousCronMatch,
+  windowCoversServer,
+} from "./maintenance";
+
+// A Monday
+const MONDAY = new Date("2026-10-19T00:00:00Z");
+const YEAR_LATER = new Date("2027-10-19T00:00:00Z");
+
+function values(expression: string, field: keyof ReturnType<typeof parseCronExpression>): number[] {
+  return Array.from(parseCronExpression(expression)[field].values).sort((a, b) => a - b);
+}
+
+function window(changes: Partial<MaintenanceWindow> = {}): MaintenanceWindow {
+  return {
+    id: "w1",
+    name: "Janela",
+    reason: null,
+    scopeType: "server",
+    scopeValue: "s1",
+    mode: "suppress",
+    startsAt: new Date("2026-10-01T00:00:00Z"),
+    endsAt: null,
+    recurrence: null,
+    durationMinutes: null,
+    createdBy: null,
+    createdAt: MONDAY,
+    updatedAt: MONDAY,
+    ...changes,
+  };
+}
+
+describe("parseCronExpression", () => {
+  test("expands lists, ranges and steps", () => {
+    assert.deepEqual(values("0,30 * * * *", "minute"), [0, 30]);
+    assert.deepEqual(values("* 9-12 * * *", "hour"), [9, 10, 11, 12]);
+    assert.deepEqual(values("*/15 * * * *", "minute"), [0, 15, 30, 45]);
+    assert.deepEqual(values("5/20 * * * *", "minute"), [5, 25, 45]);
+    assert.deepEqual(values("* 0-12/6 * * *", "hour"), [0, 6, 12]);
+  });
+
+  test("treats 7 as Sunday", () => {
+    assert.deepEqual(values("* * * * 7", "dayOfWeek"), [0, 7]);
+  });
+
+  test("rejects malformed expressions", () => {
+    for (const expression of ["* * * *", "60 * * * *", "* 5-3 * * *", "*/0 * * * *", "a * * * *", "* * 0 * *"]) {
+      assert.throws(() => parseCronExpression(expression), CronExpressionError, expression);
+    }
+  });
+});
+
+describe("cron matching", () => {
+  test("finds the next match, skipping whole days and hours", () => {
+    const saturdays = parseCronExpression("30 2 * * 6");
+    assert.deepEqual(nextCronMatch(saturdays, MONDAY, YEAR_LATER), new Date("2026-10-24T02:30:00Z"));
+  });
+
+  test("counts an exact minute as a match in both directions", () => {
+    const schedule = parseCronExpression("0 0 * * 1");
+    assert.deepEqual(nextCronMatch(schedule, MONDAY, YEAR_LATER), MONDAY);
+    assert.deepEqual(previousCronMatch(schedule, MONDAY, new Date(0)), MONDAY);
+  });
+
+  test("finds the previous match within the lower bound only", () => {
+    const schedule = parseCronExpression("0 22 * * *");
+    const at = new Date("2026-10-19T21:00:00Z");
+    assert.deepEqual(previousCronMatch(schedule, at, MONDAY), null);
+    assert.deepEqual(previousCronMatch(schedule, at, new Date("2026-10-18T00:00:00Z")), new Date("2026-10-18T22:00:00Z"));
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // The 1st of the month or any Friday
+    const schedule = parseCronExpression("0 3 1 * 5");
+    assert.deepEqual(nextCronMatch(schedule, MONDAY, YEAR_LATER), new Date("2026-10-23T03:00:00Z"));
+    assert.deepEqual(nextCronMatch(schedule, new Date("2026-10-31T00:00:00Z"), YEAR_LATER), new Date("2026-11-01T03:00:00Z"));
+  });
+
+  test("skips months that are not listed", () => {
+    const schedule = parseCronExpression("0 0 1 1 *");
+    assert.deepEqual(nextCronMatch(schedule, MONDAY, YEAR_LATER), new Date("2027-01-01T00:00:00Z"));
+    assert.deepEqual(previousCronMatch(schedule, MONDAY, new Date("2026-01-01T00:00:00Z")), new Date("2026-01-01T00:00:00Z"));
+  });
+
+  test("gives up at the search bound", () => {
+    const schedule = parseCronExpression("0 0 30 2 *");
+    assert.equal(nextCronMatch(schedule, MONDAY, YEAR_LATER), null);
+  });
+});
+
+describe("maintenance window timing", () => {
+  test("one-off windows are active between their start and end", () => {
+    const oneOff = window({ startsAt: new Date("2026-10-19T10:00:00Z"), endsAt: new Date("2026-10-19T12:00:00Z") });
+    assert.equal(activeUntil(oneOff, new Date("2026-10-19T09:59:00Z")), null);
+    assert.deepEqual(activeUntil(oneOff, new Date("2026-10-19T11:00:00Z")), oneOff.endsAt);
+    assert.equal(activeUntil(oneOff, new Date("2026-10-19T12:00:00Z")), null);
+    assert.deepEqual(nextOccurrence(oneOff, MONDAY), oneOff.startsAt);
+  });
+
+  test("recurring windows last durationMinutes from each cron match", () => {
+    // Sundays 02:00-04:00
+    const weekly = window({ recurrence: "0 2 * * 0", durationMinutes: 120 });
+    assert.deepEqual(activeUntil(weekly, new Date("2026-10-25T03:30:00Z")), new Date("2026-10-25T04:00:00Z"));
+    assert.equal(activeUntil(weekly, new Date("2026-10-25T04:00:00Z")), null);
+    assert.deepEqual(nextOccurrence(weekly, MONDAY), new Date("2026-10-25T02:00:00Z"));
+  });
+
+  test("a recurring window's end date cuts its last occurrence short", () => {
+    const weekly = window({ recurrence: "0 2 * * 0", durationMinutes: 120, endsAt: new Date("2026-10-25T03:00:00Z") });
+    assert.deepEqual(activeUntil(weekly, new Date("2026-10-25T02:30:00Z")), weekly.endsAt);
+    assert.equal(nextOccurrence(weekly, new Date("2026-10-25T02:30:00Z")), null);
+  });
+});
+
+describe("windowCoversServer", () => {
+  const server = { id: "s1", environment: "staging", tags: ["edge"] } as Server;
+
+  test("matches by server, tag, environment and container stack host", () => {
+    assert.equal(windowCoversServer(window(), server, new Map()), true);
+    assert.equal(windowCoversServer(window({ scopeType: "tag", scopeValue: "edge" }), server, new Map()), true);
+    assert.equal(windowCoversServer(window({ scopeType: "environment", scopeValue: "production" }), server, new Map()), false);
+    assert.equal(windowCoversServer(window({ scopeType: "stack", scopeValue: "shop" }), server, new Map([["shop", "s1"]])), true);
+    assert.equal(windowCoversServer(window({ scopeType: "stack", scopeValue: "shop" }), server, new Map()), false);
+  });
+});
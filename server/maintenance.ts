@@ -0,0 +1,302 @@
+import type {
+  Alert,
+  InsertAlert,
+  MaintenanceWindow,
+  MaintenanceWindowStatus,
+  Server,
+  ServerMaintenance,
+} from "@shared/schema";
+import { DockerUnavailableError } from "./docker";
+import type { IncidentCorrelator } from "./incidents";
+import type { IStorage } from "./storage";
+
+const MINUTE_MS = 60_000;
+// Searching further ahead than this for the next occurrence is not worth it
+const NEXT_OCCURRENCE_LOOKAHEAD_MS = 366 * 24 * 60 * MINUTE_MS;
+const RELEASE_INTERVAL_MS = MINUTE_MS;
+
+class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronExpressionError";
+  }
+}
+
+type CronField = { values: Set<number>; restricted: boolean };
+
+export type CronSchedule = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const CRON_FIELDS: { name: keyof CronSchedule; min: number; max: number }[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "dayOfWeek", min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+function parseCronField(source: string, name: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new CronExpressionError(`Invalid ${name} field "${source}"`);
+
+    const [, range, stepSource] = match;
+    const step = stepSource ? Number(stepSource) : 1;
+    let [from, to] = range === "*" ? [min, max] : range.split("-").map(Number);
+    // A single value with a step runs to the end of the range, as in "5/15"
+    if (to === undefined) to = stepSource ? max : from;
+
+    if (step < 1 || from < min || to > max || from > to) {
+      throw new CronExpressionError(`Invalid ${name} field "${source}"`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: source !== "*" };
+}
+
+/** Parses a standard five-field cron expression (minute hour day-of-month month day-of-week). */
+export function parseCronExpression(expression: string): CronSchedule {
+  const sources = expression.trim().split(/\s+/);
+  if (sources.length !== CRON_FIELDS.length) {
+    throw new CronExpressionError("Cron expression must have 5 fields: minute hour day-of-month month day-of-week");
+  }
+
+  const schedule = {} as CronSchedule;
+  CRON_FIELDS.forEach(({ name, min, max }, index) => {
+    schedule[name] = parseCronField(sources[index], name, min, max);
+  });
+  if (schedule.dayOfWeek.values.has(7)) schedule.dayOfWeek.values.add(0);
+  return schedule;
+}
+
+// Like cron, a day matches either field when both day-of-month and day-of-week are restricted
+function cronDayMatches(schedule: CronSchedule, time: Date): boolean {
+  const dayOfMonth = schedule.dayOfMonth.values.has(time.getUTCDate());
+  const dayOfWeek = schedule.dayOfWeek.values.has(time.getUTCDay());
+  if (schedule.dayOfMonth.restricted && schedule.dayOfWeek.restricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Latest minute at or before `at` (and not before `notBefore`) that the
+ * schedule fires on, in UTC. Non-matching months, days and hours are
+ * skipped whole.
+ */
+export function previousCronMatch(schedule: CronSchedule, at: Date, notBefore: Date): Date | null {
+  const time = new Date(Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS);
+
+  while (time >= notBefore) {
+    if (!schedule.month.values.has(time.getUTCMonth() + 1)) {
+      time.setUTCDate(1);
+      time.setUTCHours(0, -1, 0, 0);
+    } else if (!cronDayMatches(schedule, time)) {
+      time.setUTCHours(0, -1, 0, 0);
+    } else if (!schedule.hour.values.has(time.getUTCHours())) {
+      time.setUTCMinutes(-1);
+    } else if (!schedule.minute.values.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() - 1);
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
+
+/** Earliest minute at or after `at` (and before `before`) that the schedule fires on, in UTC. */
+export function nextCronMatch(schedule: CronSchedule, at: Date, before: Date): Date | null {
+  const time = new Date(Math.ceil(at.getTime() / MINUTE_MS) * MINUTE_MS);
+
+  while (time < before) {
+    if (!schedule.month.values.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!cronDayMatches(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hour.values.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minute.values.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
+
+/** End of the occurrence covering `now`, or null when the window is not active. */
+export function activeUntil(window: MaintenanceWindow, now: Date = new Date()): Date | null {
+  if (now < window.startsAt || (window.endsAt && now >= window.endsAt)) return null;
+  if (!window.recurrence) return window.endsAt;
+
+  const durationMs = (window.durationMinutes ?? 0) * MINUTE_MS;
+  const notBefore = new Date(Math.max(window.startsAt.getTime(), now.getTime() - durationMs + 1));
+  const start = previousCronMatch(parseCronExpression(window.recurrence), now, notBefore);
+  if (!start) return null;
+
+  const end = new Date(start.getTime() + durationMs);
+  return window.endsAt && window.endsAt < end ? window.endsAt : end;
+}
+
+/** Start of the next occurrence after `now`, or null when there is none within a year. */
+export function nextOccurrence(window: MaintenanceWindow, now: Date = new Date()): Date | null {
+  const limit = new Date(Math.min(
+    now.getTime() + NEXT_OCCURRENCE_LOOKAHEAD_MS,
+    window.endsAt?.getTime() ?? Infinity,
+  ));
+  if (!window.recurrence) return window.startsAt > now && window.startsAt < limit ? window.startsAt : null;
+
+  const from = new Date(Math.max(window.startsAt.getTime(), now.getTime() + 1));
+  return nextCronMatch(parseCronExpression(window.recurrence), from, limit);
+}
+
+export function windowCoversServer(window: MaintenanceWindow, server: Server, stackServerIds: Map<string, string | undefined>): boolean {
+  switch (window.scopeType) {
+    case "server":
+      return server.id === window.scopeValue;
+    case "tag":
+      return Array.isArray(server.tags) && (server.tags as string[]).includes(window.scopeValue);
+    case "environment":
+      return server.environment === window.scopeValue;
+    case "stack":
+      return stackServerIds.get(window.scopeValue) === server.id;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolves which servers are in maintenance and applies it to alerts
+ * before they are raised: "suppress" windows drop the alert, "mark"
+ * windows record it tagged with the window so it is not notified. Once
+ * the window is over, alerts it marked that are still open lose the tag and
+ * notify and escalate like any other.
+ */
+export class MaintenanceService {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly incidents: IncidentCorrelator,
+  ) {}
+
+  start() {
+    const tick = () => {
+      this.releaseEndedWindows().catch(error => console.error("Failed to release maintenance alerts:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, RELEASE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getWindowStatuses(now: Date = new Date()): Promise<MaintenanceWindowStatus[]> {
+    const windows = await this.storage.getMaintenanceWindows();
+    return windows.map(window => {
+      const until = activeUntil(window, now);
+      return {
+        ...window,
+        active: until !== null,
+        activeUntil: until?.toISOString() ?? null,
+        nextStartAt: nextOccurrence(window, now)?.toISOString() ?? null,
+      };
+    });
+  }
+
+  async getServerMaintenance(now: Date = new Date()): Promise<ServerMaintenance[]> {
+    const active = (await this.storage.getMaintenanceWindows())
+      .map(window => ({ window, until: activeUntil(window, now) }))
+      .filter((entry): entry is { window: MaintenanceWindow; until: Date } => entry.until !== null);
+    if (!active.length) return [];
+
+    const servers = await this.storage.getServers();
+    // Stacks are only listed when a window needs them
+    const stackServerIds = new Map<string, string | undefined>();
+    if (active.some(({ window }) => window.scopeType === "stack")) {
+      try {
+        for (const stack of await this.storage.getContainerStacks()) {
+          stackServerIds.set(stack.id, stack.primaryServerId);
+        }
+      } catch (error) {
+        // Without Docker, stack windows cover nothing rather than blocking alerts
+        if (!(error instanceof DockerUnavailableError)) throw error;
+      }
+    }
+
+    const byServer = new Map<string, ServerMaintenance>();
+    for (const server of servers) {
+      for (const { window, until } of active) {
+        if (!windowCoversServer(window, server, stackServerIds)) continue;
+
+        const current = byServer.get(server.id);
+        if (current && (current.mode === "suppress" || window.mode !== "suppress")) continue;
+        byServer.set(server.id, {
+          serverId: server.id,
+          windowId: window.id,
+          name: window.name,
+          mode: window.mode as ServerMaintenance["mode"],
+          until: until.toISOString(),
+        });
+      }
+    }
+    return Array.from(byServer.values());
+  }
+
+  /** The alert to raise given current maintenance, or null when it is suppressed. */
+  async apply(alert: InsertAlert, now: Date = new Date()): Promise<InsertAlert | null> {
+    if (!alert.serverId) return alert;
+
+    const maintenance = (await this.getServerMaintenance(now)).find(entry => entry.serverId === alert.serverId);
+    if (!maintenance) return alert;
+    if (maintenance.mode === "suppress") return null;
+    return { ...alert, maintenanceWindowId: maintenance.windowId };
+  }
+
+  /** Creates an automatic alert unless maintenance suppresses it or an open incident already has it. */
+  async raise(alert: InsertAlert): Promise<Alert | undefined> {
+    const applied = await this.apply(alert);
+    if (!applied) return undefined;
+    return await this.incidents.foldRepeat(applied) ?? this.storage.createAlert(applied);
+  }
+
+  /** Releases open marked alerts whose server is no longer in any active window. */
+  async releaseEndedWindows(now: Date = new Date()): Promise<Alert[]> {
+    const marked = (await this.storage.getActiveAlerts()).filter(alert => alert.maintenanceWindowId);
+    if (!marked.length) return [];
+
+    const covered = new Set((await this.getServerMaintenance(now)).map(entry => entry.serverId));
+    return this.release(marked.filter(alert => !alert.serverId || !covered.has(alert.serverId)));
+  }
+
+  // Deleting a window nulls the tag without a trace, so its alerts are released first
+  async releaseWindowAlerts(windowId: string): Promise<Alert[]> {
+    const marked = (await this.storage.getActiveAlerts()).filter(alert => alert.maintenanceWindowId === windowId);
+    return this.release(marked);
+  }
+
+  private async release(alerts: Alert[]): Promise<Alert[]> {
+    const released: Alert[] = [];
+    for (const alert of alerts) {
+      const updated = await this.storage.releaseMaintenanceAlert(alert.id);
+      if (updated) released.push(updated);
+    }
+    return released;
+  }
+}
+
+export { CronExpressionError };
@@ -0,0 +1,234 @@
+import {
+  metricNames,
+  type CustomMetricBucket,
+  type CustomMetricSeries,
+  type MetricAggregate,
+  type MetricBucket,
+  type MetricName,
+  type MetricTier,
+  type MetricsRange,
+  type MetricsRangeQuery,
+  type ServerCustomMetric,
+  type ServerMetrics,
+} from "@shared/schema";
+
+const DEFAULT_WINDOW_MS = 60 * 60 * 1000;
+// Auto-selected steps aim for about this many points per chart
+const TARGET_BUCKETS = 240;
+const MAX_BUCKETS = 2000;
+const MIN_STEP_SECONDS = 10;
+const STEP_CHOICES = [10, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200, 10800, 21600, 43200, 86400];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TIER_RESOLUTION_SECONDS: Record<MetricTier, number> = {
+  raw: 0,
+  "5m": 300,
+  "1h": 3600,
+};
+
+class MetricsQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MetricsQueryError";
+  }
+}
+
+/**
+ * Turns from/to/step query parameters into a concrete range. Missing bounds
+ * default to the last hour and a missing step is picked from STEP_CHOICES.
+ */
+export function resolveMetricsRange(query: MetricsRangeQuery, now: Date = new Date()): MetricsRange {
+  const to = query.to ?? now;
+  const from = query.from ?? new Date(to.getTime() - DEFAULT_WINDOW_MS);
+
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    throw new MetricsQueryError("Invalid from/to timestamp");
+  }
+  if (from >= to) {
+    throw new MetricsQueryError("`from` must be before `to`");
+  }
+
+  const rangeSeconds = (to.getTime() - from.getTime()) / 1000;
+  const stepSeconds = query.step
+    ?? STEP_CHOICES.find(step => rangeSeconds / step <= TARGET_BUCKETS)
+    ?? STEP_CHOICES[STEP_CHOICES.length - 1];
+
+  if (stepSeconds < MIN_STEP_SECONDS) {
+    throw new MetricsQueryError(`step must be at least ${MIN_STEP_SECONDS} seconds`);
+  }
+  if (rangeSeconds / stepSeconds > MAX_BUCKETS) {
+    throw new MetricsQueryError(`Range too large for step ${stepSeconds}s (max ${MAX_BUCKETS} buckets)`);
+  }
+
+  return { from, to, stepSeconds };
+}
+
+/**
+ * Picks the coarsest tier that still resolves the requested step and keeps
+ * data back to `from`. When `from` is older than the fine tiers' retention
+ * the finest tier that still has it is used and the step is raised to match.
+ */
+export function applyMetricsTier(
+  range: MetricsRange,
+  retentionDays: Record<MetricTier, number>,
+  now: Date = new Date(),
+): MetricsRange {
+  const covers = (tier: MetricTier) => range.from.getTime() >= now.getTime() - retentionDays[tier] * DAY_MS;
+
+  const tier =
+    (["1h", "5m", "raw"] as const).find(tier => TIER_RESOLUTION_SECONDS[tier] <= range.stepSeconds && covers(tier)) ??
+    (["raw", "5m", "1h"] as const).find(covers) ??
+    "1h";
+
+  return {
+    ...range,
+    tier,
+    stepSeconds: Math.max(range.stepSeconds, TIER_RESOLUTION_SECONDS[tier]),
+  };
+}
+
+export function bucketStartMs(time: Date | number, stepSeconds: number): number {
+  const stepMs = stepSeconds * 1000;
+  const ms = typeof time === "number" ? time : time.getTime();
+  return Math.floor(ms / stepMs) * stepMs;
+}
+
+// Linear interpolation between closest ranks, matching Postgres percentile_cont
+export function percentile(sortedValues: number[], fraction: number): number | null {
+  if (!sortedValues.length) return null;
+  const rank = (sortedValues.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+}
+
+function emptyAggregate(): MetricAggregate {
+  return { avg: null, min: null, max: null, p95: null };
+}
+
+export function emptyBucket(timestampMs: number): MetricBucket {
+  const bucket = { timestamp: new Date(timestampMs).toISOString(), samples: 0 } as MetricBucket;
+  for (const metric of metricNames) {
+    bucket[metric] = emptyAggregate();
+  }
+  return bucket;
+}
+
+export function emptyCustomBucket(timestampMs: number): CustomMetricBucket {
+  return { timestamp: new Date(timestampMs).toISOString(), samples: 0, ...emptyAggregate() };
+}
+
+/**
+ * Lays the buckets that have data onto the full from/to grid so charts
+ * show gaps instead of joining distant points.
+ */
+function fillGrid<T>(buckets: Map<number, T>, range: MetricsRange, empty: (timestampMs: number) => T): T[] {
+  const stepMs = range.stepSeconds * 1000;
+  const filled: T[] = [];
+
+  for (let time = bucketStartMs(range.from, range.stepSeconds); time < range.to.getTime(); time += stepMs) {
+    filled.push(buckets.get(time) ?? empty(time));
+  }
+  return filled;
+}
+
+export function fillBuckets(buckets: Map<number, MetricBucket>, range: MetricsRange): MetricBucket[] {
+  return fillGrid(buckets, range, emptyBucket);
+}
+
+export function fillCustomBuckets(buckets: Map<number, CustomMetricBucket>, range: MetricsRange): CustomMetricBucket[] {
+  return fillGrid(buckets, range, emptyCustomBucket);
+}
+
+/** Canonical, order-independent form of a label set: `a=1,b=2`. */
+export function metricLabelsKey(labels: Record<string, string> = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map(label => `${label}=${labels[label]}`)
+    .join(",");
+}
+
+export function matchesLabels(labels: Record<string, string>, filter: Record<string, string> | undefined): boolean {
+  return !filter || Object.entries(filter).every(([label, value]) => labels[label] === value);
+}
+
+const SAMPLE_FIELDS: Record<MetricName, keyof ServerMetrics> = {
+  cpu: "cpuUsage",
+  memory: "memoryUsage",
+  disk: "diskUsage",
+  networkIn: "networkIn",
+  networkOut: "networkOut",
+};
+
+function aggregateValues(values: number[]): MetricAggregate {
+  if (!values.length) return emptyAggregate();
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    avg: values.reduce((acc, value) => acc + value, 0) / values.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p95: percentile(sorted, 0.95),
+  };
+}
+
+/**
+ * In-memory equivalent of the SQL bucketing in DatabaseStorage, used by
+ * MemStorage. Offline samples only count towards the bucket grid.
+ */
+export function aggregateSamples(samples: ServerMetrics[], range: MetricsRange): MetricBucket[] {
+  const grouped = new Map<number, ServerMetrics[]>();
+
+  for (const sample of samples) {
+    const time = new Date(sample.timestamp).getTime();
+    if (!sample.isOnline || time < range.from.getTime() || time >= range.to.getTime()) continue;
+
+    const bucket = bucketStartMs(time, range.stepSeconds);
+    const group = grouped.get(bucket) ?? [];
+    group.push(sample);
+    grouped.set(bucket, group);
+  }
+
+  const buckets = new Map<number, MetricBucket>();
+  grouped.forEach((group, time) => {
+    const bucket = emptyBucket(time);
+    bucket.samples = group.length;
+    for (const metric of metricNames) {
+      const values = group
+        .map(sample => sample[SAMPLE_FIELDS[metric]])
+        .filter((value): value is string => value !== null && value !== undefined)
+        .map(value => parseFloat(value))
+        .filter(Number.isFinite);
+      bucket[metric] = aggregateValues(values);
+    }
+    buckets.set(time, bucket);
+  });
+
+  return fillBuckets(buckets, range);
+}
+
+/** In-memory equivalent of DatabaseStorage.getCustomMetricSeries, one entry per label set. */
+export function aggregateCustomSamples(samples: ServerCustomMetric[], range: MetricsRange): CustomMetricSeries[] {
+  const grouped = new Map<string, { labels: Record<string, string>; buckets: Map<number, number[]> }>();
+
+  for (const sample of samples) {
+    const time = sample.timestamp.getTime();
+    if (time < range.from.getTime() || time >= range.to.getTime()) continue;
+
+    const series = grouped.get(sample.labelsKey) ?? { labels: sample.labels, buckets: new Map() };
+    const bucket = bucketStartMs(time, range.stepSeconds);
+    series.buckets.set(bucket, [...(series.buckets.get(bucket) ?? []), sample.value]);
+    grouped.set(sample.labelsKey, series);
+  }
+
+  return Array.from(grouped.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, { labels, buckets }]) => {
+      const aggregated = new Map<number, CustomMetricBucket>();
+      buckets.forEach((values, time) => {
+        aggregated.set(time, { ...emptyCustomBucket(time), samples: values.length, ...aggregateValues(values) });
+      });
+      return { labels, buckets: fillCustomBuckets(aggregated, range) };
+    });
+}
+
+export { MetricsQueryError };
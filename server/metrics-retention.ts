@@ -0,0 +1,85 @@
+import type { AppSettings, MetricTier } from "@shared/schema";
+import type { SettingsService } from "./settings";
+import type { IStorage } from "./storage";
+
+const RETENTION_INTERVAL_MS = 5 * 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MetricsRetentionResult = {
+  rolledUp: Record<"5m" | "1h" | "availability", number>;
+  pruned: Record<MetricTier, number>;
+  // Synthetic check results share the raw retention
+  prunedCheckResults: number;
+};
+
+export function retentionDaysByTier(settings: AppSettings): Record<MetricTier, number> {
+  return {
+    raw: settings.metricsRetentionDays,
+    "5m": settings.rollup5mRetentionDays,
+    "1h": settings.rollup1hRetentionDays,
+  };
+}
+
+/**
+ * Keeps the rollup tables current and drops data past each tier's retention.
+ * Rollups always run before pruning so raw samples are aggregated before
+ * they are deleted.
+ */
+export class MetricsRetentionJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly settings: SettingsService,
+  ) {}
+
+  start() {
+    const tick = () => {
+      this.run().catch(error => console.error("Failed to run metrics retention:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, RETENTION_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async run(now: Date = new Date()): Promise<MetricsRetentionResult | undefined> {
+    // A first run over a large backlog can outlast the interval
+    if (this.running) return undefined;
+    this.running = true;
+
+    try {
+      const rolledUp = {
+        "5m": await this.storage.rollupMetrics("5m", now),
+        "1h": await this.storage.rollupMetrics("1h", now),
+        // Hourly availability is kept as long as the 1h tier
+        availability: await this.storage.rollupAvailability(now),
+      };
+
+      const retention = retentionDaysByTier(this.settings.get());
+      const cutoff = (tier: MetricTier) => new Date(now.getTime() - retention[tier] * DAY_MS);
+      const pruned = {
+        raw: await this.storage.pruneMetrics("raw", cutoff("raw")),
+        "5m": await this.storage.pruneMetrics("5m", cutoff("5m")),
+        "1h": await this.storage.pruneMetrics("1h", cutoff("1h")),
+      };
+      const prunedCheckResults = await this.storage.pruneCheckResults(cutoff("raw"));
+
+      if (pruned.raw || pruned["5m"] || pruned["1h"]) {
+        console.log(`Metrics retention pruned ${pruned.raw} raw, ${pruned["5m"]} 5m and ${pruned["1h"]} 1h rows`);
+      }
+      if (prunedCheckResults) {
+        console.log(`Metrics retention pruned ${prunedCheckResults} synthetic check results`);
+      }
+      return { rolledUp, pruned, prunedCheckResults };
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import http from "node:http";
+import net, { type AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, test } from "node:test";
+import type { Alert, InsertNotificationChannel, Server } from "@shared/schema";
+import { NotificationDispatcher, signWebhookPayload } from "./notifications";
+import { MemStorage } from "./storage";
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// HTTP endpoint standing in for webhook and chat receivers; answers with the queued statuses, then 200
+function startReceiver() {
+  const requests: ReceivedRequest[] = [];
+  const statuses: number[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end(res.statusCode === 200 ? "ok" : "boom");
+    });
+  });
+
+  return new Promise<{ url: string; requests: ReceivedRequest[]; statuses: number[]; close(): void }>(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${port}/hook`, requests, statuses, close: () => server.close() });
+    });
+  });
+}
+
+// Just enough SMTP to accept one message per DATA command
+function startSmtpSink() {
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = "";
+    let data: string | null = null;
+    socket.write("220 sink ESMTP\r\n");
+    socket.on("data", chunk => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data !== null) {
+          if (line === ".") {
+            messages.push(data);
+            data = null;
+            socket.write("250 queued\r\n");
+          } else {
+            data += `${line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "DATA") {
+          data = "";
+          socket.write("354 go ahead\r\n");
+        } else if (command === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+
+  return new Promise<{ port: number; messages: string[]; close(): void }>(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ port, messages, close: () => server.close() });
+    });
+  });
+}
+
+describe("signWebhookPayload", () => {
+  test("signs <timestamp>.<body> with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "0123456789abcdef").update("1700000000.{\"a\":1}").digest("hex");
+    assert.equal(signWebhookPayload("0123456789abcdef", "1700000000", "{\"a\":1}"), expected);
+  });
+
+  test("changes when the timestamp changes", () => {
+    assert.notEqual(
+      signWebhookPayload("0123456789abcdef", "1700000000", "{}"),
+      signWebhookPayload("0123456789abcdef", "1700000001", "{}"),
+    );
+  });
+});
+
+describe("NotificationDispatcher", () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+  let smtp: Awaited<ReturnType<typeof startSmtpSink>>;
+  let storage: MemStorage;
+  let dispatcher: NotificationDispatcher;
+  let server: Server;
+
+  before(async () => {
+    receiver = await startReceiver();
+    smtp = await startSmtpSink();
+    // The SMTP transport is created on first use, so this must be set before any e-mail goes out
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtp.port);
+  });
+
+  after(() => {
+    receiver.close();
+    smtp.close();
+  });
+
+  beforeEach(async () => {
+    receiver.requests.length = 0;
+    receiver.statuses.length = 0;
+    storage = new MemStorage();
+    dispatcher = new NotificationDispatcher(storage);
+    server = await storage.createServer({ name: "web-01", hostname: "web-01.local", ip: "10.0.0.1" });
+  });
+
+  function addChannel(channel: Partial<InsertNotificationChannel> & Pick<InsertNotificationChannel, "type" | "config">) {
+    return storage.createNotificationChannel({ name: channel.type, ...channel });
+  }
+
+  function raise(severity = "critical"): Promise<Alert> {
+    return storage.createAlert({ serverId: server.id, alertType: "cpu", severity, message: "CPU acima de 90%" });
+  }
+
+  test("posts signed webhook payloads and records the delivery", async () => {
+    const channel = await addChannel({ type: "webhook", config: { url: receiver.url, secret: "0123456789abcdef" } });
+    const alert = await raise();
+
+    await dispatcher.dispatch(alert, "triggered");
+
+    assert.equal(receiver.requests.length, 1);
+    const { headers, body } = receiver.requests[0];
+    assert.equal(headers["x-hosmonitor-event"], "triggered");
+    const timestamp = headers["x-hosmonitor-timestamp"] as string;
+    assert.equal(headers["x-hosmonitor-signature"], `sha256=${signWebhookPayload("0123456789abcdef", timestamp, body)}`);
+
+    const payload = JSON.parse(body);
+    assert.equal(payload.event, "triggered");
+    assert.equal(payload.alert.id, alert.id);
+    assert.deepEqual(payload.server, { id: server.id, name: "web-01" });
+
+    const [delivery] = await storage.getNotificationDeliveries();
+    assert.equal(delivery.channelId, channel.id);
+    assert.equal(delivery.status, "success");
+    assert.equal(delivery.attempts, 1);
+  });
+
+  test("formats Slack and Teams messages", async () => {
+    await addChannel({ type: "slack", config: { url: receiver.url } });
+    await addChannel({ type: "teams", config: { url: receiver.url } });
+
+    await dispatcher.dispatch(await raise("warning"), "triggered");
+
+    const [slack, teams] = receiver.requests.map(request => JSON.parse(request.body));
+    assert.equal(slack.text, "[AVISO] web-01: CPU acima de 90%");
+    assert.equal(slack.attachments[0].color, "#f59e0b");
+    assert.ok(slack.attachments[0].fields.some((field: { title: string; value: string }) => field.title === "Servidor" && field.value === "web-01"));
+    assert.equal(teams["@type"], "MessageCard");
+    assert.equal(teams.themeColor, "f59e0b");
+    assert.equal(teams.title, slack.text);
+  });
+
+  test("skips channels outside the alert severity and resolutions they opted out of", async () => {
+    await addChannel({ type: "slack", config: { url: receiver.url }, severities: ["critical"] });
+    await addChannel({ type: "slack", config: { url: receiver.url }, notifyOnResolve: false });
+
+    const warning = await raise("warning");
+    await dispatcher.dispatch(warning, "triggered");
+    assert.equal(receiver.requests.length, 1);
+
+    const resolved = (await storage.resolveAlert(warning.id))!;
+    await dispatcher.dispatch(resolved, "resolved");
+    assert.equal(receiver.requests.length, 1);
+  });
+
+  test("does not announce the same resolution twice but announces a later one", async () => {
+    await addChannel({ type: "slack", config: { url: receiver.url } });
+    const alert = await raise();
+
+    const resolved = (await storage.resolveAlert(alert.id))!;
+    await dispatcher.dispatch(resolved, "resolved");
+    await dispatcher.dispatch(resolved, "resolved");
+    assert.equal(receiver.requests.length, 1);
+
+    const reopened = (await storage.reopenAlert(alert.id, { id: "u1", name: "Ana" }))!;
+    await dispatcher.dispatch(reopened, "reopened");
+    assert.match(JSON.parse(receiver.requests[1].body).text, /^\[Reaberto\]/);
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await dispatcher.dispatch((await storage.resolveAlert(alert.id))!, "resolved");
+    assert.equal(receiver.requests.length, 3);
+  });
+
+  test("keeps failed deliveries pending with a back-off until attempts run out", async () => {
+    await addChannel({ type: "slack", config: { url: receiver.url } });
+    receiver.statuses.push(500, 500, 500, 500, 500);
+
+    const before = Date.now();
+    await dispatcher.dispatch(await raise(), "triggered");
+
+    let [delivery] = await storage.getNotificationDeliveries();
+    assert.equal(delivery.status, "pending");
+    assert.equal(delivery.attempts, 1);
+    assert.match(delivery.lastError!, /HTTP 500: boom/);
+    const delay = delivery.nextAttemptAt!.getTime() - before;
+    assert.ok(delay >= 30_000 && delay < 31_000, `unexpected retry delay ${delay}ms`);
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      await storage.updateNotificationDelivery(delivery.id, { nextAttemptAt: new Date(0) });
+      await dispatcher["retryDue"]();
+      [delivery] = await storage.getNotificationDeliveries();
+      assert.equal(delivery.attempts, attempt);
+    }
+
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.nextAttemptAt, null);
+    assert.equal(receiver.requests.length, 5);
+  });
+
+  test("sends e-mail channels through SMTP", async () => {
+    await addChannel({ type: "email", config: { to: ["ops@example.com"] } });
+
+    await dispatcher.dispatch(await raise(), "triggered");
+
+    assert.equal(smtp.messages.length, 1);
+    assert.match(smtp.messages[0], /^To: ops@example\.com$/m);
+    // Body is quoted-printable, so "crítico" arrives encoded
+    assert.match(smtp.messages[0], /^Alerta cr=C3=ADtico em web-01: CPU acima de 90%$/m);
+    const [delivery] = await storage.getNotificationDeliveries();
+    assert.equal(delivery.status, "success");
+  });
+});
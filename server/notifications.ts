@@ -0,0 +1,414 @@
+import { createHmac } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import type {
+  Alert,
+  ChatChannelConfig,
+  EmailChannelConfig,
+  NotificationChannel,
+  NotificationDelivery,
+  User,
+  WebhookChannelConfig,
+} from "@shared/schema";
+import { alertBus, type AlertLifecycleEvent } from "./alert-bus";
+import type { IStorage } from "./storage";
+
+// Delay before each retry; the first attempt happens immediately
+const RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 30 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const RETRY_POLL_INTERVAL_MS = 15_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const SEVERITY_LABELS: Record<string, string> = {
+  info: "INFO",
+  warning: "AVISO",
+  critical: "CRÍTICO",
+};
+
+const SEVERITY_COLORS: Record<string, string> = {
+  info: "#3b82f6",
+  warning: "#f59e0b",
+  critical: "#ef4444",
+};
+
+const RESOLVED_COLOR = "#22c55e";
+
+type DeliveryEvent = AlertLifecycleEvent | "escalated" | "test";
+
+// Escalations reach people by e-mail; everything else goes through a channel
+type DeliveryRecipient = { channel: NotificationChannel } | { user: User };
+
+interface NotificationMessage {
+  event: DeliveryEvent;
+  title: string;
+  text: string;
+  color: string;
+  alert: Alert;
+  serverName: string;
+}
+
+class NotificationDeliveryError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = "NotificationDeliveryError";
+  }
+}
+
+let smtpTransport: Transporter | null = null;
+
+function getSmtpTransport(): Transporter {
+  if (smtpTransport) return smtpTransport;
+
+  if (!process.env.SMTP_HOST) {
+    throw new NotificationDeliveryError("SMTP_HOST is not configured");
+  }
+
+  smtpTransport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+  return smtpTransport;
+}
+
+/**
+ * Signs a webhook body the same way receivers are expected to verify it:
+ * HMAC-SHA256 over "<timestamp>.<body>" with the channel secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new NotificationDeliveryError(`Request to ${new URL(url).host} failed: ${(error as Error).message}`, error);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    throw new NotificationDeliveryError(`Receiver responded with HTTP ${response.status}${detail ? `: ${detail}` : ""}`);
+  }
+}
+
+function buildMessage(event: DeliveryEvent, alert: Alert, serverName: string): NotificationMessage {
+  const severity = SEVERITY_LABELS[alert.severity] ?? alert.severity.toUpperCase();
+  const prefix = event === "resolved" ? "Resolvido" : event === "test" ? "Teste" : event === "escalated" ? "Escalonado" : event === "reopened" ? "Reaberto" : severity;
+
+  return {
+    event,
+    title: `[${prefix}] ${serverName}: ${alert.message}`,
+    text: event === "resolved"
+      ? `O alerta "${alert.message}" em ${serverName} foi resolvido.`
+      : event === "escalated"
+        ? `Alerta ${severity.toLowerCase()} em ${serverName} continua sem reconhecimento: ${alert.message}`
+        : event === "reopened"
+          ? `O alerta ${severity.toLowerCase()} "${alert.message}" em ${serverName} foi reaberto.`
+          : `Alerta ${severity.toLowerCase()} em ${serverName}: ${alert.message}`,
+    color: event === "resolved" ? RESOLVED_COLOR : SEVERITY_COLORS[alert.severity] ?? SEVERITY_COLORS.info,
+    alert,
+    serverName,
+  };
+}
+
+function messageFacts(message: NotificationMessage) {
+  return [
+    { title: "Servidor", value: message.serverName },
+    { title: "Severidade", value: SEVERITY_LABELS[message.alert.severity] ?? message.alert.severity },
+    { title: "Aberto em", value: new Date(message.alert.createdAt).toLocaleString("pt-BR") },
+  ];
+}
+
+async function sendEmail(to: string[], message: NotificationMessage): Promise<void> {
+  try {
+    await getSmtpTransport().sendMail({
+      from: process.env.SMTP_FROM || "HosMonitor <monitor@localhost>",
+      to: to.join(", "),
+      subject: message.title,
+      text: [message.text, "", ...messageFacts(message).map(fact => `${fact.title}: ${fact.value}`)].join("\n"),
+    });
+  } catch (error) {
+    if (error instanceof NotificationDeliveryError) throw error;
+    throw new NotificationDeliveryError(`SMTP delivery failed: ${(error as Error).message}`, error);
+  }
+}
+
+async function sendToChannel(channel: NotificationChannel, message: NotificationMessage): Promise<void> {
+  const facts = messageFacts(message);
+
+  switch (channel.type) {
+    case "email": {
+      const config = channel.config as EmailChannelConfig;
+      await sendEmail(config.to, message);
+      return;
+    }
+
+    case "webhook": {
+      const config = channel.config as WebhookChannelConfig;
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const body = JSON.stringify({
+        event: message.event,
+        alert: message.alert,
+        server: { id: message.alert.serverId, name: message.serverName },
+        sentAt: new Date().toISOString(),
+      });
+      await postJson(config.url, body, {
+        "X-HosMonitor-Event": message.event,
+        "X-HosMonitor-Timestamp": timestamp,
+        "X-HosMonitor-Signature": `sha256=${signWebhookPayload(config.secret, timestamp, body)}`,
+      });
+      return;
+    }
+
+    case "slack":
+    case "mattermost": {
+      const config = channel.config as ChatChannelConfig;
+      await postJson(config.url, JSON.stringify({
+        text: message.title,
+        attachments: [{
+          color: message.color,
+          text: message.text,
+          fields: facts.map(fact => ({ title: fact.title, value: fact.value, short: true })),
+        }],
+      }));
+      return;
+    }
+
+    case "teams": {
+      const config = channel.config as ChatChannelConfig;
+      await postJson(config.url, JSON.stringify({
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        themeColor: message.color.replace("#", ""),
+        summary: message.title,
+        title: message.title,
+        text: message.text,
+        sections: [{ facts: facts.map(fact => ({ name: fact.title, value: fact.value })) }],
+      }));
+      return;
+    }
+
+    default:
+      throw new NotificationDeliveryError(`Unsupported channel type: ${channel.type}`);
+  }
+}
+
+async function sendToRecipient(recipient: DeliveryRecipient, message: NotificationMessage): Promise<void> {
+  if ("channel" in recipient) return sendToChannel(recipient.channel, message);
+  if (!recipient.user.email) {
+    throw new NotificationDeliveryError(`User ${recipient.user.username} has no e-mail address`);
+  }
+  return sendEmail([recipient.user.email], message);
+}
+
+export class NotificationDispatcher {
+  private retryTimer: NodeJS.Timeout | null = null;
+  // Deliveries currently being sent, so the retry poll never doubles up
+  private inFlight = new Set<string>();
+
+  constructor(private readonly storage: IStorage) {}
+
+  start() {
+    alertBus.onAlert("triggered", alert => {
+      this.dispatch(alert, "triggered").catch(error => console.error("Failed to dispatch alert notifications:", error));
+    });
+    alertBus.onAlert("resolved", alert => {
+      this.dispatch(alert, "resolved").catch(error => console.error("Failed to dispatch alert notifications:", error));
+    });
+    alertBus.onAlert("reopened", alert => {
+      this.dispatch(alert, "reopened").catch(error => console.error("Failed to dispatch alert notifications:", error));
+    });
+
+    // Pending rows left over from a restart are picked up by the first poll
+    this.retryTimer = setInterval(() => {
+      this.retryDue().catch(error => console.error("Failed to retry notification deliveries:", error));
+    }, RETRY_POLL_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  async dispatch(alert: Alert, event: AlertLifecycleEvent): Promise<void> {
+    // Alerts raised inside a "mark" maintenance window stay quiet until the window is over
+    if (alert.maintenanceWindowId) return;
+
+    const channels = (await this.storage.getNotificationChannels()).filter(channel =>
+      channel.isEnabled &&
+      (channel.severities as string[]).includes(alert.severity) &&
+      (event !== "resolved" || channel.notifyOnResolve),
+    );
+    // Reopening restarts the alert's escalation clock, so it also marks when it last opened
+    const since = event === "resolved" ? alert.resolvedAt ?? alert.createdAt : alert.escalationStartedAt;
+
+    for (const channel of channels) {
+      // Resolving an already resolved alert must not notify twice
+      if (await this.storage.hasNotificationDelivery(channel.id, alert.id, event, since)) continue;
+
+      const delivery = await this.storage.createNotificationDelivery({
+        channelId: channel.id,
+        alertId: alert.id,
+        event,
+        status: "pending",
+        nextAttemptAt: new Date(),
+      });
+      await this.attempt(delivery, { channel }, alert);
+    }
+  }
+
+  /** Notifies escalation targets about an alert nobody has acknowledged yet, with the usual retries. */
+  async escalate(alert: Alert, recipients: { channels: NotificationChannel[]; users: User[] }): Promise<void> {
+    const targets: DeliveryRecipient[] = [
+      ...recipients.channels.map(channel => ({ channel })),
+      ...recipients.users.map(user => ({ user })),
+    ];
+
+    for (const recipient of targets) {
+      const delivery = await this.storage.createNotificationDelivery({
+        channelId: "channel" in recipient ? recipient.channel.id : null,
+        userId: "user" in recipient ? recipient.user.id : null,
+        alertId: alert.id,
+        event: "escalated",
+        status: "pending",
+        nextAttemptAt: new Date(),
+      });
+      await this.attempt(delivery, recipient, alert);
+    }
+  }
+
+  /**
+   * Sends a sample alert through a channel once, without retries, and
+   * records the outcome in the delivery log.
+   */
+  async sendTest(channel: NotificationChannel): Promise<NotificationDelivery> {
+    const sample: Alert = {
+      id: "test",
+      serverId: "test",
+      ruleId: null,
+      checkId: null,
+      metric: null,
+      maintenanceWindowId: null,
+      alertType: "test",
+      severity: "info",
+      message: `Notificação de teste do canal "${channel.name}"`,
+      threshold: null,
+      currentValue: null,
+      isResolved: false,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      snoozedUntil: null,
+      createdAt: new Date(),
+      resolvedAt: null,
+      resolvedBy: null,
+      escalationStep: 0,
+      escalationStartedAt: new Date(),
+      incidentId: null,
+      occurrences: 1,
+    };
+
+    const delivery = await this.storage.createNotificationDelivery({
+      channelId: channel.id,
+      event: "test",
+      status: "pending",
+    });
+
+    try {
+      await sendToChannel(channel, buildMessage("test", sample, "HosMonitor"));
+      return (await this.storage.updateNotificationDelivery(delivery.id, {
+        status: "success",
+        attempts: 1,
+        deliveredAt: new Date(),
+      }))!;
+    } catch (error) {
+      return (await this.storage.updateNotificationDelivery(delivery.id, {
+        status: "failed",
+        attempts: 1,
+        lastError: (error as Error).message,
+      }))!;
+    }
+  }
+
+  private async retryDue() {
+    const now = Date.now();
+    const due = (await this.storage.getPendingNotificationDeliveries()).filter(delivery =>
+      !this.inFlight.has(delivery.id) && (!delivery.nextAttemptAt || delivery.nextAttemptAt.getTime() <= now),
+    );
+
+    for (const delivery of due) {
+      const recipient = await this.recipientOf(delivery);
+      const alert = delivery.alertId ? await this.storage.getAlert(delivery.alertId) : undefined;
+
+      if (!recipient || !alert) {
+        await this.storage.updateNotificationDelivery(delivery.id, {
+          status: "failed",
+          lastError: !recipient ? `${delivery.userId ? "User" : "Channel"} no longer exists` : "Alert no longer exists",
+          nextAttemptAt: null,
+        });
+        continue;
+      }
+
+      await this.attempt(delivery, recipient, alert);
+    }
+  }
+
+  private async recipientOf(delivery: NotificationDelivery): Promise<DeliveryRecipient | undefined> {
+    if (delivery.userId) {
+      const user = await this.storage.getUser(delivery.userId);
+      return user && { user };
+    }
+    const channel = delivery.channelId ? await this.storage.getNotificationChannel(delivery.channelId) : undefined;
+    return channel && { channel };
+  }
+
+  // Server the alert is about, or the check for standalone synthetic checks
+  private async subjectName(alert: Alert): Promise<string> {
+    if (alert.serverId) {
+      return (await this.storage.getServer(alert.serverId))?.name ?? alert.serverId;
+    }
+    if (alert.checkId) {
+      return (await this.storage.getSyntheticCheck(alert.checkId))?.name ?? alert.checkId;
+    }
+    return "HosMonitor";
+  }
+
+  private async attempt(delivery: NotificationDelivery, recipient: DeliveryRecipient, alert: Alert) {
+    if (this.inFlight.has(delivery.id)) return;
+    this.inFlight.add(delivery.id);
+
+    const attempts = delivery.attempts + 1;
+    try {
+      await sendToRecipient(recipient, buildMessage(delivery.event as DeliveryEvent, alert, await this.subjectName(alert)));
+      await this.storage.updateNotificationDelivery(delivery.id, {
+        status: "success",
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+    } catch (error) {
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      await this.storage.updateNotificationDelivery(delivery.id, {
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        lastError: (error as Error).message,
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]),
+      });
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+}
+
+export { NotificationDeliveryError };
@@ -0,0 +1,308 @@
+import { timingSafeEqual } from "crypto";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  alertSeverities,
+  type Alert,
+  type ContainerService,
+  type ContainerStack,
+  type PublicServerWithMetrics,
+  type ServiceProcess,
+} from "@shared/schema";
+import { requireAuth } from "./auth";
+import type { IStorage } from "./storage";
+
+type Labels = Record<string, string>;
+
+const HTTP_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const COLLECTOR_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const STACK_STATUSES: ContainerStack["status"][] = ["running", "stopped", "degraded"];
+const CONTAINER_STATES: ContainerService["state"][] = ["running", "stopped", "restarting", "error"];
+const SERVICE_STATUSES: ServiceProcess["status"][] = ["active", "inactive", "failed", "restarting"];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/** Accumulates families in the Prometheus text exposition format (0.0.4). */
+class ExpositionWriter {
+  private lines: string[] = [];
+
+  family(name: string, type: "gauge" | "counter" | "histogram", help: string) {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  }
+
+  sample(name: string, labels: Labels, value: number) {
+    this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  toString(): string {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[],
+  ) {}
+
+  observe(labels: Labels, seconds: number) {
+    const key = JSON.stringify(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (seconds <= bound) series.counts[index]++;
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  write(writer: ExpositionWriter) {
+    writer.family(this.name, "histogram", this.help);
+    this.series.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        writer.sample(`${this.name}_bucket`, { ...labels, le: formatValue(bound) }, counts[index]);
+      });
+      writer.sample(`${this.name}_bucket`, { ...labels, le: "+Inf" }, count);
+      writer.sample(`${this.name}_sum`, labels, sum);
+      writer.sample(`${this.name}_count`, labels, count);
+    });
+  }
+}
+
+function serverLabels(server: PublicServerWithMetrics): Labels {
+  const tags = Array.isArray(server.tags) ? (server.tags as unknown[]).map(String).sort() : [];
+  return {
+    server_id: server.id,
+    name: server.name,
+    environment: server.environment,
+    server_type: server.serverType,
+    // Wrapped in commas so a single tag can be matched with tags=~".*,web,.*"
+    tags: tags.length ? `,${tags.join(",")},` : "",
+  };
+}
+
+function writeServerMetrics(writer: ExpositionWriter, servers: PublicServerWithMetrics[]) {
+  const gauges: Array<{ name: string; help: string; value: (server: PublicServerWithMetrics) => number | null }> = [
+    {
+      name: "hosmonitor_server_up",
+      help: "Whether the latest sample reached the server (1) or not (0).",
+      value: server => (server.metrics?.isOnline ? 1 : 0),
+    },
+    {
+      name: "hosmonitor_server_cpu_usage_percent",
+      help: "CPU usage from the latest sample.",
+      value: server => parseSample(server.metrics?.cpuUsage),
+    },
+    {
+      name: "hosmonitor_server_memory_usage_percent",
+      help: "Memory usage from the latest sample.",
+      value: server => parseSample(server.metrics?.memoryUsage),
+    },
+    {
+      name: "hosmonitor_server_disk_usage_percent",
+      help: "Root filesystem usage from the latest sample.",
+      value: server => parseSample(server.metrics?.diskUsage),
+    },
+    {
+      name: "hosmonitor_server_network_receive_bytes_per_second",
+      help: "Inbound network throughput from the latest sample.",
+      value: server => scale(parseSample(server.metrics?.networkIn), 1024),
+    },
+    {
+      name: "hosmonitor_server_network_transmit_bytes_per_second",
+      help: "Outbound network throughput from the latest sample.",
+      value: server => scale(parseSample(server.metrics?.networkOut), 1024),
+    },
+    {
+      name: "hosmonitor_server_uptime_seconds",
+      help: "Host uptime reported by the latest sample.",
+      value: server => parseSample(server.metrics?.uptime),
+    },
+    {
+      name: "hosmonitor_server_last_sample_timestamp_seconds",
+      help: "Unix time of the latest stored sample.",
+      value: server => (server.metrics ? new Date(server.metrics.timestamp).getTime() / 1000 : null),
+    },
+  ];
+
+  for (const gauge of gauges) {
+    writer.family(gauge.name, "gauge", gauge.help);
+    for (const server of servers) {
+      const value = gauge.value(server);
+      if (value !== null) writer.sample(gauge.name, serverLabels(server), value);
+    }
+  }
+}
+
+function writeAlertMetrics(writer: ExpositionWriter, alerts: Alert[]) {
+  writer.family("hosmonitor_alerts_active", "gauge", "Unresolved alerts by severity.");
+  for (const severity of alertSeverities) {
+    writer.sample("hosmonitor_alerts_active", { severity }, alerts.filter(alert => alert.severity === severity).length);
+  }
+}
+
+function writeContainerMetrics(writer: ExpositionWriter, stacks: ContainerStack[]) {
+  writer.family("hosmonitor_container_stack_status", "gauge", "Compose stack status, one series per possible status.");
+  for (const stack of stacks) {
+    for (const status of STACK_STATUSES) {
+      writer.sample(
+        "hosmonitor_container_stack_status",
+        { stack: stack.name, project: stack.projectName, status },
+        stack.status === status ? 1 : 0,
+      );
+    }
+  }
+
+  const services = stacks.flatMap(stack =>
+    stack.services.map(service => ({ service, labels: { stack: stack.name, service: service.name, image: service.image } })),
+  );
+
+  writer.family("hosmonitor_container_service_state", "gauge", "Compose service state, one series per possible state.");
+  for (const { service, labels } of services) {
+    for (const state of CONTAINER_STATES) {
+      writer.sample("hosmonitor_container_service_state", { ...labels, state }, service.state === state ? 1 : 0);
+    }
+  }
+
+  writer.family("hosmonitor_container_service_replicas", "gauge", "Replicas reported for each compose service.");
+  for (const { service, labels } of services) {
+    writer.sample("hosmonitor_container_service_replicas", labels, service.replicas);
+  }
+}
+
+function writeServiceMetrics(writer: ExpositionWriter, services: ServiceProcess[]) {
+  writer.family("hosmonitor_service_status", "gauge", "Managed service status, one series per possible status.");
+  for (const service of services) {
+    const labels = { service_id: service.id, name: service.name, manager: service.manager, server_id: service.serverId ?? "" };
+    for (const status of SERVICE_STATUSES) {
+      writer.sample("hosmonitor_service_status", { ...labels, status }, service.status === status ? 1 : 0);
+    }
+  }
+}
+
+function writeProcessMetrics(writer: ExpositionWriter) {
+  const memory = process.memoryUsage();
+  const cpu = process.cpuUsage();
+
+  writer.family("process_cpu_seconds_total", "counter", "User and system CPU time spent by the dashboard process.");
+  writer.sample("process_cpu_seconds_total", {}, (cpu.user + cpu.system) / 1e6);
+  writer.family("process_resident_memory_bytes", "gauge", "Resident set size of the dashboard process.");
+  writer.sample("process_resident_memory_bytes", {}, memory.rss);
+  writer.family("nodejs_heap_used_bytes", "gauge", "V8 heap in use.");
+  writer.sample("nodejs_heap_used_bytes", {}, memory.heapUsed);
+  writer.family("process_start_time_seconds", "gauge", "Unix time the dashboard process started.");
+  writer.sample("process_start_time_seconds", {}, Math.round(Date.now() / 1000 - process.uptime()));
+}
+
+function parseSample(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function scale(value: number | null, factor: number): number | null {
+  return value === null ? null : value * factor;
+}
+
+/**
+ * Process-wide registry behind GET /metrics. Fleet data is read from storage
+ * on each scrape; the dashboard's own histograms accumulate in memory.
+ */
+export class DashboardMetrics {
+  readonly httpRequestDuration = new Histogram(
+    "hosmonitor_http_request_duration_seconds",
+    "API response time by method, route pattern and status code.",
+    HTTP_DURATION_BUCKETS,
+  );
+  readonly collectorDuration = new Histogram(
+    "hosmonitor_collector_loop_duration_seconds",
+    "Time taken by one collect, evaluate and broadcast cycle.",
+    COLLECTOR_DURATION_BUCKETS,
+  );
+  private websocketClients: () => number = () => 0;
+
+  trackWebSocketClients(count: () => number) {
+    this.websocketClients = count;
+  }
+
+  // Labels requests by route pattern (not raw path) to keep series counts bounded
+  observeHttpRequests(): RequestHandler {
+    return (req, res, next) => {
+      const start = process.hrtime.bigint();
+      res.on("finish", () => {
+        if (!req.route && !req.path.startsWith("/api")) return;
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+        this.httpRequestDuration.observe({ method: req.method, route, status: String(res.statusCode) }, seconds);
+      });
+      next();
+    };
+  }
+
+  async render(storage: IStorage): Promise<string> {
+    const writer = new ExpositionWriter();
+
+    // Sections fail independently (e.g. Docker unreachable) so one outage doesn't blank the scrape
+    const sections = {
+      servers: storage.getPublicServersWithLatestMetrics().then(servers => writeServerMetrics(writer, servers)),
+      alerts: storage.getActiveAlerts().then(alerts => writeAlertMetrics(writer, alerts)),
+      containers: storage.getContainerStacks().then(stacks => writeContainerMetrics(writer, stacks)),
+      services: storage.getServiceProcesses().then(services => writeServiceMetrics(writer, services)),
+    };
+    const results = await Promise.allSettled(Object.values(sections));
+
+    writer.family("hosmonitor_scrape_section_success", "gauge", "Whether each section of this scrape could be read.");
+    Object.keys(sections).forEach((section, index) => {
+      writer.sample("hosmonitor_scrape_section_success", { section }, results[index].status === "fulfilled" ? 1 : 0);
+    });
+
+    writer.family("hosmonitor_websocket_clients", "gauge", "Connected dashboard WebSocket clients.");
+    writer.sample("hosmonitor_websocket_clients", {}, this.websocketClients());
+    this.httpRequestDuration.write(writer);
+    this.collectorDuration.write(writer);
+    writeProcessMetrics(writer);
+
+    return writer.toString();
+  }
+}
+
+export const dashboardMetrics = new DashboardMetrics();
+
+/**
+ * Scrapers authenticate with `Authorization: Bearer $METRICS_TOKEN`; without
+ * the variable the endpoint falls back to the normal session login.
+ */
+export function requireMetricsAccess(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.METRICS_TOKEN;
+  const header = req.headers.authorization;
+
+  if (token && header?.startsWith("Bearer ")) {
+    const provided = Buffer.from(header.slice("Bearer ".length));
+    const expected = Buffer.from(token);
+    if (provided.length === expected.length && timingSafeEqual(provided, expected)) {
+      return next();
+    }
+    return res.status(401).json({ message: "Invalid metrics token" });
+  }
+  requireAuth(req, res, next);
+}
@@ -0,0 +1,44 @@
+// Re-encrypts every stored SSH credential with the current master key.
+//
+// Usage: CREDENTIALS_MASTER_KEY=<new> CREDENTIALS_MASTER_KEY_PREVIOUS=<old> npm run credentials:rotate
+//
+// Plaintext values left over from before encryption was enabled are sealed too,
+// so running it once after the first deploy is enough to migrate existing rows.
+import { eq } from "drizzle-orm";
+import { servers } from "@shared/schema";
+import { db, pool } from "./db";
+import { decryptSecret, encryptSecret } from "./credentials";
+
+async function rotateCredentials() {
+  const rows = await db
+    .select({ id: servers.id, name: servers.name, sshPassword: servers.sshPassword, sshPrivateKey: servers.sshPrivateKey })
+    .from(servers);
+
+  let rotated = 0;
+
+  await db.transaction(async (tx) => {
+    for (const row of rows) {
+      if (!row.sshPassword && !row.sshPrivateKey) continue;
+
+      await tx
+        .update(servers)
+        .set({
+          sshPassword: row.sshPassword ? encryptSecret(decryptSecret(row.sshPassword)) : row.sshPassword,
+          sshPrivateKey: row.sshPrivateKey ? encryptSecret(decryptSecret(row.sshPrivateKey)) : row.sshPrivateKey,
+        })
+        .where(eq(servers.id, row.id));
+
+      rotated++;
+      console.log(`🔐 Re-encrypted credentials for ${row.name}`);
+    }
+  });
+
+  console.log(`✅ Rotated credentials for ${rotated} of ${rows.length} servers`);
+}
+
+rotateCredentials()
+  .catch((error) => {
+    console.error("❌ Credential rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
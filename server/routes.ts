@@ -1,144 +1,1295 @@
-import type { Express } from "express";
-import { createServer, type Server } from "http";
+import type { Express, Response } from "express";
+import { createServer, type Server, type IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { DockerUnavailableError } from "./docker";
+import { MetricsCollector } from "./collector";
+import { SshTerminalManager } from "./ssh-terminal";
+import { AlertEvaluator } from "./alert-evaluator";
+import { NotificationDispatcher } from "./notifications";
+import { SettingsService } from "./settings";
+import { MetricsQueryError, applyMetricsTier, resolveMetricsRange } from "./metrics-query";
+import { MetricsRetentionJob, retentionDaysByTier } from "./metrics-retention";
+import { dashboardMetrics, requireMetricsAccess } from "./prometheus";
+import { IngestError, MetricsIngestor, generateIngestToken } from "./ingest";
+import { SyntheticCheckRunner } from "./synthetic-checks";
+import { AvailabilityService, sloWindowRange } from "./availability";
+import { CapacityForecaster } from "./forecasting";
+import { AnomalyDetector } from "./anomaly-detection";
+import { CronExpressionError, MaintenanceService, parseCronExpression } from "./maintenance";
+import { EscalationConfigError, EscalationEngine } from "./escalation";
+import { IncidentCorrelator, ServerDependencyError } from "./incidents";
+import { LogShipper } from "./log-shipper";
+import { compileLogParser, LogFilterError, LogParserError, LogParserRegistry, parseLogFieldFilters } from "./log-parsers";
+import { SyslogReceiver } from "./syslog";
+import { LogTailManager } from "./log-tail";
+import { LogSearchError, highlightLogMessage, parseLogSearch, resolveLogSearchRange } from "./log-search";
+import { setupAuth, requireRole, authenticateUpgrade, hasRole } from "./auth";
 import {
   insertServerSchema,
   insertMetricsSchema,
   insertAlertSchema,
+  insertAlertRuleSchema,
+  alertCommentSchema,
+  snoozeAlertSchema,
+  bulkAlertActionSchema,
+  updateAlertRuleSchema,
+  insertNotificationChannelSchema,
+  updateNotificationChannelSchema,
+  updateAppSettingsSchema,
+  metricsRangeQuerySchema,
+  fleetMetricsQuerySchema,
+  customMetricsQuerySchema,
+  ingestBatchSchema,
+  insertSyntheticCheckSchema,
+  updateSyntheticCheckSchema,
+  checkResultsQuerySchema,
+  insertSloSchema,
+  updateSloSchema,
+  insertMaintenanceWindowSchema,
+  updateMaintenanceWindowSchema,
+  insertOnCallScheduleSchema,
+  updateOnCallScheduleSchema,
+  insertOnCallOverrideSchema,
+  insertEscalationPolicySchema,
+  updateEscalationPolicySchema,
+  insertCorrelationRuleSchema,
+  updateCorrelationRuleSchema,
+  updateIncidentSchema,
+  incidentNoteSchema,
+  availabilityQuerySchema,
+  availabilityReportQuerySchema,
+  insertIngestTokenSchema,
   insertServerLogSchema,
   insertLogMonitoringConfigSchema,
+  assignSyslogSenderSchema,
+  insertLogParserSchema,
+  updateLogParserSchema,
+  logParserPreviewSchema,
+  logSearchQuerySchema,
+  insertSavedLogSearchSchema,
   containerActionSchema,
   serviceActionSchema,
   createBackupSchema,
   createLogExportSchema,
   recordTelemetryEventSchema,
+  type PublicUser,
+  type AlertActor,
+  type OnCallUser,
+  type MetricSeries,
+  type MetricBaselineSeries,
+  type FleetMetricSeries,
+  type CustomMetricSeriesResponse,
+  type IngestToken,
+  type PublicIngestToken,
+  type SyntheticCheckWithStatus,
+  type AvailabilityResponse,
+  type LogSearchResult,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { ZodError } from "zod";
 
+function alertActor(user: PublicUser): AlertActor {
+  return { id: user.id, name: user.displayName || user.username };
+}
+
+function toPublicIngestToken({ tokenHash: _tokenHash, ...token }: IngestToken): PublicIngestToken {
+  return token;
+}
+
+// Storage answers an unknown alert and a disallowed transition the same way
+async function sendAlertTransitionError(res: Response, id: string, conflict: string) {
+  if (!(await storage.getAlert(id))) {
+    return res.status(404).json({ message: "Alert not found" });
+  }
+  return res.status(409).json({ message: conflict });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  const correlator = new IncidentCorrelator(storage);
+  correlator.start();
+  const maintenance = new MaintenanceService(storage, correlator);
+  maintenance.start();
+  const alertEvaluator = new AlertEvaluator(storage, maintenance);
+  const ingestor = new MetricsIngestor(storage, alertEvaluator);
+
+  // Agents authenticate with their own bearer token, so this is registered ahead of the session middleware
+  app.post("/api/ingest/metrics", async (req, res) => {
+    try {
+      const token = await ingestor.authenticate(req.headers.authorization);
+      const batch = ingestBatchSchema.parse(req.body);
+      const result = await ingestor.ingest(token, batch);
+      res.status(result.accepted ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof IngestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid metrics batch", issues: error.issues });
+      }
+      res.status(500).json({ message: "Failed to ingest metrics" });
+    }
+  });
+
+  const settings = new SettingsService(storage);
+  const sessionParser = setupAuth(app, {
+    sessionMaxAgeMs: () => settings.get().sessionTimeoutMinutes * 60_000,
+  });
+  const sshTerminals = new SshTerminalManager(storage);
+  const logTail = new LogTailManager(storage);
+  logTail.start();
+  const notifications = new NotificationDispatcher(storage);
+  notifications.start();
+  const syntheticChecks = new SyntheticCheckRunner(storage, maintenance);
+  syntheticChecks.start();
+  const availability = new AvailabilityService(storage);
+  const forecaster = new CapacityForecaster(storage, settings, maintenance);
+  const anomalyDetector = new AnomalyDetector(storage, settings, maintenance);
+  const escalation = new EscalationEngine(storage, notifications);
+  escalation.start();
+  const logParsers = new LogParserRegistry(storage);
+  const logShipper = new LogShipper(storage, maintenance, logParsers);
+  logShipper.start();
+  const syslogReceiver = new SyslogReceiver(storage, logParsers);
+  syslogReceiver.start();
+
   // Server management routes
   app.get("/api/servers", async (req, res) => {
     try {
-      const servers = await storage.getPublicServersWithLatestMetrics();
-      res.json(servers);
+      const servers = await storage.getPublicServersWithLatestMetrics();
+      res.json(servers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch servers" });
+    }
+  });
+
+  app.get("/api/servers/:id", async (req, res) => {
+    try {
+      const server = await storage.getPublicServer(req.params.id);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const metrics = await storage.getLatestServerMetrics(server.id);
+      const alerts = await storage.getServerAlerts(server.id);
+      res.json({ ...server, metrics, alerts });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch server" });
+    }
+  });
+
+  app.post("/api/servers", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertServerSchema.parse(req.body);
+      await correlator.assertParentServer(undefined, validatedData.parentServerId);
+      const server = await storage.createServer(validatedData);
+      // Return sanitized server data without SSH credentials
+      const publicServer = await storage.getPublicServer(server.id);
+      res.status(201).json(publicServer);
+    } catch (error) {
+      if (error instanceof ServerDependencyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid server data" });
+    }
+  });
+
+  app.put("/api/servers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertServerSchema.partial().parse(req.body);
+      await correlator.assertParentServer(req.params.id, validatedData.parentServerId);
+      const server = await storage.updateServer(req.params.id, validatedData);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      // Return sanitized server data without SSH credentials
+      const publicServer = await storage.getPublicServer(server.id);
+      res.json(publicServer);
+    } catch (error) {
+      if (error instanceof ServerDependencyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid server data" });
+    }
+  });
+
+  app.delete("/api/servers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteServer(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete server" });
+    }
+  });
+
+  // Metrics routes
+  app.get("/api/servers/:id/metrics", async (req, res) => {
+    try {
+      const range = applyMetricsTier(
+        resolveMetricsRange(metricsRangeQuerySchema.parse(req.query)),
+        retentionDaysByTier(settings.get()),
+      );
+      const server = await storage.getPublicServer(req.params.id);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const series = await storage.getMetricSeries([server.id], range);
+      const response: MetricSeries = {
+        serverId: server.id,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        step: range.stepSeconds,
+        tier: range.tier ?? "raw",
+        buckets: series.get(server.id) ?? [],
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof MetricsQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid metrics query" });
+      }
+      res.status(500).json({ message: "Failed to fetch metrics" });
+    }
+  });
+
+  app.get("/api/servers/:id/baseline", async (req, res) => {
+    try {
+      const range = applyMetricsTier(
+        resolveMetricsRange(metricsRangeQuerySchema.parse(req.query)),
+        retentionDaysByTier(settings.get()),
+      );
+      const server = await storage.getPublicServer(req.params.id);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const response: MetricBaselineSeries = {
+        serverId: server.id,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        step: range.stepSeconds,
+        points: await anomalyDetector.getBaselineSeries(server.id, range),
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof MetricsQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid metrics query" });
+      }
+      res.status(500).json({ message: "Failed to fetch baseline" });
+    }
+  });
+
+  app.get("/api/forecasts", async (_req, res) => {
+    try {
+      res.json(await forecaster.forecast(await storage.getPublicServers()));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compute forecasts" });
+    }
+  });
+
+  app.get("/api/servers/:id/forecast", async (req, res) => {
+    try {
+      const server = await storage.getPublicServer(req.params.id);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      res.json(await forecaster.forecast([server]));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compute forecast" });
+    }
+  });
+
+  app.get("/api/metrics/series", async (req, res) => {
+    try {
+      const query = fleetMetricsQuerySchema.parse(req.query);
+      const range = applyMetricsTier(resolveMetricsRange(query), retentionDaysByTier(settings.get()));
+      const servers = (await storage.getPublicServers()).filter(server =>
+        (!query.serverIds || query.serverIds.includes(server.id)) &&
+        (!query.environment || server.environment === query.environment),
+      );
+      const serverIds = servers.map(server => server.id);
+
+      const [perServer, fleet] = await Promise.all([
+        storage.getMetricSeries(serverIds, range),
+        storage.getFleetMetricSeries(serverIds, range),
+      ]);
+
+      const from = range.from.toISOString();
+      const to = range.to.toISOString();
+      const response: FleetMetricSeries = {
+        from,
+        to,
+        step: range.stepSeconds,
+        tier: range.tier ?? "raw",
+        fleet,
+        servers: serverIds.map(serverId => ({
+          serverId,
+          from,
+          to,
+          step: range.stepSeconds,
+          tier: range.tier ?? "raw",
+          buckets: perServer.get(serverId) ?? [],
+        })),
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof MetricsQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid metrics query" });
+      }
+      res.status(500).json({ message: "Failed to fetch metrics" });
+    }
+  });
+
+  app.get("/api/servers/:id/custom-metrics", async (req, res) => {
+    try {
+      const server = await storage.getPublicServer(req.params.id);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const metrics = await storage.getLatestCustomMetrics(server.id);
+      res.json(metrics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch custom metrics" });
+    }
+  });
+
+  // Labeled series are only kept raw, so there is no tier to pick
+  app.get("/api/servers/:id/custom-metrics/series", async (req, res) => {
+    try {
+      const query = customMetricsQuerySchema.parse(req.query);
+      const range = resolveMetricsRange(query);
+      const server = await storage.getPublicServer(req.params.id);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const response: CustomMetricSeriesResponse = {
+        serverId: server.id,
+        name: query.name,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        step: range.stepSeconds,
+        series: await storage.getCustomMetricSeries(server.id, query.name, range, query.labels),
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof MetricsQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid metrics query" });
+      }
+      res.status(500).json({ message: "Failed to fetch custom metrics" });
+    }
+  });
+
+  app.post("/api/servers/:id/metrics", requireRole("operator"), async (req, res) => {
+    try {
+      // A pushed sample means the agent reached us, so default to online
+      const validatedData = insertMetricsSchema.parse({
+        isOnline: true,
+        ...req.body,
+        serverId: req.params.id,
+      });
+      const metrics = await storage.createMetrics(validatedData);
+      await alertEvaluator.evaluate([metrics]).catch(error => {
+        console.error("Failed to evaluate alert rules for pushed metrics:", error);
+      });
+      res.status(201).json(metrics);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid metrics data" });
+    }
+  });
+
+  // Alert routes
+  app.get("/api/alerts", async (req, res) => {
+    try {
+      // ?status=resolved lists recently resolved alerts; the default stays the active ones
+      const alerts = req.query.status === "resolved"
+        ? await storage.getResolvedAlerts()
+        : await storage.getActiveAlerts();
+      res.json(alerts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  app.post("/api/alerts", requireRole("operator"), async (req, res) => {
+    try {
+      const validatedData = insertAlertSchema.parse(req.body);
+      const alert = await storage.createAlert(validatedData);
+      res.status(201).json(alert);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid alert data" });
+    }
+  });
+
+  app.patch("/api/alerts/:id/acknowledge", requireRole("operator"), async (req, res) => {
+    try {
+      const alert = await storage.acknowledgeAlert(req.params.id, alertActor(req.user!));
+      if (!alert) {
+        return await sendAlertTransitionError(res, req.params.id, "Alert is already acknowledged or resolved");
+      }
+      res.json(alert);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to acknowledge alert" });
+    }
+  });
+
+  app.patch("/api/alerts/:id/snooze", requireRole("operator"), async (req, res) => {
+    try {
+      const { minutes } = snoozeAlertSchema.parse(req.body);
+      const until = new Date(Date.now() + minutes * 60_000);
+      const alert = await storage.snoozeAlert(req.params.id, until, alertActor(req.user!));
+      if (!alert) {
+        return await sendAlertTransitionError(res, req.params.id, "Resolved alerts cannot be snoozed");
+      }
+      res.json(alert);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid snooze payload" });
+      }
+      res.status(500).json({ message: "Failed to snooze alert" });
+    }
+  });
+
+  app.patch("/api/alerts/:id/resolve", requireRole("operator"), async (req, res) => {
+    try {
+      const alert = await storage.resolveAlert(req.params.id, alertActor(req.user!));
+      if (!alert) {
+        return await sendAlertTransitionError(res, req.params.id, "Alert is already resolved");
+      }
+      res.json(alert);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resolve alert" });
+    }
+  });
+
+  app.patch("/api/alerts/:id/reopen", requireRole("operator"), async (req, res) => {
+    try {
+      const alert = await storage.reopenAlert(req.params.id, alertActor(req.user!));
+      if (!alert) {
+        return await sendAlertTransitionError(res, req.params.id, "Only resolved alerts can be reopened");
+      }
+      res.json(alert);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reopen alert" });
+    }
+  });
+
+  app.post("/api/alerts/bulk", requireRole("operator"), async (req, res) => {
+    try {
+      const { ids, action, minutes } = bulkAlertActionSchema.parse(req.body);
+      const actor = alertActor(req.user!);
+      const until = minutes ? new Date(Date.now() + minutes * 60_000) : undefined;
+
+      // Alerts whose state does not allow the action are left out of the response
+      const updated = [];
+      for (const id of ids) {
+        const alert =
+          action === "acknowledge" ? await storage.acknowledgeAlert(id, actor) :
+          action === "snooze" ? await storage.snoozeAlert(id, until!, actor) :
+          action === "resolve" ? await storage.resolveAlert(id, actor) :
+          await storage.reopenAlert(id, actor);
+        if (alert) updated.push(alert);
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid bulk action payload" });
+      }
+      res.status(500).json({ message: "Failed to apply bulk action" });
+    }
+  });
+
+  app.get("/api/alerts/:id/events", async (req, res) => {
+    try {
+      const events = await storage.getAlertEvents(req.params.id);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alert history" });
+    }
+  });
+
+  app.post("/api/alerts/:id/comments", requireRole("operator"), async (req, res) => {
+    try {
+      const { message } = alertCommentSchema.parse(req.body);
+      const event = await storage.addAlertComment(req.params.id, alertActor(req.user!), message);
+      if (!event) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid comment" });
+      }
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // Incident routes
+  app.get("/api/incidents", async (req, res) => {
+    try {
+      // ?status=all includes resolved incidents; the default lists the ones still being handled
+      res.json(await correlator.getIncidentsWithAlerts(req.query.status === "all"));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch incidents" });
+    }
+  });
+
+  app.get("/api/incidents/:id/events", async (req, res) => {
+    try {
+      const incident = await storage.getIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      res.json(await storage.getIncidentEvents(incident.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch incident history" });
+    }
+  });
+
+  app.put("/api/incidents/:id", requireRole("operator"), async (req, res) => {
+    try {
+      const validatedData = updateIncidentSchema.parse(req.body);
+      if (validatedData.commanderId) {
+        const commander = await storage.getUser(validatedData.commanderId);
+        if (!commander || !commander.isActive) {
+          return res.status(400).json({ message: "Unknown or inactive commander" });
+        }
+      }
+      const incident = await storage.updateIncident(req.params.id, validatedData, alertActor(req.user!));
+      if (!incident) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      res.json(incident);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid incident data" });
+      }
+      res.status(500).json({ message: "Failed to update incident" });
+    }
+  });
+
+  app.post("/api/incidents/:id/notes", requireRole("operator"), async (req, res) => {
+    try {
+      const { message } = incidentNoteSchema.parse(req.body);
+      const event = await storage.addIncidentNote(req.params.id, alertActor(req.user!), message);
+      if (!event) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid note" });
+      }
+      res.status(500).json({ message: "Failed to add note" });
+    }
+  });
+
+  app.get("/api/correlation-rules", async (_req, res) => {
+    try {
+      res.json(await storage.getCorrelationRules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch correlation rules" });
+    }
+  });
+
+  app.post("/api/correlation-rules", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertCorrelationRuleSchema.parse(req.body);
+      const rule = await storage.createCorrelationRule(validatedData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid correlation rule data" });
+      }
+      res.status(500).json({ message: "Failed to create correlation rule" });
+    }
+  });
+
+  app.put("/api/correlation-rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateCorrelationRuleSchema.parse(req.body);
+      const rule = await storage.updateCorrelationRule(req.params.id, validatedData);
+      if (!rule) {
+        return res.status(404).json({ message: "Correlation rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid correlation rule data" });
+      }
+      res.status(500).json({ message: "Failed to update correlation rule" });
+    }
+  });
+
+  app.delete("/api/correlation-rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCorrelationRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Correlation rule not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete correlation rule" });
+    }
+  });
+
+  // Alert rule routes
+  app.get("/api/alert-rules", async (_req, res) => {
+    try {
+      const rules = await storage.getAlertRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alert rules" });
+    }
+  });
+
+  app.post("/api/alert-rules", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertAlertRuleSchema.parse(req.body);
+      const rule = await storage.createAlertRule(validatedData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid alert rule data" });
+      }
+      res.status(500).json({ message: "Failed to create alert rule" });
+    }
+  });
+
+  app.put("/api/alert-rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateAlertRuleSchema.parse(req.body);
+      const existing = await storage.getAlertRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      // Re-check the scope invariants against the merged rule
+      insertAlertRuleSchema.parse({ ...existing, ...validatedData });
+      const rule = await storage.updateAlertRule(req.params.id, validatedData);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid alert rule data" });
+      }
+      res.status(500).json({ message: "Failed to update alert rule" });
+    }
+  });
+
+  app.delete("/api/alert-rules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAlertRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete alert rule" });
+    }
+  });
+
+  // Settings routes
+  app.get("/api/settings", async (_req, res) => {
+    res.json(settings.get());
+  });
+
+  app.put("/api/settings", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateAppSettingsSchema.parse(req.body);
+      const saved = await settings.update(validatedData, req.user!.id);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid settings data" });
+      }
+      res.status(500).json({ message: "Failed to save settings" });
+    }
+  });
+
+  // Notification channel routes
+  app.get("/api/notification-channels", requireRole("admin"), async (_req, res) => {
+    try {
+      const channels = await storage.getNotificationChannels();
+      res.json(channels);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification channels" });
+    }
+  });
+
+  app.post("/api/notification-channels", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertNotificationChannelSchema.parse(req.body);
+      const channel = await storage.createNotificationChannel(validatedData);
+      res.status(201).json(channel);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid notification channel data" });
+      }
+      res.status(500).json({ message: "Failed to create notification channel" });
+    }
+  });
+
+  app.put("/api/notification-channels/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateNotificationChannelSchema.parse(req.body);
+      const existing = await storage.getNotificationChannel(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+      // The config must still match the (possibly changed) channel type
+      insertNotificationChannelSchema.parse({ ...existing, ...validatedData });
+      const channel = await storage.updateNotificationChannel(req.params.id, validatedData);
+      res.json(channel);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid notification channel data" });
+      }
+      res.status(500).json({ message: "Failed to update notification channel" });
+    }
+  });
+
+  app.delete("/api/notification-channels/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteNotificationChannel(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete notification channel" });
+    }
+  });
+
+  app.post("/api/notification-channels/:id/test", requireRole("admin"), async (req, res) => {
+    try {
+      const channel = await storage.getNotificationChannel(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+      const delivery = await notifications.sendTest(channel);
+      res.json(delivery);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send test notification" });
+    }
+  });
+
+  app.get("/api/ingest-tokens", requireRole("admin"), async (_req, res) => {
+    try {
+      const tokens = await storage.getIngestTokens();
+      res.json(tokens.map(toPublicIngestToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ingest tokens" });
+    }
+  });
+
+  app.post("/api/ingest-tokens", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertIngestTokenSchema.parse(req.body);
+      if (validatedData.serverId && !(await storage.getServer(validatedData.serverId))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const { token, tokenHash, tokenPrefix } = generateIngestToken();
+      const created = await storage.createIngestToken({
+        name: validatedData.name,
+        serverId: validatedData.serverId ?? null,
+        tokenHash,
+        tokenPrefix,
+        createdBy: req.user!.id,
+      });
+      // The plain token is only ever returned here
+      res.status(201).json({ ...toPublicIngestToken(created), token });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid ingest token data" });
+      }
+      res.status(500).json({ message: "Failed to create ingest token" });
+    }
+  });
+
+  app.delete("/api/ingest-tokens/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const revoked = await storage.revokeIngestToken(req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Ingest token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke ingest token" });
+    }
+  });
+
+  // Synthetic check routes
+  app.get("/api/checks", async (_req, res) => {
+    try {
+      const [checks, latestResults] = await Promise.all([
+        storage.getSyntheticChecks(),
+        storage.getLatestCheckResults(),
+      ]);
+      const latestByCheck = new Map(latestResults.map(result => [result.checkId, result]));
+      const response: SyntheticCheckWithStatus[] = checks.map(check => ({
+        ...check,
+        latestResult: latestByCheck.get(check.id) ?? null,
+      }));
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch synthetic checks" });
+    }
+  });
+
+  app.get("/api/checks/:id/results", async (req, res) => {
+    try {
+      const query = checkResultsQuerySchema.parse(req.query);
+      const check = await storage.getSyntheticCheck(req.params.id);
+      if (!check) {
+        return res.status(404).json({ message: "Synthetic check not found" });
+      }
+      const to = query.to ?? new Date();
+      const from = query.from ?? new Date(to.getTime() - 24 * 60 * 60 * 1000);
+      if (from >= to) {
+        return res.status(400).json({ message: "from must be before to" });
+      }
+      res.json(await storage.getCheckResults(check.id, from, to));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid check results query" });
+      }
+      res.status(500).json({ message: "Failed to fetch check results" });
+    }
+  });
+
+  app.post("/api/checks", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertSyntheticCheckSchema.parse(req.body);
+      if (validatedData.serverId && !(await storage.getServer(validatedData.serverId))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const check = await storage.createSyntheticCheck(validatedData);
+      res.status(201).json(check);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid synthetic check data" });
+      }
+      res.status(500).json({ message: "Failed to create synthetic check" });
+    }
+  });
+
+  app.put("/api/checks/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateSyntheticCheckSchema.parse(req.body);
+      const existing = await storage.getSyntheticCheck(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Synthetic check not found" });
+      }
+      // The config must still match the (possibly changed) check type; defaults are filled in
+      const merged = insertSyntheticCheckSchema.parse({ ...existing, ...validatedData });
+      if (validatedData.serverId && !(await storage.getServer(validatedData.serverId))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const check = await storage.updateSyntheticCheck(req.params.id, { ...validatedData, config: merged.config });
+      syntheticChecks.forget(req.params.id);
+      res.json(check);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid synthetic check data" });
+      }
+      res.status(500).json({ message: "Failed to update synthetic check" });
+    }
+  });
+
+  app.delete("/api/checks/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSyntheticCheck(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Synthetic check not found" });
+      }
+      syntheticChecks.forget(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete synthetic check" });
+    }
+  });
+
+  // Runs a check immediately and returns the stored result
+  app.post("/api/checks/:id/run", requireRole("operator"), async (req, res) => {
+    try {
+      const check = await storage.getSyntheticCheck(req.params.id);
+      if (!check) {
+        return res.status(404).json({ message: "Synthetic check not found" });
+      }
+      const result = await syntheticChecks.run(check);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to run synthetic check" });
+    }
+  });
+
+  // Availability and SLO routes
+  app.get("/api/availability", async (req, res) => {
+    try {
+      const query = availabilityQuerySchema.parse(req.query);
+      const range = sloWindowRange(query.window);
+      const response: AvailabilityResponse = {
+        window: query.window,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        servers: await availability.getServerAvailability(await storage.getServers(), range),
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid availability query" });
+      }
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
+  app.get("/api/reports/availability", async (req, res) => {
+    try {
+      const query = availabilityReportQuerySchema.parse(req.query);
+      if (query.month && query.month > new Date().toISOString().slice(0, 7)) {
+        return res.status(400).json({ message: "month must not be in the future" });
+      }
+      res.json(await availability.getReport(query.environment, query.month));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid availability report query" });
+      }
+      res.status(500).json({ message: "Failed to build availability report" });
+    }
+  });
+
+  app.get("/api/slos", async (_req, res) => {
+    try {
+      res.json(await availability.getSloStatuses());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch SLOs" });
+    }
+  });
+
+  app.post("/api/slos", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertSloSchema.parse(req.body);
+      if (validatedData.scopeType === "server" && !(await storage.getServer(validatedData.scopeValue))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const slo = await storage.createSlo(validatedData);
+      res.status(201).json(slo);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid SLO data" });
+      }
+      res.status(500).json({ message: "Failed to create SLO" });
+    }
+  });
+
+  app.put("/api/slos/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateSloSchema.parse(req.body);
+      const existing = await storage.getSlo(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "SLO not found" });
+      }
+      const merged = { ...existing, ...validatedData };
+      if (merged.scopeType === "server" && !(await storage.getServer(merged.scopeValue))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const slo = await storage.updateSlo(req.params.id, validatedData);
+      res.json(slo);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid SLO data" });
+      }
+      res.status(500).json({ message: "Failed to update SLO" });
+    }
+  });
+
+  app.delete("/api/slos/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSlo(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "SLO not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete SLO" });
+    }
+  });
+
+  // Maintenance windows
+  app.get("/api/maintenance-windows", async (_req, res) => {
+    try {
+      res.json(await maintenance.getWindowStatuses());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch maintenance windows" });
+    }
+  });
+
+  app.get("/api/maintenance-windows/servers", async (_req, res) => {
+    try {
+      res.json(await maintenance.getServerMaintenance());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch server maintenance" });
+    }
+  });
+
+  app.get("/api/maintenance-windows/events", requireRole("operator"), async (req, res) => {
+    try {
+      const windowId = typeof req.query.windowId === "string" ? req.query.windowId : undefined;
+      res.json(await storage.getMaintenanceWindowEvents(windowId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch maintenance window events" });
+    }
+  });
+
+  app.post("/api/maintenance-windows", requireRole("operator"), async (req, res) => {
+    try {
+      const validatedData = insertMaintenanceWindowSchema.parse(req.body);
+      if (validatedData.recurrence) parseCronExpression(validatedData.recurrence);
+      if (validatedData.scopeType === "server" && !(await storage.getServer(validatedData.scopeValue))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      const window = await storage.createMaintenanceWindow(validatedData, alertActor(req.user!));
+      res.status(201).json(window);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch servers" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid maintenance window data" });
+      }
+      if (error instanceof CronExpressionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create maintenance window" });
     }
   });
 
-  app.get("/api/servers/:id", async (req, res) => {
+  app.put("/api/maintenance-windows/:id", requireRole("operator"), async (req, res) => {
     try {
-      const server = await storage.getPublicServer(req.params.id);
-      if (!server) {
+      const validatedData = updateMaintenanceWindowSchema.parse(req.body);
+      const existing = await storage.getMaintenanceWindow(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Maintenance window not found" });
+      }
+      // One-off vs recurring requirements apply to the window as a whole
+      const merged = insertMaintenanceWindowSchema.parse({ ...existing, ...validatedData });
+      if (merged.recurrence) parseCronExpression(merged.recurrence);
+      if (merged.scopeType === "server" && !(await storage.getServer(merged.scopeValue))) {
         return res.status(404).json({ message: "Server not found" });
       }
-      const metrics = await storage.getLatestServerMetrics(server.id);
-      const alerts = await storage.getServerAlerts(server.id);
-      res.json({ ...server, metrics, alerts });
+      const window = await storage.updateMaintenanceWindow(req.params.id, validatedData, alertActor(req.user!));
+      res.json(window);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch server" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid maintenance window data" });
+      }
+      if (error instanceof CronExpressionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update maintenance window" });
     }
   });
 
-  app.post("/api/servers", async (req, res) => {
+  app.delete("/api/maintenance-windows/:id", requireRole("operator"), async (req, res) => {
     try {
-      const validatedData = insertServerSchema.parse(req.body);
-      const server = await storage.createServer(validatedData);
-      // Return sanitized server data without SSH credentials
-      const publicServer = await storage.getPublicServer(server.id);
-      res.status(201).json(publicServer);
+      await maintenance.releaseWindowAlerts(req.params.id);
+      const deleted = await storage.deleteMaintenanceWindow(req.params.id, alertActor(req.user!));
+      if (!deleted) {
+        return res.status(404).json({ message: "Maintenance window not found" });
+      }
+      res.status(204).send();
     } catch (error) {
-      res.status(400).json({ message: "Invalid server data" });
+      res.status(500).json({ message: "Failed to delete maintenance window" });
     }
   });
 
-  app.put("/api/servers/:id", async (req, res) => {
+  // On-call schedules and escalation policies
+  app.get("/api/on-call/users", async (_req, res) => {
     try {
-      const validatedData = insertServerSchema.partial().parse(req.body);
-      const server = await storage.updateServer(req.params.id, validatedData);
-      if (!server) {
-        return res.status(404).json({ message: "Server not found" });
+      const users: OnCallUser[] = (await storage.getUsers())
+        .filter(user => user.isActive)
+        .map(user => ({ id: user.id, name: user.displayName || user.username, hasEmail: !!user.email }));
+      res.json(users);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch on-call users" });
+    }
+  });
+
+  app.get("/api/on-call/schedules", async (_req, res) => {
+    try {
+      res.json(await escalation.getScheduleStatuses());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch on-call schedules" });
+    }
+  });
+
+  app.post("/api/on-call/schedules", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertOnCallScheduleSchema.parse(req.body);
+      await escalation.assertParticipants(validatedData.participants as string[]);
+      const schedule = await storage.createOnCallSchedule(validatedData);
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid on-call schedule data" });
       }
-      // Return sanitized server data without SSH credentials
-      const publicServer = await storage.getPublicServer(server.id);
-      res.json(publicServer);
+      if (error instanceof EscalationConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create on-call schedule" });
+    }
+  });
+
+  app.put("/api/on-call/schedules/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateOnCallScheduleSchema.parse(req.body);
+      const existing = await storage.getOnCallSchedule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "On-call schedule not found" });
+      }
+      const merged = insertOnCallScheduleSchema.parse({ ...existing, ...validatedData });
+      await escalation.assertParticipants(merged.participants as string[]);
+      const schedule = await storage.updateOnCallSchedule(req.params.id, validatedData);
+      res.json(schedule);
     } catch (error) {
-      res.status(400).json({ message: "Invalid server data" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid on-call schedule data" });
+      }
+      if (error instanceof EscalationConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update on-call schedule" });
     }
   });
 
-  app.delete("/api/servers/:id", async (req, res) => {
+  app.delete("/api/on-call/schedules/:id", requireRole("admin"), async (req, res) => {
     try {
-      const deleted = await storage.deleteServer(req.params.id);
+      const deleted = await storage.deleteOnCallSchedule(req.params.id);
       if (!deleted) {
-        return res.status(404).json({ message: "Server not found" });
+        return res.status(404).json({ message: "On-call schedule not found" });
       }
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete server" });
+      res.status(500).json({ message: "Failed to delete on-call schedule" });
     }
   });
 
-  // Metrics routes
-  app.get("/api/servers/:id/metrics", async (req, res) => {
+  // Operators cover for each other without editing the rotation itself
+  app.post("/api/on-call/schedules/:id/overrides", requireRole("operator"), async (req, res) => {
     try {
-      const metrics = await storage.getServerMetrics(req.params.id);
-      res.json(metrics);
+      const validatedData = insertOnCallOverrideSchema.parse(req.body);
+      const schedule = await storage.getOnCallSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "On-call schedule not found" });
+      }
+      await escalation.assertParticipants([validatedData.userId]);
+      const override = await storage.createOnCallOverride({
+        ...validatedData,
+        scheduleId: schedule.id,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(override);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch metrics" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid on-call override data" });
+      }
+      if (error instanceof EscalationConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create on-call override" });
     }
   });
 
-  app.post("/api/servers/:id/metrics", async (req, res) => {
+  app.delete("/api/on-call/overrides/:id", requireRole("operator"), async (req, res) => {
     try {
-      const validatedData = insertMetricsSchema.parse({
-        ...req.body,
-        serverId: req.params.id,
-      });
-      const metrics = await storage.createMetrics(validatedData);
-      res.status(201).json(metrics);
+      const deleted = await storage.deleteOnCallOverride(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "On-call override not found" });
+      }
+      res.status(204).send();
     } catch (error) {
-      res.status(400).json({ message: "Invalid metrics data" });
+      res.status(500).json({ message: "Failed to delete on-call override" });
     }
   });
 
-  // Alert routes
-  app.get("/api/alerts", async (req, res) => {
+  app.get("/api/escalation-policies", async (_req, res) => {
     try {
-      const alerts = await storage.getActiveAlerts();
-      res.json(alerts);
+      res.json(await storage.getEscalationPolicies());
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch alerts" });
+      res.status(500).json({ message: "Failed to fetch escalation policies" });
     }
   });
 
-  app.post("/api/alerts", async (req, res) => {
+  app.post("/api/escalation-policies", requireRole("admin"), async (req, res) => {
     try {
-      const validatedData = insertAlertSchema.parse(req.body);
-      const alert = await storage.createAlert(validatedData);
-      res.status(201).json(alert);
+      const validatedData = insertEscalationPolicySchema.parse(req.body);
+      await escalation.assertTargets(validatedData.steps);
+      const policy = await storage.createEscalationPolicy(validatedData);
+      res.status(201).json(policy);
     } catch (error) {
-      res.status(400).json({ message: "Invalid alert data" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid escalation policy data" });
+      }
+      if (error instanceof EscalationConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create escalation policy" });
     }
   });
 
-  app.patch("/api/alerts/:id/resolve", async (req, res) => {
+  app.put("/api/escalation-policies/:id", requireRole("admin"), async (req, res) => {
     try {
-      const alert = await storage.resolveAlert(req.params.id);
-      if (!alert) {
-        return res.status(404).json({ message: "Alert not found" });
+      const validatedData = updateEscalationPolicySchema.parse(req.body);
+      const existing = await storage.getEscalationPolicy(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Escalation policy not found" });
       }
-      res.json(alert);
+      const merged = insertEscalationPolicySchema.parse({ ...existing, ...validatedData });
+      await escalation.assertTargets(merged.steps);
+      const policy = await storage.updateEscalationPolicy(req.params.id, validatedData);
+      res.json(policy);
     } catch (error) {
-      res.status(500).json({ message: "Failed to resolve alert" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid escalation policy data" });
+      }
+      if (error instanceof EscalationConfigError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update escalation policy" });
+    }
+  });
+
+  app.delete("/api/escalation-policies/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteEscalationPolicy(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Escalation policy not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete escalation policy" });
+    }
+  });
+
+  app.get("/api/notification-deliveries", requireRole("operator"), async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const deliveries = await storage.getNotificationDeliveries(limit);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification deliveries" });
     }
   });
 
   // SSH session routes
-  app.get("/api/ssh-sessions", async (req, res) => {
+  app.get("/api/ssh-sessions", requireRole("operator"), async (req, res) => {
     try {
       const sessions = await storage.getActiveSshSessions();
       res.json(sessions);
@@ -147,9 +1298,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ssh-sessions", async (req, res) => {
+  app.post("/api/ssh-sessions", requireRole("operator"), async (req, res) => {
     try {
       const { serverId } = req.body;
+      const server = typeof serverId === "string" ? await storage.getServer(serverId) : undefined;
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
       const sessionId = randomUUID();
       const session = await storage.createSshSession({
         serverId,
@@ -162,8 +1317,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/ssh-sessions/:id", async (req, res) => {
+  app.delete("/api/ssh-sessions/:id", requireRole("operator"), async (req, res) => {
     try {
+      // Tear down the live PTY first so the remote shell does not linger
+      sshTerminals.close(req.params.id, "Sessão encerrada pelo painel");
       const session = await storage.endSshSession(req.params.id);
       if (!session) {
         return res.status(404).json({ message: "SSH session not found" });
@@ -177,22 +1334,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Log monitoring routes
   app.get("/api/servers/:id/logs", async (req, res) => {
     try {
-      const { limit = 100, level } = req.query;
+      const { limit = 100, level, fields } = req.query;
+      const fieldFilters = typeof fields === 'string' ? parseLogFieldFilters(fields) : [];
       let logs;
       
       if (level && typeof level === 'string') {
-        logs = await storage.getServerLogsByLevel(req.params.id, level);
+        logs = await storage.getServerLogsByLevel(req.params.id, level, fieldFilters);
       } else {
-        logs = await storage.getServerLogs(req.params.id, parseInt(limit as string));
+        logs = await storage.getServerLogs(req.params.id, parseInt(limit as string), fieldFilters);
       }
       
       res.json(logs);
     } catch (error) {
+      if (error instanceof LogFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch server logs" });
     }
   });
 
-  app.post("/api/servers/:id/logs", async (req, res) => {
+  app.post("/api/servers/:id/logs", requireRole("operator"), async (req, res) => {
     try {
       const validatedData = insertServerLogSchema.parse({
         ...req.body,
@@ -205,6 +1366,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Full-text search across every server's logs, e.g. level:error server:web-prod-* "timeout"
+  app.get("/api/logs/search", async (req, res) => {
+    try {
+      const query = logSearchQuerySchema.parse(req.query);
+      const search = parseLogSearch(query.q);
+      const { from, to } = resolveLogSearchRange(query);
+      const { hits, total } = await storage.searchServerLogs(
+        search,
+        from,
+        to,
+        query.pageSize,
+        (query.page - 1) * query.pageSize,
+      );
+      const response: LogSearchResult = {
+        hits: hits.map(hit => ({ ...hit, highlight: highlightLogMessage(hit.message, search.terms) })),
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+        from: from.toISOString(),
+        to: to.toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof LogSearchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid log search query" });
+      }
+      res.status(500).json({ message: "Failed to search logs" });
+    }
+  });
+
+  app.get("/api/saved-log-searches", async (_req, res) => {
+    try {
+      res.json(await storage.getSavedLogSearches());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch saved log searches" });
+    }
+  });
+
+  app.post("/api/saved-log-searches", async (req, res) => {
+    try {
+      const validatedData = insertSavedLogSearchSchema.parse(req.body);
+      parseLogSearch(validatedData.query);
+      const search = await storage.createSavedLogSearch({ ...validatedData, createdBy: req.user!.id });
+      res.status(201).json(search);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid saved log search data" });
+      }
+      if (error instanceof LogSearchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create saved log search" });
+    }
+  });
+
+  // Shared with everyone, so only whoever saved it or an admin may remove it
+  app.delete("/api/saved-log-searches/:id", async (req, res) => {
+    try {
+      const search = await storage.getSavedLogSearch(req.params.id);
+      if (!search) {
+        return res.status(404).json({ message: "Saved log search not found" });
+      }
+      if (search.createdBy !== req.user!.id && !hasRole(req.user!, "admin")) {
+        return res.status(403).json({ message: "Only the creator or an admin can delete this saved search" });
+      }
+      await storage.deleteSavedLogSearch(search.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete saved log search" });
+    }
+  });
+
   // Log monitoring configuration routes
   app.get("/api/log-monitoring", async (req, res) => {
     try {
@@ -216,7 +1452,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/log-monitoring", async (req, res) => {
+  app.post("/api/log-monitoring", requireRole("admin"), async (req, res) => {
     try {
       const validatedData = insertLogMonitoringConfigSchema.parse(req.body);
       const config = await storage.createLogMonitoringConfig(validatedData);
@@ -226,20 +1462,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/log-monitoring/:id", async (req, res) => {
+  app.put("/api/log-monitoring/:id", requireRole("admin"), async (req, res) => {
     try {
       const validatedData = insertLogMonitoringConfigSchema.partial().parse(req.body);
+      const existing = await storage.getLogMonitoringConfig(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Log monitoring config not found" });
+      }
       const config = await storage.updateLogMonitoringConfig(req.params.id, validatedData);
       if (!config) {
         return res.status(404).json({ message: "Log monitoring config not found" });
       }
+      // Another file starts from its end, like a new config
+      if (validatedData.logPath !== undefined && validatedData.logPath !== existing.logPath) {
+        await logShipper.reset(config.id);
+        return res.json({ ...config, fileInode: null, fileOffset: 0, lastError: null });
+      }
       res.json(config);
     } catch (error) {
       res.status(400).json({ message: "Invalid log monitoring config data" });
     }
   });
 
-  app.delete("/api/log-monitoring/:id", async (req, res) => {
+  app.delete("/api/log-monitoring/:id", requireRole("admin"), async (req, res) => {
     try {
       const deleted = await storage.deleteLogMonitoringConfig(req.params.id);
       if (!deleted) {
@@ -251,6 +1496,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Log parser routes
+  app.get("/api/log-parsers", async (_req, res) => {
+    try {
+      const parsers = await storage.getLogParsers();
+      res.json(parsers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch log parsers" });
+    }
+  });
+
+  app.get("/api/log-parsers/built-in", async (_req, res) => {
+    res.json(logParsers.builtIns());
+  });
+
+  app.post("/api/log-parsers/preview", requireRole("admin"), async (req, res) => {
+    try {
+      const { sample, ...definition } = logParserPreviewSchema.parse(req.body);
+      const parser = compileLogParser({ ...definition, kind: definition.kind ?? "regex" });
+      const results = sample.split("\n").filter(line => line.trim()).slice(0, 20)
+        .map(line => ({ line, result: parser.parse(line) }));
+      res.json(results);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid log parser data" });
+      }
+      if (error instanceof LogParserError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to preview log parser" });
+    }
+  });
+
+  app.post("/api/log-parsers", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertLogParserSchema.parse(req.body);
+      compileLogParser({ ...validatedData, kind: validatedData.kind ?? "regex" });
+      if ((await storage.getLogParsers()).some(parser => parser.logType === validatedData.logType)) {
+        return res.status(409).json({ message: "A log parser for this logType already exists" });
+      }
+      const parser = await storage.createLogParser(validatedData);
+      logParsers.invalidate();
+      res.status(201).json(parser);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid log parser data" });
+      }
+      if (error instanceof LogParserError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create log parser" });
+    }
+  });
+
+  app.put("/api/log-parsers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateLogParserSchema.parse(req.body);
+      const existing = await storage.getLogParser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Log parser not found" });
+      }
+      compileLogParser({ ...existing, ...validatedData });
+      if (validatedData.logType && validatedData.logType !== existing.logType &&
+          (await storage.getLogParsers()).some(parser => parser.logType === validatedData.logType)) {
+        return res.status(409).json({ message: "A log parser for this logType already exists" });
+      }
+      const parser = await storage.updateLogParser(req.params.id, validatedData);
+      if (!parser) {
+        return res.status(404).json({ message: "Log parser not found" });
+      }
+      logParsers.invalidate();
+      res.json(parser);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid log parser data" });
+      }
+      if (error instanceof LogParserError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update log parser" });
+    }
+  });
+
+  app.delete("/api/log-parsers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteLogParser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Log parser not found" });
+      }
+      logParsers.invalidate();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete log parser" });
+    }
+  });
+
+  // Syslog receiver routes
+  app.get("/api/syslog/status", async (_req, res) => {
+    res.json(syslogReceiver.status());
+  });
+
+  app.get("/api/syslog/senders", async (_req, res) => {
+    try {
+      const senders = await storage.getSyslogSenders();
+      res.json(senders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch syslog senders" });
+    }
+  });
+
+  app.post("/api/syslog/senders/:id/assign", requireRole("admin"), async (req, res) => {
+    try {
+      const { serverId } = assignSyslogSenderSchema.parse(req.body);
+      const server = await storage.getServer(serverId);
+      if (!server) {
+        return res.status(400).json({ message: "Server not found" });
+      }
+      const sender = await syslogReceiver.assign(req.params.id, serverId);
+      if (!sender) {
+        return res.status(404).json({ message: "Syslog sender not found" });
+      }
+      res.json(sender);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid syslog assignment data" });
+      }
+      res.status(500).json({ message: "Failed to assign syslog sender" });
+    }
+  });
+
+  app.delete("/api/syslog/senders/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await syslogReceiver.forget(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Syslog sender not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete syslog sender" });
+    }
+  });
+
   // Container orchestration routes
   app.get("/api/container-stacks", async (_req, res) => {
     try {
@@ -264,7 +1650,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/container-stacks/:id/actions", async (req, res) => {
+  app.post("/api/container-stacks/:id/actions", requireRole("operator"), async (req, res) => {
     try {
       const payload = containerActionSchema.parse(req.body);
       const stack = await storage.performContainerAction(req.params.id, payload);
@@ -293,7 +1679,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/services/:id/actions", async (req, res) => {
+  app.post("/api/services/:id/actions", requireRole("operator"), async (req, res) => {
     try {
       const payload = serviceActionSchema.parse(req.body);
       const service = await storage.performServiceAction(req.params.id, payload);
@@ -319,7 +1705,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/maintenance/backups", async (req, res) => {
+  app.post("/api/maintenance/backups", requireRole("operator"), async (req, res) => {
     try {
       const payload = createBackupSchema.parse(req.body);
       const backup = await storage.createBackupJob(payload);
@@ -341,7 +1727,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/maintenance/logs/export", async (req, res) => {
+  app.post("/api/maintenance/logs/export", requireRole("operator"), async (req, res) => {
     try {
       const payload = createLogExportSchema.parse(req.body);
       const task = await storage.createLogExportTask(payload);
@@ -367,7 +1753,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/telemetry/events", async (req, res) => {
+  app.post("/api/telemetry/events", requireRole("operator"), async (req, res) => {
     try {
       const payload = recordTelemetryEventSchema.parse(req.body);
       const event = await storage.recordTelemetryEvent(payload);
@@ -380,10 +1766,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Prometheus scrape target (outside /api so scrapers can use a bearer token)
+  app.get("/metrics", requireMetricsAccess, async (_req, res) => {
+    try {
+      const body = await dashboardMetrics.render(storage);
+      res.type("text/plain; version=0.0.4; charset=utf-8").send(body);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to render metrics" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   // WebSocket server for real-time updates
   const wss = new WebSocketServer({ noServer: true });
+  dashboardMetrics.trackWebSocketClients(() => wss.clients.size);
 
   httpServer.on('upgrade', (request, socket, head) => {
     try {
@@ -399,8 +1796,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
-      wss.handleUpgrade(request, socket, head, (ws) => {
-        wss.emit('connection', ws, request);
+      // Reuse the HTTP session cookie so only logged-in users get a socket
+      authenticateUpgrade(sessionParser, request).then((user) => {
+        if (!user) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(request, socket, head, (ws) => {
+          wss.emit('connection', ws, request, user);
+        });
       });
     } catch (error) {
       console.error('Failed to handle WebSocket upgrade:', error);
@@ -408,7 +1814,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  wss.on('connection', (ws: WebSocket) => {
+  wss.on('connection', (ws: WebSocket, _request: IncomingMessage, user: PublicUser) => {
     console.log('WebSocket client connected');
 
     // Send initial data
@@ -442,15 +1848,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
             break;
             
           case 'subscribe_logs':
-            // Client wants to subscribe to real-time logs for a specific server
-            const { serverId, limit = 50 } = data;
-            if (serverId) {
-              const logs = await storage.getServerLogs(serverId, limit);
+            // Snapshot of the latest lines, then every new matching line as logs_append
+            if (typeof data.serverId === 'string') {
+              await logTail.subscribe(ws, data.serverId, {
+                limit: data.limit,
+                levels: data.levels,
+                pattern: data.pattern,
+                fields: data.fields,
+              });
+            }
+            break;
+
+          case 'unsubscribe_logs':
+            if (typeof data.serverId === 'string') {
+              logTail.unsubscribe(ws, data.serverId);
+            }
+            break;
+
+          case 'ssh_attach':
+            // Open the interactive shell for a session created via POST /api/ssh-sessions
+            if (!hasRole(user, 'operator')) {
               ws.send(JSON.stringify({
-                type: 'logs_update',
-                serverId,
-                data: logs
+                type: 'ssh_error',
+                sessionId: data.sessionId,
+                message: 'Permissão insuficiente para abrir terminal SSH'
               }));
+              break;
+            }
+            if (typeof data.sessionId === 'string') {
+              await sshTerminals.attach(ws, data.sessionId, { cols: data.cols, rows: data.rows });
+            }
+            break;
+
+          case 'ssh_input':
+            if (typeof data.sessionId === 'string' && typeof data.data === 'string') {
+              sshTerminals.write(ws, data.sessionId, data.data);
+            }
+            break;
+
+          case 'ssh_resize':
+            if (typeof data.sessionId === 'string') {
+              sshTerminals.resize(ws, data.sessionId, {
+                cols: Number(data.cols),
+                rows: Number(data.rows),
+              });
+            }
+            break;
+
+          case 'ssh_close':
+            if (typeof data.sessionId === 'string') {
+              sshTerminals.close(data.sessionId);
             }
             break;
         }
@@ -461,6 +1908,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
+      sshTerminals.closeSocket(ws);
+      logTail.closeSocket(ws);
     });
 
     // Check for ready state before sending
@@ -469,93 +1918,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Simulate real-time metrics updates
-  setInterval(async () => {
-    try {
-      const servers = await storage.getServers();
-      
-      // Generate random metrics for each online server
-      for (const server of servers) {
-        if (!server.isActive) continue;
-        
-        const currentMetrics = await storage.getLatestServerMetrics(server.id);
-        const baseMetrics = currentMetrics || {
-          cpuUsage: "50",
-          memoryUsage: "60",
-          diskUsage: "40",
-          isOnline: true
-        };
-
-        // Generate slight variations
-        const cpuUsage = Math.max(0, Math.min(100, 
-          parseFloat(baseMetrics.cpuUsage || "50") + (Math.random() - 0.5) * 10
-        ));
-        const memoryUsage = Math.max(0, Math.min(100, 
-          parseFloat(baseMetrics.memoryUsage || "60") + (Math.random() - 0.5) * 5
-        ));
-        const diskUsage = Math.max(0, Math.min(100, 
-          parseFloat(baseMetrics.diskUsage || "40") + (Math.random() - 0.5) * 2
-        ));
-
-        const newMetrics = await storage.createMetrics({
-          serverId: server.id,
-          cpuUsage: cpuUsage.toFixed(1),
-          memoryUsage: memoryUsage.toFixed(1),
-          diskUsage: diskUsage.toFixed(1),
-          networkIn: (Math.random() * 1000).toFixed(2),
-          networkOut: (Math.random() * 1000).toFixed(2),
-          uptime: "99.9",
-          isOnline: true,
-        });
+  // Collect real metrics (or simulated ones in dev mode) on a fixed cadence
+  const collector = new MetricsCollector(storage);
+  alertEvaluator.ensureDefaultRules().catch(error => {
+    console.error('Failed to create default alert rules:', error);
+  });
 
-        // Check for threshold alerts - only create if no existing unresolved alert exists
-        const existingAlerts = await storage.getServerAlerts(server.id);
-        const hasUnresolvedCpuAlert = existingAlerts.some(alert => 
-          alert.alertType === "cpu" && !alert.isResolved
-        );
-        const hasUnresolvedMemoryAlert = existingAlerts.some(alert => 
-          alert.alertType === "memory" && !alert.isResolved
-        );
-        const hasUnresolvedDiskAlert = existingAlerts.some(alert => 
-          alert.alertType === "disk" && !alert.isResolved
-        );
-
-        if (cpuUsage > 80 && !hasUnresolvedCpuAlert) {
-          await storage.createAlert({
-            serverId: server.id,
-            alertType: "cpu",
-            severity: "critical",
-            message: `CPU usage critical: ${cpuUsage.toFixed(1)}%`,
-            threshold: "80",
-            currentValue: cpuUsage.toFixed(1),
-            isResolved: false,
-          });
-        }
+  let collecting = false;
+  const collectAndBroadcast = async () => {
+    // Unreachable hosts can hold a cycle past the next tick; overlapping cycles would raise duplicate alerts
+    if (collecting) return;
+    collecting = true;
 
-        if (memoryUsage > 90 && !hasUnresolvedMemoryAlert) {
-          await storage.createAlert({
-            serverId: server.id,
-            alertType: "memory",
-            severity: "critical",
-            message: `Memory usage critical: ${memoryUsage.toFixed(1)}%`,
-            threshold: "90",
-            currentValue: memoryUsage.toFixed(1),
-            isResolved: false,
-          });
-        }
+    const startedAt = process.hrtime.bigint();
+    try {
+      const samples = await collector.collect();
 
-        if (diskUsage > 85 && !hasUnresolvedDiskAlert) {
-          await storage.createAlert({
-            serverId: server.id,
-            alertType: "disk",
-            severity: "warning",
-            message: `Disk usage high: ${diskUsage.toFixed(1)}%`,
-            threshold: "85",
-            currentValue: diskUsage.toFixed(1),
-            isResolved: false,
-          });
-        }
-      }
+      await alertEvaluator.evaluate(samples);
 
       // Broadcast updates to all connected clients
       const updatedServers = await storage.getPublicServersWithLatestMetrics();
@@ -575,9 +1954,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      console.error('Error updating metrics:', error);
+      console.error('Error collecting metrics:', error);
+    } finally {
+      collecting = false;
+      dashboardMetrics.collectorDuration.observe({}, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    }
+  };
+
+  // Collection and the WebSocket broadcast share one timer, driven by the refresh interval setting
+  let collectionTimer: NodeJS.Timeout | null = null;
+  const scheduleCollection = (intervalMs: number) => {
+    if (collectionTimer) clearInterval(collectionTimer);
+    collector.intervalMs = intervalMs;
+    collectionTimer = setInterval(collectAndBroadcast, intervalMs);
+    console.log(`Metrics collector running in ${collector.mode} mode every ${intervalMs}ms`);
+  };
+
+  scheduleCollection(settings.get().refreshIntervalSeconds * 1000);
+  settings.onChange((current, previous) => {
+    if (current.refreshIntervalSeconds !== previous.refreshIntervalSeconds) {
+      scheduleCollection(current.refreshIntervalSeconds * 1000);
     }
-  }, 30000); // Update every 30 seconds
+  });
+  // Pruning, forecasting and baselines wait for the stored retention settings rather than running on the defaults
+  const metricsRetention = new MetricsRetentionJob(storage, settings);
+  settings.load()
+    .then(() => {
+      metricsRetention.start();
+      forecaster.start();
+      anomalyDetector.start();
+    })
+    .catch(error => {
+      console.error('Failed to load settings:', error);
+    });
 
   return httpServer;
 }
@@ -104,7 +104,7 @@ export async function seedDatabase() {
       ...data,
       networkIn: "0",
       networkOut: "0",
-      uptime: data.isOnline ? "99.9" : "0",
+      uptime: data.isOnline ? "3888000" : "0", // seconds since boot
     }))
   ).returning();
   console.log(`✅ Inserted ${insertedMetrics.length} metrics entries`);
@@ -0,0 +1,63 @@
+import type { AppSettings, AppTheme, UpdateAppSettings } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+type SettingsListener = (settings: AppSettings, previous: AppSettings) => void;
+
+/**
+ * Values used until an admin saves the settings page. The refresh interval
+ * follows METRICS_COLLECTOR_INTERVAL_MS so existing deployments keep their cadence.
+ */
+export function defaultSettings(): AppSettings {
+  const intervalMs = parseInt(process.env.METRICS_COLLECTOR_INTERVAL_MS || "30000", 10);
+
+  return {
+    id: "global",
+    refreshIntervalSeconds: Math.max(5, Math.round(intervalMs / 1000)),
+    autoRefresh: true,
+    theme: "light",
+    compactMode: false,
+    soundAlerts: false,
+    sessionTimeoutMinutes: 60,
+    metricsRetentionDays: 30,
+    rollup5mRetentionDays: 90,
+    rollup1hRetentionDays: 730,
+    updatedAt: new Date(0),
+    updatedBy: null,
+  };
+}
+
+export class SettingsService {
+  private current: AppSettings = defaultSettings();
+  private listeners: SettingsListener[] = [];
+
+  constructor(private readonly storage: IStorage) {}
+
+  get(): AppSettings {
+    return this.current;
+  }
+
+  async load(): Promise<AppSettings> {
+    const stored = await this.storage.getSettings();
+    if (stored) this.apply(stored);
+    return this.current;
+  }
+
+  async update(changes: UpdateAppSettings, updatedBy: string | null): Promise<AppSettings> {
+    const { id: _id, updatedAt: _updatedAt, updatedBy: _updatedBy, ...values } = this.current;
+    const saved = await this.storage.saveSettings({ ...values, theme: values.theme as AppTheme, ...changes }, updatedBy);
+    this.apply(saved);
+    return saved;
+  }
+
+  onChange(listener: SettingsListener) {
+    this.listeners.push(listener);
+  }
+
+  private apply(settings: AppSettings) {
+    const previous = this.current;
+    this.current = settings;
+    for (const listener of this.listeners) {
+      listener(settings, previous);
+    }
+  }
+}
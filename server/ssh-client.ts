@@ -0,0 +1,102 @@
+import { Client, type ConnectConfig } from "ssh2";
+import type { Server } from "@shared/schema";
+import { decryptServerCredentials } from "./credentials";
+
+const DEFAULT_READY_TIMEOUT_MS = 10000;
+
+class SshConnectionError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = "SshConnectionError";
+  }
+}
+
+export function buildSshConnectConfig(storedServer: Server): ConnectConfig {
+  let server: Server;
+  try {
+    server = decryptServerCredentials(storedServer);
+  } catch (error) {
+    throw new SshConnectionError(`Could not decrypt SSH credentials for ${storedServer.name}`, error);
+  }
+
+  if (!server.sshUsername) {
+    throw new SshConnectionError(`Server ${server.name} has no SSH username configured`);
+  }
+  if (!server.sshPassword && !server.sshPrivateKey) {
+    throw new SshConnectionError(`Server ${server.name} has no SSH password or private key configured`);
+  }
+
+  return {
+    host: server.ip || server.hostname,
+    port: server.sshPort,
+    username: server.sshUsername,
+    password: server.sshPassword ?? undefined,
+    privateKey: server.sshPrivateKey ?? undefined,
+    readyTimeout: DEFAULT_READY_TIMEOUT_MS,
+    keepaliveInterval: 15000,
+  };
+}
+
+export function connectSsh(server: Server): Promise<Client> {
+  let config: ConnectConfig;
+  try {
+    config = buildSshConnectConfig(server);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  return new Promise<Client>((resolve, reject) => {
+    const client = new Client();
+
+    client
+      .once("ready", () => resolve(client))
+      .once("error", error => {
+        client.end();
+        reject(new SshConnectionError(`SSH connection to ${server.name} failed: ${error.message}`, error));
+      })
+      .connect(config);
+  });
+}
+
+export async function execSshCommand(
+  server: Server,
+  command: string,
+  timeoutMs: number = 15000,
+): Promise<string> {
+  const client = await connectSsh(server);
+
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new SshConnectionError(`SSH command on ${server.name} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      client.exec(command, (error, stream) => {
+        if (error) {
+          clearTimeout(timer);
+          reject(new SshConnectionError(`Failed to execute command on ${server.name}: ${error.message}`, error));
+          return;
+        }
+
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+
+        stream.on("data", (chunk: Buffer) => stdout.push(chunk));
+        stream.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+        stream.on("close", (code: number | null) => {
+          clearTimeout(timer);
+          if (code !== 0 && code !== null) {
+            const message = Buffer.concat(stderr).toString("utf-8").trim() || `exit code ${code}`;
+            reject(new SshConnectionError(`Command on ${server.name} failed: ${message}`));
+            return;
+          }
+          resolve(Buffer.concat(stdout).toString("utf-8"));
+        });
+      });
+    });
+  } finally {
+    client.end();
+  }
+}
+
+export { SshConnectionError };
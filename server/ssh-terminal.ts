@@ -0,0 +1,176 @@
+import type { Client, ClientChannel } from "ssh2";
+import { WebSocket } from "ws";
+import type { IStorage } from "./storage";
+import { connectSsh } from "./ssh-client";
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+interface TerminalSession {
+  id: string;
+  client: Client;
+  stream: ClientChannel;
+  socket: WebSocket;
+}
+
+const DEFAULT_SIZE: TerminalSize = { cols: 80, rows: 24 };
+
+function send(socket: WebSocket, payload: Record<string, unknown>) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(payload));
+  }
+}
+
+/**
+ * Bridges interactive PTY shells to WebSocket clients. Each terminal is bound
+ * to an `ssh_sessions` row, so ending the row closes the SSH connection.
+ * Terminal bytes travel base64-encoded to stay binary-safe inside JSON frames.
+ */
+export class SshTerminalManager {
+  private readonly sessions = new Map<string, TerminalSession>();
+  // Session ids between the first attach and the shell opening
+  private readonly connecting = new Set<string>();
+
+  constructor(private readonly storage: IStorage) {}
+
+  get activeCount(): number {
+    return this.sessions.size;
+  }
+
+  async attach(socket: WebSocket, sessionId: string, size: Partial<TerminalSize> = {}) {
+    if (this.sessions.has(sessionId) || this.connecting.has(sessionId)) {
+      send(socket, { type: "ssh_error", sessionId, message: "Sessão SSH já está conectada" });
+      return;
+    }
+
+    // Reserved before the first await so a repeated attach cannot open a second connection;
+    // the shell callback gives it up once the session is registered or has failed
+    this.connecting.add(sessionId);
+    let client: Client | undefined;
+    try {
+      client = await this.connect(socket, sessionId);
+    } finally {
+      if (!client) this.connecting.delete(sessionId);
+    }
+    if (client) this.openShell(socket, sessionId, client, size);
+  }
+
+  write(socket: WebSocket, sessionId: string, data: string) {
+    const session = this.getOwnedSession(socket, sessionId);
+    if (!session) return;
+    // Ctrl-C and other control keys arrive as raw bytes and go straight to the PTY
+    session.stream.write(Buffer.from(data, "base64"));
+  }
+
+  resize(socket: WebSocket, sessionId: string, size: TerminalSize) {
+    const session = this.getOwnedSession(socket, sessionId);
+    if (!session) return;
+    if (size.cols > 0 && size.rows > 0) {
+      session.stream.setWindow(size.rows, size.cols, 0, 0);
+    }
+  }
+
+  close(sessionId: string, reason: string = "Sessão encerrada") {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+    session.stream.close();
+    session.client.end();
+    this.release(sessionId, reason);
+    return true;
+  }
+
+  closeSocket(socket: WebSocket) {
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.socket === socket) {
+        this.close(session.id, "Cliente desconectado");
+      }
+    }
+  }
+
+  private async connect(socket: WebSocket, sessionId: string): Promise<Client | undefined> {
+    const session = await this.storage.getSshSession(sessionId);
+    if (!session || !session.isActive) {
+      send(socket, { type: "ssh_error", sessionId, message: "Sessão SSH não encontrada ou encerrada" });
+      return undefined;
+    }
+
+    const server = await this.storage.getServer(session.serverId);
+    if (!server) {
+      send(socket, { type: "ssh_error", sessionId, message: "Servidor não encontrado" });
+      await this.storage.endSshSession(sessionId);
+      return undefined;
+    }
+
+    try {
+      return await connectSsh(server);
+    } catch (error) {
+      send(socket, { type: "ssh_error", sessionId, message: (error as Error).message });
+      await this.storage.endSshSession(sessionId);
+      return undefined;
+    }
+  }
+
+  private openShell(socket: WebSocket, sessionId: string, client: Client, size: Partial<TerminalSize>) {
+    const cols = size.cols ?? DEFAULT_SIZE.cols;
+    const rows = size.rows ?? DEFAULT_SIZE.rows;
+
+    client.shell({ term: "xterm-256color", cols, rows }, (error, stream) => {
+      this.connecting.delete(sessionId);
+
+      if (error) {
+        client.end();
+        send(socket, { type: "ssh_error", sessionId, message: `Falha ao abrir shell: ${error.message}` });
+        this.storage.endSshSession(sessionId).catch(console.error);
+        return;
+      }
+
+      if (socket.readyState !== WebSocket.OPEN) {
+        // Browser went away while we were connecting
+        stream.close();
+        client.end();
+        this.storage.endSshSession(sessionId).catch(console.error);
+        return;
+      }
+
+      this.sessions.set(sessionId, { id: sessionId, client, stream, socket });
+
+      const forward = (chunk: Buffer) => {
+        send(socket, { type: "ssh_data", sessionId, data: chunk.toString("base64") });
+      };
+      stream.on("data", forward);
+      stream.stderr.on("data", forward);
+      stream.on("close", () => {
+        this.release(sessionId, "Conexão encerrada pelo servidor remoto");
+      });
+
+      send(socket, { type: "ssh_ready", sessionId });
+    });
+
+    client.on("error", error => {
+      send(socket, { type: "ssh_error", sessionId, message: error.message });
+      this.release(sessionId, error.message);
+    });
+    client.on("close", () => {
+      // The connection can drop before the shell callback runs
+      this.connecting.delete(sessionId);
+      this.release(sessionId, "Conexão SSH finalizada");
+    });
+  }
+
+  private getOwnedSession(socket: WebSocket, sessionId: string): TerminalSession | undefined {
+    const session = this.sessions.get(sessionId);
+    return session && session.socket === socket ? session : undefined;
+  }
+
+  private release(sessionId: string, reason: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    send(session.socket, { type: "ssh_closed", sessionId, message: reason });
+    this.storage.endSshSession(sessionId).catch(error => {
+      console.error(`Failed to mark SSH session ${sessionId} as ended:`, error);
+    });
+  }
+}
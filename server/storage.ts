@@ -3,14 +3,70 @@ import {
   type InsertServer,
   type ServerMetrics,
   type InsertMetrics,
+  type InsertTimedMetrics,
+  type ServerCustomMetric,
+  type InsertServerCustomMetric,
+  type IngestToken,
+  type InsertIngestTokenRecord,
+  type SyntheticCheck,
+  type InsertSyntheticCheck,
+  type UpdateSyntheticCheck,
+  type SyntheticCheckResult,
+  type InsertSyntheticCheckResult,
+  type AvailabilityTotals,
+  type Slo,
+  type InsertSlo,
+  type UpdateSlo,
+  type MaintenanceWindow,
+  type InsertMaintenanceWindow,
+  type UpdateMaintenanceWindow,
+  type MaintenanceWindowAction,
+  type MaintenanceWindowEvent,
+  type OnCallSchedule,
+  type InsertOnCallSchedule,
+  type UpdateOnCallSchedule,
+  type OnCallOverride,
+  type InsertOnCallOverride,
+  type EscalationPolicy,
+  type InsertEscalationPolicy,
+  type UpdateEscalationPolicy,
+  type CorrelationRule,
+  type InsertCorrelationRule,
+  type UpdateCorrelationRule,
+  type Incident,
+  type InsertIncidentRecord,
+  type UpdateIncident,
+  type IncidentEvent,
+  type IncidentEventType,
   type Alert,
   type InsertAlert,
+  type AlertEvent,
+  type AlertEventType,
+  type AlertActor,
+  type AlertRule,
+  type InsertAlertRule,
+  type NotificationChannel,
+  type InsertNotificationChannel,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
   type SshSession,
   type InsertSshSession,
   type ServerLog,
   type InsertServerLog,
   type LogMonitoringConfig,
   type InsertLogMonitoringConfig,
+  type LogShipperPosition,
+  type SyslogSender,
+  type LogParser,
+  type InsertLogParser,
+  type UpdateLogParser,
+  type ParsedLogSearch,
+  type LogSearchHit,
+  type SavedLogSearch,
+  type InsertSavedLogSearch,
+  type LogFieldFilter,
+  type LogTailQuery,
+  type QuarantinedSyslogMessage,
   type ServerWithMetrics,
   type PublicServer,
   type PublicServerWithMetrics,
@@ -24,12 +80,40 @@ import {
   type CreateLogExportInput,
   type TelemetryEvent,
   type RecordTelemetryInput,
+  type User,
+  type InsertUserRecord,
+  type AppSettings,
+  type UpdateAppSettings,
+  type MetricBucket,
+  type MetricsRange,
+  type MetricTier,
+  type CustomMetricSeries,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { DatabaseStorage } from "./database-storage";
 import { DockerUnavailableError, listDockerStacks, performDockerStackAction } from "./docker";
+import { encryptSecret, encryptServerCredentials } from "./credentials";
+import { alertBus } from "./alert-bus";
+import { logBus } from "./log-bus";
+import { matchesLogFieldFilters } from "./log-parsers";
+import { matchesLogSearch } from "./log-search";
+import { defaultSettings } from "./settings";
+import { aggregateCustomSamples, aggregateSamples, matchesLabels, metricLabelsKey } from "./metrics-query";
+import { countAvailabilitySlots } from "./availability";
 
 export interface IStorage {
+  // User operations
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUserRecord): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUserRecord> & { lastLoginAt?: Date }): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+
+  // Settings operations (undefined until the settings are first saved)
+  getSettings(): Promise<AppSettings | undefined>;
+  saveSettings(settings: UpdateAppSettings, updatedBy?: string | null): Promise<AppSettings>;
+
   // Server operations
   getServers(): Promise<Server[]>;
   getPublicServers(): Promise<PublicServer[]>;
@@ -41,33 +125,196 @@ export interface IStorage {
   deleteServer(id: string): Promise<boolean>;
   
   // Metrics operations
-  getServerMetrics(serverId: string): Promise<ServerMetrics[]>;
+  // Time-bucketed aggregates over [from, to), keyed by server id
+  getMetricSeries(serverIds: string[], range: MetricsRange): Promise<Map<string, MetricBucket[]>>;
+  // The same range with every given server's samples aggregated together
+  getFleetMetricSeries(serverIds: string[], range: MetricsRange): Promise<MetricBucket[]>;
+  // Folds finer data into the 5m/1h aggregate table up to `until`; returns rows written
+  rollupMetrics(tier: Exclude<MetricTier, "raw">, until: Date): Promise<number>;
+  // Deletes a tier's data older than `before` (custom metrics follow the raw tier, availability the 1h tier); returns rows removed
+  pruneMetrics(tier: MetricTier, before: Date): Promise<number>;
   getLatestServerMetrics(serverId: string): Promise<ServerMetrics | undefined>;
   createMetrics(metrics: InsertMetrics): Promise<ServerMetrics>;
+  // Writes pushed samples and their custom metrics together (all or nothing)
+  createMetricsBatch(metrics: InsertTimedMetrics[], customMetrics: InsertServerCustomMetric[]): Promise<void>;
+  // Most recent value of each custom metric series (name + label set) the server has reported
+  getLatestCustomMetrics(serverId: string): Promise<ServerCustomMetric[]>;
+  // Time-bucketed aggregates of one custom metric, one entry per label set matching `labels`
+  getCustomMetricSeries(serverId: string, name: string, range: MetricsRange, labels?: Record<string, string>): Promise<CustomMetricSeries[]>;
   getServersWithLatestMetrics(): Promise<ServerWithMetrics[]>;
   getPublicServersWithLatestMetrics(): Promise<PublicServerWithMetrics[]>;
   
   // Alert operations
   getAlerts(): Promise<Alert[]>;
   getServerAlerts(serverId: string): Promise<Alert[]>;
+  getCheckAlerts(checkId: string): Promise<Alert[]>;
   getActiveAlerts(): Promise<Alert[]>;
+  getResolvedAlerts(limit?: number): Promise<Alert[]>;
+  getAlert(id: string): Promise<Alert | undefined>;
   createAlert(alert: InsertAlert): Promise<Alert>;
-  resolveAlert(id: string): Promise<Alert | undefined>;
+  // Lifecycle changes return undefined when the alert is missing or its current state does not allow them
+  acknowledgeAlert(id: string, actor: AlertActor): Promise<Alert | undefined>;
+  snoozeAlert(id: string, until: Date, actor: AlertActor): Promise<Alert | undefined>;
+  // Without an actor the resolution is recorded as automatic
+  resolveAlert(id: string, actor?: AlertActor): Promise<Alert | undefined>;
+  reopenAlert(id: string, actor: AlertActor): Promise<Alert | undefined>;
+  getAlertEvents(alertId: string): Promise<AlertEvent[]>;
+  addAlertComment(alertId: string, actor: AlertActor, message: string): Promise<AlertEvent | undefined>;
+  // Advances the alert to `step` escalation steps notified and records it on the timeline
+  recordAlertEscalation(id: string, step: number, message: string): Promise<Alert | undefined>;
+  // Lifts the maintenance mark off a still-open alert so it notifies and escalates from now on
+  releaseMaintenanceAlert(id: string): Promise<Alert | undefined>;
+
+  // Alert rule operations
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, rule: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  // Also resolves the rule's open alerts, which would otherwise be left without a rule to recover them
+  deleteAlertRule(id: string): Promise<boolean>;
+
+  // Notification operations
+  getNotificationChannels(): Promise<NotificationChannel[]>;
+  getNotificationChannel(id: string): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(id: string, channel: Partial<InsertNotificationChannel>): Promise<NotificationChannel | undefined>;
+  deleteNotificationChannel(id: string): Promise<boolean>;
+  getNotificationDeliveries(limit?: number): Promise<NotificationDelivery[]>;
+  // Deliveries still waiting for a (re)try, oldest first
+  getPendingNotificationDeliveries(): Promise<NotificationDelivery[]>;
+  // Only deliveries created since `since` count, so an alert that is reopened and resolved again notifies again
+  hasNotificationDelivery(channelId: string, alertId: string, event: string, since: Date): Promise<boolean>;
+  createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery>;
+  updateNotificationDelivery(id: string, delivery: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined>;
   
+  // Ingest token operations
+  getIngestTokens(): Promise<IngestToken[]>;
+  getIngestTokenByHash(tokenHash: string): Promise<IngestToken | undefined>;
+  createIngestToken(token: InsertIngestTokenRecord): Promise<IngestToken>;
+  revokeIngestToken(id: string): Promise<IngestToken | undefined>;
+  touchIngestToken(id: string, usedAt: Date): Promise<void>;
+
+  // Synthetic check operations
+  getSyntheticChecks(): Promise<SyntheticCheck[]>;
+  getSyntheticCheck(id: string): Promise<SyntheticCheck | undefined>;
+  createSyntheticCheck(check: InsertSyntheticCheck): Promise<SyntheticCheck>;
+  updateSyntheticCheck(id: string, check: UpdateSyntheticCheck): Promise<SyntheticCheck | undefined>;
+  deleteSyntheticCheck(id: string): Promise<boolean>;
+  // Most recent result of every check that has run at least once
+  getLatestCheckResults(): Promise<SyntheticCheckResult[]>;
+  // Results checked in [from, to), oldest first
+  getCheckResults(checkId: string, from: Date, to: Date): Promise<SyntheticCheckResult[]>;
+  createCheckResult(result: InsertSyntheticCheckResult): Promise<SyntheticCheckResult>;
+  // Deletes results older than `before`; returns rows removed
+  pruneCheckResults(before: Date): Promise<number>;
+
+  // Availability and SLO operations
+  // Folds 5-minute availability slots into the hourly rollup up to `until`; returns rows written
+  rollupAvailability(until: Date): Promise<number>;
+  // Slot counts per server over [from, to), in whole hours where rollups are kept; servers without data are omitted
+  getAvailabilityTotals(serverIds: string[], from: Date, to: Date): Promise<AvailabilityTotals[]>;
+  getSlos(): Promise<Slo[]>;
+  getSlo(id: string): Promise<Slo | undefined>;
+  createSlo(slo: InsertSlo): Promise<Slo>;
+  updateSlo(id: string, slo: UpdateSlo): Promise<Slo | undefined>;
+  deleteSlo(id: string): Promise<boolean>;
+
+  // Maintenance window operations; every change is recorded with its actor
+  getMaintenanceWindows(): Promise<MaintenanceWindow[]>;
+  getMaintenanceWindow(id: string): Promise<MaintenanceWindow | undefined>;
+  createMaintenanceWindow(window: InsertMaintenanceWindow, actor: AlertActor): Promise<MaintenanceWindow>;
+  updateMaintenanceWindow(id: string, window: UpdateMaintenanceWindow, actor: AlertActor): Promise<MaintenanceWindow | undefined>;
+  deleteMaintenanceWindow(id: string, actor: AlertActor): Promise<boolean>;
+  // Newest first; all windows when windowId is omitted
+  getMaintenanceWindowEvents(windowId?: string): Promise<MaintenanceWindowEvent[]>;
+
+  // On-call schedule operations
+  getOnCallSchedules(): Promise<OnCallSchedule[]>;
+  getOnCallSchedule(id: string): Promise<OnCallSchedule | undefined>;
+  createOnCallSchedule(schedule: InsertOnCallSchedule): Promise<OnCallSchedule>;
+  updateOnCallSchedule(id: string, schedule: UpdateOnCallSchedule): Promise<OnCallSchedule | undefined>;
+  deleteOnCallSchedule(id: string): Promise<boolean>;
+  // Ordered by start; only those still running at `endingAfter` when given
+  getOnCallOverrides(scheduleId: string, endingAfter?: Date): Promise<OnCallOverride[]>;
+  getOnCallOverride(id: string): Promise<OnCallOverride | undefined>;
+  createOnCallOverride(override: InsertOnCallOverride): Promise<OnCallOverride>;
+  deleteOnCallOverride(id: string): Promise<boolean>;
+
+  // Escalation policy operations
+  getEscalationPolicies(): Promise<EscalationPolicy[]>;
+  getEscalationPolicy(id: string): Promise<EscalationPolicy | undefined>;
+  createEscalationPolicy(policy: InsertEscalationPolicy): Promise<EscalationPolicy>;
+  updateEscalationPolicy(id: string, policy: UpdateEscalationPolicy): Promise<EscalationPolicy | undefined>;
+  deleteEscalationPolicy(id: string): Promise<boolean>;
+
+  // Correlation rule operations (oldest first, the order they are tried in)
+  getCorrelationRules(): Promise<CorrelationRule[]>;
+  getCorrelationRule(id: string): Promise<CorrelationRule | undefined>;
+  createCorrelationRule(rule: InsertCorrelationRule): Promise<CorrelationRule>;
+  updateCorrelationRule(id: string, rule: UpdateCorrelationRule): Promise<CorrelationRule | undefined>;
+  deleteCorrelationRule(id: string): Promise<boolean>;
+
+  // Incident operations; newest first, resolved incidents only when asked for
+  getIncidents(includeResolved?: boolean): Promise<Incident[]>;
+  getIncident(id: string): Promise<Incident | undefined>;
+  getIncidentAlerts(incidentId: string): Promise<Alert[]>;
+  // Opens an incident grouping the given alerts and records each of them on its timeline
+  createIncident(incident: InsertIncidentRecord, alertIds: string[]): Promise<Incident>;
+  // Links the alert to the incident, applying `changes` (severity, lastAlertAt) in the same step
+  attachAlertToIncident(incidentId: string, alertId: string, changes: Partial<InsertIncidentRecord>, message?: string): Promise<Incident | undefined>;
+  // Counts a repeat of an alert in an open incident, reopening it if it had recovered; nothing is notified
+  repeatIncidentAlert(
+    alertId: string,
+    changes: Pick<InsertAlert, "severity" | "message" | "threshold" | "currentValue">,
+    incidentChanges: Partial<InsertIncidentRecord>,
+  ): Promise<Alert | undefined>;
+  // Records status, commander and postmortem changes on the timeline
+  updateIncident(id: string, changes: UpdateIncident, actor: AlertActor): Promise<Incident | undefined>;
+  getIncidentEvents(incidentId: string): Promise<IncidentEvent[]>;
+  addIncidentNote(incidentId: string, actor: AlertActor, message: string): Promise<IncidentEvent | undefined>;
+
   // SSH Session operations
   getSshSessions(): Promise<SshSession[]>;
   getActiveSshSessions(): Promise<SshSession[]>;
+  getSshSession(id: string): Promise<SshSession | undefined>;
   createSshSession(session: InsertSshSession): Promise<SshSession>;
   endSshSession(id: string): Promise<SshSession | undefined>;
   
   // Log Monitoring operations
-  getServerLogs(serverId: string, limit?: number): Promise<ServerLog[]>;
-  getServerLogsByLevel(serverId: string, logLevel: string): Promise<ServerLog[]>;
+  getServerLogs(serverId: string, limit?: number, fieldFilters?: LogFieldFilter[]): Promise<ServerLog[]>;
+  getServerLogsByLevel(serverId: string, logLevel: string, fieldFilters?: LogFieldFilter[]): Promise<ServerLog[]>;
+  // Latest lines matching every filter, so the limit is not spent on lines the tail would discard
+  getServerLogTail(serverId: string, query: LogTailQuery, limit: number): Promise<ServerLog[]>;
   createServerLog(log: InsertServerLog): Promise<ServerLog>;
+  createServerLogs(logs: InsertServerLog[]): Promise<ServerLog[]>;
   getLogMonitoringConfigs(serverId?: string): Promise<LogMonitoringConfig[]>;
+  getLogMonitoringConfig(id: string): Promise<LogMonitoringConfig | undefined>;
   createLogMonitoringConfig(config: InsertLogMonitoringConfig): Promise<LogMonitoringConfig>;
   updateLogMonitoringConfig(id: string, config: Partial<InsertLogMonitoringConfig>): Promise<LogMonitoringConfig | undefined>;
   deleteLogMonitoringConfig(id: string): Promise<boolean>;
+  saveLogShipperPosition(id: string, position: LogShipperPosition): Promise<void>;
+  // Newest first across all servers; total counts every match in the range
+  searchServerLogs(search: ParsedLogSearch, from: Date, to: Date, limit: number, offset: number): Promise<{ hits: LogSearchHit[]; total: number }>;
+
+  // Saved log search operations
+  getSavedLogSearches(): Promise<SavedLogSearch[]>;
+  getSavedLogSearch(id: string): Promise<SavedLogSearch | undefined>;
+  createSavedLogSearch(search: InsertSavedLogSearch): Promise<SavedLogSearch>;
+  deleteSavedLogSearch(id: string): Promise<boolean>;
+
+  // Log parser operations
+  getLogParsers(): Promise<LogParser[]>;
+  getLogParser(id: string): Promise<LogParser | undefined>;
+  createLogParser(parser: InsertLogParser): Promise<LogParser>;
+  updateLogParser(id: string, parser: UpdateLogParser): Promise<LogParser | undefined>;
+  deleteLogParser(id: string): Promise<boolean>;
+
+  // Syslog sender operations
+  getSyslogSenders(): Promise<SyslogSender[]>;
+  getSyslogSender(id: string): Promise<SyslogSender | undefined>;
+  quarantineSyslogMessages(address: string, hostname: string, messages: QuarantinedSyslogMessage[], keep: number): Promise<SyslogSender>;
+  assignSyslogSender(id: string, serverId: string): Promise<SyslogSender | undefined>;
+  deleteSyslogSender(id: string): Promise<boolean>;
 
   // Container orchestration operations
   getContainerStacks(): Promise<ContainerStack[]>;
@@ -89,24 +336,73 @@ export interface IStorage {
 }
 
 export class MemStorage implements IStorage {
+  private users: Map<string, User>;
   private servers: Map<string, Server>;
   private metrics: Map<string, ServerMetrics[]>;
+  private customMetrics: Map<string, ServerCustomMetric[]>;
+  private ingestTokens: Map<string, IngestToken>;
+  private syntheticChecks: Map<string, SyntheticCheck>;
+  private checkResults: Map<string, SyntheticCheckResult[]>;
+  private slos: Map<string, Slo>;
+  private maintenanceWindows: Map<string, MaintenanceWindow>;
+  private maintenanceWindowEvents: MaintenanceWindowEvent[];
+  private onCallSchedules: Map<string, OnCallSchedule>;
+  private onCallOverrides: Map<string, OnCallOverride>;
+  private escalationPolicies: Map<string, EscalationPolicy>;
+  private correlationRules: Map<string, CorrelationRule>;
+  private incidents: Map<string, Incident>;
+  private incidentEvents: Map<string, IncidentEvent[]>;
   private alerts: Map<string, Alert>;
+  private alertRules: Map<string, AlertRule>;
+  private alertEvents: Map<string, AlertEvent[]>;
+  private notificationChannels: Map<string, NotificationChannel>;
+  private notificationDeliveries: Map<string, NotificationDelivery>;
+  private settings: AppSettings | undefined;
   private sshSessions: Map<string, SshSession>;
   private serviceProcesses: Map<string, ServiceProcess>;
   private backupJobs: BackupJob[];
   private logExportTasks: LogExportTask[];
+  private serverLogs: ServerLog[];
+  private serverLogLimit: number;
+  private logMonitoringConfigs: Map<string, LogMonitoringConfig>;
+  private syslogSenders: Map<string, SyslogSender>;
+  private logParsers: Map<string, LogParser>;
+  private savedLogSearches: Map<string, SavedLogSearch>;
   private telemetryEvents: TelemetryEvent[];
   private telemetryLimit: number;
 
   constructor() {
+    this.users = new Map();
     this.servers = new Map();
     this.metrics = new Map();
+    this.customMetrics = new Map();
+    this.ingestTokens = new Map();
+    this.syntheticChecks = new Map();
+    this.checkResults = new Map();
+    this.slos = new Map();
+    this.maintenanceWindows = new Map();
+    this.maintenanceWindowEvents = [];
+    this.onCallSchedules = new Map();
+    this.onCallOverrides = new Map();
+    this.escalationPolicies = new Map();
+    this.correlationRules = new Map();
+    this.incidents = new Map();
+    this.incidentEvents = new Map();
     this.alerts = new Map();
+    this.alertRules = new Map();
+    this.alertEvents = new Map();
+    this.notificationChannels = new Map();
+    this.notificationDeliveries = new Map();
     this.sshSessions = new Map();
     this.serviceProcesses = new Map();
     this.backupJobs = [];
     this.logExportTasks = [];
+    this.serverLogs = [];
+    this.serverLogLimit = 5000;
+    this.logMonitoringConfigs = new Map();
+    this.syslogSenders = new Map();
+    this.logParsers = new Map();
+    this.savedLogSearches = new Map();
     this.telemetryEvents = [];
     this.telemetryLimit = 200;
 
@@ -129,6 +425,8 @@ export class MemStorage implements IStorage {
         serverType: "web",
         description: "Servidor web principal de produção",
         tags: ["nginx", "php", "mysql-client"],
+        metricsSource: "ssh",
+        parentServerId: null,
         isActive: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -146,6 +444,8 @@ export class MemStorage implements IStorage {
         serverType: "database",
         description: "Servidor de banco de dados principal",
         tags: ["mysql", "redis"],
+        metricsSource: "ssh",
+        parentServerId: null,
         isActive: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -163,6 +463,8 @@ export class MemStorage implements IStorage {
         serverType: "hybrid",
         description: "Servidor híbrido com aplicação e banco",
         tags: ["nodejs", "mongodb", "redis"],
+        metricsSource: "ssh",
+        parentServerId: null,
         isActive: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -180,6 +482,8 @@ export class MemStorage implements IStorage {
         serverType: "backup",
         description: "Servidor de backup",
         tags: ["rsync", "backup"],
+        metricsSource: "ssh",
+        parentServerId: null,
         isActive: false,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -197,6 +501,8 @@ export class MemStorage implements IStorage {
         serverType: "web",
         description: "Servidor web de homologação",
         tags: ["nginx", "php"],
+        metricsSource: "ssh",
+        parentServerId: null,
         isActive: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -214,6 +520,8 @@ export class MemStorage implements IStorage {
         serverType: "mail",
         description: "Servidor de email",
         tags: ["postfix", "dovecot"],
+        metricsSource: "ssh",
+        parentServerId: null,
         isActive: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -248,7 +556,7 @@ export class MemStorage implements IStorage {
         diskUsage: disk.toString(),
         networkIn: "0",
         networkOut: "0",
-        uptime: isOnline ? "99.9" : "0",
+        uptime: isOnline ? "3888000" : "0",
         isOnline,
         timestamp: new Date(),
       };
@@ -260,40 +568,76 @@ export class MemStorage implements IStorage {
     this.alerts.set("alert-1", {
       id: "alert-1",
       serverId: "server-2",
+      ruleId: null,
+      checkId: null,
+      metric: null,
+      maintenanceWindowId: null,
       alertType: "memory",
       severity: "critical",
       message: "Memória RAM acima de 90%",
       threshold: "90",
       currentValue: "91",
       isResolved: false,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      snoozedUntil: null,
       createdAt: new Date(),
       resolvedAt: null,
+      resolvedBy: null,
+      escalationStep: 0,
+      escalationStartedAt: new Date(),
+      incidentId: null,
+      occurrences: 1,
     });
 
     this.alerts.set("alert-2", {
       id: "alert-2",
       serverId: "server-6",
+      ruleId: null,
+      checkId: null,
+      metric: null,
+      maintenanceWindowId: null,
       alertType: "cpu",
       severity: "critical",
       message: "CPU em estado crítico",
       threshold: "80",
       currentValue: "89",
       isResolved: false,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      snoozedUntil: null,
       createdAt: new Date(),
       resolvedAt: null,
+      resolvedBy: null,
+      escalationStep: 0,
+      escalationStartedAt: new Date(),
+      incidentId: null,
+      occurrences: 1,
     });
 
     this.alerts.set("alert-3", {
       id: "alert-3",
       serverId: "server-6",
+      ruleId: null,
+      checkId: null,
+      metric: null,
+      maintenanceWindowId: null,
       alertType: "disk",
       severity: "warning",
       message: "Disco acima de 85%",
       threshold: "85",
       currentValue: "92",
       isResolved: false,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      snoozedUntil: null,
       createdAt: new Date(),
       resolvedAt: null,
+      resolvedBy: null,
+      escalationStep: 0,
+      escalationStartedAt: new Date(),
+      incidentId: null,
+      occurrences: 1,
     });
 
     this.initializeOperationalData();
@@ -456,6 +800,66 @@ export class MemStorage implements IStorage {
     return publicServer;
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUserRecord): Promise<User> {
+    const id = randomUUID();
+    const user: User = {
+      ...insertUser,
+      id,
+      displayName: insertUser.displayName || null,
+      email: insertUser.email || null,
+      role: insertUser.role ?? "viewer",
+      isActive: insertUser.isActive ?? true,
+      lastLoginAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: string, updateData: Partial<InsertUserRecord> & { lastLoginAt?: Date }): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser: User = {
+      ...user,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  async getSettings(): Promise<AppSettings | undefined> {
+    return this.settings;
+  }
+
+  async saveSettings(settings: UpdateAppSettings, updatedBy: string | null = null): Promise<AppSettings> {
+    this.settings = {
+      ...(this.settings ?? defaultSettings()),
+      ...settings,
+      updatedAt: new Date(),
+      updatedBy,
+    };
+    return this.settings;
+  }
+
   async getServers(): Promise<Server[]> {
     return Array.from(this.servers.values());
   }
@@ -485,11 +889,13 @@ export class MemStorage implements IStorage {
       sshPort: insertServer.sshPort ?? 22,
       environment: insertServer.environment ?? "production",
       serverType: insertServer.serverType ?? "web",
+      metricsSource: insertServer.metricsSource ?? "ssh",
+      parentServerId: insertServer.parentServerId ?? null,
       isActive: insertServer.isActive ?? true,
       description: insertServer.description || null,
       sshUsername: insertServer.sshUsername || null,
-      sshPassword: insertServer.sshPassword || null,
-      sshPrivateKey: insertServer.sshPrivateKey || null,
+      sshPassword: insertServer.sshPassword ? encryptSecret(insertServer.sshPassword) : null,
+      sshPrivateKey: insertServer.sshPrivateKey ? encryptSecret(insertServer.sshPrivateKey) : null,
       tags: insertServer.tags || [],
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -505,7 +911,7 @@ export class MemStorage implements IStorage {
 
     const updatedServer: Server = {
       ...server,
-      ...updateData,
+      ...encryptServerCredentials(updateData),
       updatedAt: new Date(),
     };
     this.servers.set(id, updatedServer);
@@ -516,12 +922,57 @@ export class MemStorage implements IStorage {
     const deleted = this.servers.delete(id);
     if (deleted) {
       this.metrics.delete(id);
+      this.customMetrics.delete(id);
+      Array.from(this.ingestTokens.values())
+        .filter(token => token.serverId === id)
+        .forEach(token => this.ingestTokens.delete(token.id));
+      Array.from(this.syntheticChecks.values())
+        .filter(check => check.serverId === id)
+        .forEach(check => this.deleteSyntheticCheck(check.id));
+      Array.from(this.slos.values())
+        .filter(slo => slo.scopeType === "server" && slo.scopeValue === id)
+        .forEach(slo => this.slos.delete(slo.id));
+      Array.from(this.servers.values())
+        .filter(server => server.parentServerId === id)
+        .forEach(server => this.servers.set(server.id, { ...server, parentServerId: null }));
+      this.serverLogs = this.serverLogs.filter(log => log.serverId !== id);
+      Array.from(this.logMonitoringConfigs.values())
+        .filter(config => config.serverId === id)
+        .forEach(config => this.logMonitoringConfigs.delete(config.id));
+      Array.from(this.syslogSenders.values())
+        .filter(sender => sender.serverId === id)
+        .forEach(sender => this.syslogSenders.set(sender.id, { ...sender, serverId: null }));
     }
     return deleted;
   }
 
-  async getServerMetrics(serverId: string): Promise<ServerMetrics[]> {
-    return this.metrics.get(serverId) || [];
+  async getMetricSeries(serverIds: string[], range: MetricsRange): Promise<Map<string, MetricBucket[]>> {
+    return new Map(serverIds.map(serverId => [serverId, aggregateSamples(this.metrics.get(serverId) || [], range)]));
+  }
+
+  async getFleetMetricSeries(serverIds: string[], range: MetricsRange): Promise<MetricBucket[]> {
+    const samples = serverIds.flatMap(serverId => this.metrics.get(serverId) || []);
+    return aggregateSamples(samples, range);
+  }
+
+  async rollupMetrics(_tier: Exclude<MetricTier, "raw">, _until: Date): Promise<number> {
+    // MemStorage only keeps raw samples
+    return 0;
+  }
+
+  async pruneMetrics(tier: MetricTier, before: Date): Promise<number> {
+    if (tier !== "raw") return 0;
+
+    let removed = 0;
+    this.metrics.forEach((samples, serverId) => {
+      const kept = samples.filter(sample => new Date(sample.timestamp) >= before);
+      removed += samples.length - kept.length;
+      this.metrics.set(serverId, kept);
+    });
+    this.customMetrics.forEach((samples, serverId) => {
+      this.customMetrics.set(serverId, samples.filter(sample => sample.timestamp >= before));
+    });
+    return removed;
   }
 
   async getLatestServerMetrics(serverId: string): Promise<ServerMetrics | undefined> {
@@ -551,6 +1002,50 @@ export class MemStorage implements IStorage {
     return metrics;
   }
 
+  async createMetricsBatch(metrics: InsertTimedMetrics[], customMetrics: InsertServerCustomMetric[]): Promise<void> {
+    for (const insertMetrics of metrics) {
+      const serverMetrics = this.metrics.get(insertMetrics.serverId) || [];
+      serverMetrics.push({
+        ...insertMetrics,
+        id: randomUUID(),
+        isOnline: insertMetrics.isOnline ?? false,
+        cpuUsage: insertMetrics.cpuUsage || null,
+        memoryUsage: insertMetrics.memoryUsage || null,
+        diskUsage: insertMetrics.diskUsage || null,
+        networkIn: insertMetrics.networkIn || null,
+        networkOut: insertMetrics.networkOut || null,
+        uptime: insertMetrics.uptime || null,
+      });
+      // getLatestServerMetrics reads the last element
+      serverMetrics.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      this.metrics.set(insertMetrics.serverId, serverMetrics);
+    }
+
+    for (const insertCustom of customMetrics) {
+      const samples = this.customMetrics.get(insertCustom.serverId) || [];
+      const labels = insertCustom.labels ?? {};
+      samples.push({ ...insertCustom, id: randomUUID(), labels, labelsKey: metricLabelsKey(labels) });
+      this.customMetrics.set(insertCustom.serverId, samples);
+    }
+  }
+
+  async getCustomMetricSeries(serverId: string, name: string, range: MetricsRange, labels?: Record<string, string>): Promise<CustomMetricSeries[]> {
+    const samples = (this.customMetrics.get(serverId) || [])
+      .filter(sample => sample.name === name && matchesLabels(sample.labels, labels));
+    return aggregateCustomSamples(samples, range);
+  }
+
+  async getLatestCustomMetrics(serverId: string): Promise<ServerCustomMetric[]> {
+    const latest = new Map<string, ServerCustomMetric>();
+    for (const sample of this.customMetrics.get(serverId) || []) {
+      const key = `${sample.name}{${sample.labelsKey}}`;
+      const current = latest.get(key);
+      if (!current || sample.timestamp > current.timestamp) latest.set(key, sample);
+    }
+    return Array.from(latest.values())
+      .sort((a, b) => a.name.localeCompare(b.name) || a.labelsKey.localeCompare(b.labelsKey));
+  }
+
   async getServersWithLatestMetrics(): Promise<ServerWithMetrics[]> {
     const servers = await this.getServers();
     const serversWithMetrics: ServerWithMetrics[] = [];
@@ -593,36 +1088,848 @@ export class MemStorage implements IStorage {
     return Array.from(this.alerts.values()).filter(alert => alert.serverId === serverId);
   }
 
+  async getCheckAlerts(checkId: string): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter(alert => alert.checkId === checkId);
+  }
+
   async getActiveAlerts(): Promise<Alert[]> {
     return Array.from(this.alerts.values()).filter(alert => !alert.isResolved);
   }
 
+  async getResolvedAlerts(limit: number = 100): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.isResolved)
+      .sort((a, b) => (b.resolvedAt?.getTime() ?? 0) - (a.resolvedAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async getAlert(id: string): Promise<Alert | undefined> {
+    return this.alerts.get(id);
+  }
+
   async createAlert(insertAlert: InsertAlert): Promise<Alert> {
     const id = randomUUID();
     const alert: Alert = {
       ...insertAlert,
       id,
+      serverId: insertAlert.serverId ?? null,
+      ruleId: insertAlert.ruleId ?? null,
+      checkId: insertAlert.checkId ?? null,
+      metric: insertAlert.metric ?? null,
+      maintenanceWindowId: insertAlert.maintenanceWindowId ?? null,
       isResolved: insertAlert.isResolved ?? false,
       threshold: insertAlert.threshold || null,
       currentValue: insertAlert.currentValue || null,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      snoozedUntil: null,
       createdAt: new Date(),
       resolvedAt: null,
+      resolvedBy: null,
+      escalationStep: 0,
+      escalationStartedAt: new Date(),
+      incidentId: null,
+      occurrences: 1,
     };
     this.alerts.set(id, alert);
+    this.recordAlertEvent(id, "created");
+    alertBus.emitAlert("triggered", alert);
     return alert;
   }
 
-  async resolveAlert(id: string): Promise<Alert | undefined> {
+  // `allowed` plays the part of the state condition in the database WHERE clause
+  private updateAlert(id: string, changes: Partial<Alert>, allowed: (alert: Alert) => boolean = () => true): Alert | undefined {
     const alert = this.alerts.get(id);
-    if (!alert) return undefined;
+    if (!alert || !allowed(alert)) return undefined;
+
+    const updatedAlert: Alert = { ...alert, ...changes };
+    this.alerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+
+  private recordAlertEvent(alertId: string, eventType: AlertEventType, actor?: AlertActor, message?: string): AlertEvent {
+    const event: AlertEvent = {
+      id: randomUUID(),
+      alertId,
+      eventType,
+      userId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      message: message ?? null,
+      createdAt: new Date(),
+    };
+    const events = this.alertEvents.get(alertId) ?? [];
+    events.push(event);
+    this.alertEvents.set(alertId, events);
+    return event;
+  }
+
+  async acknowledgeAlert(id: string, actor: AlertActor): Promise<Alert | undefined> {
+    const alert = this.updateAlert(
+      id,
+      { acknowledgedAt: new Date(), acknowledgedBy: actor.id },
+      current => !current.isResolved && !current.acknowledgedAt,
+    );
+    if (alert) this.recordAlertEvent(id, "acknowledged", actor);
+    return alert;
+  }
+
+  async snoozeAlert(id: string, until: Date, actor: AlertActor): Promise<Alert | undefined> {
+    const alert = this.updateAlert(id, { snoozedUntil: until }, current => !current.isResolved);
+    if (alert) this.recordAlertEvent(id, "snoozed", actor, until.toISOString());
+    return alert;
+  }
+
+  async resolveAlert(id: string, actor?: AlertActor): Promise<Alert | undefined> {
+    const alert = this.updateAlert(
+      id,
+      { isResolved: true, resolvedAt: new Date(), resolvedBy: actor?.id ?? null },
+      current => !current.isResolved,
+    );
+    if (alert) {
+      this.recordAlertEvent(id, "resolved", actor, actor ? undefined : "Resolvido automaticamente");
+      alertBus.emitAlert("resolved", alert);
+    }
+    return alert;
+  }
+
+  async reopenAlert(id: string, actor: AlertActor): Promise<Alert | undefined> {
+    const alert = this.updateAlert(id, {
+      isResolved: false,
+      resolvedAt: null,
+      resolvedBy: null,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      snoozedUntil: null,
+      escalationStep: 0,
+      escalationStartedAt: new Date(),
+    }, current => current.isResolved);
+    if (alert) {
+      this.recordAlertEvent(id, "reopened", actor);
+      alertBus.emitAlert("reopened", alert);
+    }
+    return alert;
+  }
+
+  async getAlertEvents(alertId: string): Promise<AlertEvent[]> {
+    return this.alertEvents.get(alertId) ?? [];
+  }
+
+  async addAlertComment(alertId: string, actor: AlertActor, message: string): Promise<AlertEvent | undefined> {
+    if (!this.alerts.has(alertId)) return undefined;
+    return this.recordAlertEvent(alertId, "comment", actor, message);
+  }
+
+  async recordAlertEscalation(id: string, step: number, message: string): Promise<Alert | undefined> {
+    const alert = this.updateAlert(id, { escalationStep: step });
+    if (alert) this.recordAlertEvent(id, "escalated", undefined, message);
+    return alert;
+  }
+
+  async releaseMaintenanceAlert(id: string): Promise<Alert | undefined> {
+    const alert = this.updateAlert(
+      id,
+      { maintenanceWindowId: null, escalationStep: 0, escalationStartedAt: new Date() },
+      current => !current.isResolved && !!current.maintenanceWindowId,
+    );
+    if (alert) alertBus.emitAlert("triggered", alert);
+    return alert;
+  }
+
+  // Alert rule operations
+  async getAlertRules(): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values());
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    return this.alertRules.get(id);
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const id = randomUUID();
+    const rule: AlertRule = {
+      ...insertRule,
+      id,
+      operator: insertRule.operator ?? "gt",
+      durationMinutes: insertRule.durationMinutes ?? 0,
+      severity: insertRule.severity ?? "warning",
+      hysteresis: insertRule.hysteresis ?? "0",
+      scopeType: insertRule.scopeType ?? "global",
+      scopeValue: insertRule.scopeValue || null,
+      isEnabled: insertRule.isEnabled ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.alertRules.set(id, rule);
+    return rule;
+  }
+
+  async updateAlertRule(id: string, updateData: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const rule = this.alertRules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule: AlertRule = {
+      ...rule,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.alertRules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    if (!this.alertRules.delete(id)) return false;
+
+    for (const alert of Array.from(this.alerts.values())) {
+      if (alert.ruleId !== id) continue;
+      const wasOpen = !alert.isResolved;
+      const updated = this.updateAlert(alert.id, wasOpen
+        ? { ruleId: null, isResolved: true, resolvedAt: new Date(), resolvedBy: null }
+        : { ruleId: null });
+      if (wasOpen && updated) {
+        this.recordAlertEvent(alert.id, "resolved", undefined, "Resolvido ao remover a regra");
+        alertBus.emitAlert("resolved", updated);
+      }
+    }
+    return true;
+  }
+
+  // Notification operations
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return Array.from(this.notificationChannels.values());
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | undefined> {
+    return this.notificationChannels.get(id);
+  }
+
+  async createNotificationChannel(insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const id = randomUUID();
+    const channel: NotificationChannel = {
+      ...insertChannel,
+      id,
+      config: insertChannel.config ?? {},
+      severities: insertChannel.severities ?? ["info", "warning", "critical"],
+      notifyOnResolve: insertChannel.notifyOnResolve ?? true,
+      isEnabled: insertChannel.isEnabled ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.notificationChannels.set(id, channel);
+    return channel;
+  }
+
+  async updateNotificationChannel(id: string, updateData: Partial<InsertNotificationChannel>): Promise<NotificationChannel | undefined> {
+    const channel = this.notificationChannels.get(id);
+    if (!channel) return undefined;
+
+    const updatedChannel: NotificationChannel = {
+      ...channel,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.notificationChannels.set(id, updatedChannel);
+    return updatedChannel;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    const deleted = this.notificationChannels.delete(id);
+    if (deleted) {
+      Array.from(this.notificationDeliveries.values())
+        .filter(delivery => delivery.channelId === id)
+        .forEach(delivery => this.notificationDeliveries.delete(delivery.id));
+    }
+    return deleted;
+  }
+
+  async getNotificationDeliveries(limit: number = 100): Promise<NotificationDelivery[]> {
+    return Array.from(this.notificationDeliveries.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getPendingNotificationDeliveries(): Promise<NotificationDelivery[]> {
+    return Array.from(this.notificationDeliveries.values())
+      .filter(delivery => delivery.status === "pending")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async hasNotificationDelivery(channelId: string, alertId: string, event: string, since: Date): Promise<boolean> {
+    return Array.from(this.notificationDeliveries.values()).some(delivery =>
+      delivery.channelId === channelId && delivery.alertId === alertId && delivery.event === event &&
+      delivery.createdAt >= since,
+    );
+  }
+
+  async createNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const id = randomUUID();
+    const delivery: NotificationDelivery = {
+      id,
+      channelId: insertDelivery.channelId ?? null,
+      userId: insertDelivery.userId ?? null,
+      alertId: insertDelivery.alertId ?? null,
+      event: insertDelivery.event,
+      status: insertDelivery.status ?? "pending",
+      attempts: insertDelivery.attempts ?? 0,
+      lastError: insertDelivery.lastError ?? null,
+      nextAttemptAt: insertDelivery.nextAttemptAt ?? null,
+      createdAt: new Date(),
+      deliveredAt: insertDelivery.deliveredAt ?? null,
+    };
+    this.notificationDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async updateNotificationDelivery(id: string, updateData: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const delivery = this.notificationDeliveries.get(id);
+    if (!delivery) return undefined;
+
+    const updatedDelivery: NotificationDelivery = { ...delivery, ...updateData };
+    this.notificationDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+
+
+  // Ingest token operations
+  async getIngestTokens(): Promise<IngestToken[]> {
+    return Array.from(this.ingestTokens.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getIngestTokenByHash(tokenHash: string): Promise<IngestToken | undefined> {
+    return Array.from(this.ingestTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async createIngestToken(insertToken: InsertIngestTokenRecord): Promise<IngestToken> {
+    const id = randomUUID();
+    const token: IngestToken = {
+      id,
+      name: insertToken.name,
+      serverId: insertToken.serverId ?? null,
+      tokenHash: insertToken.tokenHash,
+      tokenPrefix: insertToken.tokenPrefix,
+      createdBy: insertToken.createdBy ?? null,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.ingestTokens.set(id, token);
+    return token;
+  }
+
+  async revokeIngestToken(id: string): Promise<IngestToken | undefined> {
+    const token = this.ingestTokens.get(id);
+    if (!token) return undefined;
+
+    const revokedToken: IngestToken = { ...token, revokedAt: token.revokedAt ?? new Date() };
+    this.ingestTokens.set(id, revokedToken);
+    return revokedToken;
+  }
+
+  async touchIngestToken(id: string, usedAt: Date): Promise<void> {
+    const token = this.ingestTokens.get(id);
+    if (token) this.ingestTokens.set(id, { ...token, lastUsedAt: usedAt });
+  }
+
+  async getSyntheticChecks(): Promise<SyntheticCheck[]> {
+    return Array.from(this.syntheticChecks.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSyntheticCheck(id: string): Promise<SyntheticCheck | undefined> {
+    return this.syntheticChecks.get(id);
+  }
+
+  async createSyntheticCheck(insertCheck: InsertSyntheticCheck): Promise<SyntheticCheck> {
+    const id = randomUUID();
+    const check: SyntheticCheck = {
+      ...insertCheck,
+      id,
+      serverId: insertCheck.serverId ?? null,
+      config: insertCheck.config ?? {},
+      intervalSeconds: insertCheck.intervalSeconds ?? 60,
+      timeoutMs: insertCheck.timeoutMs ?? 10000,
+      failureThreshold: insertCheck.failureThreshold ?? 2,
+      severity: insertCheck.severity ?? "critical",
+      isEnabled: insertCheck.isEnabled ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.syntheticChecks.set(id, check);
+    return check;
+  }
+
+  async updateSyntheticCheck(id: string, updateData: UpdateSyntheticCheck): Promise<SyntheticCheck | undefined> {
+    const check = this.syntheticChecks.get(id);
+    if (!check) return undefined;
+
+    const updatedCheck: SyntheticCheck = {
+      ...check,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.syntheticChecks.set(id, updatedCheck);
+    return updatedCheck;
+  }
+
+  async deleteSyntheticCheck(id: string): Promise<boolean> {
+    const deleted = this.syntheticChecks.delete(id);
+    if (deleted) {
+      this.checkResults.delete(id);
+      Array.from(this.alerts.values())
+        .filter(alert => alert.checkId === id)
+        .forEach(alert => this.alerts.delete(alert.id));
+    }
+    return deleted;
+  }
+
+  async getLatestCheckResults(): Promise<SyntheticCheckResult[]> {
+    return Array.from(this.checkResults.values())
+      .map(results => results[results.length - 1])
+      .filter((result): result is SyntheticCheckResult => !!result);
+  }
+
+  async getCheckResults(checkId: string, from: Date, to: Date): Promise<SyntheticCheckResult[]> {
+    return (this.checkResults.get(checkId) || []).filter(result => result.checkedAt >= from && result.checkedAt < to);
+  }
+
+  async createCheckResult(insertResult: InsertSyntheticCheckResult): Promise<SyntheticCheckResult> {
+    const result: SyntheticCheckResult = {
+      ...insertResult,
+      id: randomUUID(),
+      latencyMs: insertResult.latencyMs ?? null,
+      statusCode: insertResult.statusCode ?? null,
+      certificateExpiresAt: insertResult.certificateExpiresAt ?? null,
+      message: insertResult.message ?? null,
+      checkedAt: insertResult.checkedAt ?? new Date(),
+    };
+    this.checkResults.set(result.checkId, [...(this.checkResults.get(result.checkId) || []), result]);
+    return result;
+  }
+
+  async pruneCheckResults(before: Date): Promise<number> {
+    let removed = 0;
+    this.checkResults.forEach((results, checkId) => {
+      const kept = results.filter(result => result.checkedAt >= before);
+      removed += results.length - kept.length;
+      this.checkResults.set(checkId, kept);
+    });
+    return removed;
+  }
+
+  // Availability and SLO operations
+  async rollupAvailability(_until: Date): Promise<number> {
+    // MemStorage computes availability from the raw samples on read
+    return 0;
+  }
+
+  async getAvailabilityTotals(serverIds: string[], from: Date, to: Date): Promise<AvailabilityTotals[]> {
+    const checks = Array.from(this.syntheticChecks.values());
+    return serverIds
+      .map(serverId => countAvailabilitySlots(
+        serverId,
+        this.metrics.get(serverId) || [],
+        checks.filter(check => check.serverId === serverId).flatMap(check => this.checkResults.get(check.id) || []),
+        { from, to },
+      ))
+      .filter(totals => totals.observedSlots > 0);
+  }
+
+  async getSlos(): Promise<Slo[]> {
+    return Array.from(this.slos.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSlo(id: string): Promise<Slo | undefined> {
+    return this.slos.get(id);
+  }
+
+  async createSlo(insertSlo: InsertSlo): Promise<Slo> {
+    const id = randomUUID();
+    const slo: Slo = {
+      ...insertSlo,
+      id,
+      scopeType: insertSlo.scopeType ?? "server",
+      window: insertSlo.window ?? "30d",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.slos.set(id, slo);
+    return slo;
+  }
+
+  async updateSlo(id: string, updateData: UpdateSlo): Promise<Slo | undefined> {
+    const slo = this.slos.get(id);
+    if (!slo) return undefined;
+
+    const updatedSlo: Slo = {
+      ...slo,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.slos.set(id, updatedSlo);
+    return updatedSlo;
+  }
+
+  async deleteSlo(id: string): Promise<boolean> {
+    return this.slos.delete(id);
+  }
+
+  private recordMaintenanceWindowEvent(window: MaintenanceWindow, action: MaintenanceWindowAction, actor: AlertActor) {
+    this.maintenanceWindowEvents.push({
+      id: randomUUID(),
+      windowId: window.id,
+      windowName: window.name,
+      action,
+      userId: actor.id,
+      actorName: actor.name,
+      details: action === "deleted" ? null : window,
+      createdAt: new Date(),
+    });
+  }
+
+  async getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+    return Array.from(this.maintenanceWindows.values()).sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getMaintenanceWindow(id: string): Promise<MaintenanceWindow | undefined> {
+    return this.maintenanceWindows.get(id);
+  }
+
+  async createMaintenanceWindow(insertWindow: InsertMaintenanceWindow, actor: AlertActor): Promise<MaintenanceWindow> {
+    const id = randomUUID();
+    const window: MaintenanceWindow = {
+      ...insertWindow,
+      id,
+      reason: insertWindow.reason ?? null,
+      mode: insertWindow.mode ?? "suppress",
+      endsAt: insertWindow.endsAt ?? null,
+      recurrence: insertWindow.recurrence ?? null,
+      durationMinutes: insertWindow.durationMinutes ?? null,
+      createdBy: actor.id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.maintenanceWindows.set(id, window);
+    this.recordMaintenanceWindowEvent(window, "created", actor);
+    return window;
+  }
+
+  async updateMaintenanceWindow(id: string, updateData: UpdateMaintenanceWindow, actor: AlertActor): Promise<MaintenanceWindow | undefined> {
+    const window = this.maintenanceWindows.get(id);
+    if (!window) return undefined;
+
+    const updatedWindow: MaintenanceWindow = {
+      ...window,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.maintenanceWindows.set(id, updatedWindow);
+    this.recordMaintenanceWindowEvent(updatedWindow, "updated", actor);
+    return updatedWindow;
+  }
+
+  async deleteMaintenanceWindow(id: string, actor: AlertActor): Promise<boolean> {
+    const window = this.maintenanceWindows.get(id);
+    if (!window) return false;
+
+    this.maintenanceWindows.delete(id);
+    this.recordMaintenanceWindowEvent(window, "deleted", actor);
+    return true;
+  }
+
+  async getMaintenanceWindowEvents(windowId?: string): Promise<MaintenanceWindowEvent[]> {
+    return this.maintenanceWindowEvents
+      .filter(event => !windowId || event.windowId === windowId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getOnCallSchedules(): Promise<OnCallSchedule[]> {
+    return Array.from(this.onCallSchedules.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getOnCallSchedule(id: string): Promise<OnCallSchedule | undefined> {
+    return this.onCallSchedules.get(id);
+  }
+
+  async createOnCallSchedule(insertSchedule: InsertOnCallSchedule): Promise<OnCallSchedule> {
+    const id = randomUUID();
+    const schedule: OnCallSchedule = {
+      ...insertSchedule,
+      id,
+      description: insertSchedule.description ?? null,
+      rotation: insertSchedule.rotation ?? "weekly",
+      shiftHours: insertSchedule.shiftHours ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.onCallSchedules.set(id, schedule);
+    return schedule;
+  }
+
+  async updateOnCallSchedule(id: string, updateData: UpdateOnCallSchedule): Promise<OnCallSchedule | undefined> {
+    const schedule = this.onCallSchedules.get(id);
+    if (!schedule) return undefined;
+
+    const updatedSchedule: OnCallSchedule = {
+      ...schedule,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.onCallSchedules.set(id, updatedSchedule);
+    return updatedSchedule;
+  }
+
+  async deleteOnCallSchedule(id: string): Promise<boolean> {
+    if (!this.onCallSchedules.delete(id)) return false;
+    Array.from(this.onCallOverrides.values())
+      .filter(override => override.scheduleId === id)
+      .forEach(override => this.onCallOverrides.delete(override.id));
+    return true;
+  }
+
+  async getOnCallOverrides(scheduleId: string, endingAfter?: Date): Promise<OnCallOverride[]> {
+    return Array.from(this.onCallOverrides.values())
+      .filter(override => override.scheduleId === scheduleId && (!endingAfter || override.endsAt > endingAfter))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getOnCallOverride(id: string): Promise<OnCallOverride | undefined> {
+    return this.onCallOverrides.get(id);
+  }
+
+  async createOnCallOverride(insertOverride: InsertOnCallOverride): Promise<OnCallOverride> {
+    const id = randomUUID();
+    const override: OnCallOverride = {
+      ...insertOverride,
+      id,
+      reason: insertOverride.reason ?? null,
+      createdBy: insertOverride.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.onCallOverrides.set(id, override);
+    return override;
+  }
+
+  async deleteOnCallOverride(id: string): Promise<boolean> {
+    return this.onCallOverrides.delete(id);
+  }
+
+  async getEscalationPolicies(): Promise<EscalationPolicy[]> {
+    return Array.from(this.escalationPolicies.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getEscalationPolicy(id: string): Promise<EscalationPolicy | undefined> {
+    return this.escalationPolicies.get(id);
+  }
+
+  async createEscalationPolicy(insertPolicy: InsertEscalationPolicy): Promise<EscalationPolicy> {
+    const id = randomUUID();
+    const policy: EscalationPolicy = {
+      ...insertPolicy,
+      id,
+      scopeValue: insertPolicy.scopeValue || null,
+      isEnabled: insertPolicy.isEnabled ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.escalationPolicies.set(id, policy);
+    return policy;
+  }
+
+  async updateEscalationPolicy(id: string, updateData: UpdateEscalationPolicy): Promise<EscalationPolicy | undefined> {
+    const policy = this.escalationPolicies.get(id);
+    if (!policy) return undefined;
+
+    const updatedPolicy: EscalationPolicy = {
+      ...policy,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.escalationPolicies.set(id, updatedPolicy);
+    return updatedPolicy;
+  }
+
+  async deleteEscalationPolicy(id: string): Promise<boolean> {
+    return this.escalationPolicies.delete(id);
+  }
+
+  async getCorrelationRules(): Promise<CorrelationRule[]> {
+    return Array.from(this.correlationRules.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCorrelationRule(id: string): Promise<CorrelationRule | undefined> {
+    return this.correlationRules.get(id);
+  }
+
+  async createCorrelationRule(insertRule: InsertCorrelationRule): Promise<CorrelationRule> {
+    const id = randomUUID();
+    const rule: CorrelationRule = {
+      ...insertRule,
+      id,
+      windowMinutes: insertRule.windowMinutes ?? 10,
+      minAlerts: insertRule.minAlerts ?? 2,
+      isEnabled: insertRule.isEnabled ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.correlationRules.set(id, rule);
+    return rule;
+  }
+
+  async updateCorrelationRule(id: string, updateData: UpdateCorrelationRule): Promise<CorrelationRule | undefined> {
+    const rule = this.correlationRules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule: CorrelationRule = {
+      ...rule,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.correlationRules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  async deleteCorrelationRule(id: string): Promise<boolean> {
+    if (!this.correlationRules.delete(id)) return false;
+    Array.from(this.incidents.values())
+      .filter(incident => incident.correlationRuleId === id)
+      .forEach(incident => this.incidents.set(incident.id, { ...incident, correlationRuleId: null }));
+    return true;
+  }
 
-    const resolvedAlert: Alert = {
-      ...alert,
-      isResolved: true,
-      resolvedAt: new Date(),
+  async getIncidents(includeResolved: boolean = false): Promise<Incident[]> {
+    return Array.from(this.incidents.values())
+      .filter(incident => includeResolved || incident.status !== "resolved")
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getIncident(id: string): Promise<Incident | undefined> {
+    return this.incidents.get(id);
+  }
+
+  async getIncidentAlerts(incidentId: string): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.incidentId === incidentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createIncident(insertIncident: InsertIncidentRecord, alertIds: string[]): Promise<Incident> {
+    const id = randomUUID();
+    const incident: Incident = {
+      ...insertIncident,
+      id,
+      status: insertIncident.status ?? "open",
+      commanderId: insertIncident.commanderId ?? null,
+      correlationRuleId: insertIncident.correlationRuleId ?? null,
+      groupKey: insertIncident.groupKey ?? null,
+      postmortem: insertIncident.postmortem ?? null,
+      lastAlertAt: insertIncident.lastAlertAt ?? new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      resolvedAt: null,
+    };
+    this.incidents.set(id, incident);
+    this.recordIncidentEvent(id, "created");
+    for (const alertId of alertIds) {
+      const alert = this.updateAlert(alertId, { incidentId: id });
+      if (alert) this.recordIncidentEvent(id, "alert_attached", undefined, alert.message, alertId);
+    }
+    return incident;
+  }
+
+  async attachAlertToIncident(
+    incidentId: string,
+    alertId: string,
+    changes: Partial<InsertIncidentRecord>,
+    message?: string,
+  ): Promise<Incident | undefined> {
+    const incident = this.incidents.get(incidentId);
+    const alert = this.alerts.get(alertId);
+    if (!incident || !alert) return undefined;
+
+    this.updateAlert(alertId, { incidentId });
+    const updatedIncident: Incident = { ...incident, ...changes, updatedAt: new Date() };
+    this.incidents.set(incidentId, updatedIncident);
+    this.recordIncidentEvent(incidentId, "alert_attached", undefined, message ?? alert.message, alertId);
+    return updatedIncident;
+  }
+
+  async repeatIncidentAlert(
+    alertId: string,
+    changes: Pick<InsertAlert, "severity" | "message" | "threshold" | "currentValue">,
+    incidentChanges: Partial<InsertIncidentRecord>,
+  ): Promise<Alert | undefined> {
+    const current = this.alerts.get(alertId);
+    const incident = current?.incidentId ? this.incidents.get(current.incidentId) : undefined;
+    if (!current || !incident || incident.status === "resolved") return undefined;
+
+    const alert = this.updateAlert(alertId, {
+      severity: changes.severity,
+      message: changes.message,
+      threshold: changes.threshold || null,
+      currentValue: changes.currentValue || null,
+      isResolved: false,
+      resolvedAt: null,
+      resolvedBy: null,
+      occurrences: current.occurrences + 1,
+    })!;
+    this.recordAlertEvent(alertId, "repeated", undefined, changes.message);
+    this.incidents.set(incident.id, { ...incident, ...incidentChanges, updatedAt: new Date() });
+    this.recordIncidentEvent(incident.id, "alert_repeated", undefined, `${changes.message} (${alert.occurrences}ª ocorrência)`, alertId);
+    return alert;
+  }
+
+  async updateIncident(id: string, changes: UpdateIncident, actor: AlertActor): Promise<Incident | undefined> {
+    const incident = this.incidents.get(id);
+    if (!incident) return undefined;
+
+    const resolvedAt = changes.status === undefined || changes.status === incident.status
+      ? incident.resolvedAt
+      : changes.status === "resolved" ? new Date() : null;
+    const updatedIncident: Incident = { ...incident, ...changes, resolvedAt, updatedAt: new Date() };
+    this.incidents.set(id, updatedIncident);
+
+    if (changes.status !== undefined && changes.status !== incident.status) {
+      this.recordIncidentEvent(id, "status_changed", actor, changes.status);
+    }
+    if (changes.commanderId !== undefined && changes.commanderId !== incident.commanderId) {
+      const commander = changes.commanderId ? this.users.get(changes.commanderId) : undefined;
+      this.recordIncidentEvent(id, "commander_changed", actor, commander ? commander.displayName || commander.username : undefined);
+    }
+    if (changes.postmortem !== undefined && changes.postmortem !== incident.postmortem) {
+      this.recordIncidentEvent(id, "postmortem_updated", actor);
+    }
+    return updatedIncident;
+  }
+
+  private recordIncidentEvent(
+    incidentId: string,
+    eventType: IncidentEventType,
+    actor?: AlertActor,
+    message?: string,
+    alertId?: string,
+  ): IncidentEvent {
+    const event: IncidentEvent = {
+      id: randomUUID(),
+      incidentId,
+      eventType,
+      alertId: alertId ?? null,
+      userId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      message: message ?? null,
+      createdAt: new Date(),
     };
-    this.alerts.set(id, resolvedAlert);
-    return resolvedAlert;
+    const events = this.incidentEvents.get(incidentId) ?? [];
+    events.push(event);
+    this.incidentEvents.set(incidentId, events);
+    return event;
+  }
+
+  async getIncidentEvents(incidentId: string): Promise<IncidentEvent[]> {
+    return this.incidentEvents.get(incidentId) ?? [];
+  }
+
+  async addIncidentNote(incidentId: string, actor: AlertActor, message: string): Promise<IncidentEvent | undefined> {
+    if (!this.incidents.has(incidentId)) return undefined;
+    return this.recordIncidentEvent(incidentId, "note", actor, message);
   }
 
   async getSshSessions(): Promise<SshSession[]> {
@@ -633,6 +1940,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.sshSessions.values()).filter(session => session.isActive);
   }
 
+  async getSshSession(id: string): Promise<SshSession | undefined> {
+    return this.sshSessions.get(id);
+  }
+
   async createSshSession(insertSession: InsertSshSession): Promise<SshSession> {
     const id = randomUUID();
     const session: SshSession = {
@@ -855,40 +2166,250 @@ export class MemStorage implements IStorage {
     return event;
   }
 
-  // Log Monitoring operations (stub implementations for interface compliance)
-  async getServerLogs(serverId: string, limit?: number): Promise<ServerLog[]> {
-    // MemStorage doesn't support log monitoring - return empty array
-    return [];
+  // Log Monitoring operations
+  async getServerLogs(serverId: string, limit: number = 100, fieldFilters: LogFieldFilter[] = []): Promise<ServerLog[]> {
+    return this.serverLogs
+      .filter(log => log.serverId === serverId && matchesLogFieldFilters(log, fieldFilters))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
+  }
+
+  async getServerLogsByLevel(serverId: string, logLevel: string, fieldFilters: LogFieldFilter[] = []): Promise<ServerLog[]> {
+    return this.serverLogs
+      .filter(log => log.serverId === serverId && log.logLevel === logLevel && matchesLogFieldFilters(log, fieldFilters))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
-  async getServerLogsByLevel(serverId: string, logLevel: string): Promise<ServerLog[]> {
-    // MemStorage doesn't support log monitoring - return empty array
-    return [];
+  async getServerLogTail(serverId: string, query: LogTailQuery, limit: number): Promise<ServerLog[]> {
+    return this.serverLogs
+      .filter(log => log.serverId === serverId &&
+        (!query.levels || query.levels.includes(log.logLevel.toLowerCase())) &&
+        (!query.text || log.message.toLowerCase().includes(query.text) || log.logSource.toLowerCase().includes(query.text)) &&
+        matchesLogFieldFilters(log, query.fieldFilters))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
   }
 
-  async createServerLog(log: InsertServerLog): Promise<ServerLog> {
-    // MemStorage doesn't support log monitoring - throw error
-    throw new Error("Log monitoring not supported in MemStorage");
+  async createServerLog(insertLog: InsertServerLog): Promise<ServerLog> {
+    const [log] = await this.createServerLogs([insertLog]);
+    return log;
+  }
+
+  async createServerLogs(insertLogs: InsertServerLog[]): Promise<ServerLog[]> {
+    const logs: ServerLog[] = insertLogs.map(insertLog => ({
+      ...insertLog,
+      id: randomUUID(),
+      originalLogPath: insertLog.originalLogPath ?? null,
+      metadata: insertLog.metadata || {},
+      timestamp: insertLog.timestamp ?? new Date(),
+    }));
+    // Oldest lines are dropped once the in-memory buffer is full
+    this.serverLogs = [...this.serverLogs, ...logs].slice(-this.serverLogLimit);
+    logBus.emitLogs(logs);
+    return logs;
   }
 
   async getLogMonitoringConfigs(serverId?: string): Promise<LogMonitoringConfig[]> {
-    // MemStorage doesn't support log monitoring - return empty array
-    return [];
+    return Array.from(this.logMonitoringConfigs.values())
+      .filter(config => !serverId || config.serverId === serverId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async createLogMonitoringConfig(config: InsertLogMonitoringConfig): Promise<LogMonitoringConfig> {
-    // MemStorage doesn't support log monitoring - throw error
-    throw new Error("Log monitoring configuration not supported in MemStorage");
+  async getLogMonitoringConfig(id: string): Promise<LogMonitoringConfig | undefined> {
+    return this.logMonitoringConfigs.get(id);
   }
 
-  async updateLogMonitoringConfig(id: string, config: Partial<InsertLogMonitoringConfig>): Promise<LogMonitoringConfig | undefined> {
-    // MemStorage doesn't support log monitoring - return undefined
-    return undefined;
+  async createLogMonitoringConfig(insertConfig: InsertLogMonitoringConfig): Promise<LogMonitoringConfig> {
+    const id = randomUUID();
+    const config: LogMonitoringConfig = {
+      ...insertConfig,
+      id,
+      isEnabled: insertConfig.isEnabled ?? true,
+      filterPattern: insertConfig.filterPattern ?? null,
+      alertOnError: insertConfig.alertOnError ?? false,
+      fileInode: null,
+      fileOffset: 0,
+      lastShippedAt: null,
+      lastError: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.logMonitoringConfigs.set(id, config);
+    return config;
+  }
+
+  async updateLogMonitoringConfig(id: string, updateData: Partial<InsertLogMonitoringConfig>): Promise<LogMonitoringConfig | undefined> {
+    const config = this.logMonitoringConfigs.get(id);
+    if (!config) return undefined;
+
+    const updatedConfig: LogMonitoringConfig = {
+      ...config,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.logMonitoringConfigs.set(id, updatedConfig);
+    return updatedConfig;
   }
 
   async deleteLogMonitoringConfig(id: string): Promise<boolean> {
-    // MemStorage doesn't support log monitoring - return false
-    return false;
+    return this.logMonitoringConfigs.delete(id);
+  }
+
+  async saveLogShipperPosition(id: string, position: LogShipperPosition): Promise<void> {
+    const config = this.logMonitoringConfigs.get(id);
+    if (config) this.logMonitoringConfigs.set(id, { ...config, ...position });
+  }
+
+  async searchServerLogs(search: ParsedLogSearch, from: Date, to: Date, limit: number, offset: number): Promise<{ hits: LogSearchHit[]; total: number }> {
+    const hits: LogSearchHit[] = [];
+    for (const log of this.serverLogs) {
+      const server = this.servers.get(log.serverId);
+      if (!server || log.timestamp < from || log.timestamp > to) continue;
+      if (matchesLogSearch(log, server, search)) hits.push({ ...log, serverName: server.name });
+    }
+    hits.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id.localeCompare(a.id));
+    return { hits: hits.slice(offset, offset + limit), total: hits.length };
+  }
+
+  // Saved log search operations
+  async getSavedLogSearches(): Promise<SavedLogSearch[]> {
+    return Array.from(this.savedLogSearches.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSavedLogSearch(id: string): Promise<SavedLogSearch | undefined> {
+    return this.savedLogSearches.get(id);
+  }
+
+  async createSavedLogSearch(insertSearch: InsertSavedLogSearch): Promise<SavedLogSearch> {
+    const id = randomUUID();
+    const search: SavedLogSearch = {
+      ...insertSearch,
+      id,
+      query: insertSearch.query ?? "",
+      timeRange: insertSearch.timeRange ?? "24h",
+      createdBy: insertSearch.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.savedLogSearches.set(id, search);
+    return search;
+  }
+
+  async deleteSavedLogSearch(id: string): Promise<boolean> {
+    return this.savedLogSearches.delete(id);
+  }
+
+  // Log parser operations
+  async getLogParsers(): Promise<LogParser[]> {
+    return Array.from(this.logParsers.values())
+      .sort((a, b) => a.logType.localeCompare(b.logType));
+  }
+
+  async getLogParser(id: string): Promise<LogParser | undefined> {
+    return this.logParsers.get(id);
+  }
+
+  async createLogParser(insertParser: InsertLogParser): Promise<LogParser> {
+    const id = randomUUID();
+    const parser: LogParser = {
+      ...insertParser,
+      id,
+      kind: insertParser.kind ?? "regex",
+      levelField: insertParser.levelField ?? null,
+      messageField: insertParser.messageField ?? null,
+      isEnabled: insertParser.isEnabled ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.logParsers.set(id, parser);
+    return parser;
+  }
+
+  async updateLogParser(id: string, updateData: UpdateLogParser): Promise<LogParser | undefined> {
+    const parser = this.logParsers.get(id);
+    if (!parser) return undefined;
+
+    const updatedParser: LogParser = {
+      ...parser,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.logParsers.set(id, updatedParser);
+    return updatedParser;
+  }
+
+  async deleteLogParser(id: string): Promise<boolean> {
+    return this.logParsers.delete(id);
+  }
+
+  // Syslog sender operations
+  async getSyslogSenders(): Promise<SyslogSender[]> {
+    return Array.from(this.syslogSenders.values())
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async getSyslogSender(id: string): Promise<SyslogSender | undefined> {
+    return this.syslogSenders.get(id);
+  }
+
+  async quarantineSyslogMessages(
+    address: string,
+    hostname: string,
+    messages: QuarantinedSyslogMessage[],
+    keep: number,
+  ): Promise<SyslogSender> {
+    const now = new Date();
+    const existing = Array.from(this.syslogSenders.values())
+      .find(sender => sender.address === address && sender.hostname === hostname);
+    const sender: SyslogSender = existing ?? {
+      id: randomUUID(),
+      address,
+      hostname,
+      serverId: null,
+      messageCount: 0,
+      pendingMessages: [],
+      lastMessage: null,
+      firstSeenAt: now,
+      lastSeenAt: now,
+    };
+
+    const updatedSender: SyslogSender = {
+      ...sender,
+      messageCount: sender.messageCount + messages.length,
+      pendingMessages: [...(sender.pendingMessages as QuarantinedSyslogMessage[]), ...messages].slice(-keep),
+      lastMessage: messages[messages.length - 1]?.message ?? sender.lastMessage,
+      lastSeenAt: now,
+    };
+    this.syslogSenders.set(updatedSender.id, updatedSender);
+    return updatedSender;
+  }
+
+  async assignSyslogSender(id: string, serverId: string): Promise<SyslogSender | undefined> {
+    const sender = this.syslogSenders.get(id);
+    if (!sender) return undefined;
+
+    // Messages held in quarantine are delivered with the time they were received
+    const pending = sender.pendingMessages as QuarantinedSyslogMessage[];
+    const logs: ServerLog[] = pending.map(message => ({
+      id: randomUUID(),
+      serverId,
+      logLevel: message.logLevel,
+      logSource: message.logSource,
+      message: message.message,
+      originalLogPath: null,
+      metadata: message.metadata,
+      timestamp: new Date(message.receivedAt),
+    }));
+    this.serverLogs = [...this.serverLogs, ...logs].slice(-this.serverLogLimit);
+    logBus.emitLogs(logs);
+
+    const updatedSender: SyslogSender = { ...sender, serverId, pendingMessages: [] };
+    this.syslogSenders.set(id, updatedSender);
+    return updatedSender;
+  }
+
+  async deleteSyslogSender(id: string): Promise<boolean> {
+    return this.syslogSenders.delete(id);
   }
 }
 
@@ -0,0 +1,331 @@
+import http from "http";
+import https from "https";
+import net from "net";
+import tls, { type TLSSocket } from "tls";
+import { promises as dns } from "dns";
+import type {
+  DnsCheckConfig,
+  HttpCheckConfig,
+  InsertSyntheticCheckResult,
+  Server,
+  SyntheticCheck,
+  SyntheticCheckResult,
+  SyntheticCheckStatus,
+  TcpCheckConfig,
+  TlsCheckConfig,
+} from "@shared/schema";
+import type { MaintenanceService } from "./maintenance";
+import type { IStorage } from "./storage";
+
+const TICK_INTERVAL_MS = 5_000;
+// Enough for any sane body match without buffering whole downloads
+const MAX_BODY_BYTES = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_AGENT = "HosMonitor-Check/1.0";
+
+export type ProbeOutcome = Omit<InsertSyntheticCheckResult, "checkId" | "checkedAt"> & { status: SyntheticCheckStatus };
+
+class CheckConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckConfigError";
+  }
+}
+
+function elapsedMs(startedAt: number): number {
+  return Math.round(performance.now() - startedAt);
+}
+
+function down(message: string, latencyMs: number | null = null): ProbeOutcome {
+  return { status: "down", latencyMs, message };
+}
+
+function certificateExpiry(socket: TLSSocket): Date | null {
+  const certificate = socket.getPeerCertificate();
+  return certificate?.valid_to ? new Date(certificate.valid_to) : null;
+}
+
+export function probeHttp(config: HttpCheckConfig, timeoutMs: number): Promise<ProbeOutcome> {
+  const url = new URL(config.url);
+  const client = url.protocol === "https:" ? https : http;
+  const startedAt = performance.now();
+
+  return new Promise(resolve => {
+    const request = client.request(url, {
+      method: config.method,
+      headers: { "User-Agent": USER_AGENT },
+      rejectUnauthorized: !config.allowInsecureTls,
+      signal: AbortSignal.timeout(timeoutMs),
+    }, response => {
+      const certificateExpiresAt = response.socket instanceof tls.TLSSocket ? certificateExpiry(response.socket) : null;
+      const chunks: Buffer[] = [];
+      let received = 0;
+
+      response.on("data", (chunk: Buffer) => {
+        if (received >= MAX_BODY_BYTES) return;
+        chunks.push(chunk);
+        received += chunk.length;
+      });
+      response.on("error", error => resolve(down(error.message, elapsedMs(startedAt))));
+      response.on("end", () => {
+        const latencyMs = elapsedMs(startedAt);
+        const statusCode = response.statusCode ?? 0;
+        const outcome = { latencyMs, statusCode, certificateExpiresAt };
+        const expected = config.expectedStatus
+          ? config.expectedStatus.includes(statusCode)
+          : statusCode >= 200 && statusCode < 400;
+
+        if (!expected) {
+          return resolve({ ...outcome, status: "down", message: `HTTP ${statusCode} inesperado` });
+        }
+        if (config.bodyMatch && !Buffer.concat(chunks).toString("utf-8").includes(config.bodyMatch)) {
+          return resolve({ ...outcome, status: "down", message: `Resposta não contém "${config.bodyMatch}"` });
+        }
+        if (config.maxLatencyMs && latencyMs > config.maxLatencyMs) {
+          return resolve({ ...outcome, status: "degraded", message: `Resposta lenta: ${latencyMs}ms (limite ${config.maxLatencyMs}ms)` });
+        }
+        resolve({ ...outcome, status: "up", message: `HTTP ${statusCode}` });
+      });
+    });
+
+    request.on("error", error => {
+      const message = error.name === "AbortError" ? `Sem resposta em ${timeoutMs}ms` : error.message;
+      resolve(down(message, null));
+    });
+    request.end();
+  });
+}
+
+export function probeTcp(host: string, config: TcpCheckConfig, timeoutMs: number): Promise<ProbeOutcome> {
+  const startedAt = performance.now();
+
+  return new Promise(resolve => {
+    const socket = net.connect({ host, port: config.port });
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve({ status: "up", latencyMs: elapsedMs(startedAt), message: `Porta ${config.port} aberta` });
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      resolve(down(`Sem conexão em ${timeoutMs}ms`));
+    });
+    socket.once("error", error => resolve(down(error.message)));
+  });
+}
+
+function normalizeRecord(value: string): string {
+  return value.toLowerCase().replace(/\.$/, "");
+}
+
+export async function probeDns(config: DnsCheckConfig, timeoutMs: number): Promise<ProbeOutcome> {
+  const resolver = new dns.Resolver({ timeout: timeoutMs, tries: 1 });
+  if (config.nameserver) resolver.setServers([config.nameserver]);
+  const startedAt = performance.now();
+
+  let records: string[];
+  try {
+    switch (config.recordType) {
+      case "A":
+        records = await resolver.resolve4(config.hostname);
+        break;
+      case "AAAA":
+        records = await resolver.resolve6(config.hostname);
+        break;
+      case "CNAME":
+        records = await resolver.resolveCname(config.hostname);
+        break;
+      case "MX":
+        records = (await resolver.resolveMx(config.hostname)).map(record => record.exchange);
+        break;
+      case "TXT":
+        records = (await resolver.resolveTxt(config.hostname)).map(parts => parts.join(""));
+        break;
+      case "NS":
+        records = await resolver.resolveNs(config.hostname);
+        break;
+    }
+  } catch (error) {
+    return down(`Falha ao resolver ${config.hostname}: ${(error as NodeJS.ErrnoException).code ?? (error as Error).message}`, elapsedMs(startedAt));
+  }
+
+  const latencyMs = elapsedMs(startedAt);
+  if (!records.length) {
+    return down(`Nenhum registro ${config.recordType} para ${config.hostname}`, latencyMs);
+  }
+  if (config.expectedValue && !records.some(record => normalizeRecord(record) === normalizeRecord(config.expectedValue!))) {
+    return down(`${config.recordType} ${records.join(", ")} (esperado ${config.expectedValue})`, latencyMs);
+  }
+  return { status: "up", latencyMs, message: `${config.recordType} ${records.join(", ")}` };
+}
+
+export function probeTls(host: string, config: TlsCheckConfig, timeoutMs: number, now: Date = new Date()): Promise<ProbeOutcome> {
+  const startedAt = performance.now();
+  // SNI must not be an IP address
+  const servername = config.servername ?? (net.isIP(host) ? undefined : host);
+
+  return new Promise(resolve => {
+    // Trust is judged below so an untrusted certificate still reports its expiry
+    const socket = tls.connect({ host, port: config.port, servername, rejectUnauthorized: false });
+    socket.setTimeout(timeoutMs);
+    socket.once("secureConnect", () => {
+      const latencyMs = elapsedMs(startedAt);
+      const certificateExpiresAt = certificateExpiry(socket);
+      const { authorized, authorizationError } = socket;
+      socket.destroy();
+
+      if (!certificateExpiresAt) {
+        return resolve(down("Nenhum certificado apresentado", latencyMs));
+      }
+      const outcome = { latencyMs, certificateExpiresAt };
+      const daysLeft = Math.floor((certificateExpiresAt.getTime() - now.getTime()) / DAY_MS);
+
+      if (certificateExpiresAt.getTime() <= now.getTime()) {
+        return resolve({ ...outcome, status: "down", message: `Certificado expirou em ${certificateExpiresAt.toISOString().slice(0, 10)}` });
+      }
+      if (!authorized && !config.allowUntrusted) {
+        return resolve({ ...outcome, status: "down", message: `Certificado não confiável: ${authorizationError}` });
+      }
+      if (daysLeft <= config.warningDays) {
+        return resolve({ ...outcome, status: "degraded", message: `Certificado expira em ${daysLeft} dia(s)` });
+      }
+      resolve({ ...outcome, status: "up", message: `Certificado válido por ${daysLeft} dias` });
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      resolve(down(`Sem handshake TLS em ${timeoutMs}ms`));
+    });
+    socket.once("error", error => resolve(down(error.message)));
+  });
+}
+
+/** Runs one check against its configured (or attached server's) target. */
+export async function probeCheck(check: SyntheticCheck, server?: Server): Promise<ProbeOutcome> {
+  const targetHost = (host: string | undefined) => {
+    const resolved = host ?? server?.ip;
+    if (!resolved) throw new CheckConfigError("Check has no host and no server to fall back to");
+    return resolved;
+  };
+
+  try {
+    switch (check.type) {
+      case "http":
+        return await probeHttp(check.config as HttpCheckConfig, check.timeoutMs);
+      case "tcp": {
+        const config = check.config as TcpCheckConfig;
+        return await probeTcp(targetHost(config.host), config, check.timeoutMs);
+      }
+      case "dns":
+        return await probeDns(check.config as DnsCheckConfig, check.timeoutMs);
+      case "tls": {
+        const config = check.config as TlsCheckConfig;
+        return await probeTls(targetHost(config.host), config, check.timeoutMs);
+      }
+      default:
+        throw new CheckConfigError(`Unsupported check type: ${check.type}`);
+    }
+  } catch (error) {
+    return down((error as Error).message);
+  }
+}
+
+/**
+ * Runs enabled checks on their own intervals, stores every result and keeps
+ * one open alert per failing check: `severity` when down, warning when
+ * degraded, opened after `failureThreshold` consecutive failures and
+ * resolved on the first success.
+ */
+export class SyntheticCheckRunner {
+  private timer: NodeJS.Timeout | null = null;
+  private lastRunAt = new Map<string, number>();
+  private failures = new Map<string, number>();
+  private inFlight = new Set<string>();
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  start() {
+    const tick = () => {
+      this.tick().catch(error => console.error("Failed to run synthetic checks:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, TICK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now: number = Date.now()): Promise<void> {
+    const due = (await this.storage.getSyntheticChecks()).filter(check =>
+      check.isEnabled &&
+      !this.inFlight.has(check.id) &&
+      now - (this.lastRunAt.get(check.id) ?? 0) >= check.intervalSeconds * 1000,
+    );
+
+    await Promise.all(due.map(check =>
+      this.run(check).catch(error => console.error(`Synthetic check ${check.name} failed to run:`, error)),
+    ));
+  }
+
+  async run(check: SyntheticCheck): Promise<SyntheticCheckResult> {
+    this.inFlight.add(check.id);
+    this.lastRunAt.set(check.id, Date.now());
+
+    try {
+      const server = check.serverId ? await this.storage.getServer(check.serverId) : undefined;
+      const outcome = await probeCheck(check, server);
+      const result = await this.storage.createCheckResult({ ...outcome, checkId: check.id, checkedAt: new Date() });
+      await this.updateAlert(check, result);
+      return result;
+    } finally {
+      this.inFlight.delete(check.id);
+    }
+  }
+
+  forget(checkId: string) {
+    this.lastRunAt.delete(checkId);
+    this.failures.delete(checkId);
+  }
+
+  private async updateAlert(check: SyntheticCheck, result: SyntheticCheckResult) {
+    const openAlerts = (await this.storage.getCheckAlerts(check.id)).filter(alert => !alert.isResolved);
+
+    if (result.status === "up") {
+      this.failures.delete(check.id);
+      for (const alert of openAlerts) {
+        await this.storage.resolveAlert(alert.id);
+      }
+      return;
+    }
+
+    const failures = (this.failures.get(check.id) ?? 0) + 1;
+    this.failures.set(check.id, failures);
+    if (failures < check.failureThreshold) return;
+
+    const severity = result.status === "down" ? check.severity : "warning";
+    const current = openAlerts.find(alert => alert.severity === severity);
+    // Moving between degraded and down replaces the alert so its severity is right
+    for (const alert of openAlerts.filter(alert => alert !== current)) {
+      await this.storage.resolveAlert(alert.id);
+    }
+    if (current) return;
+
+    await this.maintenance.raise({
+      serverId: check.serverId,
+      checkId: check.id,
+      alertType: "check",
+      severity,
+      message: `${check.name}: ${result.message ?? (result.status === "down" ? "fora do ar" : "degradado")}`,
+      currentValue: result.latencyMs !== null ? result.latencyMs.toFixed(2) : null,
+      isResolved: false,
+    });
+  }
+}
+
+export { CheckConfigError };
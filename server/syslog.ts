@@ -0,0 +1,447 @@
+import dgram from "dgram";
+import net from "net";
+import type {
+  InsertServerLog,
+  QuarantinedSyslogMessage,
+  Server,
+  SyslogReceiverStatus,
+  SyslogSender,
+} from "@shared/schema";
+import type { LogParserRegistry, StructuredLogParser } from "./log-parsers";
+import type { IStorage } from "./storage";
+
+const FLUSH_INTERVAL_MS = 1000;
+// Servers and assignments are reloaded this often, or right after an assignment changes
+const CACHE_TTL_MS = 30_000;
+// Messages waiting for the next flush; a flood beyond this is dropped and counted
+const MAX_QUEUE = 10_000;
+const MAX_FRAME_BYTES = 64 * 1024;
+const TCP_IDLE_TIMEOUT_MS = 5 * 60_000;
+// Latest messages kept per quarantined sender, delivered when it is assigned
+const QUARANTINE_KEEP = 50;
+
+const FACILITIES = [
+  "kern", "user", "mail", "daemon", "auth", "syslog", "lpr", "news",
+  "uucp", "cron", "authpriv", "ftp", "ntp", "security", "console", "solaris-cron",
+  "local0", "local1", "local2", "local3", "local4", "local5", "local6", "local7",
+];
+const SEVERITIES = ["emerg", "alert", "crit", "err", "warning", "notice", "info", "debug"];
+const LOG_LEVEL_RANK = ["debug", "info", "warning", "error"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+// Messages without a PRI part are user.notice (RFC 3164 §4.3.3)
+const DEFAULT_PRIORITY = 13;
+
+const RFC3164_TIMESTAMP = /^([A-Z][a-z]{2}) {1,2}(\d{1,2}) (\d{2}):(\d{2}):(\d{2}) /;
+const RFC3164_TAG = /^([^\s:[\]]{1,48})(?:\[([^\]]*)\])?: ?/;
+
+export type SyslogTransport = "udp" | "tcp";
+
+export interface SyslogMessage {
+  format: "rfc5424" | "rfc3164";
+  facility: number;
+  severity: number;
+  timestamp: Date | null;
+  hostname: string | null;
+  appName: string | null;
+  procId: string | null;
+  msgId: string | null;
+  structuredData: string | null;
+  message: string;
+}
+
+interface ReceivedMessage {
+  address: string;
+  transport: SyslogTransport;
+  receivedAt: Date;
+  parsed: SyslogMessage;
+}
+
+function nil(value: string | undefined): string | null {
+  return !value || value === "-" ? null : value;
+}
+
+// Splits `count` space-separated header fields off the front of `text`
+function takeFields(text: string, count: number): [string[], string] {
+  const fields: string[] = [];
+  let rest = text;
+  for (let i = 0; i < count; i++) {
+    const space = rest.indexOf(" ");
+    fields.push(space === -1 ? rest : rest.slice(0, space));
+    rest = space === -1 ? "" : rest.slice(space + 1);
+  }
+  return [fields, rest];
+}
+
+// STRUCTURED-DATA is one or more [id param="value"] elements; values may escape `"`, `\` and `]`
+function takeStructuredData(text: string): [string | null, string] {
+  if (!text.startsWith("[")) {
+    return [null, text.startsWith("- ") ? text.slice(2) : text === "-" ? "" : text];
+  }
+
+  let index = 0;
+  while (text[index] === "[") {
+    let quoted = false;
+    index++;
+    for (; index < text.length; index++) {
+      const char = text[index];
+      if (char === "\\" && quoted) index++;
+      else if (char === "\"") quoted = !quoted;
+      else if (char === "]" && !quoted) break;
+    }
+    index++;
+  }
+  return [text.slice(0, index), text.slice(index).replace(/^ /, "")];
+}
+
+function rfc3164Timestamp(match: RegExpExecArray, now: Date): Date | null {
+  const month = MONTHS.indexOf(match[1]);
+  if (month === -1) return null;
+  const timestamp = new Date(now.getFullYear(), month, Number(match[2]), Number(match[3]), Number(match[4]), Number(match[5]));
+  // The format has no year: a date ahead of now was sent last year, e.g. on New Year's Eve
+  if (timestamp.getTime() - now.getTime() > 24 * 60 * 60_000) timestamp.setFullYear(timestamp.getFullYear() - 1);
+  return timestamp;
+}
+
+/** Reads an RFC 3164 ("Oct 19 10:00:00") or RFC 3339 timestamp, as syslog daemons write them to files. */
+export function parseSyslogTimestamp(text: string, now: Date = new Date()): Date | null {
+  const bsd = RFC3164_TIMESTAMP.exec(`${text} `);
+  if (bsd) return rfc3164Timestamp(bsd, now);
+  const timestamp = new Date(text);
+  return /^\d{4}-\d{2}-\d{2}T/.test(text) && !Number.isNaN(timestamp.getTime()) ? timestamp : null;
+}
+
+/** Parses an RFC 5424 or RFC 3164 (BSD) message, accepting the usual deviations of real devices. */
+export function parseSyslogMessage(raw: string, now: Date = new Date()): SyslogMessage {
+  let text = raw.replace(/[\r\n\0]+$/, "");
+  let priority = DEFAULT_PRIORITY;
+  const pri = /^<(\d{1,3})>/.exec(text);
+  if (pri && Number(pri[1]) <= 191) {
+    priority = Number(pri[1]);
+    text = text.slice(pri[0].length);
+  }
+  const facility = priority >> 3;
+  const severity = priority & 7;
+
+  if (/^1 /.test(text)) {
+    const [[, timestamp, hostname, appName, procId, msgId], rest] = takeFields(text, 6);
+    const [structuredData, message] = takeStructuredData(rest);
+    const parsedTimestamp = nil(timestamp) ? new Date(timestamp) : null;
+    return {
+      format: "rfc5424",
+      facility,
+      severity,
+      timestamp: parsedTimestamp && !Number.isNaN(parsedTimestamp.getTime()) ? parsedTimestamp : null,
+      hostname: nil(hostname),
+      appName: nil(appName),
+      procId: nil(procId),
+      msgId: nil(msgId),
+      structuredData,
+      message: message.replace(/^\uFEFF/, ""),
+    };
+  }
+
+  let timestamp: Date | null = null;
+  let hostname: string | null = null;
+  const header = RFC3164_TIMESTAMP.exec(text);
+  if (header) {
+    timestamp = rfc3164Timestamp(header, now);
+    text = text.slice(header[0].length);
+    // Many devices skip HOSTNAME and go straight to the tag ("su: ..." or "sshd[812]: ...")
+    const [[candidate]] = takeFields(text, 1);
+    if (candidate && !candidate.endsWith(":") && !candidate.includes("[")) {
+      hostname = candidate;
+      text = text.slice(candidate.length + 1);
+    }
+  }
+
+  const tag = RFC3164_TAG.exec(text);
+  return {
+    format: "rfc3164",
+    facility,
+    severity,
+    timestamp,
+    hostname,
+    appName: tag?.[1] ?? null,
+    procId: tag?.[2] ?? null,
+    msgId: null,
+    structuredData: null,
+    message: tag ? text.slice(tag[0].length) : text,
+  };
+}
+
+export function syslogLogLevel(severity: number): string {
+  if (severity <= 3) return "error";
+  if (severity === 4) return "warning";
+  if (severity === 7) return "debug";
+  return "info";
+}
+
+export function syslogFacilityName(facility: number): string {
+  return FACILITIES[facility] ?? `facility${facility}`;
+}
+
+/**
+ * Splits a TCP stream into messages (RFC 6587): octet-counted frames
+ * ("<length> <message>") or frames terminated by LF or NUL. Returns the
+ * bytes of an incomplete frame to keep for the next chunk.
+ */
+export function splitSyslogFrames(buffer: Buffer): { frames: string[]; rest: Buffer } {
+  const frames: string[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const first = buffer[offset];
+    if (first >= 0x30 && first <= 0x39) {
+      const space = buffer.indexOf(0x20, offset);
+      if (space === -1 || space - offset > 6) {
+        if (buffer.length - offset > 6) throw new Error("Invalid octet count in syslog frame");
+        break;
+      }
+      const length = Number(buffer.subarray(offset, space).toString("ascii"));
+      if (!Number.isInteger(length)) throw new Error("Invalid octet count in syslog frame");
+      if (length > MAX_FRAME_BYTES) throw new Error(`Syslog frame too long: ${length} bytes`);
+      if (buffer.length < space + 1 + length) break;
+      frames.push(buffer.subarray(space + 1, space + 1 + length).toString("utf-8"));
+      offset = space + 1 + length;
+      continue;
+    }
+
+    let end = buffer.indexOf(0x0a, offset);
+    const nul = buffer.indexOf(0x00, offset);
+    if (nul !== -1 && (end === -1 || nul < end)) end = nul;
+    if (end === -1) {
+      if (buffer.length - offset > MAX_FRAME_BYTES) throw new Error("Syslog frame too long");
+      break;
+    }
+    const frame = buffer.subarray(offset, end).toString("utf-8");
+    if (frame.trim()) frames.push(frame);
+    offset = end + 1;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function normalizeAddress(address: string): string {
+  // IPv4 peers of a dual-stack socket show up as ::ffff:a.b.c.d
+  return address.startsWith("::ffff:") ? address.slice(7) : address;
+}
+
+function shortName(name: string): string {
+  return name.toLowerCase().split(".")[0];
+}
+
+// A structured parser may only raise the level, e.g. a 502 in an nginx access line sent as info
+function mostSevere(level: string, other: string | undefined): string {
+  return other && LOG_LEVEL_RANK.indexOf(other) > LOG_LEVEL_RANK.indexOf(level) ? other : level;
+}
+
+function toQuarantined(message: ReceivedMessage, structured?: StructuredLogParser): QuarantinedSyslogMessage {
+  const { parsed } = message;
+  const fields = structured?.parse(parsed.message);
+  const metadata: Record<string, unknown> = {
+    transport: message.transport,
+    address: message.address,
+    format: parsed.format,
+    facility: syslogFacilityName(parsed.facility),
+    severity: SEVERITIES[parsed.severity],
+  };
+  if (parsed.hostname) metadata.hostname = parsed.hostname;
+  if (parsed.appName) metadata.appName = parsed.appName;
+  if (parsed.procId) metadata.procId = parsed.procId;
+  if (parsed.msgId) metadata.msgId = parsed.msgId;
+  if (parsed.structuredData) metadata.structuredData = parsed.structuredData;
+  if (parsed.timestamp) metadata.reportedAt = parsed.timestamp.toISOString();
+  if (fields) Object.assign(metadata, fields.fields, { parser: fields.parser });
+
+  return {
+    logLevel: mostSevere(syslogLogLevel(parsed.severity), fields?.logLevel),
+    logSource: syslogFacilityName(parsed.facility),
+    message: fields?.message ?? parsed.message,
+    metadata,
+    receivedAt: message.receivedAt.toISOString(),
+  };
+}
+
+/**
+ * Receives syslog over UDP and TCP on `SYSLOG_PORT` and stores it in
+ * server_logs. Each message is attributed to the server an admin assigned
+ * its sender to, otherwise to the server whose name or hostname matches
+ * the message HOSTNAME, otherwise to the server with the sender's IP.
+ * Messages from anyone else are quarantined in syslog_senders. Messages
+ * whose APP-NAME has a log parser get its fields in metadata.
+ */
+export class SyslogReceiver {
+  private udpSocket: dgram.Socket | null = null;
+  private tcpServer: net.Server | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private queue: ReceivedMessage[] = [];
+  private flushing: Promise<void> = Promise.resolve();
+  private servers: Server[] = [];
+  private senders: SyslogSender[] = [];
+  private cacheLoadedAt = 0;
+  private port: number | null = null;
+  private counters = { received: 0, quarantined: 0, dropped: 0 };
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly parsers: LogParserRegistry,
+  ) {}
+
+  start() {
+    const port = parseInt(process.env.SYSLOG_PORT || "", 10);
+    if (!port) return;
+    const host = process.env.SYSLOG_HOST || "0.0.0.0";
+    this.port = port;
+
+    const udpSocket = dgram.createSocket(host.includes(":") ? "udp6" : "udp4");
+    udpSocket.on("message", (data, remote) => this.receive(data.toString("utf-8"), remote.address, "udp"));
+    udpSocket.on("error", error => {
+      console.error("Syslog UDP listener failed:", error);
+      udpSocket.close();
+      this.udpSocket = null;
+    });
+    udpSocket.bind(port, host);
+    this.udpSocket = udpSocket;
+
+    const tcpServer = net.createServer(socket => this.acceptTcp(socket));
+    tcpServer.on("error", error => {
+      console.error("Syslog TCP listener failed:", error);
+      tcpServer.close();
+      this.tcpServer = null;
+    });
+    tcpServer.listen(port, host);
+    this.tcpServer = tcpServer;
+
+    this.timer = setInterval(() => {
+      this.flush().catch(error => console.error("Failed to store syslog messages:", error));
+    }, FLUSH_INTERVAL_MS);
+    console.log(`Syslog receiver listening on ${host}:${port} (UDP/TCP)`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.udpSocket?.close();
+    this.udpSocket = null;
+    this.tcpServer?.close();
+    this.tcpServer = null;
+  }
+
+  status(): SyslogReceiverStatus {
+    return {
+      enabled: this.port !== null,
+      port: this.port,
+      udp: this.udpSocket !== null,
+      tcp: this.tcpServer !== null,
+      ...this.counters,
+    };
+  }
+
+  receive(raw: string, address: string, transport: SyslogTransport, now: Date = new Date()) {
+    if (!raw.trim()) return;
+    if (this.queue.length >= MAX_QUEUE) {
+      this.counters.dropped++;
+      return;
+    }
+    this.counters.received++;
+    this.queue.push({ address: normalizeAddress(address), transport, receivedAt: now, parsed: parseSyslogMessage(raw, now) });
+  }
+
+  /** Stores everything received so far; flushes never overlap. */
+  flush(): Promise<void> {
+    const flushing = this.flushing.then(() => this.store());
+    this.flushing = flushing.catch(() => undefined);
+    return flushing;
+  }
+
+  async assign(senderId: string, serverId: string): Promise<SyslogSender | undefined> {
+    const sender = await this.storage.assignSyslogSender(senderId, serverId);
+    this.cacheLoadedAt = 0;
+    return sender;
+  }
+
+  async forget(senderId: string): Promise<boolean> {
+    const deleted = await this.storage.deleteSyslogSender(senderId);
+    this.cacheLoadedAt = 0;
+    return deleted;
+  }
+
+  private acceptTcp(socket: net.Socket) {
+    const address = socket.remoteAddress ?? "unknown";
+    let buffer: Buffer = Buffer.alloc(0);
+
+    socket.setTimeout(TCP_IDLE_TIMEOUT_MS, () => socket.destroy());
+    socket.on("error", () => socket.destroy());
+    socket.on("data", chunk => {
+      try {
+        const { frames, rest } = splitSyslogFrames(buffer.length ? Buffer.concat([buffer, chunk]) : chunk);
+        frames.forEach(frame => this.receive(frame, address, "tcp"));
+        buffer = Buffer.from(rest);
+      } catch (error) {
+        console.warn(`Closing syslog connection from ${address}: ${(error as Error).message}`);
+        socket.destroy();
+      }
+    });
+    // A sender may close the stream without terminating its last message
+    socket.on("end", () => {
+      if (buffer.length) this.receive(buffer.toString("utf-8"), address, "tcp");
+    });
+  }
+
+  private async store(now: Date = new Date()) {
+    if (!this.queue.length) return;
+    const messages = this.queue;
+    this.queue = [];
+
+    if (now.getTime() - this.cacheLoadedAt >= CACHE_TTL_MS) {
+      [this.servers, this.senders] = await Promise.all([this.storage.getServers(), this.storage.getSyslogSenders()]);
+      this.cacheLoadedAt = now.getTime();
+    }
+    await this.parsers.refresh();
+
+    const logs: InsertServerLog[] = [];
+    const quarantined = new Map<string, { address: string; hostname: string; messages: QuarantinedSyslogMessage[] }>();
+    for (const message of messages) {
+      const hostname = message.parsed.hostname ?? "";
+      // The APP-NAME/tag picks the parser, e.g. "nginx" for nginx logging to syslog
+      const appName = message.parsed.appName;
+      const entry = toQuarantined(message, appName ? this.parsers.get(appName) : undefined);
+      const serverId = this.attribute(message.address, hostname);
+      if (serverId) {
+        logs.push({ serverId, logLevel: entry.logLevel, logSource: entry.logSource, message: entry.message, metadata: entry.metadata });
+        continue;
+      }
+
+      const key = `${message.address}\n${hostname}`;
+      const group = quarantined.get(key) ?? { address: message.address, hostname, messages: [] };
+      group.messages.push(entry);
+      quarantined.set(key, group);
+    }
+
+    await this.storage.createServerLogs(logs);
+    for (const group of Array.from(quarantined.values())) {
+      await this.storage.quarantineSyslogMessages(group.address, group.hostname, group.messages, QUARANTINE_KEEP);
+      this.counters.quarantined += group.messages.length;
+    }
+  }
+
+  private attribute(address: string, hostname: string): string | undefined {
+    const assigned = this.senders.find(sender =>
+      sender.serverId && sender.address === address && sender.hostname === hostname,
+    );
+    if (assigned) return assigned.serverId!;
+
+    // HOSTNAME wins over the address so messages forwarded by a relay land on the right server
+    if (hostname) {
+      const name = hostname.toLowerCase();
+      const byName = this.servers.find(server =>
+        server.hostname.toLowerCase() === name || server.name.toLowerCase() === name,
+      ) ?? this.servers.find(server =>
+        shortName(server.hostname) === shortName(name) || shortName(server.name) === shortName(name),
+      );
+      if (byName) return byName.id;
+    }
+
+    return this.servers.find(server => server.ip === address)?.id;
+  }
+}
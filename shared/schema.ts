@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, type AnyPgColumn, text, varchar, integer, bigint, decimal, doublePrecision, timestamp, boolean, jsonb, json, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,6 +16,8 @@ export const servers = pgTable("servers", {
   serverType: text("server_type").notNull().default("web"), // web, database, hybrid, mail, backup
   description: text("description"),
   tags: jsonb("tags").default([]),
+  metricsSource: text("metrics_source").notNull().default("ssh"), // ssh, push
+  parentServerId: varchar("parent_server_id").references((): AnyPgColumn => servers.id, { onDelete: "set null" }), // host or hypervisor it runs on
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
@@ -34,17 +36,330 @@ export const serverMetrics = pgTable("server_metrics", {
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
 });
 
-export const alerts = pgTable("alerts", {
+// Aggregates kept per bucket in the rollup tables (same units as server_metrics)
+const rollupAggregateColumns = () => ({
+  cpuAvg: decimal("cpu_avg", { precision: 5, scale: 2 }),
+  cpuMin: decimal("cpu_min", { precision: 5, scale: 2 }),
+  cpuMax: decimal("cpu_max", { precision: 5, scale: 2 }),
+  cpuP95: decimal("cpu_p95", { precision: 5, scale: 2 }),
+  memoryAvg: decimal("memory_avg", { precision: 5, scale: 2 }),
+  memoryMin: decimal("memory_min", { precision: 5, scale: 2 }),
+  memoryMax: decimal("memory_max", { precision: 5, scale: 2 }),
+  memoryP95: decimal("memory_p95", { precision: 5, scale: 2 }),
+  diskAvg: decimal("disk_avg", { precision: 5, scale: 2 }),
+  diskMin: decimal("disk_min", { precision: 5, scale: 2 }),
+  diskMax: decimal("disk_max", { precision: 5, scale: 2 }),
+  diskP95: decimal("disk_p95", { precision: 5, scale: 2 }),
+  networkInAvg: decimal("network_in_avg", { precision: 15, scale: 2 }),
+  networkInMin: decimal("network_in_min", { precision: 15, scale: 2 }),
+  networkInMax: decimal("network_in_max", { precision: 15, scale: 2 }),
+  networkInP95: decimal("network_in_p95", { precision: 15, scale: 2 }),
+  networkOutAvg: decimal("network_out_avg", { precision: 15, scale: 2 }),
+  networkOutMin: decimal("network_out_min", { precision: 15, scale: 2 }),
+  networkOutMax: decimal("network_out_max", { precision: 15, scale: 2 }),
+  networkOutP95: decimal("network_out_p95", { precision: 15, scale: 2 }),
+});
+
+export const serverMetrics5m = pgTable("server_metrics_5m", {
+  serverId: varchar("server_id").notNull().references(() => servers.id, { onDelete: "cascade" }),
+  bucket: timestamp("bucket").notNull(),
+  samples: integer("samples").notNull(), // online raw samples folded into this bucket
+  ...rollupAggregateColumns(),
+}, (table) => [primaryKey({ columns: [table.serverId, table.bucket] })]);
+
+export const serverMetrics1h = pgTable("server_metrics_1h", {
+  serverId: varchar("server_id").notNull().references(() => servers.id, { onDelete: "cascade" }),
+  bucket: timestamp("bucket").notNull(),
+  samples: integer("samples").notNull(),
+  ...rollupAggregateColumns(),
+}, (table) => [primaryKey({ columns: [table.serverId, table.bucket] })]);
+
+// Generic labeled series (name + labels + value) beside the fixed server_metrics columns:
+// per-mount disk, per-interface network, load, swap, agent gauges...
+export const serverCustomMetrics = pgTable("server_custom_metrics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serverId: varchar("server_id").notNull().references(() => servers.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  labels: jsonb("labels").$type<Record<string, string>>().notNull().default({}),
+  // Canonical `k=v,k=v` form of labels (sorted), used to group a series
+  labelsKey: text("labels_key").notNull().default(""),
+  value: doublePrecision("value").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+}, (table) => [
+  index("IDX_custom_metrics_server_name_ts").on(table.serverId, table.name, table.labelsKey, table.timestamp),
+]);
+
+// Bearer tokens for push agents; only the SHA-256 of the token is stored
+export const ingestTokens = pgTable("ingest_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  serverId: varchar("server_id").references(() => servers.id, { onDelete: "cascade" }), // null = any server
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // first characters, shown to tell tokens apart
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const syntheticCheckTypes = ["http", "tcp", "dns", "tls"] as const;
+export const syntheticCheckStatuses = ["up", "degraded", "down"] as const;
+export const dnsRecordTypes = ["A", "AAAA", "CNAME", "MX", "TXT", "NS"] as const;
+
+// Probes run from the dashboard host; without a server the check targets an external endpoint
+export const syntheticChecks = pgTable("synthetic_checks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // http, tcp, dns, tls
+  serverId: varchar("server_id").references(() => servers.id, { onDelete: "cascade" }),
+  config: jsonb("config").notNull().default({}), // http: { url, ... }, tcp: { host, port }, dns: { hostname, recordType }, tls: { host, port }
+  intervalSeconds: integer("interval_seconds").notNull().default(60),
+  timeoutMs: integer("timeout_ms").notNull().default(10000),
+  failureThreshold: integer("failure_threshold").notNull().default(2), // consecutive failures before alerting
+  severity: text("severity").notNull().default("critical"), // alert severity when down; degraded alerts are warnings
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const syntheticCheckResults = pgTable("synthetic_check_results", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkId: varchar("check_id").notNull().references(() => syntheticChecks.id, { onDelete: "cascade" }),
+  status: text("status").notNull(), // up, degraded, down
+  latencyMs: integer("latency_ms"),
+  statusCode: integer("status_code"), // HTTP only
+  certificateExpiresAt: timestamp("certificate_expires_at"), // TLS and HTTPS
+  message: text("message"),
+  checkedAt: timestamp("checked_at").notNull().default(sql`now()`),
+}, (table) => [index("IDX_check_results_check_checked_at").on(table.checkId, table.checkedAt)]);
+
+// Hourly availability folded from 5-minute slots: a slot is observed when it has a metrics
+// sample or a check result, and down when the server was offline or one of its checks was down
+export const serverAvailability1h = pgTable("server_availability_1h", {
   serverId: varchar("server_id").notNull().references(() => servers.id, { onDelete: "cascade" }),
-  alertType: text("alert_type").notNull(), // cpu, memory, disk, offline
+  bucket: timestamp("bucket").notNull(),
+  observedSlots: integer("observed_slots").notNull(),
+  downSlots: integer("down_slots").notNull(),
+}, (table) => [primaryKey({ columns: [table.serverId, table.bucket] })]);
+
+export const sloScopes = ["server", "environment"] as const;
+export const sloWindows = ["7d", "30d", "quarter"] as const;
+
+export const slos = pgTable("slos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  scopeType: text("scope_type").notNull().default("server"), // server, environment
+  scopeValue: text("scope_value").notNull(), // server id or environment name
+  targetPercent: decimal("target_percent", { precision: 6, scale: 3 }).notNull(), // e.g. 99.9
+  window: text("window").notNull().default("30d"), // 7d, 30d (rolling) or quarter (calendar)
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const maintenanceScopes = ["server", "tag", "environment", "stack"] as const;
+export const maintenanceModes = ["suppress", "mark"] as const;
+export const maintenanceWindowActions = ["created", "updated", "deleted"] as const;
+
+// Maximum length of one recurring occurrence, one week
+export const MAX_MAINTENANCE_DURATION_MINUTES = 7 * 24 * 60;
+
+export const maintenanceWindows = pgTable("maintenance_windows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  reason: text("reason"),
+  scopeType: text("scope_type").notNull(), // server, tag, environment, stack
+  scopeValue: text("scope_value").notNull(), // server id, tag, environment name or container stack id
+  mode: text("mode").notNull().default("suppress"), // suppress: no alerts; mark: alerts recorded as in maintenance, not notified
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at"), // end of a one-off window; optional last day of a recurring one
+  recurrence: text("recurrence"), // cron expression in UTC, null for one-off windows
+  durationMinutes: integer("duration_minutes"), // length of each recurring occurrence
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Audit trail of window changes; not tied to the window row so deletions stay on record
+export const maintenanceWindowEvents = pgTable("maintenance_window_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  windowId: varchar("window_id").notNull(),
+  windowName: text("window_name").notNull(),
+  action: text("action").notNull(), // created, updated, deleted
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  actorName: text("actor_name").notNull(),
+  details: jsonb("details"), // window as saved; null on delete
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const alertRuleMetrics = ["cpu", "memory", "disk", "networkIn", "networkOut"] as const;
+export const alertRuleOperators = ["gt", "gte", "lt", "lte"] as const;
+export const alertRuleScopes = ["global", "environment", "serverType", "tag", "server"] as const;
+export const alertSeverities = ["info", "warning", "critical"] as const;
+
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  metric: text("metric").notNull(), // cpu, memory, disk, networkIn, networkOut
+  operator: text("operator").notNull().default("gt"), // gt, gte, lt, lte
+  threshold: decimal("threshold", { precision: 12, scale: 2 }).notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(0),
+  severity: text("severity").notNull().default("warning"), // info, warning, critical
+  hysteresis: decimal("hysteresis", { precision: 12, scale: 2 }).notNull().default("0"),
+  scopeType: text("scope_type").notNull().default("global"), // global, environment, serverType, tag, server
+  scopeValue: text("scope_value"),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const correlationGroupings = ["time_window", "tag", "environment", "dependency"] as const;
+export const incidentStatuses = ["open", "investigating", "mitigated", "resolved"] as const;
+export const incidentEventTypes = ["created", "alert_attached", "alert_repeated", "status_changed", "commander_changed", "note", "postmortem_updated"] as const;
+
+// How new alerts are grouped into incidents; rules are tried oldest first
+export const correlationRules = pgTable("correlation_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  groupBy: text("group_by").notNull(), // time_window, tag, environment, dependency
+  windowMinutes: integer("window_minutes").notNull().default(10), // alerts further apart than this are not grouped
+  minAlerts: integer("min_alerts").notNull().default(2), // related open alerts needed to open an incident
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const incidents = pgTable("incidents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  status: text("status").notNull().default("open"), // open, investigating, mitigated, resolved
+  severity: text("severity").notNull(), // highest severity among attached alerts
+  commanderId: varchar("commander_id").references(() => users.id, { onDelete: "set null" }),
+  correlationRuleId: varchar("correlation_rule_id").references(() => correlationRules.id, { onDelete: "set null" }),
+  groupKey: text("group_key"), // what the rule grouped on: tag, environment or root server id
+  postmortem: text("postmortem"),
+  lastAlertAt: timestamp("last_alert_at").notNull().default(sql`now()`), // the correlation window counts from here
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Incident timeline; actorName is kept so history survives user deletion
+export const incidentEvents = pgTable("incident_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  incidentId: varchar("incident_id").notNull().references(() => incidents.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(), // created, alert_attached, alert_repeated, status_changed, commander_changed, note, postmortem_updated
+  alertId: varchar("alert_id").references((): AnyPgColumn => alerts.id, { onDelete: "set null" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  actorName: text("actor_name"),
+  message: text("message"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [index("IDX_incident_events_incident_created_at").on(table.incidentId, table.createdAt)]);
+
+export const alerts = pgTable("alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serverId: varchar("server_id").references(() => servers.id, { onDelete: "cascade" }), // null for standalone checks
+  ruleId: varchar("rule_id").references(() => alertRules.id, { onDelete: "set null" }),
+  checkId: varchar("check_id").references(() => syntheticChecks.id, { onDelete: "cascade" }),
+  alertType: text("alert_type").notNull(), // cpu, memory, disk, networkIn, networkOut, offline, check, disk_forecast, memory_forecast, anomaly, log
+  metric: text("metric"), // metric an anomaly alert refers to, or the file of a log alert
+  maintenanceWindowId: varchar("maintenance_window_id").references(() => maintenanceWindows.id, { onDelete: "set null" }), // raised during a "mark" window
   severity: text("severity").notNull(), // info, warning, critical
   message: text("message").notNull(),
-  threshold: decimal("threshold", { precision: 5, scale: 2 }),
-  currentValue: decimal("current_value", { precision: 5, scale: 2 }),
+  threshold: decimal("threshold", { precision: 12, scale: 2 }),
+  currentValue: decimal("current_value", { precision: 12, scale: 2 }),
   isResolved: boolean("is_resolved").notNull().default(false),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id, { onDelete: "set null" }),
+  snoozedUntil: timestamp("snoozed_until"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }), // null when auto-resolved
+  escalationStep: integer("escalation_step").notNull().default(0), // escalation policy steps already notified
+  escalationStartedAt: timestamp("escalation_started_at").notNull().default(sql`now()`), // step delays count from here; reset on reopen
+  incidentId: varchar("incident_id").references(() => incidents.id, { onDelete: "set null" }),
+  occurrences: integer("occurrences").notNull().default(1), // repeats within an open incident are counted here instead of raised again
+});
+
+export const alertEventTypes = ["created", "acknowledged", "snoozed", "resolved", "reopened", "repeated", "comment", "escalated"] as const;
+
+// Lifecycle timeline for each alert; actorName is kept so history survives user deletion
+export const alertEvents = pgTable("alert_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alertId: varchar("alert_id").notNull().references(() => alerts.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(), // created, acknowledged, snoozed, resolved, reopened, repeated, comment, escalated
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  actorName: text("actor_name"), // null for system events
+  message: text("message"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const onCallRotations = ["daily", "weekly", "custom"] as const;
+export const escalationScopes = ["global", "environment", "serverType", "tag"] as const;
+export const escalationTargetTypes = ["schedule", "user", "channel"] as const;
+export const MAX_ESCALATION_STEPS = 10;
+
+export const onCallSchedules = pgTable("on_call_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  rotation: text("rotation").notNull().default("weekly"), // daily, weekly, custom
+  shiftHours: integer("shift_hours"), // custom rotations only
+  handoffAt: timestamp("handoff_at").notNull(), // start of the first shift; later shifts follow back to back
+  participants: jsonb("participants").notNull().default([]), // user ids in rotation order
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Temporary replacement of whoever the rotation puts on call
+export const onCallOverrides = pgTable("on_call_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").notNull().references(() => onCallSchedules.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  scopeType: text("scope_type").notNull(), // global, environment, serverType, tag
+  scopeValue: text("scope_value"), // null for global policies, which also cover alerts without a server
+  severities: jsonb("severities").notNull().default(["critical"]),
+  steps: jsonb("steps").notNull().default([]), // [{ delayMinutes, targetType, targetId }], delays count from the alert
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const notificationChannelTypes = ["email", "webhook", "slack", "mattermost", "teams"] as const;
+
+export const notificationChannels = pgTable("notification_channels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // email, webhook, slack, mattermost, teams
+  config: jsonb("config").notNull().default({}), // email: { to }, webhook: { url, secret }, chat: { url }
+  severities: jsonb("severities").notNull().default(["info", "warning", "critical"]),
+  notifyOnResolve: boolean("notify_on_resolve").notNull().default(true),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channelId: varchar("channel_id").references(() => notificationChannels.id, { onDelete: "cascade" }), // null for escalations to a user
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // escalation recipient, notified by e-mail
+  alertId: varchar("alert_id").references(() => alerts.id, { onDelete: "set null" }),
+  event: text("event").notNull(), // triggered, resolved, reopened, escalated, test
+  status: text("status").notNull().default("pending"), // pending, success, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  deliveredAt: timestamp("delivered_at"),
 });
 
 export const sshSessions = pgTable("ssh_sessions", {
@@ -65,7 +380,12 @@ export const serverLogs = pgTable("server_logs", {
   originalLogPath: text("original_log_path"), // original log file path on server
   metadata: jsonb("metadata").default({}), // additional log context
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
-});
+}, (table) => [
+  index("IDX_server_logs_server_timestamp").on(table.serverId, table.timestamp),
+  index("IDX_server_logs_timestamp").on(table.timestamp),
+  // Full-text search; queries must use the same to_tsvector('simple', message) expression to hit it
+  index("IDX_server_logs_message_search").using("gin", sql`to_tsvector('simple', ${table.message})`),
+]);
 
 export const logMonitoringConfig = pgTable("log_monitoring_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -75,10 +395,101 @@ export const logMonitoringConfig = pgTable("log_monitoring_config", {
   isEnabled: boolean("is_enabled").notNull().default(true),
   filterPattern: text("filter_pattern"), // regex pattern for filtering
   alertOnError: boolean("alert_on_error").notNull().default(false),
+  // Shipper position: inode of the file being read and bytes already shipped from it
+  fileInode: text("file_inode"), // null until the file is first seen
+  fileOffset: bigint("file_offset", { mode: "number" }).notNull().default(0),
+  lastShippedAt: timestamp("last_shipped_at"),
+  lastError: text("last_error"), // last failure reading the file, cleared on success
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+export const logParserKinds = ["regex", "grok"] as const;
+
+// User-defined parsers turning raw lines of a logType into metadata fields; they replace a built-in parser of the same logType
+export const logParsers = pgTable("log_parsers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  logType: text("log_type").notNull().unique(),
+  kind: text("kind").notNull().default("regex"), // regex (named groups) or grok (%{PATTERN:field})
+  pattern: text("pattern").notNull(),
+  levelField: text("level_field"), // captured field holding the log level, if any
+  messageField: text("message_field"), // captured field to store as the message instead of the whole line
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Syslog sources that no server matched by IP or hostname; an admin assigns them to a server
+export const syslogSenders = pgTable("syslog_senders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  address: text("address").notNull(), // source IP of the datagram or connection
+  hostname: text("hostname").notNull().default(""), // HOSTNAME field of the messages, empty when absent
+  serverId: varchar("server_id").references(() => servers.id, { onDelete: "set null" }), // null while quarantined
+  messageCount: integer("message_count").notNull().default(0),
+  pendingMessages: jsonb("pending_messages").notNull().default([]), // latest messages held while quarantined
+  lastMessage: text("last_message"),
+  firstSeenAt: timestamp("first_seen_at").notNull().default(sql`now()`),
+  lastSeenAt: timestamp("last_seen_at").notNull().default(sql`now()`),
+}, (table) => [uniqueIndex("IDX_syslog_senders_address_hostname").on(table.address, table.hostname)]);
+
+export const logSearchRanges = ["15m", "1h", "6h", "24h", "7d", "30d"] as const;
+export const logSearchQualifiers = ["level", "source", "server"] as const;
+
+// Named log searches everyone can open; the query uses the same syntax as the search box
+export const savedLogSearches = pgTable("saved_log_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  query: text("query").notNull().default(""),
+  timeRange: text("time_range").notNull().default("24h"), // relative window ending now, see logSearchRanges
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const userRoles = ["viewer", "operator", "admin"] as const;
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  displayName: text("display_name"),
+  email: text("email"),
+  role: text("role").notNull().default("viewer"), // viewer, operator, admin
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const appThemes = ["light", "dark", "system"] as const;
+
+// Single-row table (id "global") holding the dashboard-wide preferences
+export const appSettings = pgTable("app_settings", {
+  id: varchar("id").primaryKey().default("global"),
+  refreshIntervalSeconds: integer("refresh_interval_seconds").notNull().default(30),
+  autoRefresh: boolean("auto_refresh").notNull().default(true),
+  theme: text("theme").notNull().default("light"), // light, dark, system
+  compactMode: boolean("compact_mode").notNull().default(false),
+  soundAlerts: boolean("sound_alerts").notNull().default(false),
+  sessionTimeoutMinutes: integer("session_timeout_minutes").notNull().default(60),
+  metricsRetentionDays: integer("metrics_retention_days").notNull().default(30), // raw samples
+  rollup5mRetentionDays: integer("rollup_5m_retention_days").notNull().default(90),
+  rollup1hRetentionDays: integer("rollup_1h_retention_days").notNull().default(730),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Session store table managed by connect-pg-simple
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: json("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("IDX_session_expire").on(table.expire)],
+);
+
 export const insertServerSchema = createInsertSchema(servers).omit({
   id: true,
   createdAt: true,
@@ -90,10 +501,440 @@ export const insertMetricsSchema = createInsertSchema(serverMetrics).omit({
   timestamp: true,
 });
 
+export const insertIngestTokenSchema = createInsertSchema(ingestTokens, {
+  name: z.string().trim().min(1).max(100),
+}).pick({
+  name: true,
+  serverId: true,
+});
+
+export const httpCheckConfigSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), { message: "Only http and https URLs are supported" }),
+  method: z.enum(["GET", "HEAD", "POST"]).default("GET"),
+  // Any 2xx/3xx when omitted
+  expectedStatus: z.array(z.number().int().min(100).max(599)).min(1).optional(),
+  // Plain substring the response body must contain
+  bodyMatch: z.string().min(1).max(500).optional(),
+  // Slower responses are reported as degraded
+  maxLatencyMs: z.number().int().positive().optional(),
+  // Accept self-signed or otherwise unverifiable certificates
+  allowInsecureTls: z.boolean().default(false),
+});
+
+// host falls back to the attached server's IP
+export const tcpCheckConfigSchema = z.object({
+  host: z.string().min(1).optional(),
+  port: z.number().int().min(1).max(65535),
+});
+
+export const dnsCheckConfigSchema = z.object({
+  hostname: z.string().min(1),
+  recordType: z.enum(dnsRecordTypes).default("A"),
+  // One of the returned records must equal this value
+  expectedValue: z.string().min(1).optional(),
+  // Resolver to ask instead of the system one
+  nameserver: z.string().ip().optional(),
+});
+
+export const tlsCheckConfigSchema = z.object({
+  host: z.string().min(1).optional(),
+  port: z.number().int().min(1).max(65535).default(443),
+  // SNI name, defaults to host
+  servername: z.string().min(1).optional(),
+  // Degraded once the certificate expires within this many days
+  warningDays: z.number().int().min(1).max(365).default(14),
+  allowUntrusted: z.boolean().default(false),
+});
+
+const syntheticCheckConfigSchemas: Record<typeof syntheticCheckTypes[number], z.ZodTypeAny> = {
+  http: httpCheckConfigSchema,
+  tcp: tcpCheckConfigSchema,
+  dns: dnsCheckConfigSchema,
+  tls: tlsCheckConfigSchema,
+};
+
+const syntheticCheckFieldsSchema = createInsertSchema(syntheticChecks, {
+  name: z.string().trim().min(1).max(100),
+  type: z.enum(syntheticCheckTypes),
+  config: z.record(z.unknown()),
+  intervalSeconds: z.number().int().min(10).max(86400).default(60),
+  timeoutMs: z.number().int().min(100).max(60000).default(10000),
+  failureThreshold: z.number().int().min(1).max(20).default(2),
+  severity: z.enum(alertSeverities).default("critical"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSyntheticCheckSchema = syntheticCheckFieldsSchema.superRefine((check, ctx) => {
+  const result = syntheticCheckConfigSchemas[check.type].safeParse(check.config);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ["config", ...issue.path] });
+    }
+    return;
+  }
+  if ((check.type === "tcp" || check.type === "tls") && !result.data.host && !check.serverId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["config", "host"], message: "host is required for standalone checks" });
+  }
+}).transform(check => ({ ...check, config: syntheticCheckConfigSchemas[check.type].parse(check.config) }));
+
+export const updateSyntheticCheckSchema = syntheticCheckFieldsSchema.partial();
+
+const sloFieldsSchema = createInsertSchema(slos, {
+  name: z.string().trim().min(1).max(100),
+  scopeType: z.enum(sloScopes).default("server"),
+  scopeValue: z.string().min(1),
+  targetPercent: z.coerce.number().gt(0).lt(100).transform(String),
+  window: z.enum(sloWindows).default("30d"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSloSchema = sloFieldsSchema;
+export const updateSloSchema = sloFieldsSchema.partial();
+
+const maintenanceWindowFieldsSchema = createInsertSchema(maintenanceWindows, {
+  name: z.string().trim().min(1).max(100),
+  reason: z.string().trim().max(500).nullable().optional(),
+  scopeType: z.enum(maintenanceScopes),
+  scopeValue: z.string().trim().min(1),
+  mode: z.enum(maintenanceModes).default("suppress"),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().nullable().optional(),
+  recurrence: z.string().trim().min(1).nullable().optional(),
+  durationMinutes: z.number().int().min(1).max(MAX_MAINTENANCE_DURATION_MINUTES).nullable().optional(),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// The cron expression itself is checked by the server's parser
+export const insertMaintenanceWindowSchema = maintenanceWindowFieldsSchema.superRefine((window, ctx) => {
+  if (window.recurrence) {
+    if (!window.durationMinutes) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["durationMinutes"], message: "durationMinutes is required for recurring windows" });
+    }
+  } else if (!window.endsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "endsAt is required for one-off windows" });
+  }
+  if (window.endsAt && window.endsAt <= window.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "endsAt must be after startsAt" });
+  }
+});
+
+export const updateMaintenanceWindowSchema = maintenanceWindowFieldsSchema.partial();
+
+export const availabilityQuerySchema = z.object({
+  window: z.enum(sloWindows).default("30d"),
+});
+
+// Monthly report; `month` is YYYY-MM in UTC and defaults to the current month
+export const availabilityReportQuerySchema = z.object({
+  environment: z.string().min(1),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).optional(),
+});
+
+export const checkResultsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const CUSTOM_METRIC_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.:]{0,127}$/;
+export const METRIC_LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+export const MAX_INGEST_BATCH_SAMPLES = 1000;
+const MAX_CUSTOM_METRICS_PER_SAMPLE = 100;
+const MAX_METRIC_LABELS = 10;
+
+export const metricLabelsSchema = z.record(z.string().regex(METRIC_LABEL_NAME_PATTERN), z.string().max(256))
+  .refine(labels => Object.keys(labels).length <= MAX_METRIC_LABELS, {
+    message: `At most ${MAX_METRIC_LABELS} labels per series`,
+  });
+
+export const customMetricPointSchema = z.object({
+  name: z.string().regex(CUSTOM_METRIC_NAME_PATTERN),
+  labels: metricLabelsSchema.optional(),
+  value: z.number().finite(),
+});
+
+const percentageSchema = z.number().finite().min(0).max(100);
+
+// One pushed sample; networkIn/networkOut are KB/s and uptime is seconds, as in server_metrics
+export const ingestSampleSchema = z.object({
+  serverId: z.string().min(1).optional(),
+  // Unix seconds (fractions allowed) or an ISO 8601 string
+  timestamp: z.union([
+    z.number().finite().positive().transform(seconds => new Date(seconds * 1000)),
+    z.string().datetime({ offset: true }).transform(value => new Date(value)),
+  ]),
+  cpu: percentageSchema.optional(),
+  memory: percentageSchema.optional(),
+  disk: percentageSchema.optional(),
+  networkIn: z.number().finite().min(0).optional(),
+  networkOut: z.number().finite().min(0).optional(),
+  uptime: z.number().finite().min(0).optional(),
+  // Unlabeled shorthand: { "queue.depth": 4 }
+  metrics: z.record(z.string().regex(CUSTOM_METRIC_NAME_PATTERN), z.number().finite()).optional(),
+  // Labeled points: [{ name: "disk.used_percent", labels: { mount: "/var" }, value: 71 }]
+  series: z.array(customMetricPointSchema).optional(),
+}).refine(sample => Object.keys(sample.metrics ?? {}).length + (sample.series?.length ?? 0) <= MAX_CUSTOM_METRICS_PER_SAMPLE, {
+  message: `At most ${MAX_CUSTOM_METRICS_PER_SAMPLE} custom metrics per sample`,
+});
+
+export const ingestBatchSchema = z.object({
+  samples: z.array(ingestSampleSchema).min(1).max(MAX_INGEST_BATCH_SAMPLES),
+});
+
 export const insertAlertSchema = createInsertSchema(alerts).omit({
   id: true,
+  acknowledgedAt: true,
+  acknowledgedBy: true,
+  snoozedUntil: true,
   createdAt: true,
   resolvedAt: true,
+  resolvedBy: true,
+  escalationStep: true,
+  escalationStartedAt: true,
+  incidentId: true,
+});
+
+export const alertCommentSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+});
+
+export const snoozeAlertSchema = z.object({
+  minutes: z.coerce.number().int().min(1).max(7 * 24 * 60),
+});
+
+export const alertBulkActions = ["acknowledge", "snooze", "resolve", "reopen"] as const;
+
+export const bulkAlertActionSchema = z
+  .object({
+    ids: z.array(z.string()).min(1).max(200),
+    action: z.enum(alertBulkActions),
+    minutes: snoozeAlertSchema.shape.minutes.optional(),
+  })
+  .refine(payload => payload.action !== "snooze" || payload.minutes !== undefined, {
+    message: "minutes is required to snooze",
+    path: ["minutes"],
+  });
+
+const alertRuleFieldsSchema = createInsertSchema(alertRules, {
+  name: z.string().min(1),
+  metric: z.enum(alertRuleMetrics),
+  operator: z.enum(alertRuleOperators).default("gt"),
+  threshold: z.coerce.number().transform(String),
+  durationMinutes: z.coerce.number().int().min(0).max(1440).default(0),
+  severity: z.enum(alertSeverities).default("warning"),
+  hysteresis: z.coerce.number().min(0).default(0).transform(String),
+  scopeType: z.enum(alertRuleScopes).default("global"),
+})
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  });
+
+export const insertAlertRuleSchema = alertRuleFieldsSchema.refine(
+  rule => rule.scopeType === "global" || !!rule.scopeValue,
+  { message: "scopeValue is required unless the rule is global", path: ["scopeValue"] },
+);
+
+export const updateAlertRuleSchema = alertRuleFieldsSchema.partial();
+
+export const emailChannelConfigSchema = z.object({
+  to: z.array(z.string().email()).min(1),
+});
+
+export const webhookChannelConfigSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16),
+});
+
+export const chatChannelConfigSchema = z.object({
+  url: z.string().url(),
+});
+
+const notificationChannelConfigSchemas: Record<typeof notificationChannelTypes[number], z.ZodTypeAny> = {
+  email: emailChannelConfigSchema,
+  webhook: webhookChannelConfigSchema,
+  slack: chatChannelConfigSchema,
+  mattermost: chatChannelConfigSchema,
+  teams: chatChannelConfigSchema,
+};
+
+const notificationChannelFieldsSchema = createInsertSchema(notificationChannels, {
+  name: z.string().min(1),
+  type: z.enum(notificationChannelTypes),
+  config: z.record(z.unknown()),
+  severities: z.array(z.enum(alertSeverities)).min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationChannelSchema = notificationChannelFieldsSchema.superRefine((channel, ctx) => {
+  const result = notificationChannelConfigSchemas[channel.type].safeParse(channel.config);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ["config", ...issue.path] });
+    }
+  }
+});
+
+export const updateNotificationChannelSchema = notificationChannelFieldsSchema.partial();
+
+const onCallScheduleFieldsSchema = createInsertSchema(onCallSchedules, {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  rotation: z.enum(onCallRotations).default("weekly"),
+  shiftHours: z.number().int().min(1).max(24 * 28).nullable().optional(),
+  handoffAt: z.coerce.date(),
+  participants: z.array(z.string().min(1)).min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOnCallScheduleSchema = onCallScheduleFieldsSchema.superRefine((schedule, ctx) => {
+  if (schedule.rotation === "custom" && !schedule.shiftHours) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["shiftHours"], message: "shiftHours is required for custom rotations" });
+  }
+  if (new Set(schedule.participants).size !== schedule.participants.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["participants"], message: "participants must not repeat" });
+  }
+});
+
+export const updateOnCallScheduleSchema = onCallScheduleFieldsSchema.partial();
+
+export const insertOnCallOverrideSchema = createInsertSchema(onCallOverrides, {
+  userId: z.string().min(1),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().trim().max(500).nullable().optional(),
+}).omit({
+  id: true,
+  scheduleId: true,
+  createdBy: true,
+  createdAt: true,
+}).refine(override => override.endsAt > override.startsAt, {
+  message: "endsAt must be after startsAt",
+  path: ["endsAt"],
+});
+
+export const escalationStepSchema = z.object({
+  delayMinutes: z.number().int().min(0).max(24 * 60),
+  targetType: z.enum(escalationTargetTypes),
+  targetId: z.string().min(1),
+});
+
+const escalationPolicyFieldsSchema = createInsertSchema(escalationPolicies, {
+  name: z.string().trim().min(1).max(100),
+  scopeType: z.enum(escalationScopes),
+  scopeValue: z.string().trim().min(1).nullable().optional(),
+  severities: z.array(z.enum(alertSeverities)).min(1),
+  steps: z.array(escalationStepSchema).min(1).max(MAX_ESCALATION_STEPS),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Targets are checked against stored schedules, users and channels by the routes
+export const insertEscalationPolicySchema = escalationPolicyFieldsSchema.superRefine((policy, ctx) => {
+  if (policy.scopeType !== "global" && !policy.scopeValue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scopeValue"], message: "scopeValue is required unless the policy is global" });
+  }
+  policy.steps.forEach((step, index) => {
+    if (index > 0 && step.delayMinutes < policy.steps[index - 1].delayMinutes) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps", index, "delayMinutes"], message: "Step delays must not decrease" });
+    }
+  });
+});
+
+export const updateEscalationPolicySchema = escalationPolicyFieldsSchema.partial();
+
+export const insertCorrelationRuleSchema = createInsertSchema(correlationRules, {
+  name: z.string().trim().min(1).max(100),
+  groupBy: z.enum(correlationGroupings),
+  windowMinutes: z.number().int().min(1).max(24 * 60),
+  minAlerts: z.number().int().min(2).max(100),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateCorrelationRuleSchema = insertCorrelationRuleSchema.partial();
+
+// Incidents are opened by correlation; people only triage and document them
+export const updateIncidentSchema = createInsertSchema(incidents, {
+  title: z.string().trim().min(1).max(200),
+  status: z.enum(incidentStatuses),
+  commanderId: z.string().min(1).nullable(),
+  postmortem: z.string().max(20000).nullable(),
+}).pick({
+  title: true,
+  status: true,
+  commanderId: true,
+  postmortem: true,
+}).partial();
+
+export const incidentNoteSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+});
+
+export const insertLogParserSchema = createInsertSchema(logParsers, {
+  name: z.string().trim().min(1).max(100),
+  logType: z.string().trim().toLowerCase().min(1).max(50),
+  kind: z.enum(logParserKinds),
+  pattern: z.string().min(1).max(4000),
+  levelField: z.string().trim().min(1).max(50).nullable().optional(),
+  messageField: z.string().trim().min(1).max(50).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateLogParserSchema = insertLogParserSchema.partial();
+
+export const logParserPreviewSchema = insertLogParserSchema.extend({
+  sample: z.string().min(1).max(10000),
+});
+
+// Comparisons accepted on parsed metadata fields, e.g. status>=500 or path~^/api
+export const logFieldOperators = [">=", "<=", "!=", "=", ">", "<", "~"] as const;
+
+// Either a relative range or explicit from/to; to defaults to now
+export const logSearchQuerySchema = z.object({
+  q: z.string().max(1000).default(""),
+  range: z.enum(logSearchRanges).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const insertSavedLogSearchSchema = createInsertSchema(savedLogSearches, {
+  name: z.string().trim().min(1).max(100),
+  query: z.string().max(1000),
+  timeRange: z.enum(logSearchRanges),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export const assignSyslogSenderSchema = z.object({
+  serverId: z.string().min(1),
 });
 
 export const insertSshSessionSchema = createInsertSchema(sshSessions).omit({
@@ -107,24 +948,311 @@ export const insertServerLogSchema = createInsertSchema(serverLogs).omit({
   timestamp: true,
 });
 
-export const insertLogMonitoringConfigSchema = createInsertSchema(logMonitoringConfig).omit({
+export const insertLogMonitoringConfigSchema = createInsertSchema(logMonitoringConfig, {
+  logPath: z.string().trim().min(1).refine(path => path.startsWith("/"), { message: "logPath must be an absolute path" }),
+  filterPattern: z.string().nullable().optional().refine(pattern => {
+    if (!pattern) return true;
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: "filterPattern must be a valid regular expression" }),
+}).omit({
   id: true,
+  fileInode: true,
+  fileOffset: true,
+  lastShippedAt: true,
+  lastError: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const appSettingsSchema = createInsertSchema(appSettings, {
+  refreshIntervalSeconds: z.number().int().min(5).max(3600),
+  theme: z.enum(appThemes),
+  sessionTimeoutMinutes: z.number().int().min(5).max(1440),
+  metricsRetentionDays: z.number().int().min(1).max(3650),
+  rollup5mRetentionDays: z.number().int().min(1).max(3650),
+  rollup1hRetentionDays: z.number().int().min(1).max(3650),
+}).omit({
+  id: true,
+  updatedAt: true,
+  updatedBy: true,
+});
+
+export const updateAppSettingsSchema = appSettingsSchema.partial();
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().min(3).max(64),
+  role: z.enum(userRoles),
+})
+  .omit({
+    id: true,
+    passwordHash: true,
+    lastLoginAt: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    password: z.string().min(8),
+  });
+
+export const updateUserSchema = insertUserSchema.partial();
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
 export type InsertServer = z.infer<typeof insertServerSchema>;
 export type Server = typeof servers.$inferSelect;
 export type InsertMetrics = z.infer<typeof insertMetricsSchema>;
 export type ServerMetrics = typeof serverMetrics.$inferSelect;
+// Metrics row with an explicit sample time, as written by the ingestion API
+export type InsertTimedMetrics = InsertMetrics & { timestamp: Date };
+export type ServerCustomMetric = typeof serverCustomMetrics.$inferSelect;
+// labelsKey is derived from labels by storage
+export type InsertServerCustomMetric = Omit<typeof serverCustomMetrics.$inferInsert, "id" | "labelsKey">;
+export type IngestToken = typeof ingestTokens.$inferSelect;
+export type InsertIngestToken = z.infer<typeof insertIngestTokenSchema>;
+export type InsertIngestTokenRecord = typeof ingestTokens.$inferInsert;
+// Listing shape; the hash never leaves the server
+export type PublicIngestToken = Omit<IngestToken, "tokenHash">;
+export type MetricLabels = z.infer<typeof metricLabelsSchema>;
+export type CustomMetricPoint = z.infer<typeof customMetricPointSchema>;
+export type IngestSample = z.infer<typeof ingestSampleSchema>;
+export type IngestBatch = z.infer<typeof ingestBatchSchema>;
+export type IngestSkipReason = "duplicate" | "out_of_order" | "future";
+export type IngestResult = {
+  accepted: number;
+  customMetrics: number;
+  skipped: Array<{ index: number; serverId: string; timestamp: string; reason: IngestSkipReason }>;
+};
+export type SyntheticCheckType = typeof syntheticCheckTypes[number];
+export type SyntheticCheckStatus = typeof syntheticCheckStatuses[number];
+export type HttpCheckConfig = z.infer<typeof httpCheckConfigSchema>;
+export type TcpCheckConfig = z.infer<typeof tcpCheckConfigSchema>;
+export type DnsCheckConfig = z.infer<typeof dnsCheckConfigSchema>;
+export type TlsCheckConfig = z.infer<typeof tlsCheckConfigSchema>;
+export type SyntheticCheck = typeof syntheticChecks.$inferSelect;
+export type InsertSyntheticCheck = z.infer<typeof insertSyntheticCheckSchema>;
+export type UpdateSyntheticCheck = z.infer<typeof updateSyntheticCheckSchema>;
+export type SyntheticCheckResult = typeof syntheticCheckResults.$inferSelect;
+export type InsertSyntheticCheckResult = Omit<typeof syntheticCheckResults.$inferInsert, "id">;
+export type SyntheticCheckWithStatus = SyntheticCheck & { latestResult: SyntheticCheckResult | null };
+export type CheckResultsQuery = z.infer<typeof checkResultsQuerySchema>;
+export type SloScope = typeof sloScopes[number];
+export type SloWindow = typeof sloWindows[number];
+export type Slo = typeof slos.$inferSelect;
+export type InsertSlo = z.infer<typeof insertSloSchema>;
+export type UpdateSlo = z.infer<typeof updateSloSchema>;
+export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>;
+export type AvailabilityReportQuery = z.infer<typeof availabilityReportQuerySchema>;
+// Slot counts for one server over a period
+export type AvailabilityTotals = { serverId: string; observedSlots: number; downSlots: number };
+export type AvailabilitySummary = {
+  availability: number | null; // percent of observed time up; null without data
+  observedMinutes: number;
+  downtimeMinutes: number;
+  coverage: number; // percent of the period with data
+};
+export type ServerAvailability = AvailabilitySummary & { serverId: string };
+export type AvailabilityResponse = { window: SloWindow; from: string; to: string; servers: ServerAvailability[] };
+export type SloBurnWindow = "1h" | "6h" | "24h";
+export type SloHealth = "healthy" | "at_risk" | "breached" | "no_data";
+export type SloStatus = Slo & AvailabilitySummary & {
+  from: string;
+  to: string;
+  errorBudgetMinutes: number; // downtime the target allows over the observed time
+  errorBudgetRemaining: number | null; // percent of the budget left; negative once exceeded
+  // Error rate over each recent window divided by the rate the target allows (1 = on budget)
+  burnRates: Record<SloBurnWindow, number | null>;
+  health: SloHealth;
+};
+export type AvailabilityReport = {
+  environment: string;
+  month: string;
+  from: string;
+  to: string;
+  summary: AvailabilitySummary;
+  servers: (ServerAvailability & { name: string; hostname: string })[];
+  slos: SloStatus[];
+};
 export type InsertAlert = z.infer<typeof insertAlertSchema>;
 export type Alert = typeof alerts.$inferSelect;
+export type AlertEventType = typeof alertEventTypes[number];
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type AlertCommentInput = z.infer<typeof alertCommentSchema>;
+export type SnoozeAlertInput = z.infer<typeof snoozeAlertSchema>;
+export type BulkAlertAction = z.infer<typeof bulkAlertActionSchema>;
+// Who performed a lifecycle action; omitted for automatic transitions
+export type AlertActor = { id: string; name: string };
+export type MaintenanceScope = typeof maintenanceScopes[number];
+export type MaintenanceMode = typeof maintenanceModes[number];
+export type MaintenanceWindowAction = typeof maintenanceWindowActions[number];
+export type MaintenanceWindow = typeof maintenanceWindows.$inferSelect;
+export type InsertMaintenanceWindow = z.infer<typeof insertMaintenanceWindowSchema>;
+export type UpdateMaintenanceWindow = z.infer<typeof updateMaintenanceWindowSchema>;
+export type MaintenanceWindowEvent = typeof maintenanceWindowEvents.$inferSelect;
+export type MaintenanceWindowStatus = MaintenanceWindow & {
+  active: boolean;
+  activeUntil: string | null; // end of the current occurrence
+  nextStartAt: string | null; // next occurrence within a year, null when none
+};
+// A server currently covered by a window; "suppress" wins when several apply
+export type ServerMaintenance = {
+  serverId: string;
+  windowId: string;
+  name: string;
+  mode: MaintenanceMode;
+  until: string;
+};
+export type OnCallRotation = typeof onCallRotations[number];
+export type OnCallSchedule = typeof onCallSchedules.$inferSelect;
+export type InsertOnCallSchedule = z.infer<typeof insertOnCallScheduleSchema>;
+export type UpdateOnCallSchedule = z.infer<typeof updateOnCallScheduleSchema>;
+export type OnCallOverride = typeof onCallOverrides.$inferSelect;
+export type InsertOnCallOverride = z.infer<typeof insertOnCallOverrideSchema> & { scheduleId: string; createdBy?: string | null };
+// One stretch of on-call duty; overrideId is set when an override replaces the rotation
+export type OnCallShift = {
+  userId: string;
+  startsAt: string;
+  endsAt: string;
+  overrideId: string | null;
+};
+export type OnCallScheduleStatus = OnCallSchedule & {
+  current: OnCallShift | null; // null before the first handoff
+  next: OnCallShift | null;
+  overrides: OnCallOverride[]; // current and upcoming only
+};
+// Users that can be put on call; e-mail is the only way escalations reach a person
+export type OnCallUser = { id: string; name: string; hasEmail: boolean };
+export type EscalationScope = typeof escalationScopes[number];
+export type EscalationTargetType = typeof escalationTargetTypes[number];
+export type EscalationStep = z.infer<typeof escalationStepSchema>;
+export type EscalationPolicy = typeof escalationPolicies.$inferSelect;
+export type InsertEscalationPolicy = z.infer<typeof insertEscalationPolicySchema>;
+export type UpdateEscalationPolicy = z.infer<typeof updateEscalationPolicySchema>;
+export type CorrelationGrouping = typeof correlationGroupings[number];
+export type CorrelationRule = typeof correlationRules.$inferSelect;
+export type InsertCorrelationRule = z.infer<typeof insertCorrelationRuleSchema>;
+export type UpdateCorrelationRule = z.infer<typeof updateCorrelationRuleSchema>;
+export type IncidentStatus = typeof incidentStatuses[number];
+export type Incident = typeof incidents.$inferSelect;
+export type InsertIncidentRecord = typeof incidents.$inferInsert;
+export type UpdateIncident = z.infer<typeof updateIncidentSchema>;
+export type IncidentNoteInput = z.infer<typeof incidentNoteSchema>;
+export type IncidentEventType = typeof incidentEventTypes[number];
+export type IncidentEvent = typeof incidentEvents.$inferSelect;
+// Listing shape: the incident with every alert attached to it, oldest first
+export type IncidentWithAlerts = Incident & { alerts: Alert[] };
+export type AlertRuleMetric = typeof alertRuleMetrics[number];
+export type AlertRuleOperator = typeof alertRuleOperators[number];
+export type AlertRuleScope = typeof alertRuleScopes[number];
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type UpdateAlertRule = z.infer<typeof updateAlertRuleSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type NotificationChannelType = typeof notificationChannelTypes[number];
+export type InsertNotificationChannel = z.infer<typeof insertNotificationChannelSchema>;
+export type UpdateNotificationChannel = z.infer<typeof updateNotificationChannelSchema>;
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = typeof notificationDeliveries.$inferInsert;
+export type EmailChannelConfig = z.infer<typeof emailChannelConfigSchema>;
+export type WebhookChannelConfig = z.infer<typeof webhookChannelConfigSchema>;
+export type ChatChannelConfig = z.infer<typeof chatChannelConfigSchema>;
 export type InsertSshSession = z.infer<typeof insertSshSessionSchema>;
 export type SshSession = typeof sshSessions.$inferSelect;
-export type InsertServerLog = z.infer<typeof insertServerLogSchema>;
+// Shippers pass the time the line was written; without it the insert time is used
+export type InsertServerLog = z.infer<typeof insertServerLogSchema> & { timestamp?: Date };
 export type ServerLog = typeof serverLogs.$inferSelect;
 export type InsertLogMonitoringConfig = z.infer<typeof insertLogMonitoringConfigSchema>;
 export type LogMonitoringConfig = typeof logMonitoringConfig.$inferSelect;
+export type LogShipperPosition = Partial<Pick<LogMonitoringConfig, "fileInode" | "fileOffset" | "lastShippedAt" | "lastError">>;
+export type LogParserKind = typeof logParserKinds[number];
+export type LogParser = typeof logParsers.$inferSelect;
+export type InsertLogParser = z.infer<typeof insertLogParserSchema>;
+export type UpdateLogParser = z.infer<typeof updateLogParserSchema>;
+export type LogParserPreviewInput = z.infer<typeof logParserPreviewSchema>;
+export type LogFieldOperator = typeof logFieldOperators[number];
+export type LogFieldFilter = { field: string; operator: LogFieldOperator; value: string };
+// Live tail filters; levels are lowercase and text is a literal matched case-insensitively on the message or source
+export type LogTailQuery = { levels: string[] | null; text: string | null; fieldFilters: LogFieldFilter[] };
+
+// What a parser extracted from one line; level, source and message override the generic guesses
+export type ParsedLogFields = {
+  parser: string;
+  fields: Record<string, string | number>;
+  logLevel?: string;
+  logSource?: string;
+  message?: string;
+  timestamp?: Date; // when the line says it was written
+};
+
+export type BuiltInLogParser = {
+  logType: string;
+  name: string;
+  description: string;
+  fields: string[];
+};
+export type LogSearchRange = typeof logSearchRanges[number];
+export type LogSearchQualifierKey = typeof logSearchQualifiers[number];
+export type LogSearchQuery = z.infer<typeof logSearchQuerySchema>;
+// Free text; phrases come from quoted terms and negated ones from a leading "-"
+export type LogSearchTerm = { text: string; phrase: boolean; negated: boolean };
+// level:error,warning or server:web-prod-*; values are globs matched case-insensitively
+export type LogSearchQualifier = { key: LogSearchQualifierKey; values: string[]; negated: boolean };
+export type ParsedLogSearch = {
+  terms: LogSearchTerm[];
+  qualifiers: LogSearchQualifier[];
+  fieldFilters: LogFieldFilter[];
+};
+export type LogSearchHit = ServerLog & { serverName: string };
+export type LogHighlightSegment = { text: string; match: boolean };
+export type LogSearchResult = {
+  hits: Array<LogSearchHit & { highlight: LogHighlightSegment[] }>;
+  total: number;
+  page: number;
+  pageSize: number;
+  from: string;
+  to: string;
+};
+export type SavedLogSearch = typeof savedLogSearches.$inferSelect;
+export type InsertSavedLogSearch = z.infer<typeof insertSavedLogSearchSchema> & { createdBy?: string | null };
+export type SyslogSender = typeof syslogSenders.$inferSelect;
+export type AssignSyslogSender = z.infer<typeof assignSyslogSenderSchema>;
+
+// A parsed syslog message waiting in quarantine; becomes a server_logs row on assignment
+export type QuarantinedSyslogMessage = Pick<ServerLog, "logLevel" | "logSource" | "message"> & {
+  metadata: Record<string, unknown>;
+  receivedAt: string;
+};
+
+export type SyslogReceiverStatus = {
+  enabled: boolean;
+  port: number | null;
+  udp: boolean;
+  tcp: boolean;
+  received: number;
+  quarantined: number;
+  dropped: number;
+};
+
+export type UserRole = typeof userRoles[number];
+export type AppTheme = typeof appThemes[number];
+export type AppSettings = typeof appSettings.$inferSelect;
+export type UpdateAppSettings = z.infer<typeof updateAppSettingsSchema>;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type User = typeof users.$inferSelect;
+// Storage-level shape: the plain password is replaced by its hash before persisting
+export type InsertUserRecord = Omit<InsertUser, 'password'> & { passwordHash: string };
+export type LoginInput = z.infer<typeof loginSchema>;
+
+// Public user type that excludes the password hash
+export type PublicUser = Omit<User, 'passwordHash'>;
 
 // Public server type that excludes sensitive SSH credentials
 export type PublicServer = Omit<Server, 'sshPassword' | 'sshPrivateKey'>;
@@ -139,6 +1267,113 @@ export type PublicServerWithMetrics = PublicServer & {
   alerts?: Alert[];
 };
 
+export const metricNames = ["cpu", "memory", "disk", "networkIn", "networkOut"] as const;
+export const metricAggregations = ["avg", "min", "max", "p95"] as const;
+
+export type MetricName = typeof metricNames[number];
+export type MetricAggregation = typeof metricAggregations[number];
+
+export type MetricAggregate = Record<MetricAggregation, number | null>;
+
+// One time bucket; buckets without samples are kept with null aggregates
+export type MetricBucket = {
+  timestamp: string;
+  samples: number;
+} & Record<MetricName, MetricAggregate>;
+
+export const forecastMetrics = ["disk", "memory"] as const;
+
+export type ForecastMetric = typeof forecastMetrics[number];
+export type ForecastTrend = "growing" | "stable" | "insufficient_data";
+
+// Linear trend of one metric; saturation is when the fitted line reaches 100%
+export type MetricForecast = {
+  serverId: string;
+  metric: ForecastMetric;
+  from: string;
+  to: string;
+  samples: number; // buckets the fit used
+  current: number | null; // fitted value at `to`, percent
+  slopePerDay: number | null; // percentage points per day
+  r2: number | null; // goodness of fit, 0..1
+  trend: ForecastTrend;
+  saturationAt: string | null;
+  hoursToSaturation: number | null;
+};
+
+// Disk is left to capacity forecasting; it trends rather than follows a weekly pattern
+export const anomalyMetrics = ["cpu", "memory", "networkIn", "networkOut"] as const;
+
+export type AnomalyMetric = typeof anomalyMetrics[number];
+// seasonal: same hour and weekday; hourly: same hour of any day; rolling: whole lookback
+export type BaselineMethod = "seasonal" | "hourly" | "rolling";
+
+// Expected range of a metric at one point in time: mean ± k standard deviations
+export type BaselineBand = {
+  method: BaselineMethod;
+  expected: number;
+  lower: number;
+  upper: number;
+  samples: number; // hourly buckets behind the estimate
+};
+
+export type MetricBaselinePoint = { timestamp: string } & Record<AnomalyMetric, BaselineBand | null>;
+
+export type MetricBaselineSeries = {
+  serverId: string;
+  from: string;
+  to: string;
+  step: number;
+  points: MetricBaselinePoint[];
+};
+
+export const metricTiers = ["raw", "5m", "1h"] as const;
+export type MetricTier = typeof metricTiers[number];
+
+export type MetricsRange = {
+  from: Date;
+  to: Date;
+  stepSeconds: number;
+  // Storage tier the buckets are computed from; raw when omitted
+  tier?: MetricTier;
+};
+
+export type MetricSeries = {
+  serverId: string;
+  from: string;
+  to: string;
+  step: number;
+  tier: MetricTier;
+  buckets: MetricBucket[];
+};
+
+export type FleetMetricSeries = {
+  from: string;
+  to: string;
+  step: number;
+  tier: MetricTier;
+  // Every selected server's samples aggregated together
+  fleet: MetricBucket[];
+  servers: MetricSeries[];
+};
+
+export type CustomMetricBucket = { timestamp: string; samples: number } & MetricAggregate;
+
+// One label set of a custom metric
+export type CustomMetricSeries = {
+  labels: Record<string, string>;
+  buckets: CustomMetricBucket[];
+};
+
+export type CustomMetricSeriesResponse = {
+  serverId: string;
+  name: string;
+  from: string;
+  to: string;
+  step: number;
+  series: CustomMetricSeries[];
+};
+
 export type ContainerService = {
   name: string;
   image: string;
@@ -205,6 +1440,41 @@ export type TelemetryEvent = {
   recordedAt: Date;
 };
 
+export const metricsRangeQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  step: z.coerce.number().int().positive().optional(), // seconds
+});
+
+// `labels=mount=/var,fstype=ext4` keeps only series carrying all of those labels
+export const customMetricsQuerySchema = metricsRangeQuerySchema.extend({
+  name: z.string().regex(CUSTOM_METRIC_NAME_PATTERN),
+  labels: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      const labels: Record<string, string> = {};
+      for (const pair of value.split(",")) {
+        const [label, ...rest] = pair.split("=");
+        if (!METRIC_LABEL_NAME_PATTERN.test(label.trim()) || !rest.length) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid label filter: ${pair}` });
+          return z.NEVER;
+        }
+        labels[label.trim()] = rest.join("=");
+      }
+      return labels;
+    }),
+});
+
+export const fleetMetricsQuerySchema = metricsRangeQuerySchema.extend({
+  serverIds: z
+    .string()
+    .optional()
+    .transform(value => value?.split(",").map(id => id.trim()).filter(Boolean)),
+  environment: z.string().optional(),
+});
+
 export const containerActionSchema = z.object({
   action: z.enum(["up", "down", "restart", "pull"]),
   services: z.array(z.string()).optional(),
@@ -240,3 +1510,6 @@ export type ServiceActionInput = z.infer<typeof serviceActionSchema>;
 export type CreateBackupInput = z.infer<typeof createBackupSchema>;
 export type CreateLogExportInput = z.infer<typeof createLogExportSchema>;
 export type RecordTelemetryInput = z.infer<typeof recordTelemetryEventSchema>;
+export type MetricsRangeQuery = z.infer<typeof metricsRangeQuerySchema>;
+export type CustomMetricsQuery = z.infer<typeof customMetricsQuerySchema>;
+export type FleetMetricsQuery = z.infer<typeof fleetMetricsQuerySchema>;